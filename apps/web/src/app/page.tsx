@@ -6,15 +6,18 @@ import { useQuery } from "convex/react";
 import { api } from "@orbitbound/backend/convex/_generated/api";
 import { GameView } from "@/components/game/game-view";
 import { CreateGameModal } from "@/components/game/create-game-modal";
-import { useGameState, useLobbyActions, useAIActions } from "@/lib/game-hooks";
+import { ReplayView } from "@/components/game/replay-view";
+import { SpectatorView } from "@/components/game/spectator-view";
+import { LobbySettings } from "@/components/game/lobby-settings";
+import { useGameState, useLobbyActions, useAIActions, useWatchableGames, useSpectatorActions } from "@/lib/game-hooks";
 import { Button } from "@/components/ui/button";
 import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
 import {
   Loader2, Rocket, Users, Play, Plus, Bot, X, Cpu,
-  Clock, Map as MapIcon, LogOut, History
+  Clock, Map as MapIcon, LogOut, History, Film, Eye
 } from "lucide-react";
 import { toast } from "sonner";
-import type { FactionId } from "@/types/game";
+import type { FactionId, GameSettings, TurnMode, TurnTimer } from "@/types/game";
 
 export default function Home() {
   const { user, isLoaded: userLoaded } = useUser();
@@ -24,22 +27,44 @@ export default function Home() {
   const [isJoining, setIsJoining] = useState(false);
   const [selectedFaction, setSelectedFaction] = useState<FactionId>("united_terran");
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [replayGameId, setReplayGameId] = useState<Id<"games"> | null>(null);
+  const [spectatingGameId, setSpectatingGameId] = useState<Id<"games"> | null>(null);
 
-  const { createGame, joinGame, startGame, openGames } = useLobbyActions();
+  const { createGame, joinGame, startGame, updateSettings, openGames } = useLobbyActions();
   const { addAIPlayer, removeAIPlayer } = useAIActions();
   const gameState = useGameState(gameId ?? undefined, playerId ?? undefined);
   const userGames = useQuery(api.userGames.getUserGames);
+  const watchableGames = (useWatchableGames() ?? []).filter(
+    (game) => !userGames?.activeGames.some((mine) => mine.gameId === game.gameId)
+  );
+  const { joinAsSpectator } = useSpectatorActions();
   const [isAddingAI, setIsAddingAI] = useState(false);
 
-  const handleCreateGame = async (width: number, height: number, seed?: number, aiDifficulty?: "easy" | "medium" | "hard") => {
+  const handleWatchGame = async (targetGameId: Id<"games">) => {
+    try {
+      await joinAsSpectator(targetGameId);
+      setSpectatingGameId(targetGameId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to watch game");
+    }
+  };
+
+  const handleCreateGame = async (
+    width: number,
+    height: number,
+    seed?: number,
+    aiDifficulty?: "easy" | "medium" | "hard",
+    turnTimer?: TurnTimer,
+    turnMode?: TurnMode
+  ) => {
     setIsCreating(true);
     setShowCreateModal(false);
     try {
-      const newGameId = await createGame(width, height, seed);
+      const newGameId = await createGame(width, height, seed, turnTimer, turnMode);
       setGameId(newGameId);
       toast.success("World generated! Now joining...");
 
-      const newPlayerId = await joinGame(newGameId, selectedFaction, user?.id);
+      const newPlayerId = await joinGame(newGameId, selectedFaction);
       setPlayerId(newPlayerId);
       toast.success("Joined the game!");
 
@@ -59,7 +84,7 @@ export default function Home() {
     try {
       const newGameId = await createGame(48, 24);
       setGameId(newGameId);
-      const newPlayerId = await joinGame(newGameId, selectedFaction, user?.id);
+      const newPlayerId = await joinGame(newGameId, selectedFaction);
       setPlayerId(newPlayerId);
 
       await addAIPlayer(newGameId, "medium");
@@ -76,7 +101,7 @@ export default function Home() {
   const handleJoinGame = async (targetGameId: Id<"games">) => {
     setIsJoining(true);
     try {
-      const newPlayerId = await joinGame(targetGameId, selectedFaction, user?.id);
+      const newPlayerId = await joinGame(targetGameId, selectedFaction);
       setGameId(targetGameId);
       setPlayerId(newPlayerId);
       toast.success("Joined the game!");
@@ -97,6 +122,15 @@ export default function Home() {
     }
   };
 
+  const handleUpdateSettings = async (settings: GameSettings) => {
+    if (!gameId || !playerId) return;
+    try {
+      await updateSettings(gameId, playerId, settings);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update settings");
+    }
+  };
+
   const handleExitGame = async () => {
     if (!confirm("Are you sure you want to leave this game? Your progress will be saved.")) return;
     setGameId(null);
@@ -135,6 +169,22 @@ export default function Home() {
     );
   }
 
+  if (replayGameId) {
+    return (
+      <main className="min-h-screen bg-slate-950 relative">
+        <ReplayView gameId={replayGameId} onExit={() => setReplayGameId(null)} />
+      </main>
+    );
+  }
+
+  if (spectatingGameId) {
+    return (
+      <main className="min-h-screen bg-slate-950 relative">
+        <SpectatorView gameId={spectatingGameId} onExit={() => setSpectatingGameId(null)} />
+      </main>
+    );
+  }
+
   if (gameState && gameState.game.status === "active") {
     const currentPlayer = gameState.players.find((p) => p._id === playerId);
     if (!currentPlayer) {
@@ -159,6 +209,9 @@ export default function Home() {
   }
 
   if (gameState && gameState.game.status === "lobby") {
+    const maxPlayers = gameState.game.settings?.maxPlayers ?? 8;
+    const isHost = gameState.game.playerOrder[0] === playerId;
+
     return (
       <main className="min-h-screen bg-slate-950 flex items-center justify-center">
         <div className="bg-slate-900/90 backdrop-blur-xl border border-slate-700 p-8 rounded-2xl shadow-2xl max-w-lg w-full mx-4 relative">
@@ -179,7 +232,7 @@ export default function Home() {
 
           <div className="space-y-4 mb-6">
             <div className="bg-slate-800/50 rounded-lg p-4">
-              <h3 className="text-sm font-mono text-slate-400 uppercase mb-2">Players ({gameState.players.length}/8)</h3>
+              <h3 className="text-sm font-mono text-slate-400 uppercase mb-2">Players ({gameState.players.length}/{maxPlayers})</h3>
               {gameState.players.map((p) => (
                 <div key={p._id} className="flex items-center justify-between py-2 border-b border-slate-700 last:border-0">
                   <div className="flex items-center gap-2">
@@ -219,7 +272,7 @@ export default function Home() {
               ))}
             </div>
 
-            {gameState.players.length < 8 && (
+            {gameState.players.length < maxPlayers && (
               <div className="bg-slate-800/50 rounded-lg p-4">
                 <h3 className="text-sm font-mono text-slate-400 uppercase mb-3 flex items-center gap-2">
                   <Cpu className="w-4 h-4" />
@@ -264,6 +317,15 @@ export default function Home() {
                 {gameState.game.width} × {gameState.game.height} tiles
               </div>
             </div>
+
+            {gameState.game.settings && (
+              <LobbySettings
+                settings={gameState.game.settings}
+                playerCount={gameState.players.length}
+                isHost={isHost}
+                onChange={handleUpdateSettings}
+              />
+            )}
           </div>
 
           <Button
@@ -409,6 +471,42 @@ export default function Home() {
           </section>
         )}
 
+        {watchableGames.length > 0 && (
+          <section className="max-w-2xl mx-auto mb-12">
+            <h3 className="text-xl font-mono text-white font-bold mb-4 flex items-center gap-2">
+              <Eye className="w-5 h-5 text-sky-400" />
+              Watch Live
+            </h3>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {watchableGames.map((game) => (
+                <div
+                  key={game.gameId}
+                  className="flex items-center justify-between bg-slate-900/50 border border-slate-700 rounded-lg p-4"
+                >
+                  <div className="text-left">
+                    <div className="text-white font-mono text-sm">
+                      {game.width}×{game.height} · Turn {game.turn}
+                    </div>
+                    <div className="text-slate-400 text-xs">
+                      {game.playerCount} players · {game.spectatorCount} watching
+                      {game.delay > 0 && ` · ${game.delay} turn delay`}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={() => handleWatchGame(game.gameId as Id<"games">)}
+                  >
+                    <Eye className="w-3 h-3 mr-1" />
+                    Watch
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {userGames?.completedGames && userGames.completedGames.length > 0 && (
           <section className="max-w-2xl mx-auto mb-12">
             <h2 className="text-xl font-mono text-white font-bold mb-4 flex items-center gap-2">
@@ -437,6 +535,17 @@ export default function Home() {
                     <span className="font-mono text-emerald-400">
                       {game.faction?.replace("_", " ").toUpperCase()}
                     </span>
+                    {game.status === "ended" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="ml-auto h-7 text-xs"
+                        onClick={() => setReplayGameId(game.gameId as Id<"games">)}
+                      >
+                        <Film className="w-3 h-3 mr-1" />
+                        Replay
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
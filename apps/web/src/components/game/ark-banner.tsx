@@ -0,0 +1,55 @@
+"use client";
+
+import React from "react";
+import { Rocket } from "lucide-react";
+import type { Player } from "@/types/game";
+import type { useArkProjects } from "@/lib/game-hooks";
+
+interface ArkBannerProps {
+  projects: ReturnType<typeof useArkProjects>;
+  players: Player[];
+  currentPlayerId: string;
+  onLocate: (x: number) => void;
+}
+
+/**
+ * Every Ark under construction, so rivals know where to strike before the
+ * countdown runs out.
+ */
+export const ArkBanner = ({ projects, players, currentPlayerId, onLocate }: ArkBannerProps) => {
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="fixed top-24 right-8 z-40 space-y-2 w-64">
+      {projects.map((project) => {
+        const owner = players.find((p) => p._id === project.playerId);
+        const isMine = project.playerId === currentPlayerId;
+        const ownerName = isMine ? "Your" : `${owner?.aiName ?? owner?.faction.replace("_", " ") ?? "Enemy"}'s`;
+        const isCountingDown = project.launchIn !== undefined;
+
+        return (
+          <button
+            key={project.siloId}
+            onClick={() => onLocate(project.x)}
+            className={`w-full text-left px-3 py-2 rounded-lg border backdrop-blur-sm font-mono text-xs shadow-lg ${isCountingDown
+                ? "bg-red-950/80 border-red-500/60 text-red-100 animate-pulse"
+                : "bg-indigo-950/80 border-indigo-500/50 text-indigo-100"
+              }`}
+            title="Show Silo"
+          >
+            <div className="flex items-center gap-2 font-bold uppercase">
+              <Rocket className="w-4 h-4" />
+              {ownerName} Ark
+            </div>
+            <div className="mt-1 opacity-80">
+              {isCountingDown
+                ? `Launch in ${project.launchIn} turn${project.launchIn === 1 ? "" : "s"}`
+                : `${project.stageName} ${project.progress}/${project.stageTurns} · stage ${project.stageIndex + 1}/${project.stageCount}`}
+            </div>
+            <div className="opacity-50">Silo at {project.x}, {project.y}</div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MessageSquare, Send, X } from "lucide-react";
+import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
+import { MAX_CHAT_MESSAGE_LENGTH } from "@orbitbound/backend/convex/lib/constants";
+import { useChatMessages, useSendMessage } from "@/lib/game-hooks";
+import type { ChatScope, Player } from "@/types/game";
+
+interface ChatPanelProps {
+  gameId: Id<"games">;
+  currentPlayerId: string;
+  players: Player[];
+  onNewMessage: (from: string, body: string) => void;
+  onError: (message: string) => void;
+}
+
+const SCOPE_STYLES: Record<ChatScope, string> = {
+  global: "text-slate-400",
+  team: "text-emerald-400",
+  direct: "text-purple-400",
+};
+
+const playerName = (player: Player | undefined) =>
+  player?.aiName ?? player?.faction.replace("_", " ") ?? "Unknown";
+
+/**
+ * Collapsible chat. While closed it counts unread messages and forwards new
+ * ones to the notification stack.
+ */
+export function ChatPanel({ gameId, currentPlayerId, players, onNewMessage, onError }: ChatPanelProps) {
+  const { results, status, loadMore } = useChatMessages(gameId);
+  const sendMessage = useSendMessage();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<ChatScope>("global");
+  const [recipientId, setRecipientId] = useState("");
+  const [draft, setDraft] = useState("");
+  const [lastReadAt, setLastReadAt] = useState(() => Date.now());
+  const listRef = useRef<HTMLDivElement>(null);
+  const announcedRef = useRef(lastReadAt);
+
+  const playersById = useMemo(() => new Map(players.map((p) => [p._id, p])), [players]);
+  const others = players.filter((p) => p._id !== currentPlayerId);
+  const messages = useMemo(() => [...results].reverse(), [results]); // Oldest first for display
+  const newest = results[0];
+
+  const unread = isOpen
+    ? 0
+    : results.filter((m) => m.senderId !== currentPlayerId && m._creationTime > lastReadAt).length;
+
+  // Announce incoming messages while the panel is closed
+  useEffect(() => {
+    if (!newest || newest._creationTime <= announcedRef.current) return;
+    announcedRef.current = newest._creationTime;
+    if (!isOpen && newest.senderId !== currentPlayerId) {
+      onNewMessage(playerName(playersById.get(newest.senderId)), newest.body);
+    }
+  }, [newest, isOpen, currentPlayerId, playersById, onNewMessage]);
+
+  // Reading the panel marks everything read and keeps the latest in view
+  useEffect(() => {
+    if (!isOpen) return;
+    if (newest) setLastReadAt(newest._creationTime);
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [isOpen, newest]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    try {
+      await sendMessage(
+        currentPlayerId as Id<"players">,
+        scope,
+        body,
+        scope === "direct" ? (recipientId as Id<"players">) : undefined
+      );
+      setDraft("");
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Message not sent");
+    }
+  };
+
+  const label = (message: (typeof results)[number]) => {
+    const sender = message.senderId === currentPlayerId ? "You" : playerName(playersById.get(message.senderId));
+    if (message.scope === "team") return `[Team] ${sender}`;
+    if (message.scope === "direct") {
+      return message.senderId === currentPlayerId
+        ? `[To ${playerName(playersById.get(message.recipientIds?.[0] ?? ""))}]`
+        : `[From ${sender}]`;
+    }
+    return sender;
+  };
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-24 right-8 z-50 h-11 w-11 rounded-full border-slate-700/50 bg-slate-900/80 text-slate-300 hover:text-white"
+        title="Chat"
+      >
+        <MessageSquare className="h-4 w-4" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 text-[9px] bg-emerald-500 text-white px-1 rounded-full font-mono">{unread}</span>
+        )}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-24 right-8 z-50 w-80 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-xl shadow-2xl flex flex-col">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+        <span className="text-xs font-mono uppercase text-slate-400 flex items-center gap-2">
+          <MessageSquare className="w-3.5 h-3.5" /> Chat
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)} className="h-6 px-1 hover:bg-slate-800">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div ref={listRef} className="h-64 overflow-y-auto px-3 py-2 space-y-1 text-xs font-mono">
+        {status === "CanLoadMore" && (
+          <button onClick={() => loadMore(30)} className="w-full text-[10px] uppercase text-slate-500 hover:text-slate-300 py-1">
+            Load older messages
+          </button>
+        )}
+        {messages.length === 0 && status !== "LoadingFirstPage" && (
+          <p className="text-slate-600 text-center py-8">No messages yet</p>
+        )}
+        {messages.map((message) => (
+          <p key={message._id} className="break-words">
+            <span className={SCOPE_STYLES[message.scope]}>{label(message)}:</span>{" "}
+            <span className="text-slate-200">{message.body}</span>
+          </p>
+        ))}
+      </div>
+
+      <div className="border-t border-slate-800 p-2 space-y-2">
+        <div className="flex items-center gap-1">
+          {(["global", "team", "direct"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              className={`px-2 py-0.5 rounded border text-[10px] font-mono uppercase ${scope === option ? "border-emerald-500 bg-emerald-900/20 text-emerald-400" : "border-slate-700 text-slate-400 hover:border-slate-600"}`}
+            >
+              {option === "global" ? "All" : option}
+            </button>
+          ))}
+          {scope === "direct" && (
+            <select
+              value={recipientId}
+              onChange={(e) => setRecipientId(e.target.value)}
+              className="flex-1 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-white font-mono"
+            >
+              <option value="">To…</option>
+              {others.map((other) => (
+                <option key={other._id} value={other._id}>{playerName(other)}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <form
+          className="flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSend();
+          }}
+        >
+          <input
+            value={draft}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Message…"
+            className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-emerald-500"
+          />
+          <Button type="submit" size="sm" disabled={!draft.trim() || (scope === "direct" && !recipientId)} className="h-7 px-2 bg-emerald-700 hover:bg-emerald-600">
+            <Send className="w-3.5 h-3.5" />
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
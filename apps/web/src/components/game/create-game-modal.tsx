@@ -1,24 +1,38 @@
 "use client";
 
 import { useState } from "react";
-import { X, Map, Cpu, Zap } from "lucide-react";
+import { X, Map, Cpu, Zap, Timer, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import type { FactionId } from "@/types/game";
+import { MAP_SIZE_PRESETS } from "@orbitbound/backend/convex/lib/constants";
+import type { FactionId, TurnMode, TurnTimer } from "@/types/game";
 
 interface CreateGameModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreate: (width: number, height: number, seed?: number, aiDifficulty?: "easy" | "medium" | "hard") => void;
+  onCreate: (
+    width: number,
+    height: number,
+    seed?: number,
+    aiDifficulty?: "easy" | "medium" | "hard",
+    turnTimer?: TurnTimer,
+    turnMode?: TurnMode
+  ) => void;
   isCreating: boolean;
   selectedFaction: FactionId;
   onFactionChange: (faction: FactionId) => void;
 }
 
-const WORLD_SIZES = [
-  { name: "Small", width: 32, height: 16, description: "Quick games (1-2 players)" },
-  { name: "Medium", width: 48, height: 24, description: "Standard games (2-4 players)" },
-  { name: "Large", width: 64, height: 32, description: "Epic battles (4-8 players)" },
+const TURN_MODES: { value: TurnMode; label: string; description: string }[] = [
+  { value: "sequential", label: "Sequential", description: "Players take turns one at a time" },
+  { value: "simultaneous", label: "Simultaneous", description: "Everyone plans at once, orders resolve together" },
+];
+
+const TURN_TIME_LIMITS = [
+  { label: "Off", seconds: 0 },
+  { label: "1 min", seconds: 60 },
+  { label: "2 min", seconds: 120 },
+  { label: "5 min", seconds: 300 },
 ];
 
 export function CreateGameModal({ isOpen, onClose, onCreate, isCreating, selectedFaction, onFactionChange }: CreateGameModalProps) {
@@ -26,14 +40,21 @@ export function CreateGameModal({ isOpen, onClose, onCreate, isCreating, selecte
   const [seed, setSeed] = useState("");
   const [aiDifficulty, setAIDifficulty] = useState<"easy" | "medium" | "hard">("medium");
   const [autoAddAI, setAutoAddAI] = useState(true);
+  const [turnSeconds, setTurnSeconds] = useState(0);
+  const [onTimeout, setOnTimeout] = useState<TurnTimer["onTimeout"]>("skip");
+  const [takeoverDifficulty, setTakeoverDifficulty] = useState<"easy" | "medium" | "hard">("medium");
+  const [turnMode, setTurnMode] = useState<TurnMode>("sequential");
 
   if (!isOpen) return null;
 
   const handleCreate = () => {
-    const size = WORLD_SIZES[selectedSize];
+    const size = MAP_SIZE_PRESETS[selectedSize];
     const seedNumber = seed ? parseInt(seed, 10) : undefined;
     const difficulty = autoAddAI ? aiDifficulty : undefined;
-    onCreate(size.width, size.height, seedNumber, difficulty);
+    const turnTimer: TurnTimer | undefined = turnSeconds > 0
+      ? { seconds: turnSeconds, onTimeout, aiDifficulty: onTimeout === "ai" ? takeoverDifficulty : undefined }
+      : undefined;
+    onCreate(size.width, size.height, seedNumber, difficulty, turnTimer, turnMode);
   };
 
   return (
@@ -56,7 +77,7 @@ export function CreateGameModal({ isOpen, onClose, onCreate, isCreating, selecte
           <div>
             <Label className="text-sm font-mono text-slate-400 uppercase mb-3 block">World Size</Label>
             <div className="grid grid-cols-3 gap-2">
-              {WORLD_SIZES.map((size, index) => (
+              {MAP_SIZE_PRESETS.map((size, index) => (
                 <button
                   key={index}
                   onClick={() => setSelectedSize(index)}
@@ -105,6 +126,81 @@ export function CreateGameModal({ isOpen, onClose, onCreate, isCreating, selecte
             </div>
           </div>
 
+          <div>
+            <Label className="text-sm font-mono text-slate-400 uppercase mb-3 block flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Turn Mode
+            </Label>
+            <div className="grid grid-cols-2 gap-2">
+              {TURN_MODES.map((mode) => (
+                <button
+                  key={mode.value}
+                  onClick={() => setTurnMode(mode.value)}
+                  className={`p-3 rounded-lg border-2 transition-all ${turnMode === mode.value
+                      ? "border-emerald-500 bg-emerald-900/20 text-emerald-400"
+                      : "border-slate-700 hover:border-slate-600 text-slate-300"
+                    }`}
+                >
+                  <div className="font-mono text-xs font-bold uppercase">{mode.label}</div>
+                  <div className="text-[10px] text-slate-500 mt-1">{mode.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-sm font-mono text-slate-400 uppercase mb-3 block flex items-center gap-2">
+              <Timer className="w-4 h-4" />
+              Turn Timer
+            </Label>
+            <div className="grid grid-cols-4 gap-2">
+              {TURN_TIME_LIMITS.map((limit) => (
+                <button
+                  key={limit.seconds}
+                  onClick={() => setTurnSeconds(limit.seconds)}
+                  className={`p-2 rounded-lg border-2 transition-all text-xs font-mono uppercase ${turnSeconds === limit.seconds
+                      ? "border-emerald-500 bg-emerald-900/20 text-emerald-400"
+                      : "border-slate-700 hover:border-slate-600 text-slate-300"
+                    }`}
+                >
+                  {limit.label}
+                </button>
+              ))}
+            </div>
+            {turnSeconds > 0 && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {([["skip", "Skip turn"], ["ai", "AI takes over"]] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setOnTimeout(value)}
+                    className={`p-2 rounded-lg border-2 transition-all text-xs font-mono uppercase ${onTimeout === value
+                        ? "border-emerald-500 bg-emerald-900/20 text-emerald-400"
+                        : "border-slate-700 hover:border-slate-600 text-slate-300"
+                      }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {turnSeconds > 0 && onTimeout === "ai" && (
+              <div className="grid grid-cols-3 gap-2 mt-2">
+                {(["easy", "medium", "hard"] as const).map((difficulty) => (
+                  <button
+                    key={difficulty}
+                    onClick={() => setTakeoverDifficulty(difficulty)}
+                    className={`p-2 rounded-lg border-2 transition-all text-xs font-mono uppercase ${takeoverDifficulty === difficulty
+                        ? "border-emerald-500 bg-emerald-900/20 text-emerald-400"
+                        : "border-slate-700 hover:border-slate-600 text-slate-300"
+                      }`}
+                  >
+                    {difficulty}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           <div>
             <Label className="text-sm font-mono text-slate-400 uppercase mb-3 block flex items-center gap-2">
               <Cpu className="w-4 h-4" />
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eye, Handshake, Loader2, Shield, Skull, Swords, X } from "lucide-react";
+import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
+import { useDiplomacy } from "@/lib/game-hooks";
+import type { DiplomaticStance, Player, Treaty } from "@/types/game";
+
+interface DiplomacyModalProps {
+  gameId: Id<"games">;
+  currentPlayerId: string;
+  players: Player[];
+  isMyTurn: boolean;
+  isLoading: boolean;
+  onPropose: (targetPlayerId: string, treaty: Treaty, sharedVision: boolean) => void;
+  onRespond: (proposalId: Id<"diplomacyProposals">, accept: boolean) => void;
+  onDeclareWar: (targetPlayerId: string) => void;
+  onClose: () => void;
+}
+
+const STANCE_STYLES: Record<DiplomaticStance, { label: string; className: string }> = {
+  war: { label: "War", className: "text-red-400 border-red-700/50 bg-red-900/20" },
+  peace: { label: "Peace", className: "text-sky-300 border-sky-700/50 bg-sky-900/20" },
+  alliance: { label: "Alliance", className: "text-emerald-300 border-emerald-700/50 bg-emerald-900/20" },
+};
+
+const playerName = (player: Player | undefined) =>
+  player?.aiName ?? player?.faction.replace("_", " ") ?? "Unknown";
+
+/**
+ * Treaties with every other player. Offers can be made and answered at any
+ * time; declaring war is only possible on your own turn.
+ */
+export function DiplomacyModal({
+  gameId,
+  currentPlayerId,
+  players,
+  isMyTurn,
+  isLoading,
+  onPropose,
+  onRespond,
+  onDeclareWar,
+  onClose,
+}: DiplomacyModalProps) {
+  const diplomacy = useDiplomacy(gameId);
+  const [shareVision, setShareVision] = useState(true);
+
+  const others = players.filter((p) => p._id !== currentPlayerId);
+  const playersById = new Map(players.map((p) => [p._id, p]));
+
+  const relationWith = (playerId: string) =>
+    diplomacy?.relations.find(
+      (r) =>
+        (r.playerA === currentPlayerId && r.playerB === playerId) ||
+        (r.playerB === currentPlayerId && r.playerA === playerId)
+    );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-8" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-2xl w-full shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-sky-400 font-mono flex items-center gap-2">
+            <Handshake className="w-5 h-5" />
+            Diplomacy
+          </h2>
+          <Button variant="ghost" size="sm" onClick={onClose} className="hover:bg-slate-800">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {!diplomacy ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-sky-400 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {diplomacy.incoming.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-[10px] font-mono text-slate-500 uppercase">Proposals</div>
+                {diplomacy.incoming.map((proposal) => (
+                  <div
+                    key={proposal._id}
+                    className="flex items-center justify-between bg-sky-900/20 border border-sky-700/40 rounded-lg px-3 py-2 text-sm font-mono"
+                  >
+                    <span className="text-sky-200">
+                      {playerName(playersById.get(proposal.fromPlayerId))} offers{" "}
+                      {proposal.treaty === "alliance" ? "an alliance" : "peace"}
+                      {proposal.sharedVision && " with shared vision"}
+                    </span>
+                    <div className="flex gap-1">
+                      <Button size="sm" disabled={isLoading} onClick={() => onRespond(proposal._id, true)} className="h-7 bg-emerald-700 hover:bg-emerald-600">
+                        Accept
+                      </Button>
+                      <Button size="sm" variant="ghost" disabled={isLoading} onClick={() => onRespond(proposal._id, false)} className="h-7 text-slate-400 hover:text-white">
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="text-[10px] font-mono text-slate-500 uppercase">Relations</div>
+                <label className="flex items-center gap-1 text-[10px] font-mono text-slate-400 uppercase cursor-pointer">
+                  <input type="checkbox" checked={shareVision} onChange={(e) => setShareVision(e.target.checked)} />
+                  Offer shared vision with alliances
+                </label>
+              </div>
+              {others.map((other) => {
+                const relation = relationWith(other._id);
+                const stance: DiplomaticStance = relation?.status ?? "war";
+                const pending = diplomacy.outgoing.some((p) => p.toPlayerId === other._id);
+                const canOfferAlliance = stance !== "alliance" || (shareVision && !relation?.sharedVision);
+
+                return (
+                  <div
+                    key={other._id}
+                    className={`flex items-center justify-between border-b border-slate-800/60 last:border-0 py-2 text-sm font-mono ${other.isAlive ? "" : "opacity-50"}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      {!other.isAlive && <Skull className="w-3 h-3 text-red-400" />}
+                      <span className="text-slate-200">{playerName(other)}</span>
+                      <span className={`text-[10px] uppercase px-1.5 py-0.5 rounded border ${STANCE_STYLES[stance].className}`}>
+                        {STANCE_STYLES[stance].label}
+                      </span>
+                      {relation?.sharedVision && <Eye className="w-3 h-3 text-emerald-400" aria-label="Shared vision" />}
+                    </div>
+
+                    {other.isAlive && (
+                      <div className="flex gap-1">
+                        {pending ? (
+                          <span className="text-[10px] text-slate-500 uppercase">Offer sent</span>
+                        ) : (
+                          <>
+                            {stance === "war" && (
+                              <Button size="sm" variant="outline" disabled={isLoading} onClick={() => onPropose(other._id, "peace", false)} className="h-7 text-xs border-sky-700/50 text-sky-300">
+                                <Shield className="w-3 h-3 mr-1" /> Peace
+                              </Button>
+                            )}
+                            {canOfferAlliance && (
+                              <Button size="sm" variant="outline" disabled={isLoading} onClick={() => onPropose(other._id, "alliance", shareVision)} className="h-7 text-xs border-emerald-700/50 text-emerald-300">
+                                <Handshake className="w-3 h-3 mr-1" /> Alliance
+                              </Button>
+                            )}
+                          </>
+                        )}
+                        {stance !== "war" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={isLoading || !isMyTurn}
+                            onClick={() => onDeclareWar(other._id)}
+                            className="h-7 text-xs border-red-700/50 text-red-400"
+                            title={isMyTurn ? "Break the treaty" : "War can only be declared on your turn"}
+                          >
+                            <Swords className="w-3 h-3 mr-1" /> War
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="text-[10px] font-mono text-slate-500">
+              Peace and alliances forbid attacks between both sides. If only allies remain, they share the victory.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
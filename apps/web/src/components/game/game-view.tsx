@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState, useEffect, useCallback, useMemo } from "react";
-import type { GameState, Player, Unit, Tile, Building, Direction } from "@/types/game";
+import type { GameState, Player, PlayerResources, Unit, Tile, Building, Direction, Treaty } from "@/types/game";
 import { WorldStrip } from "./world-strip";
 import { ResourceBar } from "./resource-bar";
 import { GameNotifications, useGameNotifications } from "./game-notifications";
@@ -10,14 +10,20 @@ import {
   ChevronLeft, ChevronRight, Crosshair, Home, ArrowRight, Loader2,
   Swords, Shield, Factory, Wheat, Pickaxe, Sun, Rocket, X, Zap,
   FlaskConical, Users, Building2, Target, Info, Keyboard, TrendingUp,
-  Heart, Move, Eye, CircleDot, HelpCircle, Bot, Hammer, Compass, Lock
+  Heart, Move, Eye, CircleDot, HelpCircle, Bot, Hammer, Compass, Lock, Handshake, Radar, MapPin
 } from "lucide-react";
-import { useGameActions, useTechTree, useSpawnableUnits, useBuildableBuildings, useWorkerBuildableBuildings } from "@/lib/game-hooks";
+import { useArkProjects, useDiplomacy, useDiplomacyActions, useGameActions, useTrades, useTradeActions, useTechTree, useSpawnableUnits, useBuildableBuildings, useMovementRange, usePathPreview, useUnitActions, useWorkerBuildableBuildings } from "@/lib/game-hooks";
 import { useMutation } from "convex/react";
 import { api } from "@orbitbound/backend/convex/_generated/api";
 import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
 import { TechTreeModal } from "./tech-tree-modal";
 import { WeatherBanner } from "./weather-banner";
+import { ScoreboardModal } from "./scoreboard-modal";
+import { ArkBanner } from "./ark-banner";
+import { DiplomacyModal } from "./diplomacy-modal";
+import { TradeModal } from "./trade-modal";
+import { ChatPanel } from "./chat-panel";
+import { ARK_STAGES } from "@orbitbound/backend/convex/lib/constants";
 
 interface GameViewProps {
   game: GameState;
@@ -32,14 +38,14 @@ const MAX_TILE_SIZE = 64;
 const HUD_PADDING = 120; // Space for resource bar and bottom UI
 
 // Unit definitions for display
-const UNIT_INFO: Record<string, { desc: string; biomass?: number; ore?: number; flux?: number }> = {
+const UNIT_INFO: Record<string, { desc: string; biomass?: number; ore?: number; flux?: number; rare_earths?: number }> = {
   settler: { desc: "Founds cities. Your starting unit.", },
   worker: { desc: "Builds improvements on tiles.", biomass: 5 },
   marine: { desc: "Basic infantry. Can entrench for +2 DEF.", biomass: 10, ore: 5 },
   rover: { desc: "Fast scout with extended vision.", ore: 10 },
   tank: { desc: "Heavy armor. Crushes enemy buildings.", ore: 25 },
   arty: { desc: "Long range siege. Range 4, Arc Fire.", ore: 30, flux: 10 },
-  gunship: { desc: "Air unit. Ignores terrain costs.", ore: 40, flux: 20 },
+  gunship: { desc: "Air unit. Ignores terrain costs.", ore: 40, flux: 20, rare_earths: 2 },
 };
 
 // Unit combat stats matching plan.md specifications
@@ -53,16 +59,17 @@ const UNIT_STATS: Record<string, { atk: number; def: number; range: number; visi
   gunship: { atk: 10, def: 2, range: 1, vision: 4 },
 };
 
-const BUILDING_INFO: Record<string, { desc: string; income?: string; biomass?: number; ore?: number; flux?: number; idealTerrain?: string[]; idealResource?: string }> = {
+const BUILDING_INFO: Record<string, { desc: string; income?: string; biomass?: number; ore?: number; flux?: number; rare_earths?: number; idealTerrain?: string[]; idealResource?: string; idealNeighbor?: string }> = {
   city: { desc: "Your headquarters. Spawns units and builds structures.", income: "+2 Biomass, +2 Ore" },
   farm: { desc: "Agricultural production on surface/dirt.", income: "+2 Biomass", ore: 10, idealTerrain: ["grass", "dirt", "surface"] },
   mine: { desc: "Extract ore from deposits.", income: "+2 Ore", biomass: 10, idealTerrain: ["stone", "rock"], idealResource: "ore" },
   solar_array: { desc: "Generate flux energy.", income: "+1 Flux", ore: 15, idealTerrain: ["sky", "surface", "grass"] },
+  extractor: { desc: "Drill into neighbouring bedrock for Rare Earths.", income: "+1 Rare Earths", ore: 30, flux: 10, idealNeighbor: "bedrock" },
   bunker: { desc: "Defensive structure. +5 DEF to units.", ore: 20 },
   barracks: { desc: "Train infantry units.", ore: 15 },
   factory: { desc: "Produce heavy vehicles.", ore: 30 },
   skyport: { desc: "Launch air units.", ore: 40, flux: 20 },
-  silo: { desc: "End-game structure. Launch The Ark!", ore: 100, flux: 50 },
+  silo: { desc: "End-game structure. Launch The Ark!", ore: 100, flux: 50, rare_earths: 10 },
 };
 
 export function GameView({ game, player, units, buildings, allPlayers }: GameViewProps) {
@@ -109,12 +116,24 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
   const [showSpawnMenu, setShowSpawnMenu] = useState(false);
   const [showBuildMenu, setShowBuildMenu] = useState(false);
   const [attackMode, setAttackMode] = useState(false);
+  const [moveToMode, setMoveToMode] = useState(false);
+  const [hoveredTile, setHoveredTile] = useState<{ x: number; y: number } | null>(null);
   const [buildingPlacementMode, setBuildingPlacementMode] = useState<string | null>(null);
   const [showHelp, setShowHelp] = useState(false);
+  const [showScoreboard, setShowScoreboard] = useState(false);
+  const [showDiplomacy, setShowDiplomacy] = useState(false);
+  const [showTrade, setShowTrade] = useState(false);
 
   const actions = useGameActions();
   const toggleAutoExplore = useMutation(api.units.toggleAutoExplore);
-  const techTree = useTechTree(player._id as Id<"players">);
+  const resumeControl = useMutation(api.players.resumeControl);
+  const startArk = useMutation(api.ark.startArk);
+  const arkProjects = useArkProjects(game._id as Id<"games">);
+  const diplomacy = useDiplomacy(game._id as Id<"games">);
+  const diplomacyActions = useDiplomacyActions();
+  const trades = useTrades(game._id as Id<"games">);
+  const tradeActions = useTradeActions();
+  const techTree = useTechTree(game._id as Id<"games">);
   const { notifications, dismissNotification, notify } = useGameNotifications();
 
   // Get selected tile info
@@ -129,6 +148,10 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
     return units.find((u) => u._id === selectedTile.unitId);
   }, [selectedTile, units]);
 
+  const unitActions = useUnitActions(
+    selectedUnit ? selectedUnit._id as Id<"units"> : undefined
+  );
+
   // Get building on selected tile
   const selectedBuilding = useMemo(() => {
     if (!selectedTile?.buildingId) return null;
@@ -140,26 +163,29 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
 
   // Get spawnable units for selected building
   const spawnableUnits = useSpawnableUnits(
-    player._id as Id<"players">,
     isMyBuilding && selectedBuilding ? selectedBuilding._id as Id<"buildings"> : undefined
   );
 
   // Get buildable buildings from city
   const buildableBuildings = useBuildableBuildings(
-    player._id as Id<"players">,
     isMyBuilding && selectedBuilding?.type === "city" ? selectedBuilding._id as Id<"buildings"> : undefined
   );
 
   // Get buildable buildings for Workers (no city needed)
   const workerBuildableBuildings = useWorkerBuildableBuildings(
-    player._id as Id<"players">
+    game._id as Id<"games">
   );
 
-  // Check if it's the current player's turn
+  const isSimultaneous = game.turnMode === "simultaneous";
+
+  // Check if it's the current player's turn (in simultaneous games, until they end it)
   const isMyTurn = useMemo(() => {
+    if (isSimultaneous) {
+      return game.playerOrder.includes(player._id) && !game.readyPlayerIds?.includes(player._id);
+    }
     const activePlayerId = game.playerOrder[game.activePlayerIndex];
     return activePlayerId === player._id;
-  }, [game.activePlayerIndex, game.playerOrder, player._id]);
+  }, [isSimultaneous, game.activePlayerIndex, game.playerOrder, game.readyPlayerIds, player._id]);
 
   // Check if selected unit belongs to current player
   const isMyUnit = selectedUnit?.playerId === player._id;
@@ -167,7 +193,7 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
   // Calculate player's income
   const playerIncome = useMemo(() => {
     const playerBuildings = buildings.filter(b => b.playerId === player._id);
-    let biomass = 0, ore = 0, flux = 0;
+    let biomass = 0, ore = 0, flux = 0, rare_earths = 0;
 
     for (const b of playerBuildings) {
       if (b.isConstructing) continue;
@@ -176,9 +202,10 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
       if (b.type === "farm") { biomass += 2; }
       if (b.type === "mine") { ore += 2; }
       if (b.type === "solar_array") { flux += 1; }
+      if (b.type === "extractor") { rare_earths += 1; }
     }
 
-    return { biomass, ore, flux };
+    return { biomass, ore, flux, rare_earths };
   }, [buildings, player._id]);
 
   // Filter and sort buildings contextually based on current tile
@@ -204,6 +231,19 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
         isRecommended = true;
       }
 
+      // High score if a neighbouring tile is what it works (e.g., extractor by bedrock)
+      if (selectedTile && info?.idealNeighbor) {
+        const bordersIdeal = [[-1, 0], [1, 0], [0, -1], [0, 1]].some(([dx, dy]) => {
+          const ny = selectedTile.y + dy;
+          const nx = (selectedTile.x + dx + game.width) % game.width;
+          return ny >= 0 && ny < game.height && game.map[ny * game.width + nx]?.type === info.idealNeighbor;
+        });
+        if (bordersIdeal) {
+          relevanceScore += 100;
+          isRecommended = true;
+        }
+      }
+
       // Bonus for affordability
       if (building.canAfford) {
         relevanceScore += 10;
@@ -217,7 +257,7 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
 
     // Return sorted list (recommended ones are at the top)
     return sorted;
-  }, [workerBuildableBuildings, selectedTile]);
+  }, [workerBuildableBuildings, selectedTile, game.map, game.width, game.height]);
 
   // Get list of my units that can move (for cycling)
   const myMoveableUnits = useMemo(() => {
@@ -267,58 +307,39 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
     [game]
   );
 
+  // Reachable tiles and targets for the selected unit, by the server's rules
+  const movementRange = useMovementRange(
+    selectedUnit && isMyUnit ? selectedUnit._id as Id<"units"> : undefined
+  );
+
   // Get valid movement tiles for selected unit
   const validMoveTiles = useMemo(() => {
-    if (!selectedUnit || !isMyUnit || !isMyTurn || selectedUnit.movesLeft <= 0) return new Set<string>();
-
-    const tiles = new Set<string>();
-    const directions = [
-      { dx: -1, dy: 0 }, { dx: 1, dy: 0 },
-      { dx: 0, dy: -1 }, { dx: 0, dy: 1 }
-    ];
-
-    for (const { dx, dy } of directions) {
-      const nx = (selectedUnit.x + dx + game.width) % game.width;
-      const ny = Math.max(0, Math.min(game.height - 1, selectedUnit.y + dy));
-      const tile = getTile(nx, ny);
-      if (tile && tile.type !== "bedrock" && tile.type !== "fog" && !tile.unitId) {
-        tiles.add(`${nx}-${ny}`);
-      }
-    }
-
-    return tiles;
-  }, [selectedUnit, isMyUnit, isMyTurn, game.width, game.height, getTile]);
+    if (!selectedUnit || !isMyUnit || !isMyTurn || selectedUnit.movesLeft <= 0 || !movementRange) return new Set<string>();
+    return new Set(movementRange.reachable.map((tile) => `${tile.x}-${tile.y}`));
+  }, [selectedUnit, isMyUnit, isMyTurn, movementRange]);
 
   // Get valid attack tiles
   const validAttackTiles = useMemo(() => {
-    if (!selectedUnit || !isMyUnit || !isMyTurn || !attackMode) return new Set<string>();
-
-    const tiles = new Set<string>();
-    const range = selectedUnit.type === "arty" ? 4 : 1;
-
-    for (let dx = -range; dx <= range; dx++) {
-      for (let dy = -range; dy <= range; dy++) {
-        if (dx === 0 && dy === 0) continue;
-        if (Math.abs(dx) + Math.abs(dy) > range) continue;
-
-        const nx = (selectedUnit.x + dx + game.width) % game.width;
-        const ny = Math.max(0, Math.min(game.height - 1, selectedUnit.y + dy));
-        const tile = getTile(nx, ny);
-
-        if (tile) {
-          // Check for enemy units or buildings
-          const enemyUnit = units.find(u => u.x === nx && u.y === ny && u.playerId !== player._id);
-          const enemyBuilding = buildings.find(b => b.x === nx && b.y === ny && b.playerId !== player._id);
-
-          if (enemyUnit || enemyBuilding) {
-            tiles.add(`${nx}-${ny}`);
-          }
-        }
-      }
-    }
+    if (!selectedUnit || !isMyUnit || !isMyTurn || !attackMode || !movementRange) return new Set<string>();
+    return new Set(movementRange.attackable.map((tile) => `${tile.x}-${tile.y}`));
+  }, [selectedUnit, isMyUnit, isMyTurn, attackMode, movementRange]);
+
+  // Route preview from the selected unit to the hovered tile
+  const previewTarget = selectedUnit && isMyUnit && isMyTurn && !attackMode && !buildingPlacementMode &&
+    hoveredTile && (hoveredTile.x !== selectedUnit.x || hoveredTile.y !== selectedUnit.y) ? hoveredTile : null;
+  const pathPreview = usePathPreview(
+    previewTarget ? selectedUnit!._id as Id<"units"> : undefined,
+    previewTarget
+  );
 
-    return tiles;
-  }, [selectedUnit, isMyUnit, isMyTurn, attackMode, game.width, game.height, getTile, units, buildings, player._id]);
+  const previewSteps = useMemo(() => {
+    const steps = new Map<string, { turn: number; isDestination: boolean }>();
+    if (!previewTarget || !pathPreview) return steps;
+    pathPreview.steps.forEach((step, i) => {
+      steps.set(`${step.x}-${step.y}`, { turn: step.turn, isDestination: i === pathPreview.steps.length - 1 });
+    });
+    return steps;
+  }, [previewTarget, pathPreview]);
 
   // Get valid build tiles (adjacent to ANY of player's buildings)
   const validBuildTiles = useMemo(() => {
@@ -446,6 +467,9 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
   // Keyboard Listeners
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Typing in chat or a form must not trigger hotkeys
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
       // Check if unit can be controlled with WASD
       const canControlUnit = selectedUnit && isMyUnit && isMyTurn && selectedUnit.movesLeft > 0 && !isLoading;
 
@@ -472,17 +496,21 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
       // Cancel actions / Exit game (prioritized)
       if (e.key === "Escape") {
         // Check if anything is open that can be cancelled
-        const hasOpenUI = selectedTileId || attackMode || buildingPlacementMode || showTechTree || showSpawnMenu || showBuildMenu || showHelp;
+        const hasOpenUI = selectedTileId || attackMode || moveToMode || buildingPlacementMode || showTechTree || showSpawnMenu || showBuildMenu || showHelp || showScoreboard || showDiplomacy || showTrade;
 
         if (hasOpenUI) {
           // Cancel all open UI
           setSelectedTileId(null);
           setAttackMode(false);
+          setMoveToMode(false);
           setBuildingPlacementMode(null);
           setShowTechTree(false);
           setShowSpawnMenu(false);
           setShowBuildMenu(false);
           setShowHelp(false);
+          setShowScoreboard(false);
+          setShowDiplomacy(false);
+          setShowTrade(false);
         } else {
           // Nothing open, trigger exit game
           handleExitGame();
@@ -522,12 +550,15 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [moveCamera, moveCameraVertical, selectedUnit, isMyUnit, isMyTurn, isLoading, selectedBuilding, isMyBuilding, game.width, game.height, selectedTileId, attackMode, buildingPlacementMode, showTechTree, showSpawnMenu, showBuildMenu, showHelp, viewportWidth, viewportHeight, needsVerticalScroll, cycleUnit]);
+  }, [moveCamera, moveCameraVertical, selectedUnit, isMyUnit, isMyTurn, isLoading, selectedBuilding, isMyBuilding, game.width, game.height, selectedTileId, attackMode, moveToMode, buildingPlacementMode, showTechTree, showSpawnMenu, showBuildMenu, showHelp, showScoreboard, showDiplomacy, showTrade, viewportWidth, viewportHeight, needsVerticalScroll, cycleUnit]);
 
   // ─────────────────────────────────────────────────────────────────────────────
   // Game Actions
   // ─────────────────────────────────────────────────────────────────────────────
 
+  // Simultaneous games queue commands until every player has ended the round
+  const notifyQueued = () => notify.info("Order Queued", "Resolves when every player ends their turn");
+
   const handleMoveUnit = async (direction: Direction) => {
     if (!selectedUnit || !isMyTurn || !isMyUnit) return;
 
@@ -538,10 +569,15 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
         player._id as Id<"players">,
         direction
       );
+      if ("queued" in result) {
+        notifyQueued();
+        return;
+      }
 
       // Check for ruin rewards
-      if (result.rewardMessage) {
-        notify.success("Ancient Ruins Explored", result.rewardMessage);
+      if (result.ruin) {
+        const hostile = result.ruin.type === "trap" || result.ruin.type === "guardian";
+        notify[hostile ? "combat" : "success"]("Ancient Ruins Explored", result.ruin.message);
       }
 
       if (result.crushedBuilding) {
@@ -554,6 +590,42 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
     }
   };
 
+  const handleMoveTo = async (tile: Tile) => {
+    if (!selectedUnit || !isMyTurn || !isMyUnit) return;
+
+    setIsLoading(true);
+    try {
+      const result = await actions.moveTo(
+        selectedUnit._id as Id<"units">,
+        player._id as Id<"players">,
+        tile.x,
+        tile.y
+      );
+      setMoveToMode(false);
+      if (!result) return;
+      setSelectedTileId(`${result.x}-${result.y}`);
+      if (result.arrived) {
+        notify.success("Arrived", `Reached [${tile.x}, ${tile.y}]`);
+      } else {
+        notify.info("Move Order Set", `${result.path.length} steps to go; continues at the end of each turn`);
+      }
+    } catch (error) {
+      notify.error("Move Failed", error instanceof Error ? error.message : "Cannot reach that tile");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelMoveOrder = async () => {
+    if (!selectedUnit) return;
+
+    try {
+      await actions.cancelMoveOrder(selectedUnit._id as Id<"units">, player._id as Id<"players">);
+    } catch (error) {
+      notify.error("Cancel Failed", error instanceof Error ? error.message : "Cannot cancel order");
+    }
+  };
+
   const handleFoundCity = async () => {
     if (!selectedUnit || selectedUnit.type !== "settler" || !isMyTurn || !isMyUnit) return;
 
@@ -581,7 +653,7 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
         game._id as Id<"games">,
         player._id as Id<"players">
       );
-      notify.info("Turn Ended", "Waiting for next player...");
+      notify.info("Turn Ended", isSimultaneous ? "Waiting for the round to resolve..." : "Waiting for next player...");
     } catch (error) {
       notify.error("Error", error instanceof Error ? error.message : "Failed to end turn");
     } finally {
@@ -589,6 +661,15 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
     }
   };
 
+  const handleResumeControl = async () => {
+    try {
+      await resumeControl({ playerId: player._id as Id<"players"> });
+      notify.success("Back in Control", "The AI has handed your seat back");
+    } catch (error) {
+      notify.error("Error", error instanceof Error ? error.message : "Failed to take back control");
+    }
+  };
+
   const handleExitGame = () => {
     if (confirm("Are you sure you want to exit? Your progress will be saved.")) {
       window.location.href = "/";
@@ -619,15 +700,19 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
 
     setIsLoading(true);
     try {
-      await actions.placeBuilding(
+      const result = await actions.placeBuilding(
         player._id as Id<"players">,
         selectedUnit._id as Id<"units">,
         buildingType,
         selectedUnit.x,
         selectedUnit.y
       );
-      notify.building("Construction Started", `Building ${buildingType.replace("_", " ")} — Worker will continue next turn`);
       setShowBuildMenu(false);
+      if ("queued" in result) {
+        notifyQueued();
+        return;
+      }
+      notify.building("Construction Started", `Building ${buildingType.replace("_", " ")} — Worker will continue next turn`);
     } catch (error) {
       notify.error("Build Failed", error instanceof Error ? error.message : "Cannot build here");
     } finally {
@@ -644,7 +729,9 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
         player._id as Id<"players">,
         selectedUnit._id as Id<"units">
       );
-      if (result.complete) {
+      if ("queued" in result) {
+        notifyQueued();
+      } else if (result.complete) {
         notify.building("Construction Complete", "Building is now operational!");
       } else {
         notify.info("Building Progress", `Progress: ${result.progress}/${result.total} turns`);
@@ -703,13 +790,20 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
 
     setIsLoading(true);
     try {
-      await actions.attack(
+      const result = await actions.attack(
         selectedUnit._id as Id<"units">,
         player._id as Id<"players">,
         tile.x,
         tile.y
       );
-      notify.combat("Attack!", "Engaging hostile target");
+      if (result && "queued" in result) {
+        notifyQueued();
+      } else {
+        notify.combat("Attack!", "Engaging hostile target");
+        if (result.splash.length > 0) {
+          notify.combat("Splash Damage", `Shrapnel hit ${result.splash.length} nearby ${result.splash.length === 1 ? "unit" : "units"}`);
+        }
+      }
       setAttackMode(false);
     } catch (error) {
       notify.error("Attack Failed", error instanceof Error ? error.message : "Cannot attack target");
@@ -718,6 +812,25 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
     }
   };
 
+  const handleRadarSweep = async () => {
+    if (!selectedUnit || !isMyTurn || !isMyUnit) return;
+
+    setIsLoading(true);
+    try {
+      const result = await actions.radarSweep(
+        selectedUnit._id as Id<"units">,
+        player._id as Id<"players">
+      );
+      notify.info("Radar Sweep", result.contacts > 0 ? `${result.contacts} contacts detected` : "No contacts in range");
+    } catch (error) {
+      notify.error("Radar Failed", error instanceof Error ? error.message : "Cannot sweep");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const techName = (techId: string) => techTree.find((tech) => tech.techId === techId)?.name ?? techId;
+
   const handleResearchTech = async (techId: string) => {
     setIsLoading(true);
     try {
@@ -725,7 +838,7 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
         player._id as Id<"players">,
         techId
       );
-      notify.tech("Research Complete", "New technology unlocked!");
+      notify.tech("Research Started", `${techName(techId)} is now being researched`);
     } catch (error) {
       notify.error("Research Failed", error instanceof Error ? error.message : "Cannot research");
     } finally {
@@ -733,6 +846,148 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
     }
   };
 
+  const handleQueueTech = async (techId: string) => {
+    setIsLoading(true);
+    try {
+      await actions.queueTech(player._id as Id<"players">, techId);
+      notify.tech("Research Queued", `${techName(techId)} added to the research queue`);
+    } catch (error) {
+      notify.error("Research Failed", error instanceof Error ? error.message : "Cannot queue research");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDequeueTech = async (techId: string) => {
+    setIsLoading(true);
+    try {
+      await actions.dequeueTech(player._id as Id<"players">, techId);
+    } catch (error) {
+      notify.error("Research Failed", error instanceof Error ? error.message : "Cannot update the queue");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartArk = async () => {
+    if (!selectedBuilding || selectedBuilding.type !== "silo" || !isMyTurn || !isMyBuilding) return;
+
+    setIsLoading(true);
+    try {
+      await startArk({
+        playerId: player._id as Id<"players">,
+        siloId: selectedBuilding._id as Id<"buildings">,
+      });
+      notify.building("The Ark", "Construction has begun — every faction has been alerted");
+    } catch (error) {
+      notify.error("Ark Failed", error instanceof Error ? error.message : "Cannot begin The Ark");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleProposeTreaty = async (targetPlayerId: string, treaty: Treaty, sharedVision: boolean) => {
+    setIsLoading(true);
+    try {
+      await diplomacyActions.proposeTreaty(
+        player._id as Id<"players">,
+        targetPlayerId as Id<"players">,
+        treaty,
+        sharedVision
+      );
+      notify.info("Proposal Sent", treaty === "alliance" ? "Alliance offered" : "Peace offered");
+    } catch (error) {
+      notify.error("Proposal Failed", error instanceof Error ? error.message : "Cannot send proposal");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRespondToProposal = async (proposalId: Id<"diplomacyProposals">, accept: boolean) => {
+    setIsLoading(true);
+    try {
+      const result = await diplomacyActions.respondToProposal(player._id as Id<"players">, proposalId, accept);
+      if (result.accepted) {
+        notify.success("Treaty Signed", result.treaty === "alliance" ? "You have a new ally" : "A non-aggression pact is in force");
+      } else {
+        notify.info("Proposal Rejected", "The offer was turned down");
+      }
+    } catch (error) {
+      notify.error("Diplomacy Failed", error instanceof Error ? error.message : "Cannot answer proposal");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeclareWar = async (targetPlayerId: string) => {
+    setIsLoading(true);
+    try {
+      await diplomacyActions.declareWar(player._id as Id<"players">, targetPlayerId as Id<"players">);
+      notify.combat("War Declared", "The treaty is broken");
+    } catch (error) {
+      notify.error("Declaration Failed", error instanceof Error ? error.message : "Cannot declare war");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleProposeTrade = async (
+    targetPlayerId: string,
+    give: Partial<PlayerResources>,
+    receive: Partial<PlayerResources>,
+    tributeTurns?: number
+  ) => {
+    setIsLoading(true);
+    try {
+      await tradeActions.proposeTrade(
+        player._id as Id<"players">,
+        targetPlayerId as Id<"players">,
+        give,
+        receive,
+        tributeTurns
+      );
+      notify.info("Offer Sent", "Waiting for an answer");
+    } catch (error) {
+      notify.error("Offer Failed", error instanceof Error ? error.message : "Cannot send offer");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRespondToTrade = async (tradeId: Id<"trades">, accept: boolean) => {
+    setIsLoading(true);
+    try {
+      const result = await tradeActions.respondToTrade(player._id as Id<"players">, tradeId, accept);
+      if (result.accepted) {
+        notify.success("Trade Complete", result.tributeTurns ? "The first tribute installment has been paid" : "Resources exchanged");
+      } else {
+        notify.info("Offer Rejected", "The trade was turned down");
+      }
+    } catch (error) {
+      notify.error("Trade Failed", error instanceof Error ? error.message : "Cannot answer offer");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelTrade = async (tradeId: Id<"trades">) => {
+    setIsLoading(true);
+    try {
+      await tradeActions.cancelTrade(player._id as Id<"players">, tradeId);
+    } catch (error) {
+      notify.error("Withdraw Failed", error instanceof Error ? error.message : "Cannot withdraw offer");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChatMessage = (from: string, body: string) => notify.info(from, body);
+
+  const locateOnMap = (x: number) => {
+    const centerOffsetX = Math.floor(viewportWidth / 2);
+    setCameraX((x - centerOffsetX + game.width) % game.width);
+  };
+
   const handleTileClick = (tile: Tile) => {
     if (attackMode && selectedUnit) {
       if (validAttackTiles.has(`${tile.x}-${tile.y}`)) {
@@ -743,6 +998,11 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
       return;
     }
 
+    if (moveToMode && selectedUnit) {
+      handleMoveTo(tile);
+      return;
+    }
+
     setSelectedTileId(tile.id);
     setShowSpawnMenu(false);
     setShowBuildMenu(false);
@@ -772,6 +1032,13 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
 
       {/* Game Notifications */}
       <GameNotifications notifications={notifications} onDismiss={dismissNotification} />
+      <ChatPanel
+        gameId={game._id as Id<"games">}
+        currentPlayerId={player._id}
+        players={allPlayers}
+        onNewMessage={handleChatMessage}
+        onError={(message) => notify.error("Chat", message)}
+      />
 
       {/* Background Atmosphere & Parallax */}
       <div className="fixed inset-0 pointer-events-none z-0 overflow-hidden">
@@ -806,19 +1073,43 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
         turn={game.turn}
         isMyTurn={isMyTurn}
         onTechClick={() => setShowTechTree(true)}
+        onScoreClick={() => setShowScoreboard(true)}
+        onDiplomacyClick={() => setShowDiplomacy(true)}
+        pendingProposals={diplomacy?.incoming.length}
+        onTradeClick={() => setShowTrade(true)}
+        pendingTrades={trades?.incoming.length}
         onHelpClick={() => setShowHelp(true)}
         onExitClick={handleExitGame}
         income={playerIncome}
         cameraPosition={{ x: cameraX, width: game.width }}
+        turnDeadline={game.turnDeadline}
+      />
+
+      <ArkBanner
+        projects={arkProjects}
+        players={allPlayers}
+        currentPlayerId={player._id}
+        onLocate={locateOnMap}
       />
 
+      {/* Autopilot Banner */}
+      {player.autopilot && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg font-mono text-sm flex items-center gap-2 bg-sky-900/90 text-sky-100 border border-sky-500/50">
+          <Bot className="w-4 h-4" /> Your turn timed out and the AI is playing for you
+          <Button size="sm" variant="ghost" className="ml-2 h-6 px-2 text-white/70 hover:text-white" onClick={handleResumeControl}>
+            Take back control
+          </Button>
+        </div>
+      )}
+
       {/* Mode Indicator */}
-      {(attackMode || buildingPlacementMode) && (
-        <div className={`fixed top-24 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg font-mono text-sm flex items-center gap-2 animate-pulse ${attackMode ? "bg-red-900/90 text-red-100 border border-red-500/50" : "bg-amber-900/90 text-amber-100 border border-amber-500/50"
+      {(attackMode || moveToMode || buildingPlacementMode) && (
+        <div className={`fixed top-24 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-lg font-mono text-sm flex items-center gap-2 animate-pulse ${attackMode ? "bg-red-900/90 text-red-100 border border-red-500/50" : moveToMode ? "bg-emerald-900/90 text-emerald-100 border border-emerald-500/50" : "bg-amber-900/90 text-amber-100 border border-amber-500/50"
           }`}>
           {attackMode && <><Target className="w-4 h-4" /> Click on a <span className="text-red-300 font-bold">red highlighted</span> enemy to attack</>}
+          {moveToMode && <><MapPin className="w-4 h-4" /> Click on any explored tile to send the unit there</>}
           {buildingPlacementMode && <><Building2 className="w-4 h-4" /> Click on a <span className="text-amber-300 font-bold">yellow highlighted</span> tile to build {buildingPlacementMode}</>}
-          <Button size="sm" variant="ghost" className="ml-2 h-6 px-2 text-white/70 hover:text-white" onClick={() => { setAttackMode(false); setBuildingPlacementMode(null); }}>
+          <Button size="sm" variant="ghost" className="ml-2 h-6 px-2 text-white/70 hover:text-white" onClick={() => { setAttackMode(false); setMoveToMode(false); setBuildingPlacementMode(null); }}>
             <X className="w-3 h-3 mr-1" /> Cancel
           </Button>
         </div>
@@ -851,6 +1142,8 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
             onTileClick={handleTileClick}
             selectedTileId={selectedTileId}
             highlightedTiles={highlightedTiles}
+            pathPreview={previewSteps}
+            onTileHover={(tile) => setHoveredTile(tile && { x: tile.x, y: tile.y })}
             currentPlayerId={player._id}
             tileSize={tileSize}
           />
@@ -887,7 +1180,7 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
           {(() => {
             const activePlayerId = game.playerOrder[game.activePlayerIndex];
             const activePlayer = allPlayers.find(p => p._id === activePlayerId);
-            if (activePlayer?.isAI) {
+            if (activePlayer?.isAI && !isSimultaneous) {
               return (
                 <>
                   <Bot className="w-4 h-4 inline mr-2 text-purple-400" />
@@ -906,7 +1199,7 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
       )}
 
       {/* Selected Tile Context Menu - Bottom Left */}
-      {selectedTileId && selectedTile && !attackMode && !buildingPlacementMode && (
+      {selectedTileId && selectedTile && !attackMode && !moveToMode && !buildingPlacementMode && (
         <div className="fixed left-4 bottom-4 w-[400px] bg-slate-900/98 backdrop-blur-xl border border-slate-700 p-4 rounded-xl shadow-[0_0_50px_rgba(0,0,0,0.5)] z-50 animate-in slide-in-from-bottom-4 ring-1 ring-white/10 max-h-[70vh] overflow-y-auto">
           <div className="flex items-start justify-between mb-3">
             <div>
@@ -960,6 +1253,30 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
                 </div>
               )}
 
+              {/* Standing Move Order */}
+              {selectedUnit.moveOrder ? (
+                <div className="text-xs text-emerald-300 font-mono flex items-center gap-2 bg-emerald-900/20 p-2 rounded border border-emerald-500/20">
+                  <MapPin className="w-4 h-4" />
+                  <span className="flex-1">
+                    Heading to [{selectedUnit.moveOrder.x}, {selectedUnit.moveOrder.y}] · {selectedUnit.moveOrder.path.length} steps
+                  </span>
+                  <Button size="sm" variant="ghost" className="h-6 px-2 text-emerald-200 hover:text-white" onClick={handleCancelMoveOrder} disabled={isLoading}>
+                    <X className="w-3 h-3 mr-1" /> Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="w-full text-xs font-mono uppercase bg-slate-800 hover:bg-emerald-900/50 hover:text-emerald-300 border border-slate-700"
+                  onClick={() => setMoveToMode(true)}
+                  disabled={isLoading}
+                >
+                  <MapPin className="w-4 h-4 mr-2" />
+                  Move To...
+                </Button>
+              )}
+
               {/* Combat Unit Actions */}
               {selectedUnit.type !== "settler" && selectedUnit.type !== "worker" && selectedUnit.movesLeft > 0 && (
                 <>
@@ -995,6 +1312,23 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
                 </>
               )}
 
+              {/* Rover Radar (costs no moves) */}
+              {unitActions?.abilities.includes("radar") && (
+                <Button
+                  size="sm"
+                  className="w-full text-xs font-mono uppercase bg-sky-900/50 text-sky-200 hover:bg-sky-800 border border-sky-500/30"
+                  onClick={handleRadarSweep}
+                  disabled={isLoading || !unitActions.canRadarSweep}
+                >
+                  <Radar className={`w-4 h-4 mr-2 ${unitActions.isRadarActive ? "animate-pulse" : ""}`} />
+                  {unitActions.isRadarActive
+                    ? "Radar Active"
+                    : unitActions.radarCooldown
+                      ? `Radar Recharging (${unitActions.radarCooldown})`
+                      : "Radar Sweep"}
+                </Button>
+              )}
+
               {/* Settler Actions */}
               {selectedUnit.type === "settler" && (
                 <Button
@@ -1056,7 +1390,8 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
                               <span className={`text-xs ${building.canAfford ? "text-emerald-400" : "text-red-400"}`}>
                                 {BUILDING_INFO[building.buildingType]?.biomass && `${BUILDING_INFO[building.buildingType].biomass}🌿 `}
                                 {BUILDING_INFO[building.buildingType]?.ore && `${BUILDING_INFO[building.buildingType].ore}⚙️ `}
-                                {BUILDING_INFO[building.buildingType]?.flux && `${BUILDING_INFO[building.buildingType].flux}⚡`}
+                                {BUILDING_INFO[building.buildingType]?.flux && `${BUILDING_INFO[building.buildingType].flux}⚡ `}
+                                {BUILDING_INFO[building.buildingType]?.rare_earths && `${BUILDING_INFO[building.buildingType].rare_earths}💠`}
                               </span>
                             </Button>
                           ))}
@@ -1161,6 +1496,32 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
                       )}
                     </p>
 
+                    {/* The Ark - Silo only */}
+                    {selectedBuilding.type === "silo" && !selectedBuilding.isConstructing && (
+                      selectedBuilding.ark ? (
+                        <div className="bg-indigo-950/60 rounded-lg p-3 border border-indigo-700/50 text-xs font-mono text-indigo-200 space-y-1">
+                          <p className="flex items-center gap-1"><Rocket className="w-3 h-3" /> The Ark</p>
+                          {selectedBuilding.ark.launchIn !== undefined ? (
+                            <p className="text-red-300">Launching in {selectedBuilding.ark.launchIn} turns — defend the Silo!</p>
+                          ) : (
+                            <p>
+                              {ARK_STAGES[selectedBuilding.ark.stage]?.name}: {selectedBuilding.ark.progress}/{ARK_STAGES[selectedBuilding.ark.stage]?.turns} turns
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          className="w-full bg-indigo-700 hover:bg-indigo-600 text-white font-mono text-xs uppercase"
+                          onClick={handleStartArk}
+                          disabled={isLoading || !player.techUnlocked.includes("the_ark_project")}
+                          title={player.techUnlocked.includes("the_ark_project") ? "Begin The Ark" : "Requires The Ark Project"}
+                        >
+                          <Rocket className="w-3 h-3 mr-1" /> Begin The Ark
+                        </Button>
+                      )
+                    )}
+
                     {/* Spawn Units - Show directly */}
                     {!selectedBuilding.isConstructing && selectedBuildingHasActions && (
                       <>
@@ -1197,7 +1558,8 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
                                 <span className={`text-xs ${unit.canAfford && unit.techUnlocked ? "text-emerald-400" : "text-red-400"}`}>
                                   {UNIT_INFO[unit.unitType]?.biomass && `${UNIT_INFO[unit.unitType].biomass}🌿 `}
                                   {UNIT_INFO[unit.unitType]?.ore && `${UNIT_INFO[unit.unitType].ore}⚙️ `}
-                                  {UNIT_INFO[unit.unitType]?.flux && `${UNIT_INFO[unit.unitType].flux}⚡`}
+                                  {UNIT_INFO[unit.unitType]?.flux && `${UNIT_INFO[unit.unitType].flux}⚡ `}
+                                  {UNIT_INFO[unit.unitType]?.rare_earths && `${UNIT_INFO[unit.unitType].rare_earths}💠`}
                                 </span>
                               </Button>
                             ))}
@@ -1298,10 +1660,48 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
           playerResources={player.resources}
           onClose={() => setShowTechTree(false)}
           onResearch={(techId) => !isLoading && handleResearchTech(techId)}
+          onQueue={(techId) => !isLoading && handleQueueTech(techId)}
+          onDequeue={(techId) => !isLoading && handleDequeueTech(techId)}
           isLoading={isLoading}
         />
       )}
 
+      {showScoreboard && (
+        <ScoreboardModal
+          gameId={game._id as Id<"games">}
+          currentPlayerId={player._id}
+          onClose={() => setShowScoreboard(false)}
+        />
+      )}
+
+      {showDiplomacy && (
+        <DiplomacyModal
+          gameId={game._id as Id<"games">}
+          currentPlayerId={player._id}
+          players={allPlayers}
+          isMyTurn={isMyTurn}
+          isLoading={isLoading}
+          onPropose={handleProposeTreaty}
+          onRespond={handleRespondToProposal}
+          onDeclareWar={handleDeclareWar}
+          onClose={() => setShowDiplomacy(false)}
+        />
+      )}
+
+      {showTrade && (
+        <TradeModal
+          gameId={game._id as Id<"games">}
+          currentPlayerId={player._id}
+          players={allPlayers}
+          resources={player.resources}
+          isLoading={isLoading}
+          onPropose={handleProposeTrade}
+          onRespond={handleRespondToTrade}
+          onCancel={handleCancelTrade}
+          onClose={() => setShowTrade(false)}
+        />
+      )}
+
       {/* Help Panel - Centered Landscape */}
       {showHelp && (
         <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-8" onClick={() => setShowHelp(false)}>
@@ -1340,7 +1740,7 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
                         <li>From your city, train <span className="text-amber-400">Workers</span> to build economy</li>
                         <li>Build <span className="text-emerald-400">Farms</span> and <span className="text-slate-300">Mines</span> for income</li>
                         <li>Train <span className="text-red-400">Marines</span> to defend your territory</li>
-                        <li>Research tech with <span className="text-purple-400">Flux</span> to unlock advanced units</li>
+                        <li>Queue research in the Tech Tree; each turn your cities and up to 10 <span className="text-purple-400">Flux</span> push it forward</li>
                       </ol>
                     </div>
                     <div className="bg-emerald-900/20 border border-emerald-500/30 p-3 rounded-lg">
@@ -1353,11 +1753,18 @@ export function GameView({ game, player, units, buildings, allPlayers }: GameVie
                             <span className="text-slate-400"> Destroy all enemy cities and eliminate all opponents.</span>
                           </div>
                         </div>
+                        <div className="flex items-start gap-2">
+                          <Handshake className="w-4 h-4 text-sky-400 shrink-0 mt-0.5" />
+                          <div>
+                            <span className="text-sky-400 font-bold">Alliance:</span>
+                            <span className="text-slate-400"> If every surviving faction is allied, they win together.</span>
+                          </div>
+                        </div>
                         <div className="flex items-start gap-2">
                           <Rocket className="w-4 h-4 text-purple-400 shrink-0 mt-0.5" />
                           <div>
                             <span className="text-purple-400 font-bold">Ascension:</span>
-                            <span className="text-slate-400"> Research "The Ark Project" (Tier 4) and build the Silo to escape the world.</span>
+                            <span className="text-slate-400"> Research "The Ark Project" (Tier 4), then build The Ark at a completed Silo and protect it through the launch countdown.</span>
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Settings2 } from "lucide-react";
+import { DEFAULT_SPECTATOR_DELAY, MAX_PLAYERS, MAX_STARTING_RESOURCE } from "@orbitbound/backend/convex/lib/constants";
+import type { GameSettings, ResourceType, RuinRewardTable, RuinsDensity } from "@/types/game";
+
+interface LobbySettingsProps {
+  settings: GameSettings;
+  playerCount: number;
+  isHost: boolean;
+  onChange: (settings: GameSettings) => void;
+}
+
+const RUINS_DENSITIES: RuinsDensity[] = ["none", "sparse", "normal", "abundant"];
+const RUIN_REWARD_TABLES: { table: RuinRewardTable; hint: string }[] = [
+  { table: "standard", hint: "Mostly supplies, the odd trap" },
+  { table: "bountiful", hint: "Richer finds, no traps" },
+  { table: "perilous", hint: "Half are traps or guardians, but they pay well" },
+];
+const TURN_LIMITS = [undefined, 50, 100, 150, 200];
+const SPECTATOR_DELAYS = [0, 1, 2, 5, 10];
+const RESOURCE_TYPES: ResourceType[] = ["biomass", "ore", "flux", "rare_earths"];
+const VICTORIES: { key: keyof GameSettings["victories"]; label: string }[] = [
+  { key: "domination", label: "Domination" },
+  { key: "alliance", label: "Alliance" },
+  { key: "ascension", label: "Ascension" },
+  { key: "score", label: "Score" },
+];
+
+const optionClass = (selected: boolean) =>
+  `p-1.5 rounded border text-[10px] font-mono uppercase transition-all disabled:cursor-default ${selected
+    ? "border-emerald-500 bg-emerald-900/20 text-emerald-400"
+    : "border-slate-700 text-slate-400 enabled:hover:border-slate-600"
+  }`;
+
+/**
+ * Lobby rules panel. Everyone sees the current settings; only the host can
+ * change them, and the server validates every change.
+ */
+export function LobbySettings({ settings, playerCount, isHost, onChange }: LobbySettingsProps) {
+  // Resource inputs are edited locally and sent when the field loses focus
+  const [resourceDraft, setResourceDraft] = useState(settings.startingResources);
+  useEffect(() => setResourceDraft(settings.startingResources), [settings.startingResources]);
+
+  const update = (patch: Partial<GameSettings>) => onChange({ ...settings, ...patch });
+
+  // Alliance victory follows domination until it is set on its own
+  const isVictoryOn = (key: keyof GameSettings["victories"]) =>
+    settings.victories[key] ?? settings.victories.domination;
+
+  const toggleVictory = (key: keyof GameSettings["victories"]) => {
+    const victories = { ...settings.victories, [key]: !isVictoryOn(key) };
+    update({ victories });
+  };
+
+  const commitResource = (type: ResourceType, value: string) => {
+    const amount = Math.max(0, Math.min(MAX_STARTING_RESOURCE, Math.floor(Number(value) || 0)));
+    if (amount === settings.startingResources[type]) return;
+    update({ startingResources: { ...settings.startingResources, [type]: amount } });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-mono text-slate-400 uppercase flex items-center gap-2">
+        <Settings2 className="w-4 h-4" />
+        Rules
+        {!isHost && <span className="text-[10px] normal-case text-slate-500">(set by host)</span>}
+      </h3>
+
+      <div>
+        <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Player Cap</div>
+        <div className="grid grid-cols-8 gap-1">
+          {Array.from({ length: MAX_PLAYERS }, (_, i) => i + 1).map((cap) => (
+            <button
+              key={cap}
+              disabled={!isHost || cap < playerCount}
+              onClick={() => update({ maxPlayers: cap })}
+              className={optionClass(settings.maxPlayers === cap)}
+            >
+              {cap}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Victories</div>
+        <div className="grid grid-cols-4 gap-1">
+          {VICTORIES.map(({ key, label }) => (
+            <button
+              key={key}
+              disabled={!isHost}
+              onClick={() => toggleVictory(key)}
+              className={optionClass(isVictoryOn(key))}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Turn Limit</div>
+        <div className="grid grid-cols-5 gap-1">
+          {TURN_LIMITS.map((limit) => (
+            <button
+              key={limit ?? "none"}
+              disabled={!isHost}
+              onClick={() => update({ turnLimit: limit })}
+              className={optionClass(settings.turnLimit === limit)}
+            >
+              {limit ?? "None"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Weather</div>
+          <div className="grid grid-cols-2 gap-1">
+            {[true, false].map((enabled) => (
+              <button
+                key={String(enabled)}
+                disabled={!isHost}
+                onClick={() => update({ weather: enabled })}
+                className={optionClass(settings.weather === enabled)}
+              >
+                {enabled ? "On" : "Off"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Ruins</div>
+          <div className="grid grid-cols-4 gap-1">
+            {RUINS_DENSITIES.map((density) => (
+              <button
+                key={density}
+                disabled={!isHost}
+                onClick={() => update({ ruinsDensity: density })}
+                className={optionClass(settings.ruinsDensity === density)}
+                title={density}
+              >
+                {density.slice(0, 4)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Ruin Rewards</div>
+        <div className="grid grid-cols-3 gap-1">
+          {RUIN_REWARD_TABLES.map(({ table, hint }) => (
+            <button
+              key={table}
+              disabled={!isHost || settings.ruinsDensity === "none"}
+              onClick={() => update({ ruinRewards: table })}
+              className={optionClass((settings.ruinRewards ?? "standard") === table)}
+              title={hint}
+            >
+              {table}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Spectators</div>
+          <div className="grid grid-cols-2 gap-1">
+            {[true, false].map((allowed) => (
+              <button
+                key={String(allowed)}
+                disabled={!isHost}
+                onClick={() => update({ allowSpectators: allowed })}
+                className={optionClass((settings.allowSpectators ?? true) === allowed)}
+              >
+                {allowed ? "Allow" : "Private"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Spectator Delay</div>
+          <div className="grid grid-cols-5 gap-1">
+            {SPECTATOR_DELAYS.map((delay) => (
+              <button
+                key={delay}
+                disabled={!isHost || settings.allowSpectators === false}
+                onClick={() => update({ spectatorDelay: delay })}
+                className={optionClass((settings.spectatorDelay ?? DEFAULT_SPECTATOR_DELAY) === delay)}
+                title={`${delay} turns behind`}
+              >
+                {delay}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] font-mono text-slate-500 uppercase mb-1">Starting Resources</div>
+        <div className="grid grid-cols-4 gap-2">
+          {RESOURCE_TYPES.map((type) => (
+            <label key={type} className="flex items-center gap-1 text-[10px] font-mono uppercase text-slate-400">
+              {type.replace("_", " ")}
+              <input
+                type="number"
+                min={0}
+                max={MAX_STARTING_RESOURCE}
+                disabled={!isHost}
+                value={resourceDraft[type]}
+                onChange={(e) => setResourceDraft({ ...resourceDraft, [type]: Number(e.target.value) })}
+                onBlur={(e) => commitResource(type, e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-white font-mono text-xs focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:opacity-60"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import type { Tile, Player } from "@/types/game";
+import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
+import { WorldStrip } from "./world-strip";
+import { Button } from "@/components/ui/button";
+import { useReplayFrame, useReplayTurns } from "@/lib/game-hooks";
+import {
+  ChevronLeft, ChevronRight, Eye, Loader2, LogOut, Pause, Play, SkipBack, SkipForward,
+} from "lucide-react";
+
+interface ReplayViewProps {
+  gameId: Id<"games">;
+  onExit: () => void;
+}
+
+const TILE_SIZE = 48;
+const PLAYBACK_INTERVAL_MS = 1500;
+
+const playerLabel = (player: Player) =>
+  player.aiName ?? player.faction.replace("_", " ").toUpperCase();
+
+/**
+ * Turn-by-turn playback of a finished game. The board can be shown in full
+ * or through one player's fog of war as it was on that turn.
+ */
+export function ReplayView({ gameId, onExit }: ReplayViewProps) {
+  const turns = useReplayTurns(gameId);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [perspective, setPerspective] = useState<Id<"players"> | undefined>(undefined);
+  const [cameraX, setCameraX] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(20);
+
+  const lastIndex = turns ? turns.length - 1 : 0;
+  const current = turns?.[frameIndex];
+  const frame = useReplayFrame(current?.snapshotId, perspective);
+
+  useEffect(() => {
+    const calculateWidth = () => {
+      setViewportWidth(Math.max(10, Math.floor((window.innerWidth - 160) / TILE_SIZE)));
+    };
+    calculateWidth();
+    window.addEventListener("resize", calculateWidth);
+    return () => window.removeEventListener("resize", calculateWidth);
+  }, []);
+
+  // Advance one turn per tick, stopping on the last frame
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex((index) => index + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastIndex]);
+
+  const stepTo = useCallback(
+    (index: number) => {
+      setIsPlaying(false);
+      setFrameIndex(Math.max(0, Math.min(lastIndex, index)));
+    },
+    [lastIndex]
+  );
+
+  const togglePlay = useCallback(() => {
+    // Restart from the beginning when pressing play on the last frame
+    if (!isPlaying && frameIndex >= lastIndex) {
+      setFrameIndex(0);
+    }
+    setIsPlaying((playing) => !playing);
+  }, [isPlaying, frameIndex, lastIndex]);
+
+  const game = frame?.game;
+  const width = game?.width ?? 1;
+
+  const visibleColumns: Tile[][] = useMemo(() => {
+    if (!game) return [];
+    const columns: Tile[][] = [];
+    for (let i = 0; i < Math.min(viewportWidth, game.width); i++) {
+      const x = (cameraX + i) % game.width;
+      const isGhost = cameraX + i >= game.width;
+      const column: Tile[] = [];
+      for (let y = 0; y < game.height; y++) {
+        const tile = game.map[y * game.width + x];
+        if (tile) {
+          column.push({ ...tile, id: isGhost ? `${tile.id}-ghost` : tile.id });
+        }
+      }
+      columns.push(column);
+    }
+    return columns;
+  }, [game, cameraX, viewportWidth]);
+
+  const moveCamera = (direction: "left" | "right") => {
+    setCameraX((prev) => (direction === "left" ? (prev - 1 + width) % width : (prev + 1) % width));
+  };
+
+  if (turns === undefined || (turns.length > 0 && !frame)) {
+    return (
+      <div className="min-h-screen bg-slate-950 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-emerald-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (turns.length === 0 || !frame || !game) {
+    return (
+      <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center gap-4 text-slate-400 font-mono">
+        No replay was recorded for this game.
+        <Button variant="outline" onClick={onExit}>Back to lobby</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white overflow-hidden relative">
+      {/* Header */}
+      <div className="fixed top-0 left-0 right-0 z-50">
+        <div className="mx-auto max-w-4xl mt-4 flex items-center justify-between bg-slate-950/80 backdrop-blur-md border border-slate-800 rounded-full px-6 py-3 ring-1 ring-white/10">
+          <div className="font-mono text-sm">
+            <span className="text-amber-400 uppercase tracking-wide mr-3">Replay</span>
+            {current?.isFinal ? "Final board" : `Turn ${current?.turn}`}
+          </div>
+          <div className="flex items-center gap-2">
+            <Eye className="w-4 h-4 text-slate-400" />
+            <Button
+              size="sm"
+              variant={perspective === undefined ? "default" : "ghost"}
+              className="h-7 font-mono text-xs"
+              onClick={() => setPerspective(undefined)}
+            >
+              All
+            </Button>
+            {frame.players.map((player) => (
+              <Button
+                key={player._id}
+                size="sm"
+                variant={perspective === player._id ? "default" : "ghost"}
+                className="h-7 font-mono text-xs"
+                onClick={() => setPerspective(player._id as Id<"players">)}
+              >
+                {playerLabel(player)}
+              </Button>
+            ))}
+          </div>
+          <Button size="sm" variant="ghost" onClick={onExit} title="Exit Replay">
+            <LogOut className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Board */}
+      <div className="relative z-10 flex h-screen items-center justify-center overflow-hidden">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="fixed left-8 z-40 h-12 w-12 rounded-full bg-slate-800/20 border border-white/5"
+          onClick={() => moveCamera("left")}
+          title="Pan Left"
+        >
+          <ChevronLeft className="h-6 w-6" />
+        </Button>
+
+        <div className="relative w-full flex justify-center">
+          <WorldStrip
+            columns={visibleColumns}
+            units={frame.units}
+            buildings={frame.buildings}
+            onTileClick={() => {}}
+            currentPlayerId={perspective}
+            tileSize={TILE_SIZE}
+          />
+        </div>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="fixed right-8 z-40 h-12 w-12 rounded-full bg-slate-800/20 border border-white/5"
+          onClick={() => moveCamera("right")}
+          title="Pan Right"
+        >
+          <ChevronRight className="h-6 w-6" />
+        </Button>
+      </div>
+
+      {/* Playback Controls */}
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-slate-950/80 backdrop-blur-md border border-slate-800 rounded-full px-6 py-3 w-[min(90vw,40rem)]">
+        <Button size="icon" variant="ghost" onClick={() => stepTo(frameIndex - 1)} title="Previous Turn">
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button size="icon" variant="ghost" onClick={togglePlay} title={isPlaying ? "Pause" : "Play"}>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button size="icon" variant="ghost" onClick={() => stepTo(frameIndex + 1)} title="Next Turn">
+          <SkipForward className="w-4 h-4" />
+        </Button>
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={frameIndex}
+          onChange={(event) => stepTo(Number(event.target.value))}
+          className="flex-1 accent-emerald-500"
+          aria-label="Replay turn"
+        />
+        <span className="font-mono text-xs text-slate-400 w-16 text-right">
+          {frameIndex + 1}/{turns.length}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import type { PlayerResources } from "@/types/game";
-import { Leaf, Hammer, Zap, FlaskConical, TrendingUp, HelpCircle, LogOut } from "lucide-react";
+import { Leaf, Hammer, Zap, Gem, FlaskConical, TrendingUp, HelpCircle, LogOut, Timer, Trophy, Handshake, ArrowLeftRight } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "../ui/button";
 
@@ -9,13 +9,19 @@ interface ResourceBarProps {
   turn: number;
   isMyTurn?: boolean;
   onTechClick?: () => void;
+  onScoreClick?: () => void;
+  onDiplomacyClick?: () => void;
+  pendingProposals?: number; // Treaty offers awaiting the player's answer
+  onTradeClick?: () => void;
+  pendingTrades?: number; // Trade offers awaiting the player's answer
   onHelpClick?: () => void;
   onExitClick?: () => void;
-  income?: { biomass: number; ore: number; flux: number };
+  income?: PlayerResources;
   cameraPosition?: { x: number; width: number };
+  turnDeadline?: number; // Epoch ms when the active player's turn expires
 }
 
-export function ResourceBar({ resources, turn, isMyTurn, onTechClick, onHelpClick, onExitClick, income, cameraPosition }: ResourceBarProps) {
+export function ResourceBar({ resources, turn, isMyTurn, onTechClick, onScoreClick, onDiplomacyClick, pendingProposals = 0, onTradeClick, pendingTrades = 0, onHelpClick, onExitClick, income, cameraPosition, turnDeadline }: ResourceBarProps) {
   return (
     <div className="fixed top-0 left-0 right-0 z-50">
       {/* Main HUD Container */}
@@ -50,6 +56,15 @@ export function ResourceBar({ resources, turn, isMyTurn, onTechClick, onHelpClic
               color="text-purple-400"
               glowColor="shadow-purple-500/20"
             />
+            <div className="h-8 w-px bg-slate-800" />
+            <ResourceItem
+              icon={Gem}
+              value={resources.rare_earths}
+              income={income?.rare_earths}
+              label="Rare Earths"
+              color="text-cyan-300"
+              glowColor="shadow-cyan-500/20"
+            />
           </div>
 
           {/* Turn Counter / Status */}
@@ -64,6 +79,7 @@ export function ResourceBar({ resources, turn, isMyTurn, onTechClick, onHelpClic
                 {isMyTurn ? "Your Turn" : "Waiting..."}
               </div>
             )}
+            {turnDeadline !== undefined && <TurnCountdown deadline={turnDeadline} />}
             <div className="flex flex-col items-end">
               <span className="text-[10px] uppercase tracking-widest text-slate-500 font-bold">Turn</span>
               <span className="font-mono text-xl font-bold text-white leading-none">{turn}</span>
@@ -78,6 +94,39 @@ export function ResourceBar({ resources, turn, isMyTurn, onTechClick, onHelpClic
               <FlaskConical className="h-4 w-4" />
               <span className="absolute -bottom-1 -right-1 text-[9px] bg-purple-800 text-purple-200 px-1 rounded font-mono">T</span>
             </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="rounded-full border-amber-700/50 bg-amber-900/20 hover:bg-amber-800/40 text-amber-300 hover:text-amber-200"
+              onClick={onScoreClick}
+              title="Scoreboard"
+            >
+              <Trophy className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="rounded-full border-sky-700/50 bg-sky-900/20 hover:bg-sky-800/40 text-sky-300 hover:text-sky-200 relative"
+              onClick={onDiplomacyClick}
+              title="Diplomacy"
+            >
+              <Handshake className="h-4 w-4" />
+              {pendingProposals > 0 && (
+                <span className="absolute -top-1 -right-1 text-[9px] bg-sky-500 text-white px-1 rounded-full font-mono">{pendingProposals}</span>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              className="rounded-full border-lime-700/50 bg-lime-900/20 hover:bg-lime-800/40 text-lime-300 hover:text-lime-200 relative"
+              onClick={onTradeClick}
+              title="Trade"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+              {pendingTrades > 0 && (
+                <span className="absolute -top-1 -right-1 text-[9px] bg-lime-500 text-white px-1 rounded-full font-mono">{pendingTrades}</span>
+              )}
+            </Button>
             <Button
               variant="outline"
               size="icon"
@@ -115,6 +164,32 @@ export function ResourceBar({ resources, turn, isMyTurn, onTechClick, onHelpClic
   );
 }
 
+function TurnCountdown({ deadline }: { deadline: number }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const secondsLeft = Math.max(0, Math.ceil((deadline - now) / 1000));
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = secondsLeft % 60;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 font-mono text-sm tabular-nums",
+        secondsLeft <= 15 ? "text-red-400 animate-pulse" : "text-slate-300"
+      )}
+      title="Time left this turn"
+    >
+      <Timer className="h-4 w-4" />
+      {minutes}:{seconds.toString().padStart(2, "0")}
+    </div>
+  );
+}
+
 function ResourceItem({
   icon: Icon,
   value,
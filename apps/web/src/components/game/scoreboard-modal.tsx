@@ -0,0 +1,94 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Skull, Trophy, X } from "lucide-react";
+import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
+import { useScoreboard } from "@/lib/game-hooks";
+
+interface ScoreboardModalProps {
+  gameId: Id<"games">;
+  currentPlayerId: string;
+  onClose: () => void;
+}
+
+const COLUMNS = [
+  { key: "cities", label: "Cities" },
+  { key: "buildings", label: "Build" },
+  { key: "units", label: "Units" },
+  { key: "tech", label: "Tech" },
+  { key: "exploration", label: "Explore" },
+  { key: "resources", label: "Bank" },
+] as const;
+
+/**
+ * Live standings with each player's score broken down by category. Other
+ * players' breakdowns stay hidden ("–") until the game ends.
+ */
+export function ScoreboardModal({ gameId, currentPlayerId, onClose }: ScoreboardModalProps) {
+  const scoreboard = useScoreboard(gameId);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-8" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-2xl w-full shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-amber-400 font-mono flex items-center gap-2">
+            <Trophy className="w-5 h-5" />
+            Scoreboard
+          </h2>
+          <Button variant="ghost" size="sm" onClick={onClose} className="hover:bg-slate-800">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {!scoreboard ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-amber-400 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {scoreboard.scoreVictory && scoreboard.turnLimit !== undefined && (
+              <p className="text-xs font-mono text-slate-400 mb-3">
+                Highest score after turn {scoreboard.turnLimit} wins
+                ({Math.max(0, scoreboard.turnLimit - scoreboard.turn + 1)} turns left)
+              </p>
+            )}
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="text-[10px] uppercase text-slate-500 border-b border-slate-800">
+                  <th className="text-left py-2">#</th>
+                  <th className="text-left py-2">Player</th>
+                  {COLUMNS.map((column) => (
+                    <th key={column.key} className="text-right py-2">{column.label}</th>
+                  ))}
+                  <th className="text-right py-2 text-amber-400">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scoreboard.standings.map((standing, index) => (
+                  <tr
+                    key={standing.playerId}
+                    className={`border-b border-slate-800/60 last:border-0 ${standing.playerId === currentPlayerId ? "text-emerald-300" : "text-slate-300"} ${standing.isAlive ? "" : "opacity-50"}`}
+                  >
+                    <td className="py-2 text-slate-500">{index + 1}</td>
+                    <td className="py-2 flex items-center gap-1">
+                      {!standing.isAlive && <Skull className="w-3 h-3 text-red-400" />}
+                      {standing.aiName ?? standing.factionName}
+                    </td>
+                    {COLUMNS.map((column) => (
+                      <td key={column.key} className="py-2 text-right">{standing[column.key] ?? "–"}</td>
+                    ))}
+                    <td className="py-2 text-right font-bold text-amber-300">{standing.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import type { Tile, Player } from "@/types/game";
+import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
+import { WorldStrip } from "./world-strip";
+import { Button } from "@/components/ui/button";
+import { useSpectatorActions, useSpectatorView } from "@/lib/game-hooks";
+import { ChevronLeft, ChevronRight, Eye, Loader2, LogOut } from "lucide-react";
+
+interface SpectatorViewProps {
+  gameId: Id<"games">;
+  onExit: () => void;
+}
+
+const TILE_SIZE = 48;
+
+const playerLabel = (player: Player) =>
+  player.aiName ?? player.faction.replace("_", " ").toUpperCase();
+
+/**
+ * Watch a game in progress without playing in it: the whole board or one
+ * player's fog of war, a few turns behind.
+ */
+export function SpectatorView({ gameId, onExit }: SpectatorViewProps) {
+  const view = useSpectatorView(gameId);
+  const { followPlayer, leaveSpectating } = useSpectatorActions();
+  const [cameraX, setCameraX] = useState(0);
+  const [viewportWidth, setViewportWidth] = useState(20);
+
+  useEffect(() => {
+    const calculateWidth = () => {
+      setViewportWidth(Math.max(10, Math.floor((window.innerWidth - 160) / TILE_SIZE)));
+    };
+    calculateWidth();
+    window.addEventListener("resize", calculateWidth);
+    return () => window.removeEventListener("resize", calculateWidth);
+  }, []);
+
+  const game = view?.game;
+  const width = game?.width ?? 1;
+
+  const visibleColumns: Tile[][] = useMemo(() => {
+    if (!game) return [];
+    const columns: Tile[][] = [];
+    for (let i = 0; i < Math.min(viewportWidth, game.width); i++) {
+      const x = (cameraX + i) % game.width;
+      const isGhost = cameraX + i >= game.width;
+      const column: Tile[] = [];
+      for (let y = 0; y < game.height; y++) {
+        const tile = game.map[y * game.width + x];
+        if (tile) {
+          column.push({ ...tile, id: isGhost ? `${tile.id}-ghost` : tile.id });
+        }
+      }
+      columns.push(column);
+    }
+    return columns;
+  }, [game, cameraX, viewportWidth]);
+
+  const moveCamera = (direction: "left" | "right") => {
+    setCameraX((prev) => (direction === "left" ? (prev - 1 + width) % width : (prev + 1) % width));
+  };
+
+  const handleExit = async () => {
+    await leaveSpectating(gameId).catch(() => undefined);
+    onExit();
+  };
+
+  if (view === undefined) {
+    return (
+      <div className="min-h-screen bg-slate-950 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-emerald-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (view === null || !game) {
+    return (
+      <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center gap-4 text-slate-400 font-mono">
+        The spectator feed is delayed; the first turns will appear shortly.
+        <Button variant="outline" onClick={handleExit}>Back to lobby</Button>
+      </div>
+    );
+  }
+
+  const isLive = game.status === "ended" || view.delay === 0;
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white overflow-hidden relative">
+      {/* Header */}
+      <div className="fixed top-0 left-0 right-0 z-50">
+        <div className="mx-auto max-w-4xl mt-4 flex items-center justify-between bg-slate-950/80 backdrop-blur-md border border-slate-800 rounded-full px-6 py-3 ring-1 ring-white/10">
+          <div className="font-mono text-sm">
+            <span className="text-sky-400 uppercase tracking-wide mr-3">Spectating</span>
+            Turn {view.shownTurn}
+            {!isLive && <span className="text-slate-500 text-xs ml-2">({view.delay} turns behind)</span>}
+            {game.status === "ended" && <span className="text-amber-400 text-xs ml-2">Game over</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Eye className="w-4 h-4 text-slate-400" />
+            <Button
+              size="sm"
+              variant={view.followPlayerId === undefined ? "default" : "ghost"}
+              className="h-7 font-mono text-xs"
+              onClick={() => followPlayer(gameId)}
+            >
+              All
+            </Button>
+            {view.players.map((player) => (
+              <Button
+                key={player._id}
+                size="sm"
+                variant={view.followPlayerId === player._id ? "default" : "ghost"}
+                className={`h-7 font-mono text-xs ${player.isAlive ? "" : "line-through opacity-60"}`}
+                onClick={() => followPlayer(gameId, player._id as Id<"players">)}
+                disabled={game.status === "ended"}
+              >
+                {playerLabel(player)}
+              </Button>
+            ))}
+          </div>
+          <Button size="sm" variant="ghost" onClick={handleExit} title="Stop Watching">
+            <LogOut className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Board */}
+      <div className="relative z-10 flex h-screen items-center justify-center overflow-hidden">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="fixed left-8 z-40 h-12 w-12 rounded-full bg-slate-800/20 border border-white/5"
+          onClick={() => moveCamera("left")}
+          title="Pan Left"
+        >
+          <ChevronLeft className="h-6 w-6" />
+        </Button>
+
+        <div className="relative w-full flex justify-center">
+          <WorldStrip
+            columns={visibleColumns}
+            units={view.units}
+            buildings={view.buildings}
+            onTileClick={() => {}}
+            currentPlayerId={view.followPlayerId}
+            tileSize={TILE_SIZE}
+          />
+        </div>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="fixed right-8 z-40 h-12 w-12 rounded-full bg-slate-800/20 border border-white/5"
+          onClick={() => moveCamera("right")}
+          title="Pan Right"
+        >
+          <ChevronRight className="h-6 w-6" />
+        </Button>
+      </div>
+    </div>
+  );
+}
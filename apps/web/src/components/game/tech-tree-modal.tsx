@@ -2,7 +2,7 @@
 
 import React, { useMemo } from "react";
 import { Button } from "@/components/ui/button";
-import { FlaskConical, X, Zap, CircleDot, Lock, Check, HelpCircle } from "lucide-react";
+import { FlaskConical, X, Zap, CircleDot, Lock, Check, HelpCircle, Play } from "lucide-react";
 import { TECH_DEFS } from "@orbitbound/backend/convex/lib/constants";
 import type { TechDef } from "@orbitbound/backend/convex/lib/constants";
 import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
@@ -19,6 +19,9 @@ interface TechTreeModalProps {
         techId: string;
         alreadyResearched: boolean;
         canResearch: boolean;
+        canQueue: boolean;
+        progress: number;
+        queuePosition?: number;
         cost: number;
         description: string;
         name: string;
@@ -29,6 +32,8 @@ interface TechTreeModalProps {
     playerResources: { flux: number };
     onClose: () => void;
     onResearch: (techId: string) => void;
+    onQueue: (techId: string) => void;
+    onDequeue: (techId: string) => void;
     isLoading: boolean;
 }
 
@@ -57,7 +62,14 @@ const PREFERRED_ORDER = [
     "the_ark_project"
 ];
 
-export function TechTreeModal({ techTree, playerResources, onClose, onResearch, isLoading }: TechTreeModalProps) {
+export function TechTreeModal({ techTree, playerResources, onClose, onResearch, onQueue, onDequeue, isLoading }: TechTreeModalProps) {
+
+    const queue = useMemo(
+        () => techTree
+            .filter((tech) => tech.queuePosition !== undefined)
+            .sort((a, b) => a.queuePosition! - b.queuePosition!),
+        [techTree]
+    );
 
     // Organize techs by tier
     const tiers = useMemo(() => {
@@ -122,7 +134,7 @@ export function TechTreeModal({ techTree, playerResources, onClose, onResearch,
                 const controlPointX2 = endX - (endX - startX) / 2;
 
                 const isResearched = tech.alreadyResearched;
-                const isAvailable = tech.canResearch;
+                const isAvailable = tech.canQueue;
 
                 paths.push(
                     <path
@@ -158,12 +170,18 @@ export function TechTreeModal({ techTree, playerResources, onClose, onResearch,
                                     <Zap className="w-3 h-3 fill-current" /> {playerResources.flux}
                                 </span>
                             </p>
+                            <p className="text-xs text-slate-400 mt-0.5 font-mono">
+                                Queue: {queue.length > 0
+                                    ? <span className="text-amber-300">{queue.map((tech) => tech.name).join(" → ")}</span>
+                                    : <span className="text-slate-500">empty — click a tech to research it</span>}
+                            </p>
                         </div>
                     </div>
 
                     <div className="flex items-center gap-2">
                         <div className="flex items-center gap-4 text-xs font-mono mr-4 bg-slate-800/50 px-3 py-1.5 rounded-full border border-slate-700">
                             <span className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.5)]"></div>Researched</span>
+                            <span className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-amber-500 shadow-[0_0_8px_rgba(245,158,11,0.5)]"></div>Queued</span>
                             <span className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-purple-500 shadow-[0_0_8px_rgba(168,85,247,0.5)]"></div>Available</span>
                             <span className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-slate-600"></div>Locked</span>
                         </div>
@@ -188,9 +206,8 @@ export function TechTreeModal({ techTree, playerResources, onClose, onResearch,
                             if (!pos) return null;
 
                             const isResearched = tech.alreadyResearched;
-                            const isAvailable = tech.canResearch;
-                            const isLocked = !isResearched && !isAvailable;
-                            const canAfford = playerResources.flux >= tech.cost;
+                            const isQueued = tech.queuePosition !== undefined;
+                            const isAvailable = tech.canQueue;
 
                             return (
                                 <div
@@ -198,6 +215,8 @@ export function TechTreeModal({ techTree, playerResources, onClose, onResearch,
                                     className={`absolute p-4 rounded-xl border transition-all duration-300 flex flex-col justify-between group
                     ${isResearched
                                             ? "bg-emerald-950/40 border-emerald-500/50 shadow-[0_0_15px_rgba(16,185,129,0.1)]"
+                                            : isQueued
+                                            ? "bg-amber-950/30 border-amber-500/50 hover:border-amber-400 cursor-pointer"
                                             : isAvailable
                                                 ? "bg-slate-900 border-purple-500/50 hover:border-purple-400 hover:shadow-[0_0_20px_rgba(168,85,247,0.2)] hover:-translate-y-1 cursor-pointer"
                                                 : "bg-slate-900/50 border-slate-800 opacity-60 grayscale filter"
@@ -209,7 +228,12 @@ export function TechTreeModal({ techTree, playerResources, onClose, onResearch,
                                         width: NODE_WIDTH,
                                         height: NODE_HEIGHT,
                                     }}
-                                    onClick={() => isAvailable && !isLoading && onResearch(tech.techId)}
+                                    onClick={() => {
+                                        if (isLoading || isResearched) return;
+                                        if (isQueued) onDequeue(tech.techId);
+                                        else if (isAvailable) onQueue(tech.techId);
+                                    }}
+                                    title={isQueued ? "Click to remove from the queue" : isAvailable ? "Click to add to the queue" : undefined}
                                 >
                                     {/* Status Indicator */}
                                     <div className="flex justify-between items-start mb-2">
@@ -219,7 +243,15 @@ export function TechTreeModal({ techTree, playerResources, onClose, onResearch,
                                         >
                                             Tier {tech.tier}
                                         </span>
-                                        {isResearched ? <Check className="w-4 h-4 text-emerald-500" /> : isAvailable ? null : <Lock className="w-4 h-4 text-slate-600" />}
+                                        {isResearched ? (
+                                            <Check className="w-4 h-4 text-emerald-500" />
+                                        ) : tech.queuePosition === 0 ? (
+                                            <span className="text-[10px] font-mono uppercase text-amber-400">Researching</span>
+                                        ) : isQueued ? (
+                                            <span className="text-[10px] font-mono uppercase text-amber-400">Queued #{tech.queuePosition! + 1}</span>
+                                        ) : isAvailable ? null : (
+                                            <Lock className="w-4 h-4 text-slate-600" />
+                                        )}
                                     </div>
 
                                     {/* Title & Cost */}
@@ -228,9 +260,29 @@ export function TechTreeModal({ techTree, playerResources, onClose, onResearch,
                                             {tech.name}
                                         </h3>
                                         {!isResearched && (
-                                            <div className={`text-xs font-bold flex items-center gap-1 ${canAfford ? "text-purple-400" : "text-red-400"}`}>
-                                                <Zap className="w-3 h-3 fill-current" />
-                                                {tech.cost} Flux
+                                            <div className="flex items-center justify-between">
+                                                <div className="text-xs font-bold flex items-center gap-1 text-purple-400">
+                                                    <Zap className="w-3 h-3 fill-current" />
+                                                    {tech.progress > 0 ? `${tech.progress}/${tech.cost}` : tech.cost} Flux
+                                                </div>
+                                                {tech.canResearch && tech.queuePosition !== 0 && (
+                                                    <button
+                                                        disabled={isLoading}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            onResearch(tech.techId);
+                                                        }}
+                                                        className="text-[10px] font-mono uppercase flex items-center gap-1 text-amber-300 hover:text-amber-200"
+                                                        title="Research this next"
+                                                    >
+                                                        <Play className="w-3 h-3" /> Now
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
+                                        {!isResearched && tech.progress > 0 && (
+                                            <div className="mt-1 h-1 rounded-full bg-slate-800 overflow-hidden">
+                                                <div className="h-full bg-amber-500" style={{ width: `${Math.min(100, (tech.progress / Math.max(1, tech.cost)) * 100)}%` }} />
                                             </div>
                                         )}
                                     </div>
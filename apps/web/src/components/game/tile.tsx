@@ -1,7 +1,7 @@
 import React from "react";
 import type { Tile as TileType, Unit, UnitType, Building, BuildingType } from "@/types/game";
 import { cn } from "@/lib/utils";
-import { Mountain, Hexagon, Zap, Rocket, Bot, Pickaxe, Shield, Plane, Target, Home, Factory, Wheat, Sun, Warehouse, Hammer } from "lucide-react";
+import { Mountain, Hexagon, Zap, Rocket, Bot, Pickaxe, Shield, Plane, Target, Home, Factory, Wheat, Sun, Warehouse, Hammer, Drill } from "lucide-react";
 
 // Unit max HP values from backend constants
 const UNIT_MAX_HP: Record<UnitType, number> = {
@@ -26,6 +26,7 @@ const getBuildingGlowColor = (type: BuildingType): string => {
     case "skyport": return "bg-cyan-400";
     case "silo": return "bg-purple-400";
     case "bunker": return "bg-stone-500";
+    case "extractor": return "bg-cyan-300";
     default: return "bg-slate-400";
   }
 };
@@ -36,6 +37,8 @@ interface TileProps {
   building?: Building;
   isSelected: boolean;
   onClick: () => void;
+  onHover?: () => void;
+  pathStep?: { turn: number; isDestination: boolean }; // Part of the previewed route
   width?: number;
   height?: number;
   highlightType?: "move" | "attack" | "build";
@@ -100,6 +103,8 @@ const getTileStyles = (type: TileType["type"]) => {
       return "bg-gradient-to-b from-cyan-600 to-cyan-800 border border-cyan-500/50";
     case "silo":
       return "bg-gradient-to-b from-purple-600 to-purple-900 border-2 border-purple-500";
+    case "extractor":
+      return "bg-gradient-to-b from-cyan-800 to-stone-900 border border-cyan-500/50";
 
     // Construction site
     case "construction":
@@ -189,7 +194,7 @@ const UnitIcon = ({ type }: { type: UnitType }) => {
 // Main Tile Component
 // ─────────────────────────────────────────────────────────────────────────────
 
-export function Tile({ tile, unit, building, isSelected, onClick, width = 64, height = 64, highlightType, isOwned }: TileProps) {
+export function Tile({ tile, unit, building, isSelected, onClick, onHover, pathStep, width = 64, height = 64, highlightType, isOwned }: TileProps) {
   const isVisible = tile.visibility.length > 0;
 
   // Fog of war - tile not visible
@@ -218,6 +223,7 @@ export function Tile({ tile, unit, building, isSelected, onClick, width = 64, he
           highlightType === "build" && "ring-2 ring-amber-400/70 bg-amber-500/20"
         )}
         onClick={onClick}
+        onMouseEnter={onHover}
       >
         <div className="absolute inset-0 bg-blue-500 blur-xl" style={{ opacity }} />
         {tile.type === "cloud" && (
@@ -227,8 +233,11 @@ export function Tile({ tile, unit, building, isSelected, onClick, width = 64, he
         {unit && (
           <UnitOverlay unit={unit} isOwned={isOwned} />
         )}
+        {/* Explored but out of sight */}
+        {tile.inSight === false && <MemoryOverlay />}
         {/* Highlight indicator */}
         {highlightType && <HighlightIndicator type={highlightType} />}
+        {pathStep && <PathMarker step={pathStep} />}
       </div>
     );
   }
@@ -236,6 +245,7 @@ export function Tile({ tile, unit, building, isSelected, onClick, width = 64, he
   return (
     <div
       onClick={onClick}
+      onMouseEnter={onHover}
       style={{ width, height }}
       className={cn(
         "relative flex items-center justify-center box-border transition-all duration-200 group overflow-hidden cursor-pointer",
@@ -265,6 +275,9 @@ export function Tile({ tile, unit, building, isSelected, onClick, width = 64, he
         <UnitOverlay unit={unit} isOwned={isOwned} />
       )}
 
+      {/* Explored but out of sight */}
+      {tile.inSight === false && <MemoryOverlay />}
+
       {/* Selection Hologram Effect */}
       {isSelected && (
         <SelectionOverlay />
@@ -273,6 +286,9 @@ export function Tile({ tile, unit, building, isSelected, onClick, width = 64, he
       {/* Highlight indicator */}
       {highlightType && <HighlightIndicator type={highlightType} />}
 
+      {/* Route preview */}
+      {pathStep && <PathMarker step={pathStep} />}
+
       {/* Grid lines (Subtle) */}
       <div className="absolute inset-0 ring-1 ring-inset ring-black/10 pointer-events-none" />
     </div>
@@ -283,6 +299,12 @@ export function Tile({ tile, unit, building, isSelected, onClick, width = 64, he
 // Sub-components
 // ─────────────────────────────────────────────────────────────────────────────
 
+function MemoryOverlay() {
+  return (
+    <div className="absolute inset-0 bg-slate-950/50 saturate-50 pointer-events-none" />
+  );
+}
+
 function ResourceOverlay({ resource }: { resource: TileType["resource"] }) {
   return (
     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -368,6 +390,8 @@ function BuildingIcon({ type }: { type: BuildingType }) {
       return <Rocket className={cn(iconClass, "text-purple-200")} />;
     case "bunker":
       return <Warehouse className={cn(iconClass, "text-stone-300")} />;
+    case "extractor":
+      return <Drill className={cn(iconClass, "text-cyan-200")} />;
     default:
       return <Home className={cn(iconClass, "text-gray-300")} />;
   }
@@ -435,6 +459,25 @@ function HighlightIndicator({ type }: { type: "move" | "attack" | "build" }) {
   );
 }
 
+function PathMarker({ step }: { step: { turn: number; isDestination: boolean } }) {
+  // Steps taken this turn are solid; later turns fade out
+  const thisTurn = step.turn === 1;
+  return (
+    <div className="absolute inset-0 pointer-events-none z-30 flex items-center justify-center">
+      {step.isDestination ? (
+        <div className={cn(
+          "px-1.5 py-0.5 rounded font-mono text-[10px] font-bold border shadow-[0_2px_6px_rgba(0,0,0,0.6)]",
+          thisTurn ? "bg-emerald-500 text-white border-emerald-300" : "bg-sky-900/90 text-sky-100 border-sky-400/60"
+        )}>
+          {step.turn === 1 ? "This turn" : `${step.turn} turns`}
+        </div>
+      ) : (
+        <div className={cn("w-2.5 h-2.5 rounded-full", thisTurn ? "bg-emerald-400" : "bg-sky-400/60")} />
+      )}
+    </div>
+  );
+}
+
 function SelectionOverlay() {
   return (
     <div className="absolute inset-0 pointer-events-none">
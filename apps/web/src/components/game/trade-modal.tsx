@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftRight, Loader2, X } from "lucide-react";
+import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
+import { MAX_TRIBUTE_TURNS } from "@orbitbound/backend/convex/lib/constants";
+import { useTrades } from "@/lib/game-hooks";
+import type { Player, PlayerResources, ResourceType } from "@/types/game";
+
+type Amount = Partial<PlayerResources>;
+
+interface TradeModalProps {
+  gameId: Id<"games">;
+  currentPlayerId: string;
+  players: Player[];
+  resources: PlayerResources;
+  isLoading: boolean;
+  onPropose: (targetPlayerId: string, give: Amount, receive: Amount, tributeTurns?: number) => void;
+  onRespond: (tradeId: Id<"trades">, accept: boolean) => void;
+  onCancel: (tradeId: Id<"trades">) => void;
+  onClose: () => void;
+}
+
+const RESOURCE_TYPES: ResourceType[] = ["biomass", "ore", "flux", "rare_earths"];
+const TRIBUTE_OPTIONS = [undefined, 3, 5, 10, MAX_TRIBUTE_TURNS];
+
+const playerName = (player: Player | undefined) =>
+  player?.aiName ?? player?.faction.replace("_", " ") ?? "Unknown";
+
+const describe = (amount: Amount) =>
+  RESOURCE_TYPES.filter((type) => (amount[type] ?? 0) > 0)
+    .map((type) => `${amount[type]} ${type.replace("_", " ")}`)
+    .join(", ") || "nothing";
+
+const inputClass =
+  "w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-white font-mono text-xs focus:outline-none focus:ring-1 focus:ring-lime-500";
+
+/**
+ * Offer resources to another player, answer their offers and keep track of
+ * tributes still being paid.
+ */
+export function TradeModal({
+  gameId,
+  currentPlayerId,
+  players,
+  resources,
+  isLoading,
+  onPropose,
+  onRespond,
+  onCancel,
+  onClose,
+}: TradeModalProps) {
+  const trades = useTrades(gameId);
+  const others = players.filter((p) => p._id !== currentPlayerId && p.isAlive);
+  const playersById = new Map(players.map((p) => [p._id, p]));
+
+  const [targetId, setTargetId] = useState(others[0]?._id ?? "");
+  const [giveType, setGiveType] = useState<ResourceType>("ore");
+  const [giveAmount, setGiveAmount] = useState(0);
+  const [receiveType, setReceiveType] = useState<ResourceType>("flux");
+  const [receiveAmount, setReceiveAmount] = useState(0);
+  const [tributeTurns, setTributeTurns] = useState<number | undefined>(undefined);
+
+  const canPropose = targetId !== "" && (giveAmount > 0 || receiveAmount > 0) && giveAmount <= resources[giveType];
+
+  const handlePropose = () => {
+    onPropose(
+      targetId,
+      giveAmount > 0 ? { [giveType]: giveAmount } : {},
+      receiveAmount > 0 ? { [receiveType]: receiveAmount } : {},
+      tributeTurns
+    );
+    setGiveAmount(0);
+    setReceiveAmount(0);
+  };
+
+  const terms = (trade: { give: Amount; receive: Amount; tributeTurns?: number }) =>
+    `${describe(trade.give)} for ${describe(trade.receive)}${trade.tributeTurns ? ` per turn × ${trade.tributeTurns}` : ""}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-8" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-2xl w-full shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-lime-400 font-mono flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" />
+            Trade
+          </h2>
+          <Button variant="ghost" size="sm" onClick={onClose} className="hover:bg-slate-800">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {!trades ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-lime-400 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4 text-sm font-mono">
+            {trades.incoming.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-[10px] text-slate-500 uppercase">Offers to you</div>
+                {trades.incoming.map((trade) => (
+                  <div key={trade._id} className="flex items-center justify-between bg-lime-900/20 border border-lime-700/40 rounded-lg px-3 py-2">
+                    <span className="text-lime-200">
+                      {playerName(playersById.get(trade.fromPlayerId))}: {terms(trade)}
+                    </span>
+                    <div className="flex gap-1">
+                      <Button size="sm" disabled={isLoading} onClick={() => onRespond(trade._id, true)} className="h-7 bg-emerald-700 hover:bg-emerald-600">
+                        Accept
+                      </Button>
+                      <Button size="sm" variant="ghost" disabled={isLoading} onClick={() => onRespond(trade._id, false)} className="h-7 text-slate-400 hover:text-white">
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {trades.outgoing.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-[10px] text-slate-500 uppercase">Your offers</div>
+                {trades.outgoing.map((trade) => (
+                  <div key={trade._id} className="flex items-center justify-between border border-slate-800 rounded-lg px-3 py-2 text-slate-300">
+                    <span>To {playerName(playersById.get(trade.toPlayerId))}: {terms(trade)}</span>
+                    <Button size="sm" variant="ghost" disabled={isLoading} onClick={() => onCancel(trade._id)} className="h-7 text-slate-400 hover:text-white">
+                      Withdraw
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {trades.tributes.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-[10px] text-slate-500 uppercase">Tributes</div>
+                {trades.tributes.map((trade) => {
+                  const paying = trade.toPlayerId === currentPlayerId;
+                  const other = playersById.get(paying ? trade.fromPlayerId : trade.toPlayerId);
+                  return (
+                    <div key={trade._id} className={paying ? "text-amber-300" : "text-emerald-300"}>
+                      {paying ? `You pay ${playerName(other)}` : `${playerName(other)} pays you`} {describe(trade.receive)} per turn
+                      <span className="text-slate-500"> ({trade.turnsRemaining} turns left)</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="bg-slate-800/50 rounded-lg p-3 space-y-3">
+              <div className="text-[10px] text-slate-500 uppercase">New offer</div>
+              {others.length === 0 ? (
+                <p className="text-slate-500 text-xs">Nobody left to trade with.</p>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    To
+                    <select
+                      value={targetId}
+                      onChange={(e) => setTargetId(e.target.value)}
+                      className="bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-white"
+                    >
+                      {others.map((other) => (
+                        <option key={other._id} value={other._id}>{playerName(other)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    Give
+                    <input type="number" min={0} value={giveAmount} onChange={(e) => setGiveAmount(Math.max(0, Math.floor(Number(e.target.value) || 0)))} className={inputClass} />
+                    <select value={giveType} onChange={(e) => setGiveType(e.target.value as ResourceType)} className="bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-white">
+                      {RESOURCE_TYPES.map((type) => <option key={type} value={type}>{type.replace("_", " ")}</option>)}
+                    </select>
+                    for
+                    <input type="number" min={0} value={receiveAmount} onChange={(e) => setReceiveAmount(Math.max(0, Math.floor(Number(e.target.value) || 0)))} className={inputClass} />
+                    <select value={receiveType} onChange={(e) => setReceiveType(e.target.value as ResourceType)} className="bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-white">
+                      {RESOURCE_TYPES.map((type) => <option key={type} value={type}>{type.replace("_", " ")}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-slate-400">
+                    Tribute
+                    {TRIBUTE_OPTIONS.map((turns) => (
+                      <button
+                        key={turns ?? "once"}
+                        onClick={() => setTributeTurns(turns)}
+                        className={`px-2 py-1 rounded border text-[10px] uppercase ${tributeTurns === turns ? "border-lime-500 bg-lime-900/20 text-lime-400" : "border-slate-700 text-slate-400 hover:border-slate-600"}`}
+                      >
+                        {turns ? `${turns} turns` : "Once"}
+                      </button>
+                    ))}
+                  </div>
+                  <Button size="sm" disabled={isLoading || !canPropose} onClick={handlePropose} className="bg-lime-700 hover:bg-lime-600">
+                    Send Offer
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
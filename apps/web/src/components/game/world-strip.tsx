@@ -9,6 +9,8 @@ interface WorldStripProps {
   onTileClick: (tile: Tile) => void;
   selectedTileId?: string | null;
   highlightedTiles?: Map<string, "move" | "attack" | "build">;
+  pathPreview?: Map<string, { turn: number; isDestination: boolean }>; // Route steps by "x-y"
+  onTileHover?: (tile: Tile | null) => void;
   currentPlayerId?: string;
   tileSize?: number;
 }
@@ -20,6 +22,8 @@ export function WorldStrip({
   onTileClick,
   selectedTileId,
   highlightedTiles,
+  pathPreview,
+  onTileHover,
   currentPlayerId,
   tileSize = 64,
 }: WorldStripProps) {
@@ -50,7 +54,7 @@ export function WorldStrip({
   };
 
   return (
-    <div className="flex flex-row select-none">
+    <div className="flex flex-row select-none" onMouseLeave={() => onTileHover?.(null)}>
       {columns.map((column, colIndex) => (
         <div key={`col-${colIndex}`} className="flex flex-col">
           {column.map((tile) => {
@@ -67,6 +71,8 @@ export function WorldStrip({
                 building={building}
                 isSelected={selectedTileId === tile.id || selectedTileId === `${tile.id}-ghost`}
                 onClick={() => onTileClick(tile)}
+                onHover={onTileHover && (() => onTileHover(tile))}
+                pathStep={pathPreview?.get(`${tile.x}-${tile.y}`)}
                 highlightType={highlightType}
                 isOwned={isOwned}
                 width={tileSize}
@@ -1,65 +1,276 @@
 "use client";
 
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
 import { api } from "@orbitbound/backend/convex/_generated/api";
 import type { Id } from "@orbitbound/backend/convex/_generated/dataModel";
-import { useCallback, useMemo } from "react";
-import type { Tile, GameState, Player, Unit, Building, Direction } from "@/types/game";
+import type { FunctionReturnType } from "convex/server";
+import { useCallback, useMemo, useRef } from "react";
+import type { Tile, GameState, Player, Unit, Building, Direction, ChatScope, GameSettings, PlayerResources, Treaty, TurnMode, TurnTimer } from "@/types/game";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Game State Hook
 // ─────────────────────────────────────────────────────────────────────────────
 
+type RawGameState = NonNullable<FunctionReturnType<typeof api.world.getGameState>>;
+
+// Transform the raw Convex data into our frontend types
+function toGameState({ game, players, units, buildings }: RawGameState) {
+  // Transform map tiles to include x, y coordinates and virtual IDs
+  const transformedMap: Tile[] = game.map.map((tile, index) => {
+    const x = index % game.width;
+    const y = Math.floor(index / game.width);
+    return {
+      id: `${x}-${y}`,
+      x,
+      y,
+      type: tile.type as Tile["type"],
+      resource: tile.resource as Tile["resource"],
+      buildingId: tile.buildingId,
+      unitId: tile.unitId,
+      visibility: tile.visibility as string[],
+      inSight: tile.inSight,
+    };
+  });
+
+  const transformedGame: GameState = {
+    _id: game._id,
+    status: game.status as GameState["status"],
+    turn: game.turn,
+    activePlayerIndex: game.activePlayerIndex,
+    width: game.width,
+    height: game.height,
+    map: transformedMap,
+    playerOrder: game.playerOrder as string[],
+    createdAt: game.createdAt,
+    turnTimer: game.turnTimer,
+    turnDeadline: game.turnDeadline,
+    turnMode: game.turnMode,
+    readyPlayerIds: game.readyPlayerIds as string[] | undefined,
+    settings: game.settings,
+  };
+
+  return {
+    game: transformedGame,
+    players: players as Player[],
+    units: units as Unit[],
+    buildings: buildings as Building[],
+  };
+}
+
 export function useGameState(gameId: Id<"games"> | undefined, playerId: Id<"players"> | undefined) {
   const rawGameState = useQuery(
     api.world.getGameState,
     gameId && playerId ? { gameId, playerId } : "skip"
   );
 
-  // Transform the raw Convex data into our frontend types
-  const gameState = useMemo(() => {
-    if (!rawGameState) return null;
-
-    const { game, players, units, buildings } = rawGameState;
-
-    // Transform map tiles to include x, y coordinates and virtual IDs
-    const transformedMap: Tile[] = game.map.map((tile, index) => {
-      const x = index % game.width;
-      const y = Math.floor(index / game.width);
-      return {
-        id: `${x}-${y}`,
-        x,
-        y,
-        type: tile.type as Tile["type"],
-        resource: tile.resource as Tile["resource"],
-        buildingId: tile.buildingId,
-        unitId: tile.unitId,
-        visibility: tile.visibility as string[],
-      };
-    });
-
-    const transformedGame: GameState = {
-      _id: game._id,
-      status: game.status as GameState["status"],
-      turn: game.turn,
-      activePlayerIndex: game.activePlayerIndex,
-      width: game.width,
-      height: game.height,
-      seed: game.seed,
-      map: transformedMap,
-      playerOrder: game.playerOrder as string[],
-      createdAt: game.createdAt,
-    };
+  return useMemo(() => (rawGameState ? toGameState(rawGameState) : null), [rawGameState]);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scoreboard Hook
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Live standings, highest score first. Only subscribed while the
+ * scoreboard is open.
+ */
+export function useScoreboard(gameId: Id<"games"> | undefined) {
+  return useQuery(api.game.getScoreboard, gameId ? { gameId } : "skip");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ark Hook
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Every Ark under way in the game. Projects are public once announced.
+ */
+export function useArkProjects(gameId: Id<"games"> | undefined) {
+  return useQuery(api.ark.listArkProjects, gameId ? { gameId } : "skip") ?? [];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Diplomacy Hooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Treaties in force (public) and the viewer's pending proposals.
+ */
+export function useDiplomacy(gameId: Id<"games"> | undefined) {
+  return useQuery(api.diplomacy.getDiplomacy, gameId ? { gameId } : "skip");
+}
+
+export function useDiplomacyActions() {
+  const proposeTreaty = useMutation(api.diplomacy.proposeTreaty);
+  const respondToProposal = useMutation(api.diplomacy.respondToProposal);
+  const declareWar = useMutation(api.diplomacy.declareWar);
 
+  return {
+    proposeTreaty: useCallback(
+      (playerId: Id<"players">, targetPlayerId: Id<"players">, treaty: Treaty, sharedVision?: boolean) =>
+        proposeTreaty({ playerId, targetPlayerId, treaty, sharedVision }),
+      [proposeTreaty]
+    ),
+    respondToProposal: useCallback(
+      (playerId: Id<"players">, proposalId: Id<"diplomacyProposals">, accept: boolean) =>
+        respondToProposal({ playerId, proposalId, accept }),
+      [respondToProposal]
+    ),
+    declareWar: useCallback(
+      (playerId: Id<"players">, targetPlayerId: Id<"players">) =>
+        declareWar({ playerId, targetPlayerId }),
+      [declareWar]
+    ),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trade Hooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The viewer's trade offers (sent and received) and running tributes.
+ */
+export function useTrades(gameId: Id<"games"> | undefined) {
+  return useQuery(api.trade.listTrades, gameId ? { gameId } : "skip");
+}
+
+export function useTradeActions() {
+  const proposeTrade = useMutation(api.trade.proposeTrade);
+  const respondToTrade = useMutation(api.trade.respondToTrade);
+  const cancelTrade = useMutation(api.trade.cancelTrade);
+
+  return {
+    proposeTrade: useCallback(
+      (
+        playerId: Id<"players">,
+        targetPlayerId: Id<"players">,
+        give: Partial<PlayerResources>,
+        receive: Partial<PlayerResources>,
+        tributeTurns?: number
+      ) => proposeTrade({ playerId, targetPlayerId, give, receive, tributeTurns }),
+      [proposeTrade]
+    ),
+    respondToTrade: useCallback(
+      (playerId: Id<"players">, tradeId: Id<"trades">, accept: boolean) =>
+        respondToTrade({ playerId, tradeId, accept }),
+      [respondToTrade]
+    ),
+    cancelTrade: useCallback(
+      (playerId: Id<"players">, tradeId: Id<"trades">) =>
+        cancelTrade({ playerId, tradeId }),
+      [cancelTrade]
+    ),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Chat Hooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CHAT_PAGE_SIZE = 30;
+
+/**
+ * Chat messages the viewer can read, newest first; loadMore fetches older
+ * pages.
+ */
+export function useChatMessages(gameId: Id<"games"> | undefined) {
+  return usePaginatedQuery(
+    api.chat.listMessages,
+    gameId ? { gameId } : "skip",
+    { initialNumItems: CHAT_PAGE_SIZE }
+  );
+}
+
+export function useSendMessage() {
+  const sendMessage = useMutation(api.chat.sendMessage);
+  return useCallback(
+    (playerId: Id<"players">, scope: ChatScope, body: string, recipientId?: Id<"players">) =>
+      sendMessage({ playerId, scope, body, recipientId }),
+    [sendMessage]
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Spectator Hooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function useWatchableGames() {
+  return useQuery(api.spectate.listWatchableGames) ?? [];
+}
+
+/**
+ * What a spectator sees, in the same shape as useGameState plus which player
+ * is followed and which turn is shown. Null until the delayed view has a
+ * turn to show.
+ */
+export function useSpectatorView(gameId: Id<"games"> | undefined) {
+  const rawView = useQuery(api.spectate.getSpectatorView, gameId ? { gameId } : "skip");
+
+  return useMemo(() => {
+    if (rawView === undefined) return undefined;
+    if (rawView === null) return null;
     return {
-      game: transformedGame,
-      players: players as Player[],
-      units: units as Unit[],
-      buildings: buildings as Building[],
+      ...toGameState(rawView),
+      followPlayerId: rawView.followPlayerId,
+      shownTurn: rawView.shownTurn,
+      delay: rawView.delay,
     };
-  }, [rawGameState]);
+  }, [rawView]);
+}
+
+export function useSpectatorActions() {
+  const joinAsSpectator = useMutation(api.spectate.joinAsSpectator);
+  const followPlayer = useMutation(api.spectate.followPlayer);
+  const leaveSpectating = useMutation(api.spectate.leaveSpectating);
 
-  return gameState;
+  return {
+    joinAsSpectator: useCallback(
+      (gameId: Id<"games">) => joinAsSpectator({ gameId }),
+      [joinAsSpectator]
+    ),
+    followPlayer: useCallback(
+      (gameId: Id<"games">, playerId?: Id<"players">) => followPlayer({ gameId, playerId }),
+      [followPlayer]
+    ),
+    leaveSpectating: useCallback(
+      (gameId: Id<"games">) => leaveSpectating({ gameId }),
+      [leaveSpectating]
+    ),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Replay Hooks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Turns recorded for a finished game, oldest first.
+ */
+export function useReplayTurns(gameId: Id<"games"> | undefined) {
+  return useQuery(api.replay.listReplayTurns, gameId ? { gameId } : "skip");
+}
+
+/**
+ * One replay frame in the same shape as useGameState. Keeps showing the
+ * previous frame while the next one loads so playback doesn't flicker.
+ */
+export function useReplayFrame(
+  snapshotId: Id<"turnSnapshots"> | undefined,
+  perspective: Id<"players"> | undefined
+) {
+  const rawFrame = useQuery(
+    api.replay.getReplayFrame,
+    snapshotId ? { snapshotId, perspective } : "skip"
+  );
+  const lastFrame = useRef<ReturnType<typeof toGameState> | null>(null);
+
+  return useMemo(() => {
+    if (rawFrame) {
+      lastFrame.current = toGameState(rawFrame);
+    }
+    return lastFrame.current;
+  }, [rawFrame]);
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -68,6 +279,8 @@ export function useGameState(gameId: Id<"games"> | undefined, playerId: Id<"play
 
 export function useGameActions() {
   const moveUnit = useMutation(api.units.move);
+  const moveTo = useMutation(api.units.moveTo);
+  const cancelMoveOrder = useMutation(api.units.cancelMoveOrder);
   const foundCity = useMutation(api.units.foundCity);
   const spawnUnit = useMutation(api.units.spawnUnit);
   const attack = useMutation(api.combat.attack);
@@ -76,7 +289,10 @@ export function useGameActions() {
   const collectResource = useMutation(api.economy.collectResource);
   const endTurn = useMutation(api.economy.endTurn);
   const researchTech = useMutation(api.tech.researchTech);
+  const queueTech = useMutation(api.tech.queueTech);
+  const dequeueTech = useMutation(api.tech.dequeueTech);
   const toggleEntrench = useMutation(api.units.toggleEntrench);
+  const radarSweep = useMutation(api.units.radarSweep);
 
   return {
     moveUnit: useCallback(
@@ -84,6 +300,16 @@ export function useGameActions() {
         moveUnit({ unitId, playerId, direction }),
       [moveUnit]
     ),
+    moveTo: useCallback(
+      (unitId: Id<"units">, playerId: Id<"players">, x: number, y: number) =>
+        moveTo({ unitId, playerId, x, y }),
+      [moveTo]
+    ),
+    cancelMoveOrder: useCallback(
+      (unitId: Id<"units">, playerId: Id<"players">) =>
+        cancelMoveOrder({ unitId, playerId }),
+      [cancelMoveOrder]
+    ),
     foundCity: useCallback(
       (unitId: Id<"units">, playerId: Id<"players">) =>
         foundCity({ unitId, playerId }),
@@ -129,11 +355,26 @@ export function useGameActions() {
         researchTech({ playerId, techId }),
       [researchTech]
     ),
+    queueTech: useCallback(
+      (playerId: Id<"players">, techId: string) =>
+        queueTech({ playerId, techId }),
+      [queueTech]
+    ),
+    dequeueTech: useCallback(
+      (playerId: Id<"players">, techId: string) =>
+        dequeueTech({ playerId, techId }),
+      [dequeueTech]
+    ),
     toggleEntrench: useCallback(
       (unitId: Id<"units">, playerId: Id<"players">, entrench: boolean) =>
         toggleEntrench({ unitId, playerId, entrench }),
       [toggleEntrench]
     ),
+    radarSweep: useCallback(
+      (unitId: Id<"units">, playerId: Id<"players">) =>
+        radarSweep({ unitId, playerId }),
+      [radarSweep]
+    ),
   };
 }
 
@@ -145,17 +386,18 @@ export function useLobbyActions() {
   const generateWorld = useMutation(api.world.generateWorld);
   const joinGame = useMutation(api.players.joinGame);
   const startGame = useMutation(api.game.startGame);
+  const updateGameSettings = useMutation(api.game.updateGameSettings);
   const listOpenGames = useQuery(api.game.listOpenGames);
 
   return {
     createGame: useCallback(
-      (width: number, height: number, seed?: number) =>
-        generateWorld({ width, height, seed }),
+      (width: number, height: number, seed?: number, turnTimer?: TurnTimer, turnMode?: TurnMode) =>
+        generateWorld({ width, height, seed, turnTimer, turnMode }),
       [generateWorld]
     ),
     joinGame: useCallback(
-      (gameId: Id<"games">, faction: string, userId?: string) =>
-        joinGame({ gameId, faction, userId }),
+      (gameId: Id<"games">, faction: string) =>
+        joinGame({ gameId, faction }),
       [joinGame]
     ),
     startGame: useCallback(
@@ -163,6 +405,11 @@ export function useLobbyActions() {
         startGame({ gameId, hostPlayerId }),
       [startGame]
     ),
+    updateSettings: useCallback(
+      (gameId: Id<"games">, hostPlayerId: Id<"players">, settings: GameSettings) =>
+        updateGameSettings({ gameId, hostPlayerId, settings }),
+      [updateGameSettings]
+    ),
     openGames: listOpenGames ?? [],
   };
 }
@@ -171,10 +418,10 @@ export function useLobbyActions() {
 // Tech Tree Hook
 // ─────────────────────────────────────────────────────────────────────────────
 
-export function useTechTree(playerId: Id<"players"> | undefined) {
+export function useTechTree(gameId: Id<"games"> | undefined) {
   const techTree = useQuery(
     api.tech.getAvailableTech,
-    playerId ? { playerId } : "skip"
+    gameId ? { gameId } : "skip"
   );
 
   return techTree ?? [];
@@ -184,23 +431,39 @@ export function useTechTree(playerId: Id<"players"> | undefined) {
 // Unit Actions Hook
 // ─────────────────────────────────────────────────────────────────────────────
 
-export function useUnitActions(unitId: Id<"units"> | undefined, playerId: Id<"players"> | undefined) {
+export function useUnitActions(unitId: Id<"units"> | undefined) {
   const actions = useQuery(
     api.units.getUnitActions,
-    unitId && playerId ? { unitId, playerId } : "skip"
+    unitId ? { unitId } : "skip"
   );
 
   return actions;
 }
 
+/** Tiles the viewer's unit can reach this turn (with cost) and the targets it can hit. */
+export function useMovementRange(unitId: Id<"units"> | undefined) {
+  return useQuery(
+    api.units.getMovementRange,
+    unitId ? { unitId } : "skip"
+  );
+}
+
+/** The route a move order to `target` would take, and the turn each step falls on. */
+export function usePathPreview(unitId: Id<"units"> | undefined, target: { x: number; y: number } | null) {
+  return useQuery(
+    api.units.previewPath,
+    unitId && target ? { unitId, x: target.x, y: target.y } : "skip"
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Building Info Hooks
 // ─────────────────────────────────────────────────────────────────────────────
 
-export function useBuildableBuildings(playerId: Id<"players"> | undefined, cityId: Id<"buildings"> | undefined) {
+export function useBuildableBuildings(cityId: Id<"buildings"> | undefined) {
   const buildings = useQuery(
     api.buildings.getBuildableBuildings,
-    playerId && cityId ? { playerId, cityId } : "skip"
+    cityId ? { cityId } : "skip"
   );
 
   // Transform to frontend format
@@ -221,10 +484,10 @@ export function useBuildableBuildings(playerId: Id<"players"> | undefined, cityI
 /**
  * Get buildings a Worker can construct (no city required)
  */
-export function useWorkerBuildableBuildings(playerId: Id<"players"> | undefined) {
+export function useWorkerBuildableBuildings(gameId: Id<"games"> | undefined) {
   const buildings = useQuery(
     api.buildings.getWorkerBuildableBuildings,
-    playerId ? { playerId } : "skip"
+    gameId ? { gameId } : "skip"
   );
 
   return useMemo(() => {
@@ -242,10 +505,10 @@ export function useWorkerBuildableBuildings(playerId: Id<"players"> | undefined)
   }, [buildings]);
 }
 
-export function useSpawnableUnits(playerId: Id<"players"> | undefined, buildingId: Id<"buildings"> | undefined) {
+export function useSpawnableUnits(buildingId: Id<"buildings"> | undefined) {
   const units = useQuery(
     api.buildings.getSpawnableUnits,
-    playerId && buildingId ? { playerId, buildingId } : "skip"
+    buildingId ? { buildingId } : "skip"
   );
 
   // Transform to frontend format
@@ -37,7 +37,6 @@ export const MOCK_GAME: GameState = {
   activePlayerIndex: 0,
   width: WIDTH,
   height: HEIGHT,
-  seed: 12345,
   map: generateMap(),
   playerOrder: ["player1"],
   createdAt: Date.now(),
@@ -52,6 +51,7 @@ export const MOCK_PLAYER: Player = {
     biomass: 50,
     ore: 20,
     flux: 5,
+    rare_earths: 0,
   },
   techUnlocked: ["planetary_survival"],
   isAlive: true,
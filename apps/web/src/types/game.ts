@@ -29,10 +29,11 @@ export type TileType =
   | "skyport"
   | "silo"
   | "barracks"
+  | "extractor"
   | "construction";
 
 // Resource types matching backend RESOURCE_KEYS
-export type ResourceType = "biomass" | "ore" | "flux";
+export type ResourceType = "biomass" | "ore" | "flux" | "rare_earths";
 
 // Faction IDs matching backend FACTIONS
 export type FactionId = "united_terran" | "xeno_hive" | "cyber_synapse";
@@ -57,7 +58,8 @@ export type BuildingType =
   | "factory"
   | "skyport"
   | "silo"
-  | "barracks";
+  | "barracks"
+  | "extractor";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Core Game Interfaces
@@ -71,13 +73,15 @@ export interface Tile {
   resource?: ResourceType;
   buildingId?: string;
   unitId?: string;
-  visibility: string[]; // Player IDs who can see this tile
+  visibility: string[]; // Player IDs who have explored this tile
+  inSight?: boolean; // Currently seen by the viewer (explored but out of sight otherwise)
 }
 
 export interface PlayerResources {
   biomass: number;
   ore: number;
   flux: number;
+  rare_earths: number;
 }
 
 export interface GameState {
@@ -87,10 +91,42 @@ export interface GameState {
   activePlayerIndex: number;
   width: number;
   height: number;
-  seed: number;
   map: Tile[];
   playerOrder: string[];
   createdAt: number;
+  turnTimer?: TurnTimer;
+  turnDeadline?: number; // Epoch ms when the active human's turn expires
+  turnMode?: TurnMode;
+  readyPlayerIds?: string[]; // Simultaneous mode: players who have ended the round
+  settings?: GameSettings;
+}
+
+export type RuinsDensity = "none" | "sparse" | "normal" | "abundant";
+export type RuinRewardTable = "standard" | "bountiful" | "perilous";
+
+export interface GameSettings {
+  maxPlayers: number;
+  victories: {
+    domination: boolean;
+    alliance?: boolean; // Unset = as domination
+    ascension: boolean;
+    score: boolean; // Decided at the turn limit
+  };
+  weather: boolean;
+  ruinsDensity: RuinsDensity;
+  ruinRewards?: RuinRewardTable; // Unset = standard
+  startingResources: PlayerResources;
+  turnLimit?: number; // Unset = no limit
+  allowSpectators?: boolean; // Unset = allowed
+  spectatorDelay?: number; // Turns the omniscient spectator view lags behind
+}
+
+export type TurnMode = "sequential" | "simultaneous";
+
+export interface TurnTimer {
+  seconds: number;
+  onTimeout: "skip" | "ai"; // End the turn, or hand the seat to the AI
+  aiDifficulty?: "easy" | "medium" | "hard";
 }
 
 export interface Player {
@@ -98,14 +134,15 @@ export interface Player {
   gameId: string;
   userId?: string;
   faction: FactionId;
-  resources: PlayerResources;
-  techUnlocked: string[];
+  resources: PlayerResources; // Redacted by the server for opponents
+  techUnlocked: string[]; // Redacted by the server for opponents
   isAlive: boolean;
   order: number;
   // AI player fields
   isAI?: boolean;
   aiDifficulty?: "easy" | "medium" | "hard";
   aiName?: string;
+  autopilot?: boolean; // Human seat run by the AI after a turn timeout
 }
 
 export interface Unit {
@@ -121,6 +158,9 @@ export interface Unit {
   entrenched?: boolean; // Marine entrench ability
   buildsLeft?: number; // Worker building uses remaining
   autoExplore?: boolean; // Rover auto-explore mode
+  radarSweep?: { x: number; y: number }; // Rover radar: active until the owner's next turn
+  radarCooldown?: number; // Rover radar: turns until it can sweep again
+  moveOrder?: { x: number; y: number; path: { x: number; y: number }[] }; // Standing move order (own units only)
 }
 
 export interface Building {
@@ -135,8 +175,22 @@ export interface Building {
   buildProgress?: number; // Current construction progress
   turnsToComplete?: number; // Total turns needed
   workerId?: string; // Worker currently building this
+  isRemembered?: boolean; // Last-seen snapshot of an enemy building out of sight
+  seenOnTurn?: number; // Turn the snapshot was taken
+  ark?: ArkProgress; // Silo only: The Ark under construction
 }
 
+export interface ArkProgress {
+  stage: number; // Index into ARK_STAGES
+  progress: number; // Turns of work on the current stage
+  launchIn?: number; // Set once fueled; launches at 0
+}
+
+export type DiplomaticStance = "war" | "peace" | "alliance";
+export type Treaty = Exclude<DiplomaticStance, "war">;
+
+export type ChatScope = "global" | "team" | "direct";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // API Response Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -177,14 +231,21 @@ export interface TechInfo {
   prerequisites: string[];
   unlocks: string[];
   description: string;
-  canResearch: boolean;
+  canResearch: boolean; // Prerequisites researched
+  canQueue: boolean; // Prerequisites researched or queued
   alreadyResearched: boolean;
+  progress: number; // Research points put in so far
+  queuePosition?: number; // 0 = being researched now
 }
 
 export interface UnitActions {
   canMove: boolean;
   canAttack: boolean;
   canFoundCity: boolean;
+  canRadarSweep?: boolean;
+  isRadarActive?: boolean;
+  radarCooldown?: number;
+  canArcFire?: boolean; // Can hit spotted targets without a clear line of fire
   abilities: string[];
   stats: {
     hp: number;
@@ -203,6 +264,7 @@ export interface CombatResult {
   defenderDamageDealt: number;
   attackerDied: boolean;
   defenderDied: boolean;
+  splash?: { unitId: string; playerId: string; damage: number; died: boolean }[]; // Arc fire
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
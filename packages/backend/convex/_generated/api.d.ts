@@ -11,21 +11,50 @@
 import type * as ai_actions from "../ai/actions.js";
 import type * as ai_constants from "../ai/constants.js";
 import type * as ai_helpers from "../ai/helpers.js";
+import type * as ai_planner from "../ai/planner.js";
 import type * as ai_queries from "../ai/queries.js";
+import type * as ai_strategy from "../ai/strategy.js";
+import type * as ark from "../ark.js";
 import type * as buildings from "../buildings.js";
+import type * as chat from "../chat.js";
 import type * as combat from "../combat.js";
+import type * as diplomacy from "../diplomacy.js";
 import type * as economy from "../economy.js";
+import type * as events from "../events.js";
 import type * as game from "../game.js";
 import type * as healthCheck from "../healthCheck.js";
+import type * as lib_ark from "../lib/ark.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_combat from "../lib/combat.js";
 import type * as lib_constants from "../lib/constants.js";
+import type * as lib_construction from "../lib/construction.js";
+import type * as lib_diplomacy from "../lib/diplomacy.js";
+import type * as lib_economy from "../lib/economy.js";
+import type * as lib_events from "../lib/events.js";
+import type * as lib_fog from "../lib/fog.js";
 import type * as lib_gameHelpers from "../lib/gameHelpers.js";
 import type * as lib_grid from "../lib/grid.js";
+import type * as lib_movement from "../lib/movement.js";
+import type * as lib_orders from "../lib/orders.js";
 import type * as lib_pathfinding from "../lib/pathfinding.js";
+import type * as lib_random from "../lib/random.js";
+import type * as lib_replay from "../lib/replay.js";
+import type * as lib_research from "../lib/research.js";
 import type * as lib_resources from "../lib/resources.js";
+import type * as lib_ruins from "../lib/ruins.js";
+import type * as lib_score from "../lib/score.js";
+import type * as lib_settings from "../lib/settings.js";
+import type * as lib_trade from "../lib/trade.js";
+import type * as lib_turnTimer from "../lib/turnTimer.js";
+import type * as lib_victory from "../lib/victory.js";
 import type * as lib_vision from "../lib/vision.js";
+import type * as migrations from "../migrations.js";
 import type * as players from "../players.js";
 import type * as privateData from "../privateData.js";
+import type * as replay from "../replay.js";
+import type * as spectate from "../spectate.js";
 import type * as tech from "../tech.js";
+import type * as trade from "../trade.js";
 import type * as units from "../units.js";
 import type * as userGames from "../userGames.js";
 import type * as world from "../world.js";
@@ -40,21 +69,50 @@ declare const fullApi: ApiFromModules<{
   "ai/actions": typeof ai_actions;
   "ai/constants": typeof ai_constants;
   "ai/helpers": typeof ai_helpers;
+  "ai/planner": typeof ai_planner;
   "ai/queries": typeof ai_queries;
+  "ai/strategy": typeof ai_strategy;
+  ark: typeof ark;
   buildings: typeof buildings;
+  chat: typeof chat;
   combat: typeof combat;
+  diplomacy: typeof diplomacy;
   economy: typeof economy;
+  events: typeof events;
   game: typeof game;
   healthCheck: typeof healthCheck;
+  "lib/ark": typeof lib_ark;
+  "lib/auth": typeof lib_auth;
+  "lib/combat": typeof lib_combat;
   "lib/constants": typeof lib_constants;
+  "lib/construction": typeof lib_construction;
+  "lib/diplomacy": typeof lib_diplomacy;
+  "lib/economy": typeof lib_economy;
+  "lib/events": typeof lib_events;
+  "lib/fog": typeof lib_fog;
   "lib/gameHelpers": typeof lib_gameHelpers;
   "lib/grid": typeof lib_grid;
+  "lib/movement": typeof lib_movement;
+  "lib/orders": typeof lib_orders;
   "lib/pathfinding": typeof lib_pathfinding;
+  "lib/random": typeof lib_random;
+  "lib/replay": typeof lib_replay;
+  "lib/research": typeof lib_research;
   "lib/resources": typeof lib_resources;
+  "lib/ruins": typeof lib_ruins;
+  "lib/score": typeof lib_score;
+  "lib/settings": typeof lib_settings;
+  "lib/trade": typeof lib_trade;
+  "lib/turnTimer": typeof lib_turnTimer;
+  "lib/victory": typeof lib_victory;
   "lib/vision": typeof lib_vision;
+  migrations: typeof migrations;
   players: typeof players;
   privateData: typeof privateData;
+  replay: typeof replay;
+  spectate: typeof spectate;
   tech: typeof tech;
+  trade: typeof trade;
   units: typeof units;
   userGames: typeof userGames;
   world: typeof world;
@@ -7,17 +7,26 @@
 
 import { v } from "convex/values";
 import { internalAction, internalMutation } from "../_generated/server";
-import { internal, api } from "../_generated/api";
-import { AI_TURN_DELAY_MS, AI_WEIGHTS } from "./constants";
-import { BUILDING_DEFS } from "../lib/constants";
+import { internal } from "../_generated/api";
+import { AI_CHAT_CHANCE, AI_CHAT_LINES, AI_GOALS, AI_TURN_DELAY_MS, AI_WEIGHTS } from "./constants";
+import { BUILDING_DEFS, RESOURCE_KEYS, TECH_DEFS } from "../lib/constants";
+import type { Cost } from "../lib/constants";
+import { manhattanDistance } from "../lib/grid";
+import { getGameOrThrow, isPlayersTurn } from "../lib/gameHelpers";
+import { createRng, getGameRng, saveGameRng } from "../lib/random";
+import { getPeacefulPlayerIds } from "../lib/diplomacy";
 import {
   analyzeGameState,
-  findMoveToward,
   findEnemiesInRange,
-  directionToCommand,
+  chooseBuildStep,
   chooseBuildingToBuild,
   chooseUnitToSpawn,
+  evaluateTradeOffer,
+  getBuildSites,
+  suitsBuilding,
 } from "./helpers";
+import { createRoutePlanner, needsEscort, planMilitaryMoves } from "./planner";
+import { aiEconomyValidator, aiGoalValidator, chooseGoal, getSavingsTarget, planResearch, trackEconomy } from "./strategy";
 
 /**
  * Main AI turn execution - called when it's an AI player's turn
@@ -32,19 +41,51 @@ export const runAITurn = internalAction({
     await new Promise((resolve) => setTimeout(resolve, AI_TURN_DELAY_MS));
 
     // Get current game state
-    const game = await ctx.runQuery(internal.ai.queries.getGameForAI, { gameId });
+    const game = await ctx.runQuery(internal.ai.queries.getGameForAI, { gameId, playerId });
     if (!game || game.status !== "active") return;
 
     const player = await ctx.runQuery(internal.ai.queries.getPlayerForAI, { playerId });
     if (!player || !player.isAlive || !player.isAI) return;
 
     // Check if it's still this AI's turn
-    const currentPlayerId = game.playerOrder[game.activePlayerIndex];
-    if (currentPlayerId !== playerId) return;
+    if (!isPlayersTurn(game, playerId)) return;
 
     const difficulty = player.aiDifficulty ?? "medium";
     const weights = AI_WEIGHTS[difficulty];
 
+    // All decisions this turn come from a seed drawn from the game RNG
+    const rng = createRng(await ctx.runMutation(internal.ai.actions.drawAISeed, { gameId }));
+
+    // Answer treaty offers first so this turn's targets respect the result.
+    // Militaristic AIs are slower to make peace and slower still to ally.
+    const { incoming } = await ctx.runQuery(internal.ai.queries.getDiplomacyForAI, { gameId, playerId });
+    for (const proposal of incoming) {
+      const willingness = (1 - weights.military) * (proposal.treaty === "alliance" ? 0.5 : 1);
+      const accept = rng.next() < willingness;
+      try {
+        await ctx.runMutation(internal.diplomacy.respondToProposalAsAI, { playerId, proposalId: proposal._id, accept });
+        console.log(`[AI] ${player.aiName} ${accept ? "accepted" : "rejected"} a ${proposal.treaty} proposal`);
+      } catch {
+        // Proposal no longer valid
+      }
+    }
+    const { relations } = await ctx.runQuery(internal.ai.queries.getDiplomacyForAI, { gameId, playerId });
+
+    // Answer trade offers against the current stockpile, re-read after each
+    // deal so one acceptance can't overspend on the next
+    const tradeOffers = await ctx.runQuery(internal.ai.queries.getTradeOffersForAI, { playerId });
+    for (const offer of tradeOffers) {
+      const current = await ctx.runQuery(internal.ai.queries.getPlayerForAI, { playerId });
+      if (!current) break;
+      const accept = evaluateTradeOffer(offer, current, weights);
+      try {
+        await ctx.runMutation(internal.trade.respondToTradeAsAI, { playerId, tradeId: offer._id, accept });
+        console.log(`[AI] ${player.aiName} ${accept ? "accepted" : "rejected"} a trade offer`);
+      } catch {
+        // Offer no longer valid
+      }
+    }
+
     // Get all units and buildings
     const allUnits = await ctx.runQuery(internal.ai.queries.getUnitsForAI, { gameId });
     const allBuildings = await ctx.runQuery(internal.ai.queries.getBuildingsForAI, { gameId });
@@ -53,10 +94,31 @@ export const runAITurn = internalAction({
     const myBuildings = allBuildings.filter((b) => b.playerId === playerId);
 
     // Analyze the game state
-    const analysis = analyzeGameState(game, player, myUnits, myBuildings, allUnits, allBuildings);
+    const analysis = analyzeGameState(
+      game, player, myUnits, myBuildings, allUnits, allBuildings, getPeacefulPlayerIds(relations, playerId)
+    );
+
+    // Re-evaluate the long-term goal; it steers research, building and production
+    const economy = trackEconomy(player, analysis);
+    const goal = chooseGoal(analysis, player, weights, rng, economy);
+    await ctx.runMutation(internal.ai.actions.setAIGoal, { playerId, goal, economy });
+    if (goal !== player.aiGoal) {
+      console.log(`[AI] ${player.aiName} is now pursuing: ${AI_GOALS[goal].name}`);
+    }
+
+    // Hold back the cost of whatever the goal is saving up for
+    const savingFor = getSavingsTarget(goal, player, analysis, weights);
+    const reserve: Cost = savingFor ? BUILDING_DEFS[savingFor].cost : {};
+
+    // Routes are planned over the board as it stood at the start of the turn;
+    // moveToAsAI re-plans each one against the live board
+    const planner = createRoutePlanner(game, player);
 
     console.log(`[AI] ${player.aiName} - Cities: ${analysis.cityCount}, Army: ${analysis.armyStrength}, Visible enemies: ${analysis.visibleEnemyUnits.length}`);
 
+    // Notable actions this turn, for the AI's chat remarks
+    const highlights = new Set<keyof typeof AI_CHAT_LINES>();
+
     try {
       // ─────────────────────────────────────────────────────────────────────
       // Priority 1: Found cities with settlers
@@ -67,32 +129,29 @@ export const runAITurn = internalAction({
         const shouldFound = analysis.cityCount === 0 || 
           (analysis.expansionOpportunities.some(
             (e) => Math.abs(e.x - settler.x) + Math.abs(e.y - settler.y) <= 2
-          ) && Math.random() > weights.randomness);
+          ) && rng.next() > weights.randomness);
 
         if (shouldFound) {
           try {
-            await ctx.runMutation(api.units.foundCity, { unitId: settler._id, playerId });
+            await ctx.runMutation(internal.units.foundCityAsAI, { unitId: settler._id, playerId });
             console.log(`[AI] ${player.aiName} founded a city!`);
+            highlights.add("city");
             continue;
           } catch {
             // Not a valid spot, try moving instead
           }
         }
 
-        // Move settler toward expansion opportunity
-        if (analysis.expansionOpportunities.length > 0) {
-          const target = analysis.expansionOpportunities[0];
-          const move = findMoveToward(settler, target.x, target.y, game, allUnits, allBuildings);
-          if (move) {
-            try {
-              await ctx.runMutation(api.units.move, {
-                unitId: settler._id,
-                playerId,
-                direction: directionToCommand(move.dx, move.dy),
-              });
-            } catch {
-              // Move failed
-            }
+        // Don't walk out ahead of an escort while enemies are about
+        if (needsEscort(game, settler, analysis)) continue;
+
+        // Head for the expansion site that takes the fewest moves to reach
+        const site = planner.nearest(settler, analysis.expansionOpportunities);
+        if (site) {
+          try {
+            await ctx.runMutation(internal.units.moveToAsAI, { unitId: settler._id, playerId, x: site.x, y: site.y });
+          } catch {
+            // No route any more
           }
         }
       }
@@ -110,13 +169,14 @@ export const runAITurn = internalAction({
         if (targets.length > 0) {
           const target = targets[0];
           try {
-            await ctx.runMutation(api.combat.attack, {
+            await ctx.runMutation(internal.combat.attackAsAI, {
               attackerUnitId: unit._id,
               playerId,
               targetX: target.target.x,
               targetY: target.target.y,
             });
             console.log(`[AI] ${player.aiName} attacked at (${target.target.x}, ${target.target.y})`);
+            highlights.add("attack");
           } catch {
             // Attack failed
           }
@@ -124,47 +184,28 @@ export const runAITurn = internalAction({
       }
 
       // ─────────────────────────────────────────────────────────────────────
-      // Priority 3: Move combat units toward enemies or explore
+      // Priority 3: Move combat units: retreat, escort, assault in groups, explore
       // ─────────────────────────────────────────────────────────────────────
       const updatedUnits = await ctx.runQuery(internal.ai.queries.getUnitsForAI, { gameId });
-      const updatedCombatUnits = updatedUnits.filter(
-        (u) => u.playerId === playerId && u.type !== "settler" && u.type !== "worker"
+      const plans = planMilitaryMoves(
+        game,
+        planner,
+        analysis,
+        updatedUnits.filter((u) => u.playerId === playerId),
+        myBuildings,
+        weights,
+        rng,
+        goal === "turtle" || goal === "ascend"
       );
 
-      for (const unit of updatedCombatUnits) {
-        if (unit.movesLeft <= 0) continue;
-
-        let target: { x: number; y: number } | null = null;
-
-        if (analysis.visibleEnemyUnits.length > 0) {
-          target = { x: analysis.visibleEnemyUnits[0].x, y: analysis.visibleEnemyUnits[0].y };
-        } else if (analysis.visibleEnemyBuildings.length > 0) {
-          target = { x: analysis.visibleEnemyBuildings[0].x, y: analysis.visibleEnemyBuildings[0].y };
-        } else if (Math.random() > 0.3) {
-          // Random exploration
-          const dirs = ["L", "R", "U", "D"] as const;
-          const randomDir = dirs[Math.floor(Math.random() * dirs.length)];
-          try {
-            await ctx.runMutation(api.units.move, { unitId: unit._id, playerId, direction: randomDir });
-          } catch {
-            // Move failed
-          }
-          continue;
-        }
-
-        if (target) {
-          const move = findMoveToward(unit, target.x, target.y, game, updatedUnits, allBuildings);
-          if (move) {
-            try {
-              await ctx.runMutation(api.units.move, {
-                unitId: unit._id,
-                playerId,
-                direction: directionToCommand(move.dx, move.dy),
-              });
-            } catch {
-              // Move failed
-            }
+      for (const plan of plans) {
+        try {
+          await ctx.runMutation(internal.units.moveToAsAI, { unitId: plan.unitId, playerId, x: plan.x, y: plan.y });
+          if (plan.role !== "explore") {
+            console.log(`[AI] ${player.aiName} ordered a unit to ${plan.role} at (${plan.x}, ${plan.y})`);
           }
+        } catch {
+          // No route any more
         }
       }
 
@@ -176,19 +217,19 @@ export const runAITurn = internalAction({
         const myWorkers = myUnits.filter((u) => u.type === "worker");
 
         // Get buildable buildings
-        const cityId = myBuildings.find((b) => b.type === "city")?._id;
-        const buildable = cityId ? await ctx.runQuery(api.buildings.getBuildableBuildings, {
-          playerId,
-          cityId,
-        }) : [];
+        const hasCity = myBuildings.some((b) => b.type === "city");
+        const buildable = hasCity ? await ctx.runQuery(internal.buildings.getBuildableBuildingsForAI, { playerId }) : [];
 
-        // Filter to only affordable buildings with tech unlocked
-        const affordableBuildings = buildable.filter((b) => b.canAfford && b.techUnlocked);
+        // Filter to only affordable buildings with tech unlocked, leaving the
+        // reserve alone unless it is what we are saving for
+        const withinBudget = (cost: Cost) => RESOURCE_KEYS.every(
+          (key) => (updatedPlayer.resources[key] ?? 0) - (reserve[key] ?? 0) >= (cost[key] ?? 0)
+        );
+        const affordableBuildings = buildable.filter(
+          (b) => b.canAfford && b.techUnlocked && (b.type === savingFor || withinBudget(b.cost))
+        );
 
         for (const worker of myWorkers) {
-          // Skip if worker has no builds left
-          if (!worker.buildsLeft || worker.buildsLeft <= 0) continue;
-
           // Check if worker is on a construction site
           const workerTileIdx = worker.y * game.width + worker.x;
           const workerTile = game.map[workerTileIdx];
@@ -196,7 +237,7 @@ export const runAITurn = internalAction({
           if (workerTile.buildingId) {
             // If building is under construction, continue it
             try {
-              await ctx.runMutation(api.buildings.continueBuilding, {
+              await ctx.runMutation(internal.buildings.continueBuildingAsAI, {
                 playerId,
                 workerId: worker._id,
               });
@@ -207,23 +248,42 @@ export const runAITurn = internalAction({
             }
           }
 
+          // A worker that has used up its builds can still finish its last site
+          if (!worker.buildsLeft || worker.buildsLeft <= 0) continue;
+
           // Otherwise, start new construction if affordable
-          if (affordableBuildings.length > 0 && Math.random() > weights.randomness * 0.7) {
+          if (affordableBuildings.length > 0 && rng.next() > weights.randomness * 0.7) {
             const toBuild = chooseBuildingToBuild(
               analysis,
               updatedPlayer,
-              affordableBuildings.map((b) => b.type)
+              affordableBuildings.map((b) => b.type),
+              goal
             );
 
             if (toBuild) {
               const buildingDef = BUILDING_DEFS[toBuild];
               if (!buildingDef) continue;
 
-              // Check if current tile is valid
-              if (workerTile.unitId === worker._id && !workerTile.buildingId &&
-                  workerTile.type !== "bedrock" && workerTile.type !== "water" && workerTile.type !== "sky") {
+              // Extractors and Mines are tied to sites: head for the nearest
+              // unless one is a step away
+              const sites = getBuildSites(analysis, buildingDef);
+              if (sites && !sites.some((s) => manhattanDistance(game.width, worker.x, worker.y, s.x, s.y) <= 1)) {
+                const site = planner.nearest(worker, sites);
+                if (site) {
+                  try {
+                    await ctx.runMutation(internal.units.moveToAsAI, { unitId: worker._id, playerId, x: site.x, y: site.y });
+                  } catch {
+                    // No route any more
+                  }
+                }
+                continue;
+              }
+
+              // Build here if the tile suits; if it doesn't, or the site is
+              // rejected, step somewhere else rather than retry it next turn
+              if (workerTile.unitId === worker._id && suitsBuilding(game, worker.x, worker.y, buildingDef)) {
                 try {
-                  await ctx.runMutation(api.buildings.placeBuilding, {
+                  await ctx.runMutation(internal.buildings.placeBuildingAsAI, {
                     playerId,
                     workerId: worker._id,
                     buildingType: toBuild,
@@ -231,39 +291,18 @@ export const runAITurn = internalAction({
                     targetY: worker.y,
                   });
                   console.log(`[AI] ${player.aiName} started building ${toBuild}`);
+                  continue;
                 } catch {
                   // Start failed
                 }
-                continue;
               }
 
-              // Otherwise move worker to adjacent empty tile
-              const dirs = [[-1, 0], [1, 0], [0, -1], [0, 1]] as const;
-              for (const [dx, dy] of dirs) {
-                const nx = (worker.x + dx + game.width) % game.width;
-                const ny = Math.max(0, Math.min(game.height - 1, worker.y + dy));
-                const idx = ny * game.width + nx;
-                const tile = game.map[idx];
-
-                if (tile && !tile.buildingId && !tile.unitId &&
-                    tile.type !== "bedrock" && tile.type !== "water" && tile.type !== "sky") {
-                  const validTerrain = !buildingDef.terrainRequired ||
-                    buildingDef.terrainRequired.includes(tile.type);
-                  const validResource = !buildingDef.requiresResource ||
-                    tile.resource === buildingDef.requiresResource;
-
-                  if (validTerrain && validResource) {
-                    try {
-                      await ctx.runMutation(api.units.move, {
-                        unitId: worker._id,
-                        playerId,
-                        direction: directionToCommand(dx, dy),
-                      });
-                    } catch {
-                      // Move failed
-                    }
-                    break;
-                  }
+              const direction = chooseBuildStep(game, worker, buildingDef);
+              if (direction) {
+                try {
+                  await ctx.runMutation(internal.units.moveAsAI, { unitId: worker._id, playerId, direction });
+                } catch {
+                  // Move failed
                 }
               }
             }
@@ -281,7 +320,7 @@ export const runAITurn = internalAction({
         );
 
         for (const building of productionBuildings) {
-          const spawnable = await ctx.runQuery(api.buildings.getSpawnableUnits, {
+          const spawnable = await ctx.runQuery(internal.buildings.getSpawnableUnitsForAI, {
             playerId,
             buildingId: building._id,
           });
@@ -289,7 +328,7 @@ export const runAITurn = internalAction({
           // Filter to only affordable units with tech unlocked
           const affordableUnits = spawnable.filter((u) => u.canAfford && u.techUnlocked);
 
-          if (affordableUnits.length > 0 && Math.random() > weights.randomness * 0.5) {
+          if (affordableUnits.length > 0 && rng.next() > weights.randomness * 0.5) {
             const toSpawn = chooseUnitToSpawn(
               analysis,
               latestPlayer,
@@ -299,13 +338,16 @@ export const runAITurn = internalAction({
                   biomass: u.cost?.biomass ?? 0,
                   ore: u.cost?.ore ?? 0,
                   flux: u.cost?.flux ?? 0,
+                  rare_earths: u.cost?.rare_earths ?? 0,
                 },
-              }))
+              })),
+              goal,
+              reserve
             );
 
             if (toSpawn) {
               try {
-                await ctx.runMutation(api.units.spawnUnit, {
+                await ctx.runMutation(internal.units.spawnUnitAsAI, {
                   playerId,
                   buildingId: building._id,
                   unitType: toSpawn,
@@ -320,25 +362,33 @@ export const runAITurn = internalAction({
       }
 
       // ─────────────────────────────────────────────────────────────────────
-      // Priority 6: Research tech (only if not already researched)
+      // Priority 6: Queue research toward the goal (progress accrues at turn start)
       // ─────────────────────────────────────────────────────────────────────
       const finalPlayer = await ctx.runQuery(internal.ai.queries.getPlayerForAI, { playerId });
-      if (finalPlayer && finalPlayer.resources.flux >= 10) {
-        const availableTech = await ctx.runQuery(api.tech.getAvailableTech, { playerId });
-        
-        // Filter to only researchable tech (not already researched, can afford, has prereqs)
-        const researchableTech = availableTech.filter(
-          (t) => t.canResearch && !t.alreadyResearched && finalPlayer.resources.flux >= t.cost
-        );
+      if (finalPlayer) {
+        for (const techId of planResearch(finalPlayer, goal, weights)) {
+          try {
+            await ctx.runMutation(internal.tech.queueTechAsAI, { playerId, techId });
+            console.log(`[AI] ${player.aiName} queued ${TECH_DEFS[techId].name}`);
+          } catch {
+            break; // Research failed
+          }
+        }
+      }
 
-        if (researchableTech.length > 0) {
-          // Pick the cheapest
-          const cheapest = researchableTech.sort((a, b) => a.cost - b.cost)[0];
+      // ─────────────────────────────────────────────────────────────────────
+      // Priority 7: Begin The Ark at a completed Silo
+      // ─────────────────────────────────────────────────────────────────────
+      if (finalPlayer?.techUnlocked.includes("the_ark_project")) {
+        const silo = myBuildings.find((b) => b.type === "silo" && !b.isConstructing && !b.ark);
+        const arkUnderWay = myBuildings.some((b) => b.ark);
+        if (silo && !arkUnderWay) {
           try {
-            await ctx.runMutation(api.tech.researchTech, { playerId, techId: cheapest.techId });
-            console.log(`[AI] ${player.aiName} researched ${cheapest.name}`);
+            await ctx.runMutation(internal.ark.startArkAsAI, { playerId, siloId: silo._id });
+            console.log(`[AI] ${player.aiName} began building The Ark!`);
+            highlights.add("ark");
           } catch {
-            // Research failed
+            // Ark could not be started
           }
         }
       }
@@ -347,12 +397,29 @@ export const runAITurn = internalAction({
       console.error(`[AI] Error during AI turn:`, error);
     }
 
+    // ─────────────────────────────────────────────────────────────────────
+    // Chat: sometimes remark on the turn's most notable action
+    // ─────────────────────────────────────────────────────────────────────
+    const topic = (["ark", "attack", "city"] as const).find((t) => highlights.has(t));
+    if (topic && (topic === "ark" || rng.next() < AI_CHAT_CHANCE)) {
+      const lines = AI_CHAT_LINES[topic];
+      try {
+        await ctx.runMutation(internal.chat.sendMessageAsAI, {
+          playerId,
+          scope: "global",
+          body: lines[rng.int(lines.length)],
+        });
+      } catch {
+        // Chat is best-effort
+      }
+    }
+
     // ─────────────────────────────────────────────────────────────────────
     // End turn
     // ─────────────────────────────────────────────────────────────────────
     try {
       await new Promise((resolve) => setTimeout(resolve, 500));
-      await ctx.runMutation(api.economy.endTurn, { gameId, playerId });
+      await ctx.runMutation(internal.economy.endTurnAsAI, { gameId, playerId });
       console.log(`[AI] ${player.aiName} ended turn`);
     } catch (error) {
       console.error(`[AI] Failed to end turn:`, error);
@@ -360,6 +427,38 @@ export const runAITurn = internalAction({
   },
 });
 
+/**
+ * Advance the game RNG once and return a seed for an AI turn, so AI choices
+ * replay exactly along with the rest of the game
+ */
+export const drawAISeed = internalMutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, { gameId }) => {
+    const game = await getGameOrThrow(ctx, gameId);
+    const rng = getGameRng(game);
+    const seed = rng.int(4294967296);
+    await saveGameRng(ctx, game._id, rng);
+    return seed;
+  },
+});
+
+/**
+ * Remember the goal an AI settled on, so its next turn weighs switching
+ * against it, and how its income is growing
+ */
+export const setAIGoal = internalMutation({
+  args: {
+    playerId: v.id("players"),
+    goal: aiGoalValidator,
+    economy: aiEconomyValidator,
+  },
+  handler: async (ctx, { playerId, goal, economy }) => {
+    await ctx.db.patch(playerId, { aiGoal: goal, aiEconomy: economy });
+  },
+});
+
 /**
  * Schedule an AI turn to run (used internally)
  */
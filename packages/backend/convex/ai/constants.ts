@@ -21,6 +21,8 @@ export const AI_TURN_DELAY_MS = 1500;
 
 // Decision weights by difficulty level
 // Higher randomness = more mistakes, lower = optimal play
+// Planning depth = how many goal horizons the AI looks ahead, how many techs
+// it queues at once, and (from 2) whether it saves up for its goal
 export const AI_WEIGHTS = {
   easy: {
     expansion: 0.3,
@@ -28,6 +30,7 @@ export const AI_WEIGHTS = {
     military: 0.2,
     tech: 0.1,
     randomness: 0.5,
+    planningDepth: 1,
   },
   medium: {
     expansion: 0.25,
@@ -35,6 +38,7 @@ export const AI_WEIGHTS = {
     military: 0.3,
     tech: 0.1,
     randomness: 0.2,
+    planningDepth: 2,
   },
   hard: {
     expansion: 0.2,
@@ -42,5 +46,108 @@ export const AI_WEIGHTS = {
     military: 0.4,
     tech: 0.15,
     randomness: 0.05,
+    planningDepth: 4,
   },
 } as const;
+
+// Long-term goals. Each heads for some techs (in order) and favors some
+// buildings and units, most wanted first; cityTarget is how many cities it
+// keeps sending Landers out for
+export interface AIGoalDef {
+  name: string;
+  techs: string[];
+  buildings: string[];
+  units: string[];
+  cityTarget: number;
+}
+
+export type AIGoal = "expand" | "boom" | "rush" | "ascend" | "turtle";
+
+export const AI_GOALS: Record<AIGoal, AIGoalDef> = {
+  expand: {
+    name: "Expand",
+    techs: ["logistics", "deep_core"],
+    buildings: ["farm", "mine", "solar_array"],
+    units: ["worker", "rover"],
+    cityTarget: 6,
+  },
+  boom: {
+    name: "Boom",
+    techs: ["deep_core", "heat_shield"],
+    buildings: ["mine", "extractor", "farm", "solar_array"],
+    units: ["worker", "marine"],
+    cityTarget: 3,
+  },
+  rush: {
+    name: "Rush",
+    techs: ["militarization", "ballistics", "flight"],
+    buildings: ["barracks", "factory", "mine", "farm"],
+    units: ["tank", "arty", "marine"],
+    cityTarget: 2,
+  },
+  ascend: {
+    name: "Ascend",
+    techs: ["the_ark_project"],
+    buildings: ["silo", "extractor", "solar_array", "mine", "farm"],
+    units: ["worker", "marine"],
+    cityTarget: 3,
+  },
+  turtle: {
+    name: "Turtle",
+    techs: ["militarization", "ballistics"],
+    buildings: ["bunker", "barracks", "mine", "farm"],
+    units: ["arty", "marine"],
+    cityTarget: 2,
+  },
+};
+
+// Farms and Solar Arrays worth having per city; past that, their Ore goes
+// to everything else
+export const AI_YIELD_BUILDINGS_PER_CITY = {
+  farm: 3,
+  solar_array: 2,
+} as const;
+
+// Goal choice: turns of payoff one planning step looks ahead, and how much
+// better (as a share of its score) another goal must be before the AI switches
+export const AI_GOAL_HORIZON = 12;
+export const AI_GOAL_STICKINESS = 0.25;
+
+// Economy goals (expand, boom) are given up once income has gone this many
+// AI turns without growing
+export const AI_GOAL_STALL_TURNS = 6;
+
+// Movement planning: units below this share of their hit points fall back
+// to a city when enemies are near; "near" is within the threat radius; an
+// assault gathers this far from its target until it outnumbers the defenders
+export const AI_RETREAT_HP = 0.4;
+export const AI_THREAT_RADIUS = 5;
+export const AI_STAGING_DISTANCE = 3;
+
+// Trade evaluation: base worth of each resource, and the stockpile at which
+// a resource is valued at half its base worth (scarce resources are worth more)
+export const AI_RESOURCE_VALUES = {
+  biomass: 1,
+  ore: 1.2,
+  flux: 1.5,
+  rare_earths: 3,
+} as const;
+export const AI_TRADE_SCARCITY = 50;
+
+// Chat: chance per turn that an AI comments on what it did, and what it says
+export const AI_CHAT_CHANCE = 0.35;
+export const AI_CHAT_LINES = {
+  attack: [
+    "Your defenses are adorable.",
+    "Calculating your losses... done.",
+    "That sector is mine now.",
+    "Resistance is statistically irrelevant.",
+  ],
+  city: [
+    "Another colony online.",
+    "Expansion proceeding on schedule.",
+  ],
+  ark: [
+    "The Ark is under construction. Enjoy the planet while it lasts.",
+  ],
+} as const;
@@ -1,25 +1,34 @@
 /**
  * AI Helper Functions
  * 
- * Utility functions for AI decision making, pathfinding, and game analysis.
+ * Utility functions for AI decision making and game analysis. Movement
+ * planning lives in ./planner.
  */
 
-import type { Doc } from "../_generated/dataModel";
-import { wrapX, manhattanDistance } from "../lib/grid";
-import { UNIT_DEFS, TERRAIN_DEFS } from "../lib/constants";
+import type { Doc, Id } from "../_generated/dataModel";
+import { bordersTerrain, wrapX, manhattanDistance } from "../lib/grid";
+import { UNIT_DEFS, TERRAIN_DEFS, RESOURCE_KEYS } from "../lib/constants";
+import type { BuildingDef, Cost } from "../lib/constants";
+import { canAfford } from "../lib/resources";
+import { AI_GOALS, AI_RESOURCE_VALUES, AI_TRADE_SCARCITY, AI_YIELD_BUILDINGS_PER_CITY } from "./constants";
+import type { AIGoal } from "./constants";
+import type { GameView } from "../lib/fog";
 
-type Game = Doc<"games">;
+type Game = GameView;
 type Unit = Doc<"units">;
 type Building = Doc<"buildings">;
 type Player = Doc<"players">;
 
 export interface GameAnalysis {
   // Economic metrics
-  totalIncome: { biomass: number; ore: number; flux: number };
+  totalIncome: { biomass: number; ore: number; flux: number; rare_earths: number };
   cityCount: number;
+  buildingCounts: Record<string, number>; // Our buildings by type, finished or not
+  arkUnderWay: boolean;
   
   // Military metrics
   armyStrength: number;
+  enemyStrength: number; // The same measure over visible enemy units
   combatUnits: Unit[];
   settlers: Unit[];
   
@@ -31,6 +40,7 @@ export interface GameAnalysis {
   // Strategic info
   expansionOpportunities: { x: number; y: number }[];
   resourceTiles: { x: number; y: number; resource: string }[];
+  extractorSites: { x: number; y: number }[]; // Free explored tiles bordering Bedrock
 }
 
 /**
@@ -42,13 +52,16 @@ export function analyzeGameState(
   myUnits: Unit[],
   myBuildings: Building[],
   allUnits: Unit[],
-  allBuildings: Building[]
+  allBuildings: Building[],
+  peacefulPlayerIds: Set<Id<"players">>
 ): GameAnalysis {
   // Calculate income
-  let biomassIncome = 0, oreIncome = 0, fluxIncome = 0;
+  let biomassIncome = 0, oreIncome = 0, fluxIncome = 0, rareEarthsIncome = 0;
   let cityCount = 0;
+  const buildingCounts: Record<string, number> = {};
   
   for (const building of myBuildings) {
+    buildingCounts[building.type] = (buildingCounts[building.type] ?? 0) + 1;
     if (building.type === "city") {
       biomassIncome += 2;
       oreIncome += 2;
@@ -57,6 +70,7 @@ export function analyzeGameState(
     if (building.type === "farm") biomassIncome += 2;
     if (building.type === "mine") oreIncome += 2;
     if (building.type === "solar_array") fluxIncome += 1;
+    if (building.type === "extractor") rareEarthsIncome += 1;
   }
 
   // Categorize units
@@ -66,14 +80,15 @@ export function analyzeGameState(
   const settlers = myUnits.filter(u => u.type === "settler");
   
   // Calculate army strength (simple HP-based)
-  const armyStrength = combatUnits.reduce((sum, u) => {
+  const strengthOf = (units: Unit[]) => units.reduce((sum, u) => {
     const unitDef = UNIT_DEFS[u.type];
     return sum + (unitDef?.atk ?? 0) + (unitDef?.def ?? 0) + u.hp;
   }, 0);
+  const armyStrength = strengthOf(combatUnits);
 
-  // Find visible enemy units and buildings
-  const enemyUnits = allUnits.filter(u => u.playerId !== player._id);
-  const enemyBuildings = allBuildings.filter(b => b.playerId !== player._id);
+  // Find visible enemy units and buildings (anyone we are at war with)
+  const enemyUnits = allUnits.filter(u => !peacefulPlayerIds.has(u.playerId));
+  const enemyBuildings = allBuildings.filter(b => !peacefulPlayerIds.has(b.playerId));
   
   // Filter to only visible enemies (in revealed tiles)
   const visibleEnemyUnits = enemyUnits.filter(u => {
@@ -135,6 +150,23 @@ export function analyzeGameState(
     }
   }
 
+  // Find tiles a Bedrock Extractor could go on
+  const extractorSites: { x: number; y: number }[] = [];
+
+  for (let i = 0; i < game.map.length; i++) {
+    const tile = game.map[i];
+    const x = i % game.width;
+    const y = Math.floor(i / game.width);
+
+    if (tile.visibility.includes(player._id) &&
+        TERRAIN_DEFS[tile.type]?.passable &&
+        tile.type !== "water" &&
+        !occupiedTiles.has(`${x}-${y}`) &&
+        bordersTerrain(game, x, y, "bedrock")) {
+      extractorSites.push({ x, y });
+    }
+  }
+
   // Find resource tiles near cities
   const resourceTiles: { x: number; y: number; resource: string }[] = [];
   
@@ -156,9 +188,12 @@ export function analyzeGameState(
   }
 
   return {
-    totalIncome: { biomass: biomassIncome, ore: oreIncome, flux: fluxIncome },
+    totalIncome: { biomass: biomassIncome, ore: oreIncome, flux: fluxIncome, rare_earths: rareEarthsIncome },
     cityCount,
+    buildingCounts,
+    arkUnderWay: myBuildings.some((b) => b.ark),
     armyStrength,
+    enemyStrength: strengthOf(visibleEnemyUnits.filter((u) => u.type !== "settler" && u.type !== "worker")),
     combatUnits,
     settlers,
     visibleEnemyUnits,
@@ -166,68 +201,10 @@ export function analyzeGameState(
     nearestEnemyDistance,
     expansionOpportunities,
     resourceTiles,
+    extractorSites,
   };
 }
 
-/**
- * Find path toward a target (simple greedy approach)
- */
-export function findMoveToward(
-  unit: Unit,
-  targetX: number,
-  targetY: number,
-  game: Game,
-  allUnits: Unit[],
-  allBuildings: Building[]
-): { dx: number; dy: number } | null {
-  const directions = [
-    { dx: -1, dy: 0 }, // left
-    { dx: 1, dy: 0 },  // right
-    { dx: 0, dy: -1 }, // up
-    { dx: 0, dy: 1 },  // down
-  ];
-
-  // Create set of occupied tiles
-  const occupied = new Set<string>();
-  for (const u of allUnits) {
-    if (u._id !== unit._id) {
-      occupied.add(`${u.x}-${u.y}`);
-    }
-  }
-
-  let bestDir: { dx: number; dy: number } | null = null;
-  let bestDist = manhattanDistance(game.width, unit.x, unit.y, targetX, targetY);
-
-  for (const dir of directions) {
-    const nx = wrapX(unit.x + dir.dx, game.width);
-    const ny = Math.max(0, Math.min(game.height - 1, unit.y + dir.dy));
-    
-    // Skip if occupied
-    if (occupied.has(`${nx}-${ny}`)) continue;
-    
-    // Check terrain
-    const idx = ny * game.width + nx;
-    const tile = game.map[idx];
-    
-    if (!tile || tile.type === "bedrock" || tile.type === "fog") continue;
-    
-    const terrain = TERRAIN_DEFS[tile.type];
-    if (!terrain?.passable) continue;
-    
-    // Check if unit can move on this terrain
-    const unitDef = UNIT_DEFS[unit.type];
-    if (tile.type === "sky" && !unitDef?.abilities?.includes("flight")) continue;
-    
-    const dist = manhattanDistance(game.width, nx, ny, targetX, targetY);
-    if (dist < bestDist) {
-      bestDist = dist;
-      bestDir = dir;
-    }
-  }
-
-  return bestDir;
-}
-
 /**
  * Find enemies in attack range
  */
@@ -272,21 +249,100 @@ export function directionToCommand(dx: number, dy: number): "L" | "R" | "U" | "D
   return "D";
 }
 
+const UNBUILDABLE_TERRAIN = ["bedrock", "water", "sky"];
+
+/** Whether a building could go on this tile: free, on terrain and by anything it needs. */
+export function suitsBuilding(game: Game, x: number, y: number, buildingDef: BuildingDef): boolean {
+  const tile = game.map[y * game.width + x];
+  return !tile.buildingId &&
+    !UNBUILDABLE_TERRAIN.includes(tile.type) &&
+    (!buildingDef.terrainRequired || buildingDef.terrainRequired.includes(tile.type)) &&
+    (!buildingDef.requiresResource || tile.resource === buildingDef.requiresResource) &&
+    (!buildingDef.adjacentTerrain || bordersTerrain(game, x, y, buildingDef.adjacentTerrain));
+}
+
 /**
- * Determine which building to place based on needs
+ * The sites a building is tied to, if it can't go just anywhere: Extractors
+ * next to Bedrock, Mines on a deposit by one of our cities.
+ */
+export function getBuildSites(analysis: GameAnalysis, buildingDef: BuildingDef): { x: number; y: number }[] | null {
+  if (buildingDef.adjacentTerrain) return analysis.extractorSites;
+  if (buildingDef.requiresResource) {
+    return analysis.resourceTiles.filter((r) => r.resource === buildingDef.requiresResource);
+  }
+  return null;
+}
+
+/**
+ * The step a worker takes toward somewhere to build: a free neighbouring
+ * tile that suits the building, or failing that any free one, so a worker
+ * on a site it can't use moves on instead of trying it again every turn.
+ */
+export function chooseBuildStep(game: Game, worker: Unit, buildingDef: BuildingDef): "L" | "R" | "U" | "D" | null {
+  let fallback: "L" | "R" | "U" | "D" | null = null;
+  for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]] as const) {
+    const nx = wrapX(worker.x + dx, game.width);
+    const ny = worker.y + dy;
+    if (ny < 0 || ny >= game.height) continue;
+    const tile = game.map[ny * game.width + nx];
+    const terrain = TERRAIN_DEFS[tile.type];
+    if (!terrain?.passable || terrain.airOnly || terrain.hazard || tile.unitId) continue;
+
+    if (suitsBuilding(game, nx, ny, buildingDef)) {
+      return directionToCommand(dx, dy);
+    }
+    fallback ??= directionToCommand(dx, dy);
+  }
+  return fallback;
+}
+
+/**
+ * Determine which building to place: the first of the goal's favorites that
+ * is worth having right now, else whatever the economy needs most
  */
 export function chooseBuildingToBuild(
   analysis: GameAnalysis,
   player: Player,
-  availableBuildings: string[]
+  availableBuildings: string[],
+  goal: AIGoal
 ): string | null {
-  const { totalIncome, resourceTiles } = analysis;
+  const { totalIncome, resourceTiles, extractorSites, buildingCounts, cityCount } = analysis;
+
+  // A few Farms and Solar Arrays and one of each military building and
+  // Bunker per city, and a single Silo
+  const worthBuilding = (type: string) => {
+    const count = buildingCounts[type] ?? 0;
+    switch (type) {
+      case "mine": return resourceTiles.some(r => r.resource === "ore");
+      case "extractor": return extractorSites.length > 0;
+      case "silo": return count === 0;
+      case "farm":
+      case "solar_array": return count < cityCount * AI_YIELD_BUILDINGS_PER_CITY[type];
+      case "barracks":
+      case "factory":
+      case "bunker": return count < cityCount;
+      default: return true;
+    }
+  };
+
+  for (const type of AI_GOALS[goal].buildings) {
+    if (availableBuildings.includes(type) && worthBuilding(type)) {
+      return type;
+    }
+  }
   
-  // Priority: Mine on ore > Farm > Solar Array
+  // Priority: Mine on ore > Extractor > Farm > Solar Array
   if (availableBuildings.includes("mine") && 
       resourceTiles.some(r => r.resource === "ore")) {
     return "mine";
   }
+
+  // Late-game units and the Ark need Rare Earths
+  if (availableBuildings.includes("extractor") &&
+      extractorSites.length > 0 &&
+      totalIncome.rare_earths < 2) {
+    return "extractor";
+  }
   
   if (availableBuildings.includes("farm") && totalIncome.biomass < 6) {
     return "farm";
@@ -303,69 +359,79 @@ export function chooseBuildingToBuild(
     return "barracks";
   }
   
-  // Fallback to farm for biomass
-  if (availableBuildings.includes("farm")) {
-    return "farm";
-  }
-  
   return null;
 }
 
 /**
- * Choose which unit to spawn based on needs
+ * Choose which unit to spawn: Landers until the goal's city target, defense
+ * when enemies are close, then the goal's favorites. Spending never dips
+ * into the reserve being saved for the goal.
  */
 export function chooseUnitToSpawn(
   analysis: GameAnalysis,
   player: Player,
-  availableUnits: Array<{ unitType: string; cost: { biomass: number; ore: number; flux: number } }>
+  availableUnits: Array<{ unitType: string; cost: { biomass: number; ore: number; flux: number; rare_earths: number } }>,
+  goal: AIGoal,
+  reserve: Cost = {}
 ): string | null {
   const { combatUnits, settlers, cityCount, visibleEnemyUnits, nearestEnemyDistance } = analysis;
-  const resources = player.resources;
+  const resources = {
+    biomass: player.resources.biomass - (reserve.biomass ?? 0),
+    ore: player.resources.ore - (reserve.ore ?? 0),
+    flux: player.resources.flux - (reserve.flux ?? 0),
+    rare_earths: (player.resources.rare_earths ?? 0) - (reserve.rare_earths ?? 0),
+  };
+  const affordable = (unitType: string) => {
+    const unit = availableUnits.find(u => u.unitType === unitType);
+    return unit !== undefined && canAfford(resources, unit.cost);
+  };
   
   // If no settlers and we need to expand, prioritize settler
-  if (settlers.length === 0 && cityCount < 3) {
-    const settler = availableUnits.find(u => u.unitType === "settler");
-    if (settler && canAfford(resources, settler.cost)) {
-      return "settler";
-    }
+  if (settlers.length === 0 && cityCount < AI_GOALS[goal].cityTarget && affordable("settler")) {
+    return "settler";
   }
   
   // If enemies are close, prioritize combat units
   if (nearestEnemyDistance < 5 || visibleEnemyUnits.length > combatUnits.length) {
-    // Prefer marine (cheap combat unit)
-    const marine = availableUnits.find(u => u.unitType === "marine");
-    if (marine && canAfford(resources, marine.cost)) {
-      return "marine";
-    }
-    
-    // Tank if we can afford it
-    const tank = availableUnits.find(u => u.unitType === "tank");
-    if (tank && canAfford(resources, tank.cost)) {
-      return "tank";
-    }
+    // Prefer marine (cheap combat unit), tank if we can afford it
+    if (affordable("marine")) return "marine";
+    if (affordable("tank")) return "tank";
+  }
+
+  for (const unitType of AI_GOALS[goal].units) {
+    if (affordable(unitType)) return unitType;
   }
   
   // Default: build military for defense
-  const marine = availableUnits.find(u => u.unitType === "marine");
-  if (marine && canAfford(resources, marine.cost)) {
-    return "marine";
-  }
+  if (affordable("marine")) return "marine";
   
   // Worker for building
-  const worker = availableUnits.find(u => u.unitType === "worker");
-  if (worker && canAfford(resources, worker.cost)) {
-    return "worker";
-  }
+  if (affordable("worker")) return "worker";
   
   return null;
 }
 
-function canAfford(
-  resources: { biomass: number; ore: number; flux: number },
-  cost: { biomass: number; ore: number; flux: number }
+/**
+ * Decide whether to accept a trade offer. Each side is valued by what the
+ * resources are worth to this AI right now; tributes count every installment.
+ * Careful AIs demand a margin in their favor, sloppy ones take worse deals.
+ */
+export function evaluateTradeOffer(
+  trade: Pick<Doc<"trades">, "give" | "receive" | "tributeTurns">,
+  player: Player,
+  weights: { economy: number; randomness: number }
 ): boolean {
-  return resources.biomass >= cost.biomass &&
-         resources.ore >= cost.ore &&
-         resources.flux >= cost.flux;
-}
+  const worth = (amount: Doc<"trades">["give"]) =>
+    RESOURCE_KEYS.reduce((sum, key) => {
+      const scarcity = AI_TRADE_SCARCITY / (AI_TRADE_SCARCITY + (player.resources[key] ?? 0));
+      return sum + (amount[key] ?? 0) * AI_RESOURCE_VALUES[key] * scarcity;
+    }, 0);
 
+  const installments = trade.tributeTurns ?? 1;
+  const canPay = RESOURCE_KEYS.every((key) => (player.resources[key] ?? 0) >= (trade.receive[key] ?? 0));
+  if (!canPay) return false;
+
+  const gain = worth(trade.give);
+  const cost = worth(trade.receive) * installments;
+  return gain >= cost * (1 + weights.economy - weights.randomness);
+}
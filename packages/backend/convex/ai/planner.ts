@@ -0,0 +1,244 @@
+/**
+ * AI Movement Planner
+ *
+ * Decides where AI units head, using the same cost-aware routing as standing
+ * move orders (lib/pathfinding). Plans are destinations: the caller hands
+ * them to units.moveToAsAI, which walks the route as far as moves allow and
+ * keeps the rest as a standing order.
+ */
+
+import type { Doc, Id } from "../_generated/dataModel";
+import { UNIT_DEFS } from "../lib/constants";
+import { coordToIndex, manhattanDistance, wrapX } from "../lib/grid";
+import { findReachable } from "../lib/pathfinding";
+import type { PathOptions } from "../lib/pathfinding";
+import type { Rng } from "../lib/random";
+import type { GameView } from "../lib/fog";
+import { AI_RETREAT_HP, AI_STAGING_DISTANCE, AI_THREAT_RADIUS } from "./constants";
+import type { GameAnalysis } from "./helpers";
+
+type Game = GameView;
+type Unit = Doc<"units">;
+type Building = Doc<"buildings">;
+type Player = Doc<"players">;
+type Point = { x: number; y: number };
+
+export type MoveRole = "retreat" | "escort" | "stage" | "assault" | "explore";
+
+export interface MovePlan {
+  unitId: Id<"units">;
+  x: number;
+  y: number;
+  role: MoveRole;
+}
+
+const isCivilian = (unit: Unit) => unit.type === "settler" || unit.type === "worker";
+const isCombatant = (unit: Unit) => (UNIT_DEFS[unit.type]?.atk ?? 0) > 0;
+
+// Tiles at exactly `radius` steps from a point, wrapping horizontally
+const ring = (game: Game, center: Point, radius: number): Point[] => {
+  const tiles: Point[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    const y = center.y + dy;
+    if (y < 0 || y >= game.height) continue;
+    const dx = radius - Math.abs(dy);
+    tiles.push({ x: wrapX(center.x - dx, game.width), y });
+    if (dx !== 0) tiles.push({ x: wrapX(center.x + dx, game.width), y });
+  }
+  return tiles;
+};
+
+/**
+ * Route costs for one AI player's units over the tiles it has explored,
+ * going around every unit it knows about. Each unit's costs are worked out
+ * once and shared by every decision that turn.
+ */
+export function createRoutePlanner(game: Game, player: Player) {
+  const isExplored = (p: Point) =>
+    game.map[coordToIndex(game.width, p.x, p.y)].visibility.includes(player._id);
+
+  const blocked = new Set<number>();
+  game.map.forEach((tile, idx) => {
+    if (!tile.visibility.includes(player._id) || tile.unitId) blocked.add(idx);
+  });
+  const canCrossHazards = player.techUnlocked.includes("heat_shield");
+  const cache = new Map<Id<"units">, Map<number, number>>();
+
+  /** Moves the unit needs to reach each tile it can get to (its own tile excluded). */
+  const costsFrom = (unit: Unit) => {
+    let costs = cache.get(unit._id);
+    if (!costs) {
+      const unitDef = UNIT_DEFS[unit.type];
+      const options: PathOptions = {
+        canFly: unitDef?.canFly ?? false,
+        canCrossHazards,
+        blocked,
+        maxStepCost: unitDef?.maxMoves,
+      };
+      costs = findReachable(game.map, game.width, game.height, unit, Infinity, options);
+      cache.set(unit._id, costs);
+    }
+    return costs;
+  };
+
+  /** The candidate tile the unit can reach for the fewest moves, if any. */
+  const nearest = <T extends Point>(unit: Unit, candidates: T[]): T | null => {
+    const costs = costsFrom(unit);
+    let best: T | null = null;
+    let bestCost = Infinity;
+    for (const candidate of candidates) {
+      const cost = costs.get(coordToIndex(game.width, candidate.x, candidate.y));
+      if (cost !== undefined && cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+      }
+    }
+    return best;
+  };
+
+  return { isExplored, costsFrom, nearest };
+}
+
+export type RoutePlanner = ReturnType<typeof createRoutePlanner>;
+
+/**
+ * Whether a civilian should wait for an escort before moving on: an armed
+ * enemy is close and none of our fighting units is beside it.
+ */
+export function needsEscort(game: Game, civilian: Unit, analysis: GameAnalysis): boolean {
+  const dist = (a: Point) => manhattanDistance(game.width, a.x, a.y, civilian.x, civilian.y);
+  if (analysis.combatUnits.length === 0) return false; // Nobody to wait for
+  const threatened = analysis.visibleEnemyUnits.some((e) => isCombatant(e) && dist(e) <= AI_THREAT_RADIUS);
+  return threatened && !analysis.combatUnits.some((u) => dist(u) <= 1);
+}
+
+/**
+ * Where each fighting unit with moves left should head this turn:
+ * 1. Badly damaged units near the enemy fall back to a city
+ * 2. Civilians near the enemy get the closest free unit beside them
+ * 3. The rest gather out of reach of the nearest enemy target until they
+ *    outnumber its visible defenders, then close in together
+ * 4. With no target in sight, they spread out to the edge of the explored map
+ * Defensive AIs only go after targets near their cities and don't explore.
+ * Units without a plan hold their ground.
+ */
+export function planMilitaryMoves(
+  game: Game,
+  planner: RoutePlanner,
+  analysis: GameAnalysis,
+  myUnits: Unit[],
+  myBuildings: Building[],
+  weights: { randomness: number },
+  rng: Rng,
+  defensive = false
+): MovePlan[] {
+  const dist = (a: Point, b: Point) => manhattanDistance(game.width, a.x, a.y, b.x, b.y);
+  const enemies = analysis.visibleEnemyUnits.filter(isCombatant);
+  const cities = myBuildings.filter((b) => b.type === "city");
+
+  const plans: MovePlan[] = [];
+  let available = myUnits.filter((u) => !isCivilian(u) && u.movesLeft > 0);
+  const hold = (unit: Unit) => {
+    available = available.filter((u) => u._id !== unit._id);
+  };
+  const assign = (unit: Unit, to: Point, role: MoveRole) => {
+    plans.push({ unitId: unit._id, x: to.x, y: to.y, role });
+    hold(unit);
+  };
+
+  // 1. Retreat
+  for (const unit of [...available]) {
+    const maxHp = UNIT_DEFS[unit.type]?.hp ?? unit.hp;
+    const threatened = enemies.some((e) => dist(e, unit) <= AI_THREAT_RADIUS);
+    if (unit.hp >= maxHp * AI_RETREAT_HP || !threatened || cities.length === 0) continue;
+
+    if (cities.some((c) => dist(c, unit) <= 1)) {
+      hold(unit); // Already home
+      continue;
+    }
+    const refuge = planner.nearest(unit, cities.flatMap((c) => [c, ...ring(game, c, 1)]));
+    if (refuge) assign(unit, refuge, "retreat");
+  }
+
+  // 2. Escort, standing on the side facing the nearest threat
+  for (const civilian of myUnits.filter(isCivilian)) {
+    const threat = enemies
+      .filter((e) => dist(e, civilian) <= AI_THREAT_RADIUS)
+      .sort((a, b) => dist(a, civilian) - dist(b, civilian))[0];
+    if (!threat) continue;
+
+    const guard = myUnits.find((u) => !isCivilian(u) && dist(u, civilian) === 1);
+    if (guard) {
+      hold(guard);
+      continue;
+    }
+
+    const posts = ring(game, civilian, 1).sort((a, b) => dist(a, threat) - dist(b, threat));
+    let escort: { unit: Unit; post: Point; cost: number } | null = null;
+    for (const unit of available) {
+      const costs = planner.costsFrom(unit);
+      for (const post of posts) {
+        const cost = costs.get(coordToIndex(game.width, post.x, post.y));
+        if (cost !== undefined) {
+          if (!escort || cost < escort.cost) escort = { unit, post, cost };
+          break;
+        }
+      }
+    }
+    if (escort) assign(escort.unit, escort.post, "escort");
+  }
+
+  if (available.length === 0) return plans;
+
+  // 3. Assault the enemy closest to anything of ours
+  const ours: Point[] = [...cities, ...available];
+  const target = [...analysis.visibleEnemyBuildings, ...analysis.visibleEnemyUnits]
+    .filter((t) => !defensive || cities.some((c) => dist(c, t) <= AI_THREAT_RADIUS))
+    .map((t) => ({ x: t.x, y: t.y, distance: Math.min(...ours.map((p) => dist(p, t))) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  if (target) {
+    const defenders = enemies.filter((e) => dist(e, target) <= AI_STAGING_DISTANCE).length;
+    const gathered = available.filter((u) => dist(u, target) <= AI_STAGING_DISTANCE + 1).length;
+    // Sloppier AIs sometimes go in one by one anyway
+    const ready = gathered > defenders || rng.next() < weights.randomness;
+
+    for (const unit of [...available]) {
+      if (ready) {
+        const range = UNIT_DEFS[unit.type]?.range ?? 1;
+        if (dist(unit, target) <= range) continue; // Already in range
+        const posts = Array.from({ length: range }, (_, i) => ring(game, target, i + 1)).flat();
+        const post = planner.nearest(unit, posts);
+        if (post) assign(unit, post, "assault");
+      } else if (dist(unit, target) > AI_STAGING_DISTANCE + 1) {
+        const post = planner.nearest(unit, ring(game, target, AI_STAGING_DISTANCE));
+        if (post) assign(unit, post, "stage");
+      }
+    }
+    return plans;
+  }
+  if (defensive) return plans;
+
+  // 4. Explore: explored tiles bordering unexplored ones, one unit per area
+  const frontier: Point[] = [];
+  for (let y = 0; y < game.height; y++) {
+    for (let x = 0; x < game.width; x++) {
+      if (planner.isExplored({ x, y }) && ring(game, { x, y }, 1).some((n) => !planner.isExplored(n))) {
+        frontier.push({ x, y });
+      }
+    }
+  }
+
+  const claimed: Point[] = [];
+  for (const unit of [...available]) {
+    if (rng.next() < weights.randomness * 0.5) continue; // Idle this turn
+    const open = frontier.filter((f) => claimed.every((c) => dist(c, f) > AI_STAGING_DISTANCE));
+    const spot = planner.nearest(unit, open);
+    if (spot) {
+      claimed.push(spot);
+      assign(unit, spot, "explore");
+    }
+  }
+
+  return plans;
+}
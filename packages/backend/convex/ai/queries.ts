@@ -2,11 +2,36 @@
 
 import { v } from "convex/values";
 import { internalQuery } from "../_generated/server";
+import { buildBoardView } from "../lib/fog";
+import { getVision } from "../lib/vision";
+import { getRelationsForGame } from "../lib/diplomacy";
 
+/**
+ * The game with its board joined to occupancy and this AI's explored tiles,
+ * so decision making can read units, buildings and visibility per tile.
+ */
 export const getGameForAI = internalQuery({
-  args: { gameId: v.id("games") },
-  handler: async (ctx, { gameId }) => {
-    return await ctx.db.get(gameId);
+  args: { gameId: v.id("games"), playerId: v.id("players") },
+  handler: async (ctx, { gameId, playerId }) => {
+    const game = await ctx.db.get(gameId);
+    if (!game) return null;
+
+    const [units, buildings, vision] = await Promise.all([
+      ctx.db
+        .query("units")
+        .withIndex("by_game", (q) => q.eq("gameId", gameId))
+        .collect(),
+      ctx.db
+        .query("buildings")
+        .withIndex("by_game", (q) => q.eq("gameId", gameId))
+        .collect(),
+      getVision(ctx, game, playerId),
+    ]);
+
+    return {
+      ...game,
+      map: buildBoardView(game, units, buildings, new Map([[playerId, vision.explored]])),
+    };
   },
 });
 
@@ -47,3 +72,32 @@ export const getPlayersForAI = internalQuery({
   },
 });
 
+
+/**
+ * Treaties involving this AI and the proposals waiting for its answer.
+ */
+export const getDiplomacyForAI = internalQuery({
+  args: { gameId: v.id("games"), playerId: v.id("players") },
+  handler: async (ctx, { gameId, playerId }) => {
+    const [relations, incoming] = await Promise.all([
+      getRelationsForGame(ctx, gameId),
+      ctx.db
+        .query("diplomacyProposals")
+        .withIndex("by_to", (q) => q.eq("toPlayerId", playerId))
+        .collect(),
+    ]);
+    return { relations, incoming };
+  },
+});
+
+/** Trade offers waiting for this AI's answer. */
+export const getTradeOffersForAI = internalQuery({
+  args: { playerId: v.id("players") },
+  handler: async (ctx, { playerId }) => {
+    return await ctx.db
+      .query("trades")
+      .withIndex("by_to", (q) => q.eq("toPlayerId", playerId))
+      .filter((q) => q.eq(q.field("status"), "pending"))
+      .collect();
+  },
+});
@@ -0,0 +1,197 @@
+/**
+ * AI Strategy
+ *
+ * Long-term goals for AI players (see AI_GOALS). Every turn the AI scores
+ * each goal from its analysis of the game, weighted by its difficulty's
+ * AI_WEIGHTS, and keeps its current goal unless another is clearly better.
+ * The goal then steers research, construction and production.
+ *
+ * Difficulty sets how far ahead the AI plans (planningDepth): how many turns
+ * of payoff it will wait for when picking a goal, how much of a research
+ * path it queues at once, and whether it saves up for the goal's key
+ * building instead of spending everything as it comes in.
+ *
+ * The economy goals (expand, boom) give way once their targets are met or
+ * income stops growing, so an AI that has built what it can moves on to
+ * arming itself or The Ark.
+ */
+
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import type { Doc } from "../_generated/dataModel";
+import { ARK_LAUNCH_COUNTDOWN, ARK_STAGES, BUILDING_DEFS, RESEARCH_FLUX_PER_TURN, TECH_DEFS } from "../lib/constants";
+import { getTechCost } from "../lib/research";
+import type { Rng } from "../lib/random";
+import { AI_GOALS, AI_GOAL_HORIZON, AI_GOAL_STALL_TURNS, AI_GOAL_STICKINESS, AI_THREAT_RADIUS } from "./constants";
+import type { AIGoal, AI_WEIGHTS } from "./constants";
+import type { GameAnalysis } from "./helpers";
+
+type Player = Doc<"players">;
+type Weights = (typeof AI_WEIGHTS)[keyof typeof AI_WEIGHTS];
+
+export const aiGoalValidator = v.union(
+  v.literal("expand"),
+  v.literal("boom"),
+  v.literal("rush"),
+  v.literal("ascend"),
+  v.literal("turtle"),
+);
+
+export const aiEconomyValidator = v.object({
+  best: v.number(), // Highest total income per turn seen
+  stalled: v.number(), // AI turns since it last grew
+});
+
+type Economy = Infer<typeof aiEconomyValidator>;
+
+const ECONOMY_GOALS: AIGoal[] = ["expand", "boom"];
+
+/** Follow the AI's total income from turn to turn, to tell when it stops growing. */
+export function trackEconomy(player: Player, analysis: GameAnalysis): Economy {
+  const income = Object.values(analysis.totalIncome).reduce((sum, amount) => sum + amount, 0);
+  const previous = player.aiEconomy;
+  if (!previous || income > previous.best) {
+    return { best: income, stalled: 0 };
+  }
+  return { best: previous.best, stalled: previous.stalled + 1 };
+}
+
+/**
+ * Whether an economy goal has nothing more to give: its cities and one of
+ * each of its buildings are in place, or income has stopped growing.
+ */
+function isEconomyGoalSpent(goal: AIGoal, analysis: GameAnalysis, economy: Economy): boolean {
+  const { cityTarget, buildings } = AI_GOALS[goal];
+  const targetsMet = analysis.cityCount >= cityTarget &&
+    buildings.every((type) => (analysis.buildingCounts[type] ?? 0) > 0);
+  return targetsMet || economy.stalled >= AI_GOAL_STALL_TURNS;
+}
+
+/**
+ * Techs still to research to reach the targets, prerequisites first, so the
+ * list can be queued in order.
+ */
+export function getTechPath(player: Player, targets: string[]): string[] {
+  const path: string[] = [];
+  const visit = (techId: string) => {
+    if (player.techUnlocked.includes(techId) || path.includes(techId)) return;
+    for (const prereq of TECH_DEFS[techId]?.prerequisites ?? []) {
+      visit(prereq);
+    }
+    path.push(techId);
+  };
+  targets.forEach(visit);
+  return path;
+}
+
+/**
+ * Rough turns until this player could launch The Ark: the research left at
+ * its current rate, then the Silo, the Ark's stages and the countdown.
+ */
+function estimateTurnsToAscend(player: Player, analysis: GameAnalysis): number {
+  const researchLeft = getTechPath(player, ["the_ark_project"]).reduce(
+    (sum, techId) => sum + getTechCost(techId, player.faction) - (player.researchProgress?.[techId] ?? 0),
+    0
+  );
+  const researchRate =
+    analysis.cityCount * (BUILDING_DEFS.city.research ?? 0) +
+    (analysis.buildingCounts.solar_array ?? 0) * (BUILDING_DEFS.solar_array.research ?? 0) +
+    Math.min(analysis.totalIncome.flux, RESEARCH_FLUX_PER_TURN);
+
+  const silo = analysis.buildingCounts.silo ? 0 : BUILDING_DEFS.silo.turnsToComplete ?? 0;
+  const ark = ARK_STAGES.reduce((sum, stage) => sum + stage.turns, 0) + ARK_LAUNCH_COUNTDOWN;
+  return researchLeft / Math.max(1, researchRate) + silo + ark;
+}
+
+/**
+ * How much each goal is worth pursuing right now, before difficulty noise
+ * and the pull of the current goal:
+ * - expand: room to grow, while there is anywhere left to settle
+ * - boom: how thin income is per city
+ * - rush: our share of the visible fighting power, if an enemy is in reach
+ * - turtle: the enemy's share of it, if they are close
+ * - ascend: how soon The Ark could launch, against how far ahead we plan
+ */
+export function scoreGoals(analysis: GameAnalysis, player: Player, weights: Weights): Record<AIGoal, number> {
+  const horizon = AI_GOAL_HORIZON * weights.planningDepth;
+  const totalIncome = Object.values(analysis.totalIncome).reduce((sum, amount) => sum + amount, 0);
+  const ourShare = analysis.armyStrength / Math.max(1, analysis.armyStrength + analysis.enemyStrength);
+  const threatened = analysis.nearestEnemyDistance <= AI_THREAT_RADIUS * 2;
+  const turnsToAscend = estimateTurnsToAscend(player, analysis);
+
+  const room = Math.max(0, 1 - analysis.cityCount / AI_GOALS.expand.cityTarget);
+  const ascendWithinReach = turnsToAscend <= horizon ? 2 - turnsToAscend / horizon : horizon / turnsToAscend;
+
+  return {
+    expand: analysis.expansionOpportunities.length > 0 ? weights.expansion * room * 2 : 0,
+    boom: weights.economy / (1 + totalIncome / (8 * Math.max(1, analysis.cityCount))),
+    rush: weights.military * ourShare * (analysis.nearestEnemyDistance <= horizon ? 1 : 0.25),
+    turtle: threatened ? weights.military * (1 - ourShare) * 2 : 0,
+    ascend: weights.tech * ascendWithinReach + (analysis.arkUnderWay ? 1 : 0),
+  };
+}
+
+/**
+ * The goal to pursue this turn. The current goal gets an edge so the AI
+ * doesn't flip-flop, and sloppier difficulties misjudge the scores a little.
+ * Spent economy goals are out of the running (see trackEconomy).
+ */
+export function chooseGoal(
+  analysis: GameAnalysis,
+  player: Player,
+  weights: Weights,
+  rng: Rng,
+  economy: Economy
+): AIGoal {
+  const scores = scoreGoals(analysis, player, weights);
+  for (const goal of ECONOMY_GOALS) {
+    if (isEconomyGoalSpent(goal, analysis, economy)) {
+      scores[goal] = 0;
+    }
+  }
+  let best: AIGoal = player.aiGoal ?? "expand";
+  let bestScore = -Infinity;
+
+  for (const goal of Object.keys(AI_GOALS) as AIGoal[]) {
+    const edge = goal === player.aiGoal ? 1 + AI_GOAL_STICKINESS : 1;
+    const noise = 1 + (rng.next() - 0.5) * weights.randomness;
+    const score = scores[goal] * edge * noise;
+    if (score > bestScore) {
+      best = goal;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Techs to add to the research queue: the next steps toward the goal's
+ * techs, topping the queue up to the AI's planning depth. Once the goal's
+ * techs are known every goal heads for The Ark.
+ */
+export function planResearch(player: Player, goal: AIGoal, weights: Weights): string[] {
+  const queue = player.researchQueue ?? [];
+  const room = weights.planningDepth - queue.length;
+  if (room <= 0) return [];
+
+  let path = getTechPath(player, AI_GOALS[goal].techs).filter((techId) => !queue.includes(techId));
+  if (path.length === 0) {
+    path = getTechPath(player, ["the_ark_project"]).filter((techId) => !queue.includes(techId));
+  }
+  return path.slice(0, room);
+}
+
+/**
+ * The building the AI is saving up for, if any: its cost is held back from
+ * everything else. Only AIs that plan ahead save; the rest spend as they go.
+ */
+export function getSavingsTarget(goal: AIGoal, player: Player, analysis: GameAnalysis, weights: Weights): string | null {
+  if (weights.planningDepth < 2) return null;
+  if (goal === "ascend" && player.techUnlocked.includes("orbital_mechanics") && !analysis.buildingCounts.silo) {
+    return "silo";
+  }
+  if (goal === "rush" && player.techUnlocked.includes("ballistics") && !analysis.buildingCounts.factory) {
+    return "factory";
+  }
+  return null;
+}
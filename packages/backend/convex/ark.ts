@@ -0,0 +1,82 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
+import { ARK_LAUNCH_COUNTDOWN, ARK_STAGES } from "./lib/constants";
+import { assertPlayerTurn, getGameOrThrow, getPlayerOrThrow } from "./lib/gameHelpers";
+import { asAI, asPlayer } from "./lib/auth";
+import { checkStartArk, getArkSilo } from "./lib/ark";
+import { logEvent } from "./lib/events";
+
+/**
+ * The Ark (Ascension Victory):
+ * 1. Research The Ark Project and complete a Silo
+ * 2. startArk - Announces the project to every player
+ * 3. Each turn the current stage (Launch Pad, Hull, Fuel) draws its upkeep
+ * 4. After the last stage a countdown starts; destroying the Silo before it
+ *    reaches zero stops the launch
+ */
+
+const startArkArgs = {
+  playerId: v.id("players"),
+  siloId: v.id("buildings"),
+};
+
+const startArkHandler = async (ctx: MutationCtx, args: ObjectType<typeof startArkArgs>) => {
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+  assertPlayerTurn(game, player._id);
+
+  const silo = checkStartArk(game, player, await ctx.db.get(args.siloId), await getArkSilo(ctx, player._id));
+
+  await ctx.db.patch(silo._id, { ark: { stage: 0, progress: 0 } });
+
+  await logEvent(ctx, game, {
+    type: "ark_started",
+    actorId: player._id,
+    outcome: { siloId: silo._id, x: silo.x, y: silo.y },
+    message: "Construction of The Ark has begun",
+  });
+
+  return { siloId: silo._id, stage: ARK_STAGES[0].id };
+};
+
+export const startArk = mutation({ args: startArkArgs, handler: asPlayer(startArkHandler) });
+export const startArkAsAI = internalMutation({ args: startArkArgs, handler: asAI(startArkHandler) });
+
+/**
+ * Every Ark under way in the game. Projects are announced when started, so
+ * their Silo locations and progress are public.
+ */
+export const listArkProjects = query({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const silos = await ctx.db
+      .query("buildings")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .filter((q) => q.eq(q.field("type"), "silo"))
+      .collect();
+
+    return silos.flatMap((silo) => {
+      if (!silo.ark) return [];
+      const stage = ARK_STAGES[silo.ark.stage];
+      return [{
+        siloId: silo._id,
+        playerId: silo.playerId,
+        x: silo.x,
+        y: silo.y,
+        stage: stage.id,
+        stageName: stage.name,
+        stageIndex: silo.ark.stage,
+        stageCount: ARK_STAGES.length,
+        progress: silo.ark.progress,
+        stageTurns: stage.turns,
+        costPerTurn: stage.costPerTurn,
+        launchIn: silo.ark.launchIn,
+        countdown: ARK_LAUNCH_COUNTDOWN,
+      }];
+    });
+  },
+});
@@ -0,0 +1,105 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { MAX_CHAT_MESSAGE_LENGTH } from "./lib/constants";
+import { getGameOrThrow, getPlayerOrThrow } from "./lib/gameHelpers";
+import { asAI, asPlayer, getViewerPlayer } from "./lib/auth";
+import { getRelationsForGame } from "./lib/diplomacy";
+
+/**
+ * In-game chat for seated players:
+ * - global: everyone in the game
+ * - team: the sender's current allies
+ * - direct: one other player
+ */
+
+const sendMessageArgs = {
+  playerId: v.id("players"),
+  scope: v.union(v.literal("global"), v.literal("team"), v.literal("direct")),
+  recipientId: v.optional(v.id("players")), // Direct messages only
+  body: v.string(),
+};
+
+const sendMessageHandler = async (ctx: MutationCtx, args: ObjectType<typeof sendMessageArgs>) => {
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+
+  const body = args.body.trim();
+  if (body.length === 0) {
+    throw new Error("Message is empty");
+  }
+  if (body.length > MAX_CHAT_MESSAGE_LENGTH) {
+    throw new Error(`Messages are limited to ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+  }
+
+  let recipientIds: Id<"players">[] | undefined;
+  if (args.scope === "team") {
+    const relations = await getRelationsForGame(ctx, game._id);
+    recipientIds = relations.flatMap((relation) => {
+      if (relation.status !== "alliance") return [];
+      if (relation.playerA === player._id) return [relation.playerB];
+      if (relation.playerB === player._id) return [relation.playerA];
+      return [];
+    });
+    if (recipientIds.length === 0) {
+      throw new Error("You have no allies to message");
+    }
+  } else if (args.scope === "direct") {
+    if (!args.recipientId) {
+      throw new Error("Choose who to message");
+    }
+    const recipient = await getPlayerOrThrow(ctx, args.recipientId);
+    if (recipient.gameId !== game._id || recipient._id === player._id) {
+      throw new Error("Invalid recipient");
+    }
+    recipientIds = [recipient._id];
+  }
+
+  const messageId = await ctx.db.insert("messages", {
+    gameId: game._id,
+    senderId: player._id,
+    scope: args.scope,
+    recipientIds,
+    body,
+    turn: game.turn,
+  });
+
+  return { messageId };
+};
+
+export const sendMessage = mutation({ args: sendMessageArgs, handler: asPlayer(sendMessageHandler) });
+export const sendMessageAsAI = internalMutation({ args: sendMessageArgs, handler: asAI(sendMessageHandler) });
+
+const canReadMessage = (message: Doc<"messages">, viewerId: Id<"players">) =>
+  message.scope === "global" || message.senderId === viewerId || message.recipientIds?.includes(viewerId) === true;
+
+/**
+ * The caller's chat, newest first: global messages plus team and direct
+ * messages they sent or received.
+ */
+export const listMessages = query({
+  args: {
+    gameId: v.id("games"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const viewer = await getViewerPlayer(ctx, args.gameId);
+    if (!viewer) {
+      throw new Error("You are not a player in this game");
+    }
+
+    const result = await ctx.db
+      .query("messages")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.filter((message) => canReadMessage(message, viewer._id)),
+    };
+  },
+});
@@ -0,0 +1,220 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
+import { assertPlayerTurn, getGameOrThrow, getPlayerOrThrow } from "./lib/gameHelpers";
+import { asAI, asPlayer, getViewerPlayerOrThrow } from "./lib/auth";
+import { getRelation, getRelationsForGame, isUpgrade, setRelation, treatyValidator } from "./lib/diplomacy";
+import { refreshVision } from "./lib/vision";
+import { logEvent } from "./lib/events";
+
+/**
+ * Diplomacy between players:
+ * 1. proposeTreaty - Offer peace (a non-aggression pact) or an alliance,
+ *    optionally with shared vision
+ * 2. respondToProposal - The other side accepts or rejects the offer
+ * 3. declareWar - Break any treaty; only possible on your own turn
+ * Players start at war. Peace and alliances block attacks between the pair,
+ * and a game where only allies remain ends in a shared victory.
+ */
+
+/** The two players must be different, alive and seated in the same active game. */
+const getParties = async (ctx: MutationCtx, playerId: Id<"players">, otherId: Id<"players">) => {
+  const player = await getPlayerOrThrow(ctx, playerId);
+  const other = await getPlayerOrThrow(ctx, otherId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+
+  if (player._id === other._id) {
+    throw new Error("You cannot negotiate with yourself");
+  }
+  if (other.gameId !== game._id) {
+    throw new Error("That player is not in this game");
+  }
+  if (game.status !== "active") {
+    throw new Error("Game is not active");
+  }
+  if (!player.isAlive || !other.isAlive) {
+    throw new Error("Eliminated players cannot negotiate");
+  }
+
+  return { player, other, game };
+};
+
+const getProposalBetween = async (ctx: MutationCtx, from: Doc<"players">, to: Doc<"players">) =>
+  ctx.db
+    .query("diplomacyProposals")
+    .withIndex("by_to", (q) => q.eq("toPlayerId", to._id))
+    .filter((q) => q.eq(q.field("fromPlayerId"), from._id))
+    .first();
+
+const proposeTreatyArgs = {
+  playerId: v.id("players"),
+  targetPlayerId: v.id("players"),
+  treaty: treatyValidator,
+  sharedVision: v.optional(v.boolean()),
+};
+
+const proposeTreatyHandler = async (ctx: MutationCtx, args: ObjectType<typeof proposeTreatyArgs>) => {
+  const { player, other, game } = await getParties(ctx, args.playerId, args.targetPlayerId);
+  const sharedVision = args.treaty === "alliance" && (args.sharedVision ?? false);
+
+  const relation = await getRelation(ctx, player._id, other._id);
+  const current = relation?.status ?? "war";
+  // An existing alliance can be re-signed to start sharing vision
+  const addsVision = current === "alliance" && sharedVision && !relation?.sharedVision;
+  if (!isUpgrade(current, args.treaty) && !addsVision) {
+    throw new Error(`You are already at ${current} with this player`);
+  }
+
+  if (await getProposalBetween(ctx, player, other)) {
+    throw new Error("You already have a proposal pending with this player");
+  }
+  if (await getProposalBetween(ctx, other, player)) {
+    throw new Error("This player has already sent you a proposal");
+  }
+
+  const proposalId = await ctx.db.insert("diplomacyProposals", {
+    gameId: game._id,
+    fromPlayerId: player._id,
+    toPlayerId: other._id,
+    treaty: args.treaty,
+    sharedVision,
+    turn: game.turn,
+  });
+
+  await logEvent(ctx, game, {
+    type: "treaty_proposed",
+    actorId: player._id,
+    args: { targetPlayerId: other._id, treaty: args.treaty, sharedVision },
+    outcome: { proposalId },
+    message: `${player.faction} proposed ${args.treaty === "alliance" ? "an alliance" : "peace"}`,
+    visibleTo: [player._id, other._id],
+  });
+
+  return { proposalId };
+};
+
+export const proposeTreaty = mutation({ args: proposeTreatyArgs, handler: asPlayer(proposeTreatyHandler) });
+export const proposeTreatyAsAI = internalMutation({ args: proposeTreatyArgs, handler: asAI(proposeTreatyHandler) });
+
+const respondToProposalArgs = {
+  playerId: v.id("players"),
+  proposalId: v.id("diplomacyProposals"),
+  accept: v.boolean(),
+};
+
+const respondToProposalHandler = async (ctx: MutationCtx, args: ObjectType<typeof respondToProposalArgs>) => {
+  const proposal = await ctx.db.get(args.proposalId);
+  if (!proposal) {
+    throw new Error("Proposal not found");
+  }
+  if (proposal.toPlayerId !== args.playerId) {
+    throw new Error("This proposal was not made to you");
+  }
+  const { player, other, game } = await getParties(ctx, args.playerId, proposal.fromPlayerId);
+
+  await ctx.db.delete(proposal._id);
+
+  if (!args.accept) {
+    await logEvent(ctx, game, {
+      type: "treaty_rejected",
+      actorId: player._id,
+      args: { proposalId: proposal._id },
+      outcome: { fromPlayerId: other._id, treaty: proposal.treaty },
+      message: `${player.faction} rejected the ${proposal.treaty} proposal`,
+      visibleTo: [player._id, other._id],
+    });
+    return { accepted: false };
+  }
+
+  const previous = await getRelation(ctx, player._id, other._id);
+  await setRelation(ctx, game, player._id, other._id, proposal.treaty, proposal.sharedVision);
+  if (proposal.sharedVision && !previous?.sharedVision) {
+    await refreshVision(ctx, game._id);
+  }
+
+  await logEvent(ctx, game, {
+    type: "treaty_signed",
+    actorId: player._id,
+    args: { proposalId: proposal._id },
+    outcome: { playerIds: [other._id, player._id], treaty: proposal.treaty, sharedVision: proposal.sharedVision },
+    message:
+      proposal.treaty === "alliance"
+        ? `${other.faction} and ${player.faction} formed an alliance`
+        : `${other.faction} and ${player.faction} signed a non-aggression pact`,
+  });
+
+  return { accepted: true, treaty: proposal.treaty };
+};
+
+export const respondToProposal = mutation({ args: respondToProposalArgs, handler: asPlayer(respondToProposalHandler) });
+export const respondToProposalAsAI = internalMutation({
+  args: respondToProposalArgs,
+  handler: asAI(respondToProposalHandler),
+});
+
+const declareWarArgs = {
+  playerId: v.id("players"),
+  targetPlayerId: v.id("players"),
+};
+
+const declareWarHandler = async (ctx: MutationCtx, args: ObjectType<typeof declareWarArgs>) => {
+  const { player, other, game } = await getParties(ctx, args.playerId, args.targetPlayerId);
+  assertPlayerTurn(game, player._id);
+
+  const relation = await getRelation(ctx, player._id, other._id);
+  if (!relation || relation.status === "war") {
+    throw new Error("You are already at war with this player");
+  }
+
+  await setRelation(ctx, game, player._id, other._id, "war", false);
+  // Outstanding offers between the pair no longer make sense
+  for (const proposal of [await getProposalBetween(ctx, player, other), await getProposalBetween(ctx, other, player)]) {
+    if (proposal) await ctx.db.delete(proposal._id);
+  }
+  if (relation.sharedVision) {
+    await refreshVision(ctx, game._id);
+  }
+
+  await logEvent(ctx, game, {
+    type: "war_declared",
+    actorId: player._id,
+    args: { targetPlayerId: other._id },
+    outcome: { previous: relation.status },
+    message: `${player.faction} declared war on ${other.faction}`,
+  });
+
+  return { status: "war" as const };
+};
+
+export const declareWar = mutation({ args: declareWarArgs, handler: asPlayer(declareWarHandler) });
+export const declareWarAsAI = internalMutation({ args: declareWarArgs, handler: asAI(declareWarHandler) });
+
+/**
+ * Every treaty in the game (treaties are public knowledge) plus the caller's
+ * own pending proposals, sent and received.
+ */
+export const getDiplomacy = query({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await getViewerPlayerOrThrow(ctx, args.gameId);
+    const [relations, proposals] = await Promise.all([
+      getRelationsForGame(ctx, args.gameId),
+      ctx.db
+        .query("diplomacyProposals")
+        .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+        .collect(),
+    ]);
+
+    return {
+      relations: relations
+        .filter((relation) => relation.status !== "war")
+        .map(({ playerA, playerB, status, sharedVision, since }) => ({ playerA, playerB, status, sharedVision, since })),
+      incoming: proposals.filter((proposal) => proposal.toPlayerId === viewer._id),
+      outgoing: proposals.filter((proposal) => proposal.fromPlayerId === viewer._id),
+    };
+  },
+});
@@ -1,317 +1,705 @@
-import { mutation } from "./_generated/server";
+import { internalMutation, mutation } from "./_generated/server";
 import type { MutationCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
 import { internal } from "./_generated/api";
-import { assertPlayerTurn, getGameOrThrow, getPlayerOrThrow } from "./lib/gameHelpers";
-import { clampY, coordToIndex, wrapX } from "./lib/grid";
+import {
+  assertPlayerTurn,
+  getBuildingAt,
+  getGameOrThrow,
+  getNextSeat,
+  getPlayerOrThrow,
+  indexByTile,
+} from "./lib/gameHelpers";
+import { refreshBuildingMemory } from "./lib/fog";
+import { asAI, asPlayer } from "./lib/auth";
+import { clampY, coordToIndex, directionToDelta, wrapX } from "./lib/grid";
 import { addResources } from "./lib/resources";
+import { getGameRng, saveGameRng } from "./lib/random";
+import { logEvent } from "./lib/events";
+import { recordTurnSnapshot } from "./lib/replay";
+import { startTurnClock } from "./lib/turnTimer";
+import { getOrdersForResolution, getSeatPriority } from "./lib/orders";
+import { getGameSettings } from "./lib/settings";
+import { evaluateVictory } from "./lib/victory";
+import { advanceArkProject } from "./lib/ark";
+import { payTribute } from "./lib/trade";
+import { advanceResearch } from "./lib/research";
 import type { ResourcePool } from "./lib/resources";
 import {
-  BUILDING_DEFS,
   RESOURCE_YIELDS,
-  FACTION_DEFS,
-  COMBAT,
   UNIT_DEFS,
   TERRAIN_DEFS,
   WEATHER_DEFS,
 } from "./lib/constants";
-import type { ResourceKey, FactionId, WeatherType } from "./lib/constants";
+import type { WeatherType } from "./lib/constants";
+import { getAcidRainHp, getIncome, getNextWeather, getRegeneratedHp, getUnitReset } from "./lib/economy";
+
+import { findNearestFog, stepDirection } from "./lib/pathfinding";
+import type { PathStep } from "./lib/pathfinding";
+import { getVision, refreshVision, saveVision, seeAround } from "./lib/vision";
+import {
+  beginWalk,
+  finishWalk,
+  followMoveOrders,
+  moveHandler,
+  planMoveOrder,
+  settleMoveOrder,
+  takeStep,
+} from "./units";
+import type { Direction } from "./units";
+import { attackHandler } from "./combat";
+import { continueBuildingHandler, placeBuildingHandler } from "./buildings";
+
+const collectResourceArgs = {
+  playerId: v.id("players"),
+  x: v.number(),
+  y: v.number(),
+};
+
+const collectResourceHandler = async (ctx: MutationCtx, args: ObjectType<typeof collectResourceArgs>) => {
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+  assertPlayerTurn(game, player._id);
+
+  const targetX = wrapX(args.x, game.width);
+  const targetY = clampY(args.y, game.height);
+  const idx = coordToIndex(game.width, targetX, targetY);
+  const tile = game.map[idx];
+
+  if (!tile.resource) {
+    throw new Error("No resource on this tile");
+  }
+
+  const yieldInfo = RESOURCE_YIELDS[tile.resource];
+  if (!yieldInfo) {
+    throw new Error("Resource cannot be harvested");
+  }
+
+  const updatedResources = addResources(player.resources, {
+    [yieldInfo.resource]: yieldInfo.amount,
+  });
+
+  const mapCopy = [...game.map];
+  mapCopy[idx] = {
+    ...mapCopy[idx],
+    resource: undefined,
+  };
+
+  await Promise.all([
+    ctx.db.patch(player._id, { resources: updatedResources }),
+    ctx.db.patch(game._id, { map: mapCopy }),
+  ]);
+
+  await logEvent(ctx, game, {
+    type: "collect_resource",
+    actorId: player._id,
+    args: { x: targetX, y: targetY },
+    outcome: { resource: yieldInfo.resource, amount: yieldInfo.amount },
+    visibleTo: [player._id],
+  });
+};
+
+export const collectResource = mutation({ args: collectResourceArgs, handler: asPlayer(collectResourceHandler) });
+
+const endTurnArgs = {
+  gameId: v.id("games"),
+  playerId: v.id("players"),
+};
+
+const endTurnHandler = async (ctx: MutationCtx, args: ObjectType<typeof endTurnArgs>) => {
+  let game = await getGameOrThrow(ctx, args.gameId);
+  assertPlayerTurn(game, args.playerId);
+
+  if (game.turnMode === "simultaneous") {
+    return readyUp(ctx, game, args.playerId);
+  }
+
+  // Standing move orders and auto-exploring units use up their moves before
+  // ending turn. Walks can claim ruins, changing the map and the game RNG.
+  await followMoveOrders(ctx, game, args.playerId);
+  game = await getGameOrThrow(ctx, game._id);
+  await runAutoExplore(ctx, game, args.playerId);
+
+  await logEvent(ctx, game, {
+    type: "end_turn",
+    actorId: args.playerId,
+  });
+
+  if (game.playerOrder.length === 0) {
+    throw new Error("No players in game");
+  }
 
-import { findNearestFog } from "./lib/pathfinding";
-import { revealAround } from "./lib/vision";
-import { directionToDelta } from "./units";
+  const players = await Promise.all(game.playerOrder.map((playerId) => getPlayerOrThrow(ctx, playerId)));
+  const alive = new Set(players.filter((player) => player.isAlive).map((player) => player._id));
+  const { index: nextIndex, newRound } = getNextSeat(game, (playerId) => alive.has(playerId));
+  const nextPlayerId = game.playerOrder[nextIndex];
+  const nextPlayer = players[nextIndex];
 
-export const collectResource = mutation({
+  // Calculate income with faction bonuses
+  const income = await calculateIncome(ctx, nextPlayer);
+  const updatedResources = addResources(nextPlayer.resources, income);
+
+  // Apply faction turn-start effects
+  await applyFactionTurnEffects(ctx, game, nextPlayer);
+
+  await Promise.all([
+    ctx.db.patch(nextPlayerId, { resources: updatedResources }),
+    resetPlayerUnits(ctx, nextPlayerId),
+    ctx.db.patch(game._id, {
+      activePlayerIndex: nextIndex,
+      turn: newRound ? game.turn + 1 : game.turn,
+      status: "active",
+    }),
+  ]);
+  await payTribute(ctx, game, nextPlayerId);
+  await advanceResearch(ctx, game, nextPlayerId);
+  await advanceArkProject(ctx, game, nextPlayerId);
+
+  // If next player is AI, schedule their turn
+  if (nextPlayer.isAI) {
+    await ctx.scheduler.runAfter(100, internal.ai.actions.runAITurn, {
+      gameId: args.gameId,
+      playerId: nextPlayerId,
+    });
+  }
+
+  // Only process weather when the round ends
+  if (newRound) {
+    await advanceWeather(ctx, game._id);
+  }
+
+  // Turn boundary: sight is recomputed from where everything now stands,
+  // including any weather change above
+  await refreshVision(ctx, game._id);
+  await refreshBuildingMemory(ctx, game._id);
+  if (newRound) {
+    await recordTurnSnapshot(ctx, game._id);
+    await evaluateVictory(ctx, await getGameOrThrow(ctx, game._id));
+  }
+  await startTurnClock(ctx, game._id);
+
+  return {
+    activePlayerIndex: nextIndex,
+    income,
+    isAITurn: nextPlayer.isAI,
+  };
+};
+
+export const endTurn = mutation({ args: endTurnArgs, handler: asPlayer(endTurnHandler) });
+export const endTurnAsAI = internalMutation({ args: endTurnArgs, handler: asAI(endTurnHandler) });
+
+/**
+ * Scheduled by the turn clock. When a human runs out of time their turn is
+ * ended for them, or their seat is handed to the AI, per the game's timer.
+ */
+export const expireTurn = internalMutation({
   args: {
-    playerId: v.id("players"),
-    x: v.number(),
-    y: v.number(),
+    gameId: v.id("games"),
+    deadline: v.number(),
   },
   handler: async (ctx, args) => {
-    const player = await getPlayerOrThrow(ctx, args.playerId);
-    const game = await getGameOrThrow(ctx, player.gameId);
-    assertPlayerTurn(game, player._id);
-
-    const targetX = wrapX(args.x, game.width);
-    const targetY = clampY(args.y, game.height);
-    const idx = coordToIndex(game.width, targetX, targetY);
-    const tile = game.map[idx];
-
-    if (!tile.resource) {
-      throw new Error("No resource on this tile");
+    const game = await ctx.db.get(args.gameId);
+    // The turn ended (and the clock moved on) before this timer fired
+    if (!game || game.status !== "active" || !game.turnTimer || game.turnDeadline !== args.deadline) {
+      return;
     }
 
-    const yieldInfo = RESOURCE_YIELDS[tile.resource];
-    if (!yieldInfo) {
-      throw new Error("Resource cannot be harvested");
+    if (game.turnMode === "simultaneous") {
+      await expireSimultaneousRound(ctx, game);
+      return;
     }
 
-    const updatedResources = addResources(player.resources, {
-      [yieldInfo.resource]: yieldInfo.amount,
+    const playerId = game.playerOrder[game.activePlayerIndex];
+    if (!playerId) return;
+
+    await logEvent(ctx, game, {
+      type: "turn_timeout",
+      actorId: playerId,
+      outcome: { onTimeout: game.turnTimer.onTimeout },
     });
 
-    const mapCopy = [...game.map];
-    mapCopy[idx] = {
-      ...mapCopy[idx],
-      resource: undefined,
-    };
+    if (game.turnTimer.onTimeout === "ai") {
+      await ctx.db.patch(playerId, {
+        isAI: true,
+        aiDifficulty: game.turnTimer.aiDifficulty ?? "medium",
+        autopilot: true,
+      });
+      await ctx.db.patch(game._id, { turnDeadline: undefined });
+      await ctx.scheduler.runAfter(100, internal.ai.actions.runAITurn, {
+        gameId: game._id,
+        playerId,
+      });
+      return;
+    }
 
-    await Promise.all([
-      ctx.db.patch(player._id, { resources: updatedResources }),
-      ctx.db.patch(game._id, { map: mapCopy }),
-    ]);
+    await endTurnHandler(ctx, { gameId: game._id, playerId });
   },
 });
 
-export const endTurn = mutation({
-  args: {
-    gameId: v.id("games"),
-    playerId: v.id("players"),
-  },
-  handler: async (ctx, args) => {
-    const game = await getGameOrThrow(ctx, args.gameId);
-    assertPlayerTurn(game, args.playerId);
+/**
+ * Simultaneous mode: the round clock ran out. Unready humans are either
+ * skipped (the round resolves now) or handed to the AI to finish planning.
+ */
+const expireSimultaneousRound = async (ctx: MutationCtx, game: Doc<"games">) => {
+  if (!game.turnTimer) return;
+  const stragglers = await getUnreadyPlayers(ctx, game);
+
+  for (const player of stragglers) {
+    if (player.isAI) continue;
+    await logEvent(ctx, game, {
+      type: "turn_timeout",
+      actorId: player._id,
+      outcome: { onTimeout: game.turnTimer.onTimeout },
+    });
+  }
+
+  if (game.turnTimer.onTimeout === "skip") {
+    await resolveRound(ctx, game);
+    return;
+  }
+
+  await ctx.db.patch(game._id, { turnDeadline: undefined });
+  for (const player of stragglers) {
+    if (player.isAI) continue;
+    await ctx.db.patch(player._id, {
+      isAI: true,
+      aiDifficulty: game.turnTimer.aiDifficulty ?? "medium",
+      autopilot: true,
+    });
+    await ctx.scheduler.runAfter(100, internal.ai.actions.runAITurn, {
+      gameId: game._id,
+      playerId: player._id,
+    });
+  }
+};
+
+const getUnreadyPlayers = async (ctx: MutationCtx, game: Doc<"games">) => {
+  const players = await Promise.all(game.playerOrder.map((playerId) => ctx.db.get(playerId)));
+  return players.filter(
+    (player): player is Doc<"players"> =>
+      !!player && player.isAlive && !game.readyPlayerIds?.includes(player._id),
+  );
+};
+
+/**
+ * Simultaneous mode: ending a turn just marks the player ready. Once every
+ * living player is ready the queued orders resolve and the next round starts.
+ */
+const readyUp = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"players">) => {
+  const readyPlayerIds = [...(game.readyPlayerIds ?? []), playerId];
+  await ctx.db.patch(game._id, { readyPlayerIds });
+  await logEvent(ctx, game, {
+    type: "end_turn",
+    actorId: playerId,
+  });
+
+  const updated = { ...game, readyPlayerIds };
+  const waitingOn = await getUnreadyPlayers(ctx, updated);
+  if (waitingOn.length > 0) {
+    return { ready: true, resolved: false };
+  }
+
+  await resolveRound(ctx, updated);
+  return { ready: true, resolved: true };
+};
 
-    // ─── Auto-Explore Logic ──────────────────────────────────────────────
-    // Process auto-exploring units for the current player before ending turn
+type MoveOrder = { orderId: Id<"orders">; playerId: Id<"players">; args: Parameters<typeof moveHandler>[1] };
+
+/**
+ * How a unit moves this round: the moves its player queued, or else the
+ * next steps of its standing order, re-planned as the round begins.
+ */
+type Mover =
+  | { kind: "queued"; playerId: Id<"players">; moves: MoveOrder[] }
+  | { kind: "standing"; playerId: Id<"players">; order: { x: number; y: number }; path: PathStep[]; steps: number };
+
+/**
+ * Apply every order queued this round, then start the next one.
+ *
+ * Movement resolves in steps: each unit takes the next step of its plan (or
+ * of its standing order) at the same time as everyone else's, in seat
+ * priority order. Units stepping onto the same tile bounce and stop for the
+ * round; a unit stepping into a tile that is being vacated waits for the
+ * mover, and units that would swap or move in a loop are blocked. A standing
+ * order that is stopped picks up again next round. Units found in ruins
+ * only appear once all movement has resolved. Attacks then resolve in
+ * priority order, followed by construction.
+ */
+const resolveRound = async (ctx: MutationCtx, game: Doc<"games">) => {
+  // Clear the ready list so the handlers accept each player's orders again
+  await ctx.db.patch(game._id, { readyPlayerIds: [], turnDeadline: undefined });
+  const orders = await getOrdersForResolution(ctx, game);
+
+  const failOrder = async (playerId: Id<"players">, orderId: Id<"orders">, reason: string) => {
+    await logEvent(ctx, game, {
+      type: "order_failed",
+      actorId: playerId,
+      args: { orderId },
+      message: reason,
+      visibleTo: [playerId],
+    });
+  };
+
+  // ── Movement ───────────────────────────────────────────────────────────
+  const walk = beginWalk(await getGameOrThrow(ctx, game._id));
+  const movers = new Map<Id<"units">, Mover>();
+  for (const order of orders) {
+    if (order.kind !== "move") continue;
+    const args = order.args as MoveOrder["args"];
+    const mover = movers.get(args.unitId) ?? { kind: "queued", playerId: order.playerId, moves: [] };
+    if (mover.kind === "queued") {
+      mover.moves.push({ orderId: order._id, playerId: order.playerId, args });
+    }
+    movers.set(args.unitId, mover);
+  }
+
+  // Queued moves take the place of a unit's standing order this round
+  for (const playerId of game.playerOrder) {
+    const player = await ctx.db.get(playerId);
+    if (!player?.isAlive) continue;
     const units = await ctx.db
       .query("units")
-      .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
+      .withIndex("by_player", (q) => q.eq("playerId", playerId))
       .collect();
+    for (const unit of units) {
+      if (!unit.moveOrder || unit.movesLeft <= 0 || movers.has(unit._id)) continue;
+      const path = await planMoveOrder(ctx, walk.game, unit);
+      if (path) {
+        movers.set(unit._id, { kind: "standing", playerId, order: unit.moveOrder, path, steps: 0 });
+      }
+    }
+  }
 
-    let mapUpdated = false;
-    const mapCopy = [...game.map];
-    const unitsToPatch = [];
+  const plans = new Map(
+    [...movers].sort(([, a], [, b]) => getSeatPriority(game, a.playerId) - getSeatPriority(game, b.playerId)),
+  );
 
-    for (const unit of units) {
-      if (unit.autoExplore && unit.movesLeft > 0) {
-        const unitDef = UNIT_DEFS[unit.type];
-        if (!unitDef) continue;
-        
-        let moves = unit.movesLeft;
-        let currentX = unit.x;
-        let currentY = unit.y;
-        
-        // Try to use all moves to explore
-        while (moves > 0) {
-          // Find direction to nearest fog
-          const nextDir = findNearestFog(
-            currentX,
-            currentY,
-            mapCopy,
-            game.width,
-            game.height,
-            args.playerId,
-            unitDef.canFly
-          );
-
-          if (!nextDir) break; // No reachable fog or path found
-
-          const { dx, dy } = directionToDelta(nextDir);
-          const nextX = wrapX(currentX + dx, game.width);
-          const nextY = clampY(currentY + dy, game.height);
-
-          const fromIdx = coordToIndex(game.width, currentX, currentY);
-          const toIdx = coordToIndex(game.width, nextX, nextY);
-          
-          const targetTile = mapCopy[toIdx];
-          const terrainDef = TERRAIN_DEFS[targetTile.type] ?? TERRAIN_DEFS.surface;
-          const moveCost = unitDef.canFly ? 1 : terrainDef.moveCost;
-
-          // Check if we can afford the move
-          if (moves < moveCost) break;
-
-          // Check occupation (simple check against map state)
-          // Note: Does not account for other units moving in this loop unless we update mapCopy unitIds
-          if (targetTile.unitId && targetTile.unitId !== unit._id) break;
-
-          // Execute move locally
-          mapCopy[fromIdx] = { ...mapCopy[fromIdx], unitId: undefined };
-          mapCopy[toIdx] = { ...mapCopy[toIdx], unitId: unit._id };
-          
-          currentX = nextX;
-          currentY = nextY;
-          moves -= moveCost;
-          mapUpdated = true;
-
-          // Reveal vision
-          if (unitDef.vision) {
-            revealAround({ ...game, map: mapCopy }, mapCopy, args.playerId, currentX, currentY, unitDef.vision);
-          }
+  // A stopped queued move fails, and so do the moves queued after it; a
+  // standing order keeps the rest of its route
+  const stop = async (unitId: Id<"units">, mover: Mover, reason?: string) => {
+    plans.delete(unitId);
+    if (mover.kind === "queued") {
+      if (reason) {
+        const [failed, ...dropped] = mover.moves;
+        await failOrder(mover.playerId, failed.orderId, reason);
+        for (const move of dropped) {
+          await failOrder(mover.playerId, move.orderId, `An earlier move failed: ${reason}`);
         }
+      }
+      return;
+    }
+    const unit = await ctx.db.get(unitId);
+    if (unit) {
+      const remaining = mover.path.map(({ x, y }) => ({ x, y }));
+      await settleMoveOrder(ctx, walk.game, unit, mover.order, mover.steps, remaining);
+    }
+  };
 
-        // If unit moved, queue update
-        if (currentX !== unit.x || currentY !== unit.y) {
-          unitsToPatch.push(
-            ctx.db.patch(unit._id, {
-              x: currentX,
-              y: currentY,
-              movesLeft: 0, // Consumed moves for turn (or set to 'moves' but we reset them after anyway)
-            })
-          );
-        }
+  while (plans.size > 0) {
+    // Where every unit with a plan wants to be after this step
+    const steps = new Map<Id<"units">, { unit: Doc<"units">; from: number; to: number; direction: Direction }>();
+    for (const [unitId, mover] of plans) {
+      const unit = await ctx.db.get(unitId);
+      if (!unit) {
+        plans.delete(unitId);
+        continue;
+      }
+      if (mover.kind === "standing" && unit.movesLeft < mover.path[0].cost) {
+        await stop(unitId, mover);
+        continue;
       }
+      const direction = mover.kind === "queued" ? mover.moves[0].args.direction : stepDirection(unit, mover.path[0]);
+      const { dx, dy } = directionToDelta(direction);
+      steps.set(unitId, {
+        unit,
+        from: coordToIndex(game.width, unit.x, unit.y),
+        to: coordToIndex(game.width, wrapX(unit.x + dx, game.width), clampY(unit.y + dy, game.height)),
+        direction,
+      });
     }
 
-    // Apply map updates if any exploration happened
-    if (mapUpdated) {
-      await ctx.db.patch(game._id, { map: mapCopy });
-      await Promise.all(unitsToPatch);
+    const claims = new Map<number, Id<"units">[]>();
+    for (const [unitId, step] of steps) {
+      claims.set(step.to, [...(claims.get(step.to) ?? []), unitId]);
+    }
+    for (const unitIds of claims.values()) {
+      if (unitIds.length < 2) continue;
+      for (const unitId of unitIds) {
+        steps.delete(unitId);
+        await stop(unitId, plans.get(unitId)!, "Collided with another unit");
+      }
     }
-    // ─────────────────────────────────────────────────────────────────────
 
-    if (game.playerOrder.length === 0) {
-      throw new Error("No players in game");
+    // Step whoever has a free tile ahead, repeating while that frees up more
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      const vacatedBy = new Map([...steps].map(([unitId, step]) => [step.from, unitId]));
+      for (const [unitId, step] of steps) {
+        const waitingOn = vacatedBy.get(step.to);
+        if (waitingOn && waitingOn !== unitId && steps.has(waitingOn)) continue;
+        steps.delete(unitId);
+        progressed = true;
+
+        const mover = plans.get(unitId)!;
+        try {
+          if (mover.kind === "queued") {
+            const { args } = mover.moves[0];
+            if (step.unit.playerId !== args.playerId) {
+              throw new Error("You do not control this unit");
+            }
+            const outcome = await takeStep(ctx, walk, step.unit, args.direction);
+            if (step.unit.moveOrder) {
+              await ctx.db.patch(unitId, { moveOrder: undefined }); // Moving by hand cancels a standing order
+            }
+            await logEvent(ctx, walk.game, {
+              type: "move",
+              actorId: args.playerId,
+              args: { unitId, direction: args.direction },
+              outcome,
+              visibleTo: [args.playerId],
+            });
+            mover.moves.shift();
+            if (mover.moves.length === 0) plans.delete(unitId);
+          } else {
+            await takeStep(ctx, walk, step.unit, step.direction);
+            mover.path.shift();
+            mover.steps++;
+            if (mover.path.length === 0) await stop(unitId, mover);
+          }
+        } catch (error) {
+          await stop(unitId, mover, (error as Error).message);
+        }
+      }
+    }
+
+    // Anything left is waiting on a swap or a loop of movers
+    for (const unitId of steps.keys()) {
+      await stop(unitId, plans.get(unitId)!, "Blocked by another moving unit");
     }
+  }
+  await finishWalk(ctx, walk);
 
-    const nextIndex = (game.activePlayerIndex + 1) % game.playerOrder.length;
-    const nextPlayerId = game.playerOrder[nextIndex];
-    if (!nextPlayerId) {
-      throw new Error("Next player not found");
+  for (const playerId of game.playerOrder) {
+    const player = await ctx.db.get(playerId);
+    if (player?.isAlive) {
+      await runAutoExplore(ctx, await getGameOrThrow(ctx, game._id), playerId);
     }
+  }
 
-    const nextPlayer = await getPlayerOrThrow(ctx, nextPlayerId);
-
-    // Skip eliminated players
-    if (!nextPlayer.isAlive) {
-      // Find next alive player
-      let searchIndex = nextIndex;
-      let foundAlive = false;
-      for (let i = 0; i < game.playerOrder.length; i++) {
-        searchIndex = (nextIndex + i) % game.playerOrder.length;
-        const checkPlayer = await ctx.db.get(game.playerOrder[searchIndex]!);
-        if (checkPlayer?.isAlive) {
-          foundAlive = true;
-          break;
+  // ── Attacks, then construction ─────────────────────────────────────────
+  const phases: Doc<"orders">["kind"][][] = [["attack"], ["place_building", "continue_building"]];
+  for (const kinds of phases) {
+    for (const order of orders) {
+      if (!kinds.includes(order.kind)) continue;
+      // A decisive battle can end the game part way through the round
+      if ((await getGameOrThrow(ctx, game._id)).status !== "active") return;
+      try {
+        if (order.kind === "attack") {
+          await attackHandler(ctx, order.args as Parameters<typeof attackHandler>[1]);
+        } else if (order.kind === "place_building") {
+          await placeBuildingHandler(ctx, order.args as Parameters<typeof placeBuildingHandler>[1]);
+        } else {
+          await continueBuildingHandler(ctx, order.args as Parameters<typeof continueBuildingHandler>[1]);
         }
+      } catch (error) {
+        await failOrder(order.playerId, order._id, (error as Error).message);
       }
-      
-      if (!foundAlive) {
-        throw new Error("No alive players remaining");
-      }
-      
-      // Update to found player
-      const alivePlayerId = game.playerOrder[searchIndex]!;
-      const alivePlayer = await getPlayerOrThrow(ctx, alivePlayerId);
-      
-      const income = await calculateIncome(ctx, alivePlayer);
-      const updatedResources = addResources(alivePlayer.resources, income);
-      await applyFactionTurnEffects(ctx, game, alivePlayer);
-
-      await Promise.all([
-        ctx.db.patch(alivePlayerId, { resources: updatedResources }),
-        resetPlayerUnits(ctx, alivePlayerId),
-        ctx.db.patch(game._id, {
-          activePlayerIndex: searchIndex,
-          turn: searchIndex <= game.activePlayerIndex ? game.turn + 1 : game.turn,
-          status: "active",
-        }),
-      ]);
-
-      // If next player is AI, schedule their turn
-      if (alivePlayer.isAI) {
-        await ctx.scheduler.runAfter(100, internal.ai.actions.runAITurn, {
-          gameId: args.gameId,
-          playerId: alivePlayerId,
-        });
-      }
-
-      return {
-        activePlayerIndex: searchIndex,
-        income,
-        isAITurn: alivePlayer.isAI,
-      };
     }
+  }
+
+  await startNextRound(ctx, game._id);
+};
 
-    // Calculate income with faction bonuses
-    const income = await calculateIncome(ctx, nextPlayer);
-    const updatedResources = addResources(nextPlayer.resources, income);
+/**
+ * Simultaneous mode round start: everyone collects income and refreshes
+ * their units at once, then all AI seats begin planning.
+ */
+const startNextRound = async (ctx: MutationCtx, gameId: Id<"games">) => {
+  const game = await getGameOrThrow(ctx, gameId);
+  if (game.status !== "active") return;
 
-    // Apply faction turn-start effects
-    await applyFactionTurnEffects(ctx, game, nextPlayer);
+  const players = await Promise.all(game.playerOrder.map((playerId) => getPlayerOrThrow(ctx, playerId)));
+  const alivePlayers = players.filter((player) => player.isAlive);
 
+  for (const player of alivePlayers) {
+    const income = await calculateIncome(ctx, player);
+    await applyFactionTurnEffects(ctx, game, player);
     await Promise.all([
-      ctx.db.patch(nextPlayerId, { resources: updatedResources }),
-      resetPlayerUnits(ctx, nextPlayerId),
-      ctx.db.patch(game._id, {
-        activePlayerIndex: nextIndex,
-        turn: nextIndex === 0 ? game.turn + 1 : game.turn,
-        status: "active",
-      }),
+      ctx.db.patch(player._id, { resources: addResources(player.resources, income) }),
+      resetPlayerUnits(ctx, player._id),
     ]);
+    await payTribute(ctx, game, player._id);
+    await advanceResearch(ctx, game, player._id);
+    await advanceArkProject(ctx, game, player._id);
+  }
 
-    // If next player is AI, schedule their turn
-    if (nextPlayer.isAI) {
+  await ctx.db.patch(game._id, { turn: game.turn + 1, readyPlayerIds: [] });
+  await advanceWeather(ctx, game._id);
+
+  await refreshVision(ctx, game._id);
+  await refreshBuildingMemory(ctx, game._id);
+  await recordTurnSnapshot(ctx, game._id);
+  await evaluateVictory(ctx, await getGameOrThrow(ctx, game._id));
+  await startTurnClock(ctx, game._id);
+
+  for (const player of alivePlayers) {
+    if (player.isAI) {
       await ctx.scheduler.runAfter(100, internal.ai.actions.runAITurn, {
-        gameId: args.gameId,
-        playerId: nextPlayerId,
+        gameId: game._id,
+        playerId: player._id,
       });
     }
+  }
+};
 
-    // ─────────────────────────────────────────────────────────────────────
-    // Weather Cycle
-    // ─────────────────────────────────────────────────────────────────────
-    // Only process weather when the round ends (i.e., back to Player 0)
-    if (nextIndex === 0) {
-      if (game.activeWeather) {
-        // Decrease duration
-        const nextDuration = game.activeWeather.turnsRemaining - 1;
-        if (nextDuration <= 0) {
-          // Weather clears
-           await ctx.db.patch(game._id, { activeWeather: undefined });
-        } else {
-           await ctx.db.patch(game._id, { activeWeather: { ...game.activeWeather, turnsRemaining: nextDuration } });
-        }
-      } else {
-        // Chance to start new weather (20% after turn 5)
-        if (game.turn >= 5 && Math.random() < 0.2) {
-          const weatherTypes = Object.keys(WEATHER_DEFS) as WeatherType[];
-          const type = weatherTypes[Math.floor(Math.random() * weatherTypes.length)];
-          const def = WEATHER_DEFS[type];
-          if (!def) throw new Error("Weather def not found"); // Should not happen
-          
-          const duration = Math.floor(Math.random() * (def.duration[1] - def.duration[0] + 1)) + def.duration[0];
-          
-          await ctx.db.patch(game._id, {
-            activeWeather: { type, turnsRemaining: duration }
-          });
-        }
-      }
+/**
+ * Move the current player's auto-exploring Rovers toward the nearest fog,
+ * using up their remaining moves.
+ */
+const runAutoExplore = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"players">) => {
+  const allUnits = await ctx.db
+    .query("units")
+    .withIndex("by_game", (q) => q.eq("gameId", game._id))
+    .collect();
+  const units = allUnits.filter((unit) => unit.playerId === playerId);
+  const unitsByTile = indexByTile(game, allUnits);
+
+  let unitsMoved = false;
+  const vision = await getVision(ctx, game, playerId);
+  let visionChanged = false;
+  const unitsToPatch = [];
+
+  for (const unit of units) {
+    if (unit.autoExplore && unit.movesLeft > 0) {
+      const unitDef = UNIT_DEFS[unit.type];
+      if (!unitDef) continue;
+      
+      let moves = unit.movesLeft;
+      let currentX = unit.x;
+      let currentY = unit.y;
+      
+      // Try to use all moves to explore
+      while (moves > 0) {
+        // Find direction to nearest fog
+        const nextDir = findNearestFog(
+          currentX,
+          currentY,
+          game.map,
+          game.width,
+          game.height,
+          vision.explored,
+          unitDef.canFly
+        );
+
+        if (!nextDir) break; // No reachable fog or path found
+
+        const { dx, dy } = directionToDelta(nextDir);
+        const nextX = wrapX(currentX + dx, game.width);
+        const nextY = clampY(currentY + dy, game.height);
+
+        const fromIdx = coordToIndex(game.width, currentX, currentY);
+        const toIdx = coordToIndex(game.width, nextX, nextY);
+        
+        const targetTile = game.map[toIdx];
+        const terrainDef = TERRAIN_DEFS[targetTile.type] ?? TERRAIN_DEFS.surface;
+        const moveCost = unitDef.canFly ? 1 : terrainDef.moveCost;
+
+        // Check if we can afford the move
+        if (moves < moveCost) break;
 
-      // ─────────────────────────────────────────────────────────────────────
-      // Weather Effects (Acid Rain Damage)
-      // ─────────────────────────────────────────────────────────────────────
-      if (game.activeWeather?.type === "acid_rain") {
-        const allUnits = await ctx.db.query("units").collect();
-        const damagePromises = [];
+        // Check occupation, including units already moved in this loop
+        const occupant = unitsByTile.get(toIdx);
+        if (occupant && occupant._id !== unit._id) break;
+
+        // Execute move locally
+        unitsByTile.delete(fromIdx);
+        unitsByTile.set(toIdx, unit);
         
-        for (const u of allUnits) {
-          const tileIdx = coordToIndex(game.width, u.x, u.y);
-          const tile = game.map[tileIdx];
-          
-          // Units safe in cities/bunkers
-          if (tile.buildingId) {
-             const building = await ctx.db.get(tile.buildingId);
-             if (building && (building.type === "city" || building.type === "bunker")) continue;
-          }
-          
-          // Apply Damage
-          damagePromises.push(ctx.db.patch(u._id, { hp: Math.max(1, u.hp - 2) }));
+        currentX = nextX;
+        currentY = nextY;
+        moves -= moveCost;
+        unitsMoved = true;
+
+        // Reveal vision
+        if (unitDef.vision) {
+          visionChanged = seeAround(game, vision, currentX, currentY, unitDef.vision) || visionChanged;
         }
-        await Promise.all(damagePromises);
+      }
+
+      // If unit moved, queue update
+      if (currentX !== unit.x || currentY !== unit.y) {
+        unitsToPatch.push(
+          ctx.db.patch(unit._id, {
+            x: currentX,
+            y: currentY,
+            movesLeft: 0, // Consumed moves for turn (or set to 'moves' but we reset them after anyway)
+          })
+        );
       }
     }
-    // ─────────────────────────────────────────────────────────────────────
+  }
 
+  // Apply updates if any exploration happened
+  if (visionChanged) {
+    await saveVision(ctx, game, playerId, vision);
+  }
+  if (unitsMoved) {
+    await Promise.all(unitsToPatch);
+  }
+};
 
-    return {
-      activePlayerIndex: nextIndex,
-      income,
-      isAITurn: nextPlayer.isAI,
-    };
-  },
-});
+/**
+ * Round-end weather, once the turn counter has moved on to the new round:
+ * tick down (or clear) the active weather, maybe roll a new one, and apply
+ * Acid Rain damage. The game is read here rather than passed in, so the roll
+ * continues the RNG from wherever the round's moves left it.
+ */
+const advanceWeather = async (ctx: MutationCtx, gameId: Id<"games">) => {
+  const game = await getGameOrThrow(ctx, gameId);
+  const settings = getGameSettings(game);
+  const rng = getGameRng(game);
+  const activeWeather = getNextWeather(game.activeWeather, game.turn - 1, settings.weather, rng);
+
+  if (game.activeWeather) {
+    await ctx.db.patch(game._id, { activeWeather });
+    if (!activeWeather) {
+      await logEvent(ctx, game, {
+        type: "weather_ended",
+        outcome: { type: game.activeWeather.type },
+      });
+    }
+  } else if (settings.weather) {
+    if (activeWeather) {
+      await ctx.db.patch(game._id, { activeWeather });
+      await logEvent(ctx, game, {
+        type: "weather_started",
+        outcome: activeWeather,
+        message: WEATHER_DEFS[activeWeather.type as WeatherType].name,
+      });
+    }
+    await saveGameRng(ctx, game._id, rng);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────
+  // Weather Effects (Acid Rain Damage)
+  // ─────────────────────────────────────────────────────────────────────
+  if (game.activeWeather?.type === "acid_rain") {
+    const gameUnits = await ctx.db
+      .query("units")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect();
+    const damagePromises = [];
+    
+    for (const u of gameUnits) {
+      const building = await getBuildingAt(ctx, game._id, u.x, u.y);
+      damagePromises.push(ctx.db.patch(u._id, { hp: getAcidRainHp(u, building) }));
+    }
+    await Promise.all(damagePromises);
+  }
+};
 
 /**
  * Calculate income with faction bonuses:
@@ -321,49 +709,14 @@ const calculateIncome = async (
   ctx: MutationCtx,
   player: Doc<"players">
 ): Promise<ResourcePool> => {
-  const buildings = await ctx.db
-    .query("buildings")
-    .withIndex("by_player", (q) => q.eq("playerId", player._id))
-    .collect();
-
-  const total: ResourcePool = {
-    biomass: 0,
-    ore: 0,
-    flux: 0,
-  };
-
-  const faction = player.faction as FactionId;
-  const factionDef = FACTION_DEFS[faction];
-
-  for (const building of buildings) {
-    const def = BUILDING_DEFS[building.type];
-    if (!def) continue;
-
-    if (building.isConstructing) continue;
-
-    for (const key of Object.keys(def.income) as ResourceKey[]) {
-      let value = def.income[key] ?? 0;
-
-      // United Terran bonus: Mines produce +1 Ore
-      if (
-        factionDef?.trait === "deep_core_mining" &&
-        building.type === "mine" &&
-        key === "ore"
-      ) {
-        value += 1;
-      }
-
-      total[key] += value;
-    }
-  }
-
-  // Weather Modifier: Solar Flare
-  const game = await ctx.db.get(player.gameId);
-  if (game?.activeWeather?.type === "solar_flare") {
-    total.flux = Math.floor(total.flux * 1.5);
-  }
-
-  return total;
+  const [buildings, game] = await Promise.all([
+    ctx.db
+      .query("buildings")
+      .withIndex("by_player", (q) => q.eq("playerId", player._id))
+      .collect(),
+    ctx.db.get(player.gameId),
+  ]);
+  return getIncome(player, buildings, game?.activeWeather);
 };
 
 /**
@@ -375,32 +728,15 @@ const applyFactionTurnEffects = async (
   game: Doc<"games">,
   player: Doc<"players">
 ) => {
-  const faction = player.faction as FactionId;
-  const factionDef = FACTION_DEFS[faction];
-
-  if (factionDef?.trait === "regeneration") {
-    // Xeno Hive: Heal units on biomass resource tiles
-    const units = await ctx.db
-      .query("units")
-      .withIndex("by_player", (q) => q.eq("playerId", player._id))
-      .collect();
-
-    for (const unit of units) {
-      const idx = coordToIndex(game.width, unit.x, unit.y);
-      const tile = game.map[idx];
-
-      // Check if tile has biomass resource OR is adjacent to a farm
-      const hasBiomass = tile.resource === "biomass" || tile.type === "farm";
-
-      if (hasBiomass) {
-        const unitDef = UNIT_DEFS[unit.type];
-        const maxHp = unitDef?.hp ?? unit.hp;
-        const newHp = Math.min(unit.hp + COMBAT.REGEN_HP_PER_TURN, maxHp);
+  const units = await ctx.db
+    .query("units")
+    .withIndex("by_player", (q) => q.eq("playerId", player._id))
+    .collect();
 
-        if (newHp > unit.hp) {
-          await ctx.db.patch(unit._id, { hp: newHp });
-        }
-      }
+  for (const unit of units) {
+    const hp = getRegeneratedHp(player, unit, game.map[coordToIndex(game.width, unit.x, unit.y)]);
+    if (hp > unit.hp) {
+      await ctx.db.patch(unit._id, { hp });
     }
   }
 };
@@ -410,17 +746,5 @@ const resetPlayerUnits = async (ctx: MutationCtx, playerId: Id<"players">) => {
     .query("units")
     .withIndex("by_player", (q) => q.eq("playerId", playerId))
     .collect();
-  await Promise.all(
-    units.map((unit) => {
-      // Marines become entrenched if they didn't use all their moves (i.e., stayed still)
-      const becomeEntrenched =
-        unit.type === "marine" && unit.movesLeft === unit.maxMoves;
-
-      return ctx.db.patch(unit._id, {
-        movesLeft: unit.maxMoves,
-        entrenched: becomeEntrenched ? true : undefined,
-      });
-    })
-  );
+  await Promise.all(units.map((unit) => ctx.db.patch(unit._id, getUnitReset(unit))));
 };
-
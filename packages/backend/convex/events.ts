@@ -0,0 +1,66 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import type { PaginationResult } from "convex/server";
+import { getGameOrThrow, isGameOver } from "./lib/gameHelpers";
+import { getViewerPlayer } from "./lib/auth";
+import { canSeeEvent } from "./lib/events";
+
+/**
+ * Game history, newest first. Seated players see world events, their own
+ * commands and anything that involved them; finished games show everything.
+ */
+export const listGameEvents = query({
+  args: {
+    gameId: v.id("games"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const game = await getGameOrThrow(ctx, args.gameId);
+
+    let viewerId: Id<"players"> | null = null;
+    if (!isGameOver(game)) {
+      const viewer = await getViewerPlayer(ctx, args.gameId);
+      if (!viewer) {
+        throw new Error("You are not a player in this game");
+      }
+      viewerId = viewer._id;
+    }
+
+    // Read on in batches until the page is full, so the events the viewer
+    // can't see never leave it short. The cursor is the creation time of the
+    // last event read.
+    const { numItems, cursor } = args.paginationOpts;
+    let before = cursor ? Number(cursor) : undefined;
+    const page: Doc<"gameEvents">[] = [];
+    let isDone = false;
+    while (page.length < numItems && !isDone) {
+      const batch = await ctx.db
+        .query("gameEvents")
+        .withIndex("by_game", (q) =>
+          before === undefined ? q.eq("gameId", args.gameId) : q.eq("gameId", args.gameId).lt("_creationTime", before),
+        )
+        .order("desc")
+        .take(numItems);
+
+      let read = 0;
+      for (const event of batch) {
+        read++;
+        before = event._creationTime;
+        if (!canSeeEvent(event, viewerId)) continue;
+        page.push(event);
+        if (page.length === numItems) break;
+      }
+      // Done once the game's history runs out, not when the page fills
+      isDone = batch.length < numItems && read === batch.length;
+    }
+
+    const result: PaginationResult<Doc<"gameEvents">> = {
+      page,
+      isDone,
+      continueCursor: before === undefined ? "" : String(before),
+    };
+    return result;
+  },
+});
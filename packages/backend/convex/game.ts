@@ -2,26 +2,38 @@ import { mutation, query } from "./_generated/server";
 import type { MutationCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
 import { internal } from "./_generated/api";
-import { getGameOrThrow } from "./lib/gameHelpers";
-import { FACTION_DEFS, BUILDING_DEFS, TECH_DEFS } from "./lib/constants";
+import { getGameOrThrow, isGameOver } from "./lib/gameHelpers";
+import { asPlayer, assertCanActAs, getSpectator, getUserIdOrThrow, getViewerPlayer } from "./lib/auth";
+import { FACTION_DEFS, BUILDING_DEFS, TECH_DEFS, MIN_PLAYERS } from "./lib/constants";
 import type { FactionId } from "./lib/constants";
 import { addResources } from "./lib/resources";
 import type { ResourcePool } from "./lib/resources";
 import { coordToIndex } from "./lib/grid";
+import { createRng, getGameRng } from "./lib/random";
+import { logEvent } from "./lib/events";
+import { recordTurnSnapshot } from "./lib/replay";
+import { startTurnClock } from "./lib/turnTimer";
+import { assertValidGameSettings, gameSettingsValidator, getGameSettings } from "./lib/settings";
+import type { GameSettings } from "./lib/settings";
+import { evaluateVictory } from "./lib/victory";
+import { computeScores } from "./lib/score";
+import type { PlayerScore } from "./lib/score";
+import { spawnSettler } from "./players";
+import { buildMap } from "./world";
 
 /**
  * Game Lifecycle:
  * 1. generateWorld (world.ts) - Creates game in "lobby" status
- * 2. joinGame (players.ts) - Adds players to lobby
+ * 2. joinGame (players.ts) - Adds players to lobby; the host may
+ *    updateGameSettings until the game starts
  * 3. startGame - Transitions to "active", applies faction bonuses
  * 4. [gameplay] - Turns, combat, building, etc.
- * 5. checkVictory - Called after actions to detect win conditions
+ * 5. checkVictory - Evaluated at turn boundaries and eliminations to detect
+ *    win conditions
  */
 
-const MIN_PLAYERS = 1; // Allow single-player for testing
-const MAX_PLAYERS = 8;
-
 export const startGame = mutation({
   args: {
     gameId: v.id("games"),
@@ -29,6 +41,7 @@ export const startGame = mutation({
   },
   handler: async (ctx, args) => {
     const game = await getGameOrThrow(ctx, args.gameId);
+    await assertCanActAs(ctx, args.hostPlayerId);
 
     if (game.status !== "lobby") {
       throw new Error("Game has already started");
@@ -37,8 +50,9 @@ export const startGame = mutation({
     if (game.playerOrder.length < MIN_PLAYERS) {
       throw new Error(`Need at least ${MIN_PLAYERS} player(s) to start`);
     }
-    if (game.playerOrder.length > MAX_PLAYERS) {
-      throw new Error(`Maximum ${MAX_PLAYERS} players allowed`);
+    const settings = getGameSettings(game);
+    if (game.playerOrder.length > settings.maxPlayers) {
+      throw new Error(`Maximum ${settings.maxPlayers} players allowed`);
     }
 
     // Verify host is in the game
@@ -68,28 +82,32 @@ export const startGame = mutation({
     }
 
     // Randomize turn order (or keep join order)
-    const shuffledOrder = [...game.playerOrder];
-    for (let i = shuffledOrder.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffledOrder[i], shuffledOrder[j]] = [shuffledOrder[j], shuffledOrder[i]];
-    }
+    const rng = getGameRng(game);
+    const shuffledOrder = rng.shuffle([...game.playerOrder]);
 
     await ctx.db.patch(game._id, {
       status: "active",
       turn: 1,
       activePlayerIndex: 0,
       playerOrder: shuffledOrder,
+      rngState: rng.state,
+    });
+    await logEvent(ctx, { ...game, turn: 1 }, {
+      type: "game_started",
+      outcome: { playerOrder: shuffledOrder },
     });
+    await recordTurnSnapshot(ctx, game._id);
+    await startTurnClock(ctx, game._id);
 
-    // Check if first player is AI
-    const firstPlayerId = shuffledOrder[0];
-    if (firstPlayerId) {
-      const firstPlayer = await ctx.db.get(firstPlayerId);
-      if (firstPlayer?.isAI) {
-        // Schedule AI turn after a short delay
+    // Schedule the first AI turn after a short delay; in simultaneous games
+    // every AI seat starts planning at once
+    const openingSeats = game.turnMode === "simultaneous" ? shuffledOrder : shuffledOrder.slice(0, 1);
+    for (const playerId of openingSeats) {
+      const player = await ctx.db.get(playerId);
+      if (player?.isAI) {
         await ctx.scheduler.runAfter(500, internal.ai.actions.runAITurn, {
           gameId: args.gameId,
-          playerId: firstPlayerId,
+          playerId,
         });
       }
     }
@@ -101,66 +119,78 @@ export const startGame = mutation({
   },
 });
 
-export const checkVictory = mutation({
+/**
+ * Host-only lobby configuration. The host is the first player to join.
+ * Changing ruins density rebuilds the lobby from the seed (see
+ * reseatLobby), and starting resources apply to everyone already seated.
+ */
+export const updateGameSettings = mutation({
   args: {
     gameId: v.id("games"),
+    hostPlayerId: v.id("players"),
+    settings: gameSettingsValidator,
   },
   handler: async (ctx, args) => {
     const game = await getGameOrThrow(ctx, args.gameId);
+    await assertCanActAs(ctx, args.hostPlayerId);
 
-    if (game.status !== "active") {
-      return { winner: null, reason: null };
+    if (game.status !== "lobby") {
+      throw new Error("Settings can only be changed in the lobby");
     }
-
-    const players = await ctx.db
-      .query("players")
-      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
-      .collect();
-
-    const alivePlayers = players.filter((p) => p.isAlive);
-
-    // Victory Condition 1: Last player standing
-    if (alivePlayers.length === 1) {
-      const winner = alivePlayers[0];
-      await ctx.db.patch(game._id, { status: "ended" });
-      return {
-        winner: winner._id,
-        reason: "domination",
-        message: `${winner.faction} achieved Domination Victory!`,
-      };
+    if (game.playerOrder[0] !== args.hostPlayerId) {
+      throw new Error("Only the host can change the game settings");
     }
+    assertValidGameSettings(args.settings, game.playerOrder.length);
 
-    // Victory Condition 2: All players eliminated (draw)
-    if (alivePlayers.length === 0) {
-      await ctx.db.patch(game._id, { status: "ended" });
-      return {
-        winner: null,
-        reason: "draw",
-        message: "All factions were eliminated. Draw!",
-      };
+    const previous = getGameSettings(game);
+    if (args.settings.ruinsDensity !== previous.ruinsDensity) {
+      await reseatLobby(ctx, game, args.settings);
     }
 
-    // Victory Condition 3: The Ark Project (check for completed Silo + tech)
-    for (const player of alivePlayers) {
-      if (player.techUnlocked.includes("the_ark_project")) {
-        const silos = await ctx.db
-          .query("buildings")
-          .withIndex("by_player", (q) => q.eq("playerId", player._id))
-          .filter((q) => q.eq(q.field("type"), "silo"))
-          .collect();
-
-        if (silos.length > 0) {
-          await ctx.db.patch(game._id, { status: "ended" });
-          return {
-            winner: player._id,
-            reason: "ascension",
-            message: `${player.faction} launched The Ark! Ascension Victory!`,
-          };
-        }
-      }
+    for (const playerId of game.playerOrder) {
+      await ctx.db.patch(playerId, { resources: { ...args.settings.startingResources } });
     }
+    await ctx.db.patch(game._id, { settings: args.settings });
+  },
+});
+
+/**
+ * Rebuild a lobby as if the game had been created with these settings and
+ * everyone had joined in the same order: the map is generated from the seed
+ * again, then each seated player's Lander is placed anew, continuing the
+ * same RNG stream, so the game stays reproducible from its seed.
+ */
+const reseatLobby = async (ctx: MutationCtx, game: Doc<"games">, settings: GameSettings) => {
+  const rng = createRng(game.seed);
+  const rebuilt = { ...game, map: buildMap(game.width, game.height, rng.next, settings.ruinsDensity) };
 
-    return { winner: null, reason: null };
+  const [units, visions] = await Promise.all([
+    ctx.db
+      .query("units")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect(),
+    ctx.db
+      .query("vision")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect(),
+  ]);
+  for (const doc of [...units, ...visions]) {
+    await ctx.db.delete(doc._id);
+  }
+
+  for (const playerId of game.playerOrder) {
+    await spawnSettler(ctx, rebuilt, playerId, rng);
+  }
+  await ctx.db.patch(game._id, { map: rebuilt.map, rngState: rng.state });
+};
+
+export const checkVictory = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const game = await getGameOrThrow(ctx, args.gameId);
+    return evaluateVictory(ctx, game);
   },
 });
 
@@ -178,9 +208,23 @@ export const getGameSummary = query({
       .query("players")
       .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
       .collect();
+    const viewer = await getViewerPlayer(ctx, args.gameId);
 
     const playerSummaries = await Promise.all(
       players.map(async (player) => {
+        const factionDef = FACTION_DEFS[player.faction as FactionId];
+        const summary = {
+          playerId: player._id,
+          faction: player.faction,
+          factionName: factionDef?.name ?? player.faction,
+          isAlive: player.isAlive,
+        };
+
+        // Economy, army size and research are only shown for the viewer's own seat
+        if (player._id !== viewer?._id) {
+          return summary;
+        }
+
         const [units, buildings] = await Promise.all([
           ctx.db
             .query("units")
@@ -192,13 +236,8 @@ export const getGameSummary = query({
             .collect(),
         ]);
 
-        const factionDef = FACTION_DEFS[player.faction as FactionId];
-
         return {
-          playerId: player._id,
-          faction: player.faction,
-          factionName: factionDef?.name ?? player.faction,
-          isAlive: player.isAlive,
+          ...summary,
           resources: player.resources,
           unitCount: units.length,
           buildingCount: buildings.length,
@@ -221,6 +260,57 @@ export const getGameSummary = query({
   },
 });
 
+/**
+ * Live standings for every player. In games with score victory enabled the
+ * leader when the turn limit is reached wins. While the game is on, only the
+ * players in it and its spectators can look, and other seats show just their
+ * totals: the breakdown would give away banked resources, tech and units in
+ * the fog. Once it has ended every breakdown is shown.
+ */
+export const getScoreboard = query({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const game = await getGameOrThrow(ctx, args.gameId);
+    const viewer = await getViewerPlayer(ctx, game._id);
+    const ended = isGameOver(game);
+    if (!ended && !viewer) {
+      const userId = await getUserIdOrThrow(ctx);
+      if (!(await getSpectator(ctx, game._id, userId))) {
+        throw new Error("You are not playing in or watching this game");
+      }
+    }
+
+    const players = await ctx.db
+      .query("players")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .collect();
+
+    const scores = await computeScores(ctx, game, players);
+    const settings = getGameSettings(game);
+    const playersById = new Map(players.map((player) => [player._id, player]));
+
+    return {
+      turn: game.turn,
+      turnLimit: settings.turnLimit,
+      scoreVictory: settings.victories.score,
+      standings: scores.map((score) => {
+        const player = playersById.get(score.playerId)!;
+        const shown: Partial<PlayerScore> & Pick<PlayerScore, "playerId" | "total"> =
+          ended || score.playerId === viewer?._id ? score : { playerId: score.playerId, total: score.total };
+        return {
+          ...shown,
+          faction: player.faction,
+          factionName: FACTION_DEFS[player.faction as FactionId]?.name ?? player.faction,
+          aiName: player.aiName,
+          isAlive: player.isAlive,
+        };
+      }),
+    };
+  },
+});
+
 export const listOpenGames = query({
   args: {},
   handler: async (ctx) => {
@@ -235,7 +325,7 @@ export const listOpenGames = query({
         return {
           gameId: game._id,
           playerCount,
-          maxPlayers: MAX_PLAYERS,
+          maxPlayers: getGameSettings(game).maxPlayers,
           width: game.width,
           height: game.height,
           createdAt: game.createdAt,
@@ -245,62 +335,59 @@ export const listOpenGames = query({
   },
 });
 
-export const forfeit = mutation({
-  args: {
-    playerId: v.id("players"),
-  },
-  handler: async (ctx, args) => {
-    const player = await ctx.db.get(args.playerId);
-    if (!player) {
-      throw new Error("Player not found");
-    }
-
-    if (!player.isAlive) {
-      throw new Error("Player already eliminated");
-    }
-
-    // Delete all player's units
-    const units = await ctx.db
-      .query("units")
-      .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
-      .collect();
-
-    for (const unit of units) {
-      await ctx.db.delete(unit._id);
-    }
-
-    // Delete all player's buildings
-    const buildings = await ctx.db
-      .query("buildings")
-      .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
-      .collect();
+const forfeitArgs = {
+  playerId: v.id("players"),
+};
+
+const forfeitHandler = async (ctx: MutationCtx, args: ObjectType<typeof forfeitArgs>) => {
+  const player = await ctx.db.get(args.playerId);
+  if (!player) {
+    throw new Error("Player not found");
+  }
+
+  if (!player.isAlive) {
+    throw new Error("Player already eliminated");
+  }
+
+  // Delete all player's units
+  const units = await ctx.db
+    .query("units")
+    .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
+    .collect();
+
+  for (const unit of units) {
+    await ctx.db.delete(unit._id);
+  }
+
+  // Delete all player's buildings
+  const buildings = await ctx.db
+    .query("buildings")
+    .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
+    .collect();
+
+  const game = await getGameOrThrow(ctx, player.gameId);
+  const mapCopy = [...game.map];
+
+  for (const building of buildings) {
+    await ctx.db.delete(building._id);
+    const idx = coordToIndex(game.width, building.x, building.y);
+    mapCopy[idx] = {
+      ...mapCopy[idx],
+      type: "surface",
+    };
+  }
 
-    const game = await getGameOrThrow(ctx, player.gameId);
-    const mapCopy = [...game.map];
-
-    for (const building of buildings) {
-      await ctx.db.delete(building._id);
-      const idx = coordToIndex(game.width, building.x, building.y);
-      mapCopy[idx] = {
-        ...mapCopy[idx],
-        buildingId: undefined,
-        type: "surface",
-      };
-    }
+  await ctx.db.patch(game._id, { map: mapCopy });
+  await ctx.db.patch(player._id, { isAlive: false });
 
-    // Clear units from map
-    for (const unit of units) {
-      const idx = coordToIndex(game.width, unit.x, unit.y);
-      mapCopy[idx] = {
-        ...mapCopy[idx],
-        unitId: undefined,
-      };
-    }
+  await logEvent(ctx, game, {
+    type: "forfeit",
+    actorId: player._id,
+  });
+  await evaluateVictory(ctx, game);
 
-    await ctx.db.patch(game._id, { map: mapCopy });
-    await ctx.db.patch(player._id, { isAlive: false });
+  return { forfeited: true };
+};
 
-    return { forfeited: true };
-  },
-});
+export const forfeit = mutation({ args: forfeitArgs, handler: asPlayer(forfeitHandler) });
 
@@ -0,0 +1,157 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { ARK_LAUNCH_COUNTDOWN, ARK_STAGES } from "./constants";
+import { logEvent } from "./events";
+import { getGameOrThrow, getPlayerOrThrow } from "./gameHelpers";
+import { canAfford, subtractCost } from "./resources";
+import { getGameSettings } from "./settings";
+import type { StoredResources } from "./resources";
+import { evaluateVictory } from "./victory";
+
+type Ctx = QueryCtx | MutationCtx;
+
+/** The player's Silo with an Ark project under way, if any. */
+export const getArkSilo = async (ctx: Ctx, playerId: Id<"players">) => {
+  const silos = await ctx.db
+    .query("buildings")
+    .withIndex("by_player", (q) => q.eq("playerId", playerId))
+    .filter((q) => q.eq(q.field("type"), "silo"))
+    .collect();
+  return silos.find((silo) => silo.ark !== undefined) ?? null;
+};
+
+type Ark = NonNullable<Doc<"buildings">["ark"]>;
+
+/**
+ * Check that a player can begin The Ark at a Silo and return the Silo.
+ * `arkSilo` is the one they already have an Ark under way at, if any (see
+ * getArkSilo).
+ */
+export const checkStartArk = (
+  game: Doc<"games">,
+  player: Doc<"players">,
+  silo: Doc<"buildings"> | null,
+  arkSilo: Doc<"buildings"> | null,
+) => {
+  if (!getGameSettings(game).victories.ascension) {
+    throw new Error("Ascension victory is disabled in this game");
+  }
+  if (!player.techUnlocked.includes("the_ark_project")) {
+    throw new Error("Requires The Ark Project");
+  }
+  if (!silo || silo.type !== "silo") {
+    throw new Error("Silo not found");
+  }
+  if (silo.playerId !== player._id) {
+    throw new Error("You do not own this Silo");
+  }
+  if (silo.isConstructing) {
+    throw new Error("The Silo must be completed first");
+  }
+  if (arkSilo) {
+    throw new Error("The Ark is already under construction");
+  }
+  return silo;
+};
+
+/**
+ * One turn of work on an Ark, given the owner's stockpile:
+ * - countdown: the launch is a turn closer (launched once it reaches zero)
+ * - stalled: the current stage's upkeep can't be paid
+ * - progress / stage_complete / fueled: the upkeep is paid and the stage
+ *   advances; the last stage starts the launch countdown
+ */
+export const stepArk = (ark: Ark, resources: StoredResources) => {
+  if (ark.launchIn !== undefined) {
+    const launchIn = ark.launchIn - 1;
+    return { kind: "countdown" as const, ark: { ...ark, launchIn }, launched: launchIn <= 0 };
+  }
+
+  const stage = ARK_STAGES[ark.stage];
+  if (!canAfford(resources, stage.costPerTurn)) {
+    return { kind: "stalled" as const, stage };
+  }
+  const cost = stage.costPerTurn;
+
+  const progress = ark.progress + 1;
+  if (progress < stage.turns) {
+    return { kind: "progress" as const, stage, cost, ark: { ...ark, progress } };
+  }
+  if (ark.stage + 1 < ARK_STAGES.length) {
+    return { kind: "stage_complete" as const, stage, cost, ark: { stage: ark.stage + 1, progress: 0 } };
+  }
+  return { kind: "fueled" as const, stage, cost, ark: { ...ark, progress, launchIn: ARK_LAUNCH_COUNTDOWN } };
+};
+
+/**
+ * Remove a building destroyed by an enemy, whether shot down or crushed. A
+ * Silo takes any Ark under way there with it, and everyone hears about it.
+ */
+export const destroyBuilding = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  building: Doc<"buildings">,
+  destroyerId: Id<"players">,
+) => {
+  await ctx.db.delete(building._id);
+  if (building.ark) {
+    await logEvent(ctx, game, {
+      type: "ark_destroyed",
+      actorId: destroyerId,
+      outcome: { ownerId: building.playerId, x: building.x, y: building.y },
+      message: "The Ark was destroyed before it could launch",
+    });
+  }
+};
+
+/**
+ * Turn-start work on a player's Ark. Each turn pays the current stage's
+ * upkeep and advances it (stalling if the stockpile is short); once every
+ * stage is done the launch countdown ticks down, and the Ark launches when
+ * it reaches zero.
+ */
+export const advanceArkProject = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"players">) => {
+  const silo = await getArkSilo(ctx, playerId);
+  if (!silo?.ark) return;
+  const location = { x: silo.x, y: silo.y };
+  const player = await getPlayerOrThrow(ctx, playerId);
+  const step = stepArk(silo.ark, player.resources);
+
+  if (step.kind === "countdown") {
+    await ctx.db.patch(silo._id, { ark: step.ark });
+    if (step.launched) {
+      await evaluateVictory(ctx, await getGameOrThrow(ctx, game._id));
+    }
+    return;
+  }
+
+  if (step.kind === "stalled") {
+    await logEvent(ctx, game, {
+      type: "ark_stalled",
+      actorId: playerId,
+      outcome: { stage: step.stage.id, cost: step.stage.costPerTurn },
+      message: `Work on the Ark's ${step.stage.name} stalled for lack of resources`,
+      visibleTo: [playerId],
+    });
+    return;
+  }
+
+  await ctx.db.patch(playerId, { resources: subtractCost(player.resources, step.cost) });
+  await ctx.db.patch(silo._id, { ark: step.ark });
+
+  if (step.kind === "stage_complete") {
+    await logEvent(ctx, game, {
+      type: "ark_stage_complete",
+      actorId: playerId,
+      outcome: { stage: step.stage.id, ...location },
+      message: `The Ark's ${step.stage.name} is complete`,
+    });
+  } else if (step.kind === "fueled") {
+    await logEvent(ctx, game, {
+      type: "ark_countdown",
+      actorId: playerId,
+      outcome: { launchIn: ARK_LAUNCH_COUNTDOWN, ...location },
+      message: `The Ark is fueled and launches in ${ARK_LAUNCH_COUNTDOWN} turns`,
+    });
+  }
+};
@@ -0,0 +1,89 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { getPlayerOrThrow } from "./gameHelpers";
+
+type Ctx = QueryCtx | MutationCtx;
+
+export const getUserIdOrThrow = async (ctx: Ctx) => {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Not authenticated");
+  }
+  return identity.subject;
+};
+
+/**
+ * Resolve the caller's seat in a game via the by_user_game index.
+ * Returns null for signed-out callers and users who have not joined.
+ */
+export const getViewerPlayer = async (ctx: Ctx, gameId: Id<"games">) => {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+  return ctx.db
+    .query("players")
+    .withIndex("by_user_game", (q) => q.eq("userId", identity.subject).eq("gameId", gameId))
+    .unique();
+};
+
+/** A user's spectator entry for a game, if they are watching it. */
+export const getSpectator = async (ctx: Ctx, gameId: Id<"games">, userId: string) =>
+  ctx.db
+    .query("spectators")
+    .withIndex("by_user_game", (q) => q.eq("userId", userId).eq("gameId", gameId))
+    .unique();
+
+export const getViewerPlayerOrThrow = async (ctx: Ctx, gameId: Id<"games">) => {
+  await getUserIdOrThrow(ctx);
+  const viewer = await getViewerPlayer(ctx, gameId);
+  if (!viewer) {
+    throw new Error("You are not a player in this game");
+  }
+  return viewer;
+};
+
+/**
+ * Public mutations may only act for the caller's own human seat.
+ * AI seats are driven exclusively by internal functions.
+ */
+export const assertCanActAs = async (ctx: Ctx, playerId: Id<"players">) => {
+  const player = await getPlayerOrThrow(ctx, playerId);
+  if (player.isAI) {
+    throw new Error("AI players can only be controlled by the server");
+  }
+  const viewer = await getViewerPlayerOrThrow(ctx, player.gameId);
+  if (viewer._id !== player._id) {
+    throw new Error("You do not control this player");
+  }
+  return player;
+};
+
+export const assertAIPlayer = async (ctx: Ctx, playerId: Id<"players">) => {
+  const player = await getPlayerOrThrow(ctx, playerId);
+  if (!player.isAI) {
+    throw new Error("Only AI players can be controlled by the server");
+  }
+  return player;
+};
+
+type PlayerCommand<Args extends { playerId: Id<"players"> }, Result> = (
+  ctx: MutationCtx,
+  args: Args,
+) => Promise<Result>;
+
+/** Wrap a command handler for use as a public, identity-bound mutation. */
+export const asPlayer =
+  <Args extends { playerId: Id<"players"> }, Result>(handler: PlayerCommand<Args, Result>) =>
+  async (ctx: MutationCtx, args: Args) => {
+    await assertCanActAs(ctx, args.playerId);
+    return handler(ctx, args);
+  };
+
+/** Wrap a command handler for use as an internal mutation driven by the AI. */
+export const asAI =
+  <Args extends { playerId: Id<"players"> }, Result>(handler: PlayerCommand<Args, Result>) =>
+  async (ctx: MutationCtx, args: Args) => {
+    await assertAIPlayer(ctx, args.playerId);
+    return handler(ctx, args);
+  };
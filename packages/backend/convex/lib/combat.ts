@@ -0,0 +1,175 @@
+import type { Doc } from "../_generated/dataModel";
+import { BUILDING_DEFS, COMBAT, UNIT_DEFS } from "./constants";
+import { clampY, coordToIndex, manhattanDistance, wrapX } from "./grid";
+import { hasLineOfSight, hasTile } from "./vision";
+import type { TileSet } from "./vision";
+
+type Point = { x: number; y: number };
+
+/**
+ * Combat rules, shared by the attack mutation and the headless simulator:
+ * where an attack may land, what it hits and how hard. Every hit deals at
+ * least COMBAT.MIN_DAMAGE.
+ */
+
+/**
+ * Check that a unit can fire on (x, y) and return where the shot lands.
+ * A shot with no clear line of fire is only allowed for Arc Fire, and then
+ * needs the target spotted (see assertSpotted).
+ */
+export const aimAttack = (game: Doc<"games">, attacker: Doc<"units">, x: number, y: number) => {
+  if (attacker.movesLeft <= 0) {
+    throw new Error("Unit has no actions left this turn");
+  }
+
+  const attackerDef = UNIT_DEFS[attacker.type];
+  if (!attackerDef || attackerDef.atk === 0) {
+    throw new Error("This unit cannot attack");
+  }
+
+  const targetX = wrapX(x, game.width);
+  const targetY = clampY(y, game.height);
+
+  const distance = manhattanDistance(game.width, attacker.x, attacker.y, targetX, targetY);
+  if (distance > attackerDef.range) {
+    throw new Error(`Target out of range (max ${attackerDef.range}, distance ${distance})`);
+  }
+  if (distance === 0) {
+    throw new Error("Cannot attack your own tile");
+  }
+
+  const arcFire = attackerDef.abilities?.includes("arc_fire") ?? false;
+  const lineOfFire = hasLineOfSight(game, attacker.x, attacker.y, targetX, targetY);
+  if (!lineOfFire && !arcFire) {
+    throw new Error("No clear line of fire to the target");
+  }
+
+  return {
+    x: targetX,
+    y: targetY,
+    idx: coordToIndex(game.width, targetX, targetY),
+    distance,
+    arcFire,
+    needsSpotting: !lineOfFire,
+  };
+};
+
+/** Arc fire over the horizon lands only on tiles the attacker's side can see. */
+export const assertSpotted = (visible: TileSet, idx: number) => {
+  if (!hasTile(visible, idx)) {
+    throw new Error("Arc fire needs the target spotted by your units or an ally sharing vision");
+  }
+};
+
+/**
+ * What an attack on a tile hits: the unit on it, or failing that the
+ * building. Players can't attack their own.
+ */
+export const chooseTarget = (
+  attackerPlayerId: Doc<"players">["_id"],
+  unitOnTile: Doc<"units"> | null,
+  buildingOnTile: Doc<"buildings"> | null,
+) => {
+  if (unitOnTile) {
+    if (unitOnTile.playerId === attackerPlayerId) {
+      throw new Error("Cannot attack your own unit");
+    }
+    return { defenderUnit: unitOnTile, defenderBuilding: null };
+  }
+  if (buildingOnTile) {
+    if (buildingOnTile.playerId === attackerPlayerId) {
+      throw new Error("Cannot attack your own building");
+    }
+    return { defenderUnit: null, defenderBuilding: buildingOnTile };
+  }
+  throw new Error("No valid target at that location");
+};
+
+/**
+ * Whether the attacker's side has the defender flanked: friendly units on
+ * both sides of it, left and right (wrapping) or above and below.
+ */
+export const isFlanked = (width: number, height: number, defender: Point, friendly: Point[]) => {
+  const has = (x: number, y: number) => friendly.some((u) => u.x === x && u.y === y);
+
+  const leftX = wrapX(defender.x - 1, width);
+  const rightX = wrapX(defender.x + 1, width);
+  if (has(leftX, defender.y) && has(rightX, defender.y)) {
+    return true;
+  }
+
+  const upY = clampY(defender.y - 1, height);
+  const downY = clampY(defender.y + 1, height);
+  return has(defender.x, upY) && has(defender.x, downY);
+};
+
+/**
+ * Damage an attack deals to a unit: attack (+ flanking) against defense
+ * (+ the building it stands in, + entrenchment for Marines).
+ */
+export const getUnitDamage = (
+  attackerType: string,
+  defender: Pick<Doc<"units">, "type" | "entrenched">,
+  options: { buildingType?: string; flanking: boolean },
+) => {
+  let effectiveDef = UNIT_DEFS[defender.type]?.def ?? 0;
+  const buildingDef = options.buildingType ? BUILDING_DEFS[options.buildingType] : null;
+  if (buildingDef?.defenseBonus) {
+    effectiveDef += buildingDef.defenseBonus;
+  }
+  if (defender.type === "marine" && defender.entrenched) {
+    effectiveDef += COMBAT.ENTRENCH_BONUS;
+  }
+
+  let effectiveAtk = UNIT_DEFS[attackerType]?.atk ?? 0;
+  if (options.flanking) {
+    effectiveAtk += COMBAT.FLANKING_BONUS;
+  }
+
+  return Math.max(effectiveAtk - effectiveDef, COMBAT.MIN_DAMAGE);
+};
+
+/**
+ * Damage a surviving defender hits back with, or 0 if it is unarmed or the
+ * attacker is out of its range.
+ */
+export const getCounterDamage = (attackerType: string, defenderType: string, distance: number) => {
+  const defenderDef = UNIT_DEFS[defenderType];
+  if (!defenderDef || defenderDef.atk <= 0 || distance > (defenderDef.range ?? 1)) {
+    return 0;
+  }
+  return Math.max(defenderDef.atk - (UNIT_DEFS[attackerType]?.def ?? 0), COMBAT.MIN_DAMAGE);
+};
+
+/** Damage an attack deals to a building; buildings have no defense and don't hit back. */
+export const getBuildingDamage = (attackerType: string) =>
+  Math.max(UNIT_DEFS[attackerType]?.atk ?? 0, COMBAT.MIN_DAMAGE);
+
+/**
+ * One unit attacking another: the damage dealt and, if the defender
+ * survives, its counter-attack. HP at or below 0 means the unit is lost.
+ */
+export const resolveUnitAttack = (
+  game: Doc<"games">,
+  attacker: Doc<"units">,
+  defender: Doc<"units">,
+  friendly: Point[],
+  options: { buildingType?: string; distance: number },
+) => {
+  const damage = getUnitDamage(attacker.type, defender, {
+    buildingType: options.buildingType,
+    flanking: isFlanked(game.width, game.height, defender, friendly),
+  });
+  const defenderHp = defender.hp - damage;
+  const counterDamage = defenderHp > 0 ? getCounterDamage(attacker.type, defender.type, options.distance) : 0;
+  return { damage, defenderHp, counterDamage, attackerHp: attacker.hp - counterDamage };
+};
+
+/** The tiles next to an Arc Fire target, which splash damage reaches. */
+export const getSplashTiles = (game: Doc<"games">, x: number, y: number) =>
+  [
+    { x: wrapX(x - 1, game.width), y },
+    { x: wrapX(x + 1, game.width), y },
+    { x, y: y - 1 },
+    { x, y: y + 1 },
+  ].filter((tile) => tile.y >= 0 && tile.y < game.height);
@@ -5,14 +5,46 @@ export const SKY_ROWS = 8;
 export const SURFACE_ROWS = 1;
 export const BEDROCK_ROWS = 1;
 export const DEFAULT_VISION_RADIUS = 2;
+export const BUILDING_BASE_VISION = 1; // Sight for buildings without providesVision
 
 export const MIN_WIDTH = 16;
 export const MIN_HEIGHT = SKY_ROWS + SURFACE_ROWS + BEDROCK_ROWS + 4;
 
+export const MAP_SIZE_PRESETS = [
+  { name: "Small", width: 32, height: 16, description: "Quick games (1-2 players)" },
+  { name: "Medium", width: 48, height: 24, description: "Standard games (2-4 players)" },
+  { name: "Large", width: 64, height: 32, description: "Epic battles (4-8 players)" },
+] as const;
+
+// Chance for each eligible surface/underground tile to become ruins
+export type RuinsDensity = "none" | "sparse" | "normal" | "abundant";
+export const RUINS_DENSITY: Record<RuinsDensity, number> = {
+  none: 0,
+  sparse: 0.0075,
+  normal: 0.015,
+  abundant: 0.04,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lobby
+// ─────────────────────────────────────────────────────────────────────────────
+export const MIN_PLAYERS = 1; // Allow single-player for testing
+export const MAX_PLAYERS = 8;
+export const MIN_TURN_LIMIT = 10;
+export const MAX_TURN_LIMIT = 500;
+export const MAX_STARTING_RESOURCE = 500;
+export const DEFAULT_SPECTATOR_DELAY = 2; // Turns the omniscient spectator view lags behind
+export const MAX_SPECTATOR_DELAY = 10;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Chat
+// ─────────────────────────────────────────────────────────────────────────────
+export const MAX_CHAT_MESSAGE_LENGTH = 280;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Resources
 // ─────────────────────────────────────────────────────────────────────────────
-export const RESOURCE_KEYS = ["biomass", "ore", "flux"] as const;
+export const RESOURCE_KEYS = ["biomass", "ore", "flux", "rare_earths"] as const;
 export type ResourceKey = (typeof RESOURCE_KEYS)[number];
 export type Cost = Partial<Record<ResourceKey, number>>;
 
@@ -20,8 +52,12 @@ export const STARTING_RESOURCES: Record<ResourceKey, number> = {
   biomass: 10,
   ore: 10,
   flux: 5,
+  rare_earths: 0, // Only Bedrock Extractors produce Rare Earths
 };
 
+// Longest tribute a trade may demand, in turns
+export const MAX_TRIBUTE_TURNS = 20;
+
 export const RESOURCE_YIELDS: Record<string, { resource: ResourceKey; amount: number }> = {
   biomass: { resource: "biomass", amount: 2 },
   ore: { resource: "ore", amount: 2 },
@@ -73,6 +109,7 @@ export const TERRAIN_DEFS: Record<
     passable: boolean;
     airOnly?: boolean;
     hazard?: boolean;
+    blocksSight?: boolean; // Solid rock: line of sight stops here
   }
 > = {
   sky: { moveCost: 1, passable: true, airOnly: true },
@@ -81,11 +118,11 @@ export const TERRAIN_DEFS: Record<
   grass: { moveCost: 1, passable: true },
   sand: { moveCost: 1, passable: true },
   dirt: { moveCost: 1, passable: true },
-  stone: { moveCost: 2, passable: true },
-  deepstone: { moveCost: 2, passable: true },
+  stone: { moveCost: 2, passable: true, blocksSight: true },
+  deepstone: { moveCost: 2, passable: true, blocksSight: true },
   crystal: { moveCost: 2, passable: true },
   cavern: { moveCost: 1, passable: true },
-  bedrock: { moveCost: Infinity, passable: false },
+  bedrock: { moveCost: Infinity, passable: false, blocksSight: true },
   water: { moveCost: 2, passable: true },
   magma: { moveCost: 1, passable: true, hazard: true },
   city: { moveCost: 1, passable: true },
@@ -208,7 +245,7 @@ export const UNIT_DEFS: Record<string, UnitDef> = {
     def: 2,
     range: 1,
     vision: 4,
-    cost: { ore: 40, flux: 20 },
+    cost: { ore: 40, flux: 20, rare_earths: 2 },
     canFly: true,
     requiredTech: "flight",
   },
@@ -221,6 +258,7 @@ export interface BuildingDef {
   name: string;
   hp: number;
   income: Cost;
+  research?: number; // Research points per turn toward the player's current tech
   cost: Cost;
   providesVision?: number;
   canSpawnUnits?: boolean;
@@ -229,6 +267,7 @@ export interface BuildingDef {
   requiredTech?: string;
   defenseBonus?: number;
   requiresResource?: string; // e.g., Mine requires "ore" resource on tile
+  adjacentTerrain?: string; // Must border this terrain, e.g., Extractor drills into Bedrock
   turnsToComplete?: number; // Turns needed to build (0 for instant)
 }
 
@@ -237,6 +276,7 @@ export const BUILDING_DEFS: Record<string, BuildingDef> = {
     name: "City",
     hp: 20,
     income: { biomass: 2, ore: 2 },
+    research: 2,
     cost: {}, // Founded by Lander (instant)
     providesVision: 3,
     canSpawnUnits: true,
@@ -274,10 +314,20 @@ export const BUILDING_DEFS: Record<string, BuildingDef> = {
     name: "Solar Array",
     hp: 8,
     income: { flux: 1 },
+    research: 1,
     cost: { ore: 15 },
     terrainRequired: ["surface"],
     turnsToComplete: 2, // 2 turns (solar installation)
   },
+  extractor: {
+    name: "Bedrock Extractor",
+    hp: 15,
+    income: { rare_earths: 1 },
+    cost: { ore: 30, flux: 10 },
+    adjacentTerrain: "bedrock", // Bedrock is impassable, so it is drilled from next door
+    requiredTech: "deep_core",
+    turnsToComplete: 3, // 3 turns (deep drilling)
+  },
   bunker: {
     name: "Bunker",
     hp: 30,
@@ -310,7 +360,7 @@ export const BUILDING_DEFS: Record<string, BuildingDef> = {
     name: "Silo",
     hp: 50,
     income: {},
-    cost: { ore: 100, flux: 50 },
+    cost: { ore: 100, flux: 50, rare_earths: 10 },
     terrainRequired: ["surface"],
     requiredTech: "orbital_mechanics",
     turnsToComplete: 5, // 5 turns (end-game structure)
@@ -320,10 +370,15 @@ export const BUILDING_DEFS: Record<string, BuildingDef> = {
 // ─────────────────────────────────────────────────────────────────────────────
 // Tech Tree (per Phase 5 of plan)
 // ─────────────────────────────────────────────────────────────────────────────
+// Research accumulates toward the tech at the head of each player's queue.
+// Every turn buildings add their research points and up to this much Flux
+// is drawn from the stockpile, one point per Flux.
+export const RESEARCH_FLUX_PER_TURN = 10;
+
 export interface TechDef {
   name: string;
   tier: number;
-  cost: number; // Flux cost
+  cost: number; // Research points (Flux) needed
   prerequisites: string[];
   unlocks: string[]; // Units or buildings unlocked
   description: string;
@@ -364,8 +419,8 @@ export const TECH_DEFS: Record<string, TechDef> = {
     tier: 2,
     cost: 50,
     prerequisites: ["logistics"],
-    unlocks: [],
-    description: "Can mine Bedrock for Rare Earths.",
+    unlocks: ["extractor"],
+    description: "Can mine Bedrock for Rare Earths. Unlocks Bedrock Extractor.",
   },
   heat_shield: {
     name: "Heat Shield",
@@ -413,6 +468,25 @@ export const TECH_DEFS: Record<string, TechDef> = {
   },
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// The Ark (Ascension Victory)
+// ─────────────────────────────────────────────────────────────────────────────
+export interface ArkStageDef {
+  id: string;
+  name: string;
+  turns: number; // Turns of work to finish the stage
+  costPerTurn: Cost; // Paid at the start of each of the owner's turns
+}
+
+// Built in order at a completed Silo; the launch countdown starts after the last
+export const ARK_STAGES: ArkStageDef[] = [
+  { id: "launch_pad", name: "Launch Pad", turns: 2, costPerTurn: { ore: 30 } },
+  { id: "hull", name: "Hull", turns: 3, costPerTurn: { ore: 40, flux: 10, rare_earths: 3 } },
+  { id: "fuel", name: "Fuel", turns: 2, costPerTurn: { flux: 40 } },
+];
+
+export const ARK_LAUNCH_COUNTDOWN = 5; // Owner turns between fueling and launch
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Combat Constants
 // ─────────────────────────────────────────────────────────────────────────────
@@ -423,28 +497,87 @@ export const COMBAT = {
   REGEN_HP_PER_TURN: 2, // Xeno Hive regeneration
 };
 
+// Rover radar: a sweep sees every tile in RADIUS, through solid rock, until
+// the rover's owner starts their next turn. Recharges for COOLDOWN turns.
+export const RADAR = {
+  RADIUS: 5,
+  COOLDOWN: 3,
+};
+
+// Artillery arc fire: shells can land on tiles with no clear line of fire if
+// the target is spotted (in sight of the player or a vision-sharing ally).
+// Enemy units next to the target take SPLASH_DAMAGE.
+export const ARC_FIRE = {
+  SPLASH_DAMAGE: 3,
+};
+
 export const DIRECTIONS = ["L", "R", "U", "D"] as const;
 export type Direction = (typeof DIRECTIONS)[number];
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Score
+// ─────────────────────────────────────────────────────────────────────────────
+export const SCORE = {
+  PER_CITY: 50,
+  PER_BUILDING: 10, // Completed non-city buildings
+  PER_UNIT: 5,
+  PER_TECH_TIER: 10, // Each tech scores (tier + 1) × this
+  EXPLORED_TILES_PER_POINT: 10,
+  BANKED_RESOURCES_PER_POINT: 10,
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Ruins Rewards
 // ─────────────────────────────────────────────────────────────────────────────
-export type RuinRewardType = "resource" | "tech" | "unit" | "map";
+export type RuinRewardType = "resource" | "tech" | "unit" | "map" | "trap" | "guardian";
 
-export const RUIN_REWARDS: {
-  weight: number;
+export interface RuinRewardDef {
+  weight: number; // Relative to the other entries in the same table
   type: RuinRewardType;
   // Payload definition depends on type
-  resource?: Partial<Record<ResourceKey, number>>;
-  techPoints?: number; // Free research progress or random tech
-  unitType?: string;
-  visionRadius?: number;
+  resource?: Partial<Record<ResourceKey, number>>; // resource, guardian (the hoard it guarded)
+  techPoints?: number; // tech: research points toward the current research
+  unitType?: string; // unit
+  visionRadius?: number; // map
+  damage?: number; // trap, guardian: HP lost by the explorer
   message: string;
-}[] = [
-  // Rare: Full Map Reveal or Tech
-  { weight: 10, type: "map", visionRadius: 10, message: "Downloaded high-res satellite data! (Map Reveal)" },
-  { weight: 5, type: "tech", techPoints: 50, message: "Recovered intact research logs! (+50 Flux)" }
-];
+}
+
+// Which reward table a game rolls on, chosen in the lobby
+export type RuinRewardTable = "standard" | "bountiful" | "perilous";
+
+export const RUIN_REWARD_TABLES: Record<RuinRewardTable, RuinRewardDef[]> = {
+  standard: [
+    { weight: 20, type: "resource", resource: { biomass: 30 }, message: "Found a sealed seed vault! (+30 Biomass)" },
+    { weight: 15, type: "resource", resource: { ore: 25 }, message: "Salvaged a collapsed refinery! (+25 Ore)" },
+    { weight: 10, type: "resource", resource: { flux: 20 }, message: "Tapped a dormant flux cell! (+20 Flux)" },
+    { weight: 7, type: "unit", unitType: "worker", message: "Survivors volunteer to join your colony!" },
+    { weight: 8, type: "unit", unitType: "rover", message: "Reactivated a derelict rover!" },
+    { weight: 5, type: "unit", unitType: "marine", message: "A cryo-pod held a surviving marine!" },
+    { weight: 10, type: "tech", techPoints: 50, message: "Recovered intact research logs!" },
+    { weight: 10, type: "map", visionRadius: 10, message: "Downloaded high-res satellite data! (Map Reveal)" },
+    { weight: 10, type: "trap", damage: 5, message: "A booby trap detonates!" },
+    { weight: 5, type: "guardian", damage: 8, resource: { ore: 15, flux: 15 }, message: "An ancient sentinel defends its hoard!" },
+  ],
+  bountiful: [
+    { weight: 20, type: "resource", resource: { biomass: 50 }, message: "Found a sealed seed vault! (+50 Biomass)" },
+    { weight: 20, type: "resource", resource: { ore: 40 }, message: "Salvaged a collapsed refinery! (+40 Ore)" },
+    { weight: 15, type: "resource", resource: { flux: 35 }, message: "Tapped a dormant flux cell! (+35 Flux)" },
+    { weight: 10, type: "unit", unitType: "rover", message: "Reactivated a derelict rover!" },
+    { weight: 10, type: "unit", unitType: "marine", message: "A cryo-pod held a surviving marine!" },
+    { weight: 15, type: "tech", techPoints: 100, message: "Recovered intact research logs!" },
+    { weight: 10, type: "map", visionRadius: 15, message: "Downloaded high-res satellite data! (Map Reveal)" },
+  ],
+  perilous: [
+    { weight: 15, type: "resource", resource: { ore: 40 }, message: "Salvaged a collapsed refinery! (+40 Ore)" },
+    { weight: 10, type: "resource", resource: { flux: 35 }, message: "Tapped a dormant flux cell! (+35 Flux)" },
+    { weight: 5, type: "unit", unitType: "marine", message: "A cryo-pod held a surviving marine!" },
+    { weight: 10, type: "tech", techPoints: 100, message: "Recovered intact research logs!" },
+    { weight: 10, type: "map", visionRadius: 10, message: "Downloaded high-res satellite data! (Map Reveal)" },
+    { weight: 25, type: "trap", damage: 8, message: "A booby trap detonates!" },
+    { weight: 25, type: "guardian", damage: 12, resource: { ore: 30, flux: 30 }, message: "An ancient sentinel defends its hoard!" },
+  ],
+};
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Weather Events
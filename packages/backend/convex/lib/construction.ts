@@ -0,0 +1,213 @@
+import type { Doc } from "../_generated/dataModel";
+import { BUILDING_DEFS, TECH_DEFS, TERRAIN_DEFS, UNIT_DEFS } from "./constants";
+import { bordersTerrain, clampY, coordToIndex, wrapX } from "./grid";
+
+type Point = { x: number; y: number };
+
+/**
+ * What players raise and train, shared by the mutations in units.ts and
+ * buildings.ts and the headless simulator: founding Cities, Worker
+ * construction sites and training units. Checks throw the errors the
+ * mutations report; documents are the caller's to write.
+ */
+
+const requireTech = (player: Pick<Doc<"players">, "techUnlocked">, techId?: string) => {
+  if (techId && !player.techUnlocked.includes(techId)) {
+    throw new Error(`Requires ${TECH_DEFS[techId]?.name ?? techId} technology`);
+  }
+};
+
+/** A unit as it is the moment it is trained or found. */
+export const getNewUnit = (unitType: string, at: Point) => {
+  const unitDef = UNIT_DEFS[unitType];
+  return {
+    type: unitType,
+    x: at.x,
+    y: at.y,
+    hp: unitDef.hp,
+    movesLeft: unitDef.maxMoves,
+    maxMoves: unitDef.maxMoves,
+    buildsLeft: unitDef.buildsLeft,
+  };
+};
+
+/**
+ * Check that a Lander can found a City where it stands (`building` is the
+ * building already on its tile) and return the tile's index.
+ */
+export const checkFoundCity = (game: Doc<"games">, unit: Doc<"units">, building: Doc<"buildings"> | null) => {
+  if (unit.type !== "settler") {
+    throw new Error("Only settlers can found cities");
+  }
+
+  const tileIndex = coordToIndex(game.width, unit.x, unit.y);
+  const tile = game.map[tileIndex];
+  if (tile.type === "water" || tile.type === "bedrock") {
+    throw new Error("Cannot found a city here");
+  }
+  if (building) {
+    throw new Error("Tile already has a building");
+  }
+  return tileIndex;
+};
+
+/**
+ * Check that a Worker can start a building where it stands (`building` is
+ * the building already on its tile) and return the building's definition.
+ */
+export const checkPlaceBuilding = (
+  game: Doc<"games">,
+  worker: Doc<"units">,
+  player: Pick<Doc<"players">, "techUnlocked">,
+  buildingType: string,
+  building: Doc<"buildings"> | null,
+) => {
+  const buildingDef = BUILDING_DEFS[buildingType];
+  if (!buildingDef) {
+    throw new Error("Unknown building type");
+  }
+  if (buildingType === "city") {
+    throw new Error("Cities are founded by Settlers, not Workers");
+  }
+  if (worker.type !== "worker") {
+    throw new Error("Only Workers can build structures");
+  }
+  if (!worker.buildsLeft || worker.buildsLeft <= 0) {
+    throw new Error("Worker has no builds left. Spawn a new Worker from a City.");
+  }
+
+  const tile = game.map[coordToIndex(game.width, worker.x, worker.y)];
+  if (building) {
+    throw new Error("Tile already has a building");
+  }
+  if (tile.type === "water" || tile.type === "bedrock") {
+    throw new Error("Cannot build here");
+  }
+
+  requireTech(player, buildingDef.requiredTech);
+
+  if (buildingDef.terrainRequired && !buildingDef.terrainRequired.includes(tile.type)) {
+    throw new Error(
+      `${buildingDef.name} can only be built on: ${buildingDef.terrainRequired.join(", ")}`
+    );
+  }
+
+  // e.g. a Mine must be on an ore deposit
+  if (buildingDef.requiresResource && tile.resource !== buildingDef.requiresResource) {
+    throw new Error(
+      `${buildingDef.name} must be built on a ${buildingDef.requiresResource} deposit`
+    );
+  }
+
+  // e.g. an Extractor must border Bedrock
+  if (buildingDef.adjacentTerrain && !bordersTerrain(game, worker.x, worker.y, buildingDef.adjacentTerrain)) {
+    throw new Error(`${buildingDef.name} must be built next to ${buildingDef.adjacentTerrain}`);
+  }
+
+  return buildingDef;
+};
+
+/** A new construction site under a Worker; it has no HP until it is finished. */
+export const getConstructionSite = (worker: Doc<"units">, buildingType: string) => ({
+  type: buildingType,
+  x: worker.x,
+  y: worker.y,
+  hp: 0,
+  buildProgress: 0,
+  turnsToComplete: BUILDING_DEFS[buildingType].turnsToComplete ?? 1,
+  workerId: worker._id,
+  isConstructing: true,
+});
+
+/**
+ * Check that a Worker can put a turn into the construction site it stands
+ * on (`building`) and return the site with its building's definition.
+ */
+export const checkContinueBuilding = (worker: Doc<"units">, building: Doc<"buildings"> | null) => {
+  if (worker.type !== "worker") {
+    throw new Error("Only Workers can continue construction");
+  }
+  if (!building) {
+    throw new Error("No building on this tile");
+  }
+  if (!building.isConstructing) {
+    throw new Error("This building is already complete");
+  }
+  if (building.workerId !== worker._id) {
+    throw new Error("Only the worker who started construction can continue it");
+  }
+
+  const buildingDef = BUILDING_DEFS[building.type];
+  if (!buildingDef) {
+    throw new Error("Unknown building type");
+  }
+  return { building, buildingDef };
+};
+
+/** A site's progress after one more turn of work, and whether that finishes it. */
+export const advanceConstruction = (building: Doc<"buildings">) => {
+  const progress = (building.buildProgress ?? 0) + 1;
+  return { progress, complete: progress >= (building.turnsToComplete ?? 1) };
+};
+
+/** Check that a player can train a unit at one of their buildings and return the unit's definition. */
+export const checkSpawnUnit = (player: Doc<"players">, building: Doc<"buildings">, unitType: string) => {
+  const unitDef = UNIT_DEFS[unitType];
+  if (!unitDef) {
+    throw new Error("Unknown unit type");
+  }
+  if (building.playerId !== player._id) {
+    throw new Error("Cannot spawn from another player's building");
+  }
+
+  const buildingDef = BUILDING_DEFS[building.type];
+  if (!buildingDef) {
+    throw new Error("Unknown building type");
+  }
+  if (!buildingDef.canSpawnUnits) {
+    throw new Error("This building cannot spawn units");
+  }
+  if (buildingDef.spawnableUnits && !buildingDef.spawnableUnits.includes(unitType)) {
+    throw new Error(`${buildingDef.name} cannot spawn ${unitDef.name}`);
+  }
+
+  requireTech(player, unitDef.requiredTech);
+  return unitDef;
+};
+
+/**
+ * Where a unit trained at a building appears: the first free passable tile
+ * beside it, trying the sky above first for air units. `occupied` tells
+ * whether a unit stands on a tile (by index).
+ */
+export const findSpawnTile = (
+  game: Doc<"games">,
+  building: Point,
+  canFly: boolean | undefined,
+  occupied: (idx: number) => boolean,
+) => {
+  const candidates = [
+    { x: building.x + 1, y: building.y },
+    { x: building.x - 1, y: building.y },
+    { x: building.x, y: building.y + 1 },
+    { x: building.x, y: building.y - 1 },
+  ];
+  if (canFly) {
+    candidates.unshift({ x: building.x, y: building.y - 1 }); // Prefer sky
+  }
+
+  for (const candidate of candidates) {
+    const x = wrapX(candidate.x, game.width);
+    const y = clampY(candidate.y, game.height);
+    const idx = coordToIndex(game.width, x, y);
+    const terrainDef = TERRAIN_DEFS[game.map[idx].type] ?? TERRAIN_DEFS.surface;
+
+    if (occupied(idx) || !terrainDef.passable) continue;
+
+    // Ground units can't spawn in sky
+    if (terrainDef.airOnly && !canFly) continue;
+
+    return { x, y };
+  }
+  return undefined;
+};
@@ -0,0 +1,114 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+
+type Ctx = QueryCtx | MutationCtx;
+
+export const stanceValidator = v.union(v.literal("war"), v.literal("peace"), v.literal("alliance"));
+export const treatyValidator = v.union(v.literal("peace"), v.literal("alliance"));
+
+/**
+ * How two players stand with each other:
+ * - war: the default, anything goes
+ * - peace: a non-aggression pact, neither side may attack the other
+ * - alliance: no attacks, optional shared vision, and allies win together
+ */
+export type Stance = Infer<typeof stanceValidator>;
+export type Treaty = Infer<typeof treatyValidator>;
+
+const STANCE_RANK: Record<Stance, number> = { war: 0, peace: 1, alliance: 2 };
+
+/** Relations are stored once per pair, with the ids in a fixed order. */
+export const sortPair = (a: Id<"players">, b: Id<"players">): [Id<"players">, Id<"players">] =>
+  a < b ? [a, b] : [b, a];
+
+export const getRelation = async (ctx: Ctx, a: Id<"players">, b: Id<"players">) => {
+  const [playerA, playerB] = sortPair(a, b);
+  return ctx.db
+    .query("diplomacy")
+    .withIndex("by_pair", (q) => q.eq("playerA", playerA).eq("playerB", playerB))
+    .unique();
+};
+
+export const getStance = async (ctx: Ctx, a: Id<"players">, b: Id<"players">): Promise<Stance> => {
+  if (a === b) return "alliance";
+  return (await getRelation(ctx, a, b))?.status ?? "war";
+};
+
+/** Whether a treaty would improve on the current stance (war < peace < alliance). */
+export const isUpgrade = (current: Stance, treaty: Treaty) => STANCE_RANK[treaty] > STANCE_RANK[current];
+
+export const setRelation = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  a: Id<"players">,
+  b: Id<"players">,
+  status: Stance,
+  sharedVision: boolean,
+) => {
+  const existing = await getRelation(ctx, a, b);
+  const fields = { status, sharedVision: status === "alliance" && sharedVision, since: game.turn };
+  if (existing) {
+    await ctx.db.patch(existing._id, fields);
+  } else {
+    const [playerA, playerB] = sortPair(a, b);
+    await ctx.db.insert("diplomacy", { gameId: game._id, playerA, playerB, ...fields });
+  }
+};
+
+export const getRelationsForGame = async (ctx: Ctx, gameId: Id<"games">) =>
+  ctx.db
+    .query("diplomacy")
+    .withIndex("by_game", (q) => q.eq("gameId", gameId))
+    .collect();
+
+/**
+ * Throw if a player may not attack another player's unit or building.
+ * Treaties must be broken with declareWar before fighting.
+ */
+export const assertCanAttack = async (ctx: Ctx, attackerId: Id<"players">, defenderId: Id<"players">) => {
+  const stance = await getStance(ctx, attackerId, defenderId);
+  if (stance === "peace") {
+    throw new Error("You have a non-aggression pact with this player");
+  }
+  if (stance === "alliance") {
+    throw new Error("You cannot attack an ally");
+  }
+};
+
+/** Players this player is not at war with (including themself). */
+export const getPeacefulPlayerIds = (relations: Doc<"diplomacy">[], playerId: Id<"players">) => {
+  const ids = new Set<Id<"players">>([playerId]);
+  for (const relation of relations) {
+    if (relation.status === "war") continue;
+    if (relation.playerA === playerId) ids.add(relation.playerB);
+    if (relation.playerB === playerId) ids.add(relation.playerA);
+  }
+  return ids;
+};
+
+/** Allies who share their sight with this player. */
+export const getVisionPartners = (relations: Doc<"diplomacy">[], playerId: Id<"players">) =>
+  relations.flatMap((relation) => {
+    if (relation.status !== "alliance" || !relation.sharedVision) return [];
+    if (relation.playerA === playerId) return [relation.playerB];
+    if (relation.playerB === playerId) return [relation.playerA];
+    return [];
+  });
+
+/** Whether every pair among these players is allied. */
+export const areAllAllied = (relations: Doc<"diplomacy">[], playerIds: Id<"players">[]) => {
+  const allied = new Set(
+    relations
+      .filter((relation) => relation.status === "alliance")
+      .map((relation) => `${relation.playerA}:${relation.playerB}`),
+  );
+  for (let i = 0; i < playerIds.length; i += 1) {
+    for (let j = i + 1; j < playerIds.length; j += 1) {
+      const [a, b] = sortPair(playerIds[i], playerIds[j]);
+      if (!allied.has(`${a}:${b}`)) return false;
+    }
+  }
+  return true;
+};
@@ -0,0 +1,125 @@
+import type { Doc } from "../_generated/dataModel";
+import { BUILDING_DEFS, COMBAT, FACTION_DEFS, UNIT_DEFS, WEATHER_DEFS } from "./constants";
+import type { FactionId, ResourceKey, WeatherType } from "./constants";
+import type { Rng } from "./random";
+import type { ResourcePool } from "./resources";
+
+type Weather = NonNullable<Doc<"games">["activeWeather"]>;
+
+/**
+ * Turn-start rules that don't depend on how the game is stored, shared by
+ * economy.ts and the headless simulator: income, faction effects, unit
+ * resets and weather.
+ */
+
+/**
+ * Income from a player's completed buildings, with faction bonuses:
+ * - United Terran: Mines produce +1 Ore per turn
+ * - Solar Flare: +50% Flux
+ */
+export const getIncome = (
+  player: Pick<Doc<"players">, "faction">,
+  buildings: Doc<"buildings">[],
+  activeWeather?: Weather,
+): ResourcePool => {
+  const total: ResourcePool = {
+    biomass: 0,
+    ore: 0,
+    flux: 0,
+    rare_earths: 0,
+  };
+
+  const factionDef = FACTION_DEFS[player.faction as FactionId];
+
+  for (const building of buildings) {
+    const def = BUILDING_DEFS[building.type];
+    if (!def) continue;
+
+    if (building.isConstructing) continue;
+
+    for (const key of Object.keys(def.income) as ResourceKey[]) {
+      let value = def.income[key] ?? 0;
+
+      // United Terran bonus: Mines produce +1 Ore
+      if (
+        factionDef?.trait === "deep_core_mining" &&
+        building.type === "mine" &&
+        key === "ore"
+      ) {
+        value += 1;
+      }
+
+      total[key] += value;
+    }
+  }
+
+  if (activeWeather?.type === "solar_flare") {
+    total.flux = Math.floor(total.flux * 1.5);
+  }
+
+  return total;
+};
+
+/**
+ * A unit's HP after its owner's turn-start faction effects. Xeno Hive units
+ * heal on Biomass deposits and farms.
+ */
+export const getRegeneratedHp = (
+  player: Pick<Doc<"players">, "faction">,
+  unit: Doc<"units">,
+  tile: Doc<"games">["map"][number],
+) => {
+  if (FACTION_DEFS[player.faction as FactionId]?.trait !== "regeneration") {
+    return unit.hp;
+  }
+  if (tile.resource !== "biomass" && tile.type !== "farm") {
+    return unit.hp;
+  }
+  const maxHp = UNIT_DEFS[unit.type]?.hp ?? unit.hp;
+  return Math.max(unit.hp, Math.min(unit.hp + COMBAT.REGEN_HP_PER_TURN, maxHp));
+};
+
+/**
+ * A unit's fields at the start of its owner's turn: moves refilled, Marines
+ * that stayed still entrenched, last turn's radar sweep gone and the radar
+ * a turn closer to recharged.
+ */
+export const getUnitReset = (unit: Doc<"units">) => ({
+  movesLeft: unit.maxMoves,
+  entrenched: unit.type === "marine" && unit.movesLeft === unit.maxMoves ? true : undefined,
+  radarSweep: undefined,
+  radarCooldown: unit.radarCooldown && unit.radarCooldown > 1 ? unit.radarCooldown - 1 : undefined,
+});
+
+/**
+ * The weather for the round that is starting: the active weather ticks down
+ * (clearing at zero); otherwise, if the game has weather and turn 5 has been
+ * reached, there is a 20% chance of a new event.
+ */
+export const getNextWeather = (
+  activeWeather: Weather | undefined,
+  turn: number,
+  weatherEnabled: boolean,
+  rng: Rng,
+): Weather | undefined => {
+  if (activeWeather) {
+    const turnsRemaining = activeWeather.turnsRemaining - 1;
+    return turnsRemaining > 0 ? { ...activeWeather, turnsRemaining } : undefined;
+  }
+  if (!weatherEnabled || turn < 5 || rng.next() >= 0.2) {
+    return undefined;
+  }
+
+  const weatherTypes = Object.keys(WEATHER_DEFS) as WeatherType[];
+  const type = weatherTypes[rng.int(weatherTypes.length)];
+  const def = WEATHER_DEFS[type];
+  const turnsRemaining = rng.int(def.duration[1] - def.duration[0] + 1) + def.duration[0];
+  return { type, turnsRemaining };
+};
+
+/**
+ * A unit's HP after a round of Acid Rain. Units in a City or Bunker are
+ * sheltered, and the rain never destroys a unit.
+ */
+export const getAcidRainHp = (unit: Doc<"units">, building: Pick<Doc<"buildings">, "type"> | null | undefined) =>
+  building?.type === "city" || building?.type === "bunker" ? unit.hp : Math.max(1, unit.hp - 2);
@@ -0,0 +1,90 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Event types recorded in the gameEvents log:
+ * - Commands: move, attack, found_city, spawn_unit, place_building,
+ *   continue_building, collect_resource, research, entrench, auto_explore,
+ *   radar_sweep, move_order, end_turn, forfeit
+ * - World events: game_started, weather_started, weather_ended, elimination,
+ *   turn_timeout, game_ended
+ * - Simultaneous resolution: order_failed (a queued command was rejected)
+ * - The Ark: ark_started, ark_stage_complete, ark_countdown and ark_destroyed
+ *   are announced to everyone; ark_stalled goes to the owner only
+ * - Diplomacy: treaty_signed and war_declared are public; treaty_proposed and
+ *   treaty_rejected go to the two parties only
+ * - Trade: trade_proposed, trade_accepted, trade_rejected, trade_cancelled,
+ *   tribute_paid and tribute_defaulted go to the two parties only
+ * - Ruins: ruin_explored tells the explorer what the ruin held
+ * - Research: research_complete goes to the researching player only
+ */
+export type GameEventType =
+  | "move"
+  | "attack"
+  | "found_city"
+  | "spawn_unit"
+  | "place_building"
+  | "continue_building"
+  | "collect_resource"
+  | "research"
+  | "entrench"
+  | "auto_explore"
+  | "radar_sweep"
+  | "move_order"
+  | "end_turn"
+  | "forfeit"
+  | "game_started"
+  | "weather_started"
+  | "weather_ended"
+  | "elimination"
+  | "turn_timeout"
+  | "order_failed"
+  | "ark_started"
+  | "ark_stage_complete"
+  | "ark_stalled"
+  | "ark_countdown"
+  | "ark_destroyed"
+  | "treaty_proposed"
+  | "treaty_rejected"
+  | "treaty_signed"
+  | "war_declared"
+  | "trade_proposed"
+  | "trade_accepted"
+  | "trade_rejected"
+  | "trade_cancelled"
+  | "tribute_paid"
+  | "tribute_defaulted"
+  | "ruin_explored"
+  | "research_complete"
+  | "game_ended";
+
+type GameEventInput = {
+  type: GameEventType;
+  actorId?: Id<"players">;
+  args?: Record<string, unknown>;
+  outcome?: unknown;
+  message?: string;
+  /** Players allowed to read this event; omit for events everyone may see */
+  visibleTo?: Id<"players">[];
+};
+
+/**
+ * Append an event to the game's log. Events are never updated or deleted.
+ * Call after a command has been validated and applied.
+ */
+export const logEvent = async (ctx: MutationCtx, game: Doc<"games">, event: GameEventInput) => {
+  await ctx.db.insert("gameEvents", {
+    gameId: game._id,
+    turn: game.turn,
+    type: event.type,
+    actorId: event.actorId,
+    args: event.args,
+    outcome: event.outcome,
+    message: event.message,
+    visibleTo: event.visibleTo,
+  });
+};
+
+/** Whether a viewer may read an event (null viewer: game is over, show all). */
+export const canSeeEvent = (event: Doc<"gameEvents">, viewerId: Id<"players"> | null) =>
+  viewerId === null || event.visibleTo === undefined || event.visibleTo.includes(viewerId);
@@ -0,0 +1,306 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { coordToIndex } from "./grid";
+import { indexByTile } from "./gameHelpers";
+import { hasTile } from "./vision";
+import type { TileSet, Vision } from "./vision";
+
+type GameDoc = Doc<"games">;
+type TileDoc = GameDoc["map"][number];
+type UnitDoc = Doc<"units">;
+type BuildingDoc = Doc<"buildings">;
+type PlayerDoc = Doc<"players">;
+type MemoryDoc = Doc<"buildingMemory">;
+
+/**
+ * Tile shape sent to clients and the AI: terrain from games.map joined with
+ * occupancy and the players who have explored it.
+ */
+export type TileView = {
+  type: string;
+  resource?: string;
+  unitId?: Id<"units">;
+  buildingId?: Id<"buildings">;
+  visibility: Id<"players">[];
+  inSight?: boolean; // Viewer sees this tile right now; omitted in unfogged views
+};
+
+/** A game whose map has been joined into tile views. */
+export type GameView = Omit<GameDoc, "map"> & { map: TileView[] };
+
+/**
+ * A game as clients may see it. The seed and RNG state stay on the server:
+ * with them every combat, ruin and weather roll could be predicted.
+ */
+export type PublicGame = Omit<GameDoc, "seed" | "rngState">;
+
+export const toPublicGame = (game: GameDoc): PublicGame => {
+  const { seed: _seed, rngState: _rngState, ...rest } = game;
+  return rest;
+};
+
+/**
+ * Building as the viewer last saw it. Remembered entries keep the building's
+ * id so tiles can still point at them after the real building is gone.
+ */
+export type RememberedBuilding = Omit<BuildingDoc, "_creationTime"> & {
+  isRemembered: true;
+  seenOnTurn: number;
+};
+
+/**
+ * What a command changed, so only the memories it can affect are refreshed:
+ * - viewers: players whose sight grew
+ * - tiles: where a building appeared, changed or was destroyed; every player
+ *   with one of them in sight is refreshed
+ */
+export type MemoryChanges = {
+  viewers?: Id<"players">[];
+  tiles?: { x: number; y: number }[];
+};
+
+type MemorySnapshot = Pick<MemoryDoc, "buildingId" | "ownerId" | "type" | "hp" | "isConstructing" | "seenOnTurn">;
+
+const isSameSnapshot = (memory: MemoryDoc, snapshot: MemorySnapshot) =>
+  memory.buildingId === snapshot.buildingId &&
+  memory.ownerId === snapshot.ownerId &&
+  memory.type === snapshot.type &&
+  memory.hp === snapshot.hp &&
+  memory.isConstructing === snapshot.isConstructing &&
+  memory.seenOnTurn === snapshot.seenOnTurn;
+
+/**
+ * Sync remembered buildings with what players can currently see, writing
+ * only memories that differ. Commands pass what they changed; turn
+ * boundaries, where everyone's sight is recomputed, leave it out to refresh
+ * every player.
+ */
+export const refreshBuildingMemory = async (
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  changes?: MemoryChanges,
+) => {
+  if (changes && !changes.viewers?.length && !changes.tiles?.length) return;
+
+  const game = await ctx.db.get(gameId);
+  if (!game) return;
+
+  const [visions, buildings, memories] = await Promise.all([
+    ctx.db
+      .query("vision")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+    ctx.db
+      .query("buildings")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+    ctx.db
+      .query("buildingMemory")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+  ]);
+
+  const viewers = new Set(changes?.viewers);
+  const changedTiles = (changes?.tiles ?? []).map((tile) => coordToIndex(game.width, tile.x, tile.y));
+
+  for (const vision of visions) {
+    const playerId = vision.playerId;
+    const visible = new Uint8Array(vision.visible);
+    if (changes && !viewers.has(playerId) && !changedTiles.some((idx) => hasTile(visible, idx))) {
+      continue;
+    }
+
+    const memoryByTile = new Map<number, MemoryDoc>();
+    for (const memory of memories) {
+      if (memory.playerId !== playerId) continue;
+      memoryByTile.set(coordToIndex(game.width, memory.x, memory.y), memory);
+    }
+
+    const seenTiles = new Set<number>();
+    for (const building of buildings) {
+      if (building.playerId === playerId) continue;
+      const idx = coordToIndex(game.width, building.x, building.y);
+      if (!hasTile(visible, idx)) continue;
+      seenTiles.add(idx);
+
+      const snapshot: MemorySnapshot = {
+        buildingId: building._id,
+        ownerId: building.playerId,
+        type: building.type,
+        hp: building.hp,
+        isConstructing: building.isConstructing,
+        seenOnTurn: game.turn,
+      };
+      const existing = memoryByTile.get(idx);
+      if (!existing) {
+        await ctx.db.insert("buildingMemory", {
+          gameId,
+          playerId,
+          x: building.x,
+          y: building.y,
+          ...snapshot,
+        });
+      } else if (!isSameSnapshot(existing, snapshot)) {
+        await ctx.db.patch(existing._id, snapshot);
+      }
+    }
+
+    // Anything remembered on a tile in sight that no longer holds a building is gone
+    for (const [idx, memory] of memoryByTile) {
+      if (hasTile(visible, idx) && !seenTiles.has(idx)) {
+        await ctx.db.delete(memory._id);
+      }
+    }
+  }
+};
+
+/**
+ * Build the unfogged board: every tile with its occupants, marked visible
+ * to each player whose explored set contains it.
+ */
+export const buildBoardView = (
+  game: GameDoc,
+  units: UnitDoc[],
+  buildings: BuildingDoc[],
+  exploredBy: Map<Id<"players">, TileSet>,
+): TileView[] => {
+  const unitsByTile = indexByTile(game, units);
+  const buildingsByTile = indexByTile(game, buildings);
+
+  return game.map.map((tile, idx) => ({
+    type: tile.type,
+    resource: tile.resource,
+    unitId: unitsByTile.get(idx)?._id,
+    buildingId: buildingsByTile.get(idx)?._id,
+    visibility: [...exploredBy]
+      .filter(([, explored]) => hasTile(explored, idx))
+      .map(([playerId]) => playerId),
+  }));
+};
+
+/**
+ * Fog unexplored tiles and strip what the player cannot currently see:
+ * units outside sight and buildings they have never seen.
+ */
+export const filterMapForPlayer = (
+  map: TileDoc[],
+  playerId: Id<"players"> | null,
+  vision: Vision | null,
+  unitIdByTile: Map<number, Id<"units">>,
+  buildingIdByTile: Map<number, Id<"buildings">>,
+): TileView[] =>
+  map.map((tile, idx) => {
+    if (playerId === null || vision === null || !hasTile(vision.explored, idx)) {
+      // Don't leak info about other players' visibility
+      return {
+        type: "fog",
+        visibility: [],
+      };
+    }
+    const inSight = hasTile(vision.visible, idx);
+    return {
+      type: tile.type,
+      resource: tile.resource,
+      buildingId: buildingIdByTile.get(idx),
+      unitId: inSight ? unitIdByTile.get(idx) : undefined,
+      visibility: [playerId],
+      inSight,
+    };
+  });
+
+/** A player as seen by an opponent: economy, research and AI plans are hidden. */
+type PrivatePlayerField =
+  | "resources"
+  | "techUnlocked"
+  | "researchQueue"
+  | "researchProgress"
+  | "researchBank"
+  | "aiGoal"
+  | "aiEconomy";
+
+export type RedactedPlayer = Omit<PlayerDoc, PrivatePlayerField> & Partial<Pick<PlayerDoc, PrivatePlayerField>>;
+
+export const redactPlayer = (player: PlayerDoc): RedactedPlayer => {
+  const {
+    resources: _resources,
+    techUnlocked: _techUnlocked,
+    researchQueue: _researchQueue,
+    researchProgress: _researchProgress,
+    researchBank: _researchBank,
+    aiGoal: _aiGoal,
+    aiEconomy: _aiEconomy,
+    ...rest
+  } = player;
+  return rest;
+};
+
+/** Each player as the viewer may see them: their own seat in full, everyone else redacted. */
+export const redactPlayersFor = (players: PlayerDoc[], viewerId: Id<"players"> | null) =>
+  players.map((player): RedactedPlayer => player._id === viewerId ? player : redactPlayer(player));
+
+const toRememberedBuilding = (memory: MemoryDoc): RememberedBuilding => ({
+  _id: memory.buildingId,
+  gameId: memory.gameId,
+  playerId: memory.ownerId,
+  type: memory.type,
+  x: memory.x,
+  y: memory.y,
+  hp: memory.hp,
+  isConstructing: memory.isConstructing,
+  isRemembered: true,
+  seenOnTurn: memory.seenOnTurn,
+});
+
+/**
+ * Reduce the full game state to what one player is allowed to know:
+ * - Terrain on explored tiles, fog everywhere else
+ * - Units only on tiles currently visible
+ * - Buildings in sight, plus last-seen snapshots of remembered ones
+ * - Opponents' resources, tech and research are redacted
+ * A null viewer (not seated in the game) sees no board at all.
+ */
+export const filterStateForPlayer = (
+  game: GameDoc,
+  playerId: Id<"players"> | null,
+  players: PlayerDoc[],
+  units: UnitDoc[],
+  buildings: BuildingDoc[],
+  memories: MemoryDoc[],
+  vision: Vision | null,
+) => {
+  const inSight = (x: number, y: number) =>
+    vision !== null && hasTile(vision.visible, coordToIndex(game.width, x, y));
+
+  const visibleUnits = units.filter(
+    (unit) => unit.playerId === playerId || inSight(unit.x, unit.y),
+  );
+  const liveBuildings = buildings.filter(
+    (building) =>
+      building.playerId === playerId || inSight(building.x, building.y),
+  );
+  const rememberedBuildings = memories
+    .filter((memory) => !inSight(memory.x, memory.y))
+    .map(toRememberedBuilding);
+
+  const unitIdByTile = new Map<number, Id<"units">>();
+  for (const [idx, unit] of indexByTile(game, visibleUnits)) {
+    unitIdByTile.set(idx, unit._id);
+  }
+  const buildingIdByTile = new Map<number, Id<"buildings">>();
+  for (const [idx, building] of indexByTile(game, [...liveBuildings, ...rememberedBuildings])) {
+    buildingIdByTile.set(idx, building._id);
+  }
+
+  return {
+    game: {
+      ...toPublicGame(game),
+      map: filterMapForPlayer(game.map, playerId, vision, unitIdByTile, buildingIdByTile),
+    },
+    players: redactPlayersFor(players, playerId),
+    // Where someone else's units are headed is theirs to know
+    units: visibleUnits.map((unit) =>
+      unit.playerId === playerId ? unit : { ...unit, moveOrder: undefined },
+    ),
+    buildings: [...liveBuildings, ...rememberedBuildings],
+  };
+};
@@ -20,13 +20,49 @@ export const getPlayerOrThrow = async (ctx: Ctx, playerId: Id<"players">) => {
   return player;
 };
 
+/**
+ * Finished games are no longer secret: anyone may see their whole board,
+ * history and scores. Until then each player sees only their own side.
+ */
+export const isGameOver = (game: Pick<Doc<"games">, "status">) => game.status === "ended";
+
+type TurnState = Pick<Doc<"games">, "playerOrder" | "activePlayerIndex" | "turnMode" | "readyPlayerIds">;
+
+/**
+ * Whether a player may act right now. Sequential games have one active
+ * player; in simultaneous games everyone plans until they end their turn.
+ */
+export const isPlayersTurn = (game: TurnState, playerId: Id<"players">) => {
+  if (game.turnMode === "simultaneous") {
+    return game.playerOrder.includes(playerId) && !game.readyPlayerIds?.includes(playerId);
+  }
+  return game.playerOrder[game.activePlayerIndex] === playerId;
+};
+
 export const assertPlayerTurn = (game: Doc<"games">, playerId: Id<"players">) => {
-  const activePlayerId = game.playerOrder[game.activePlayerIndex];
-  if (!activePlayerId || activePlayerId !== playerId) {
-    throw new Error("It is not your turn");
+  if (!isPlayersTurn(game, playerId)) {
+    throw new Error(
+      game.turnMode === "simultaneous" ? "You have already ended your turn" : "It is not your turn",
+    );
   }
 };
 
+/**
+ * Who plays after the active player in a sequential game: the next living
+ * seat round the table, and whether play has come back round to start a new
+ * round. With one player left they follow themselves.
+ */
+export const getNextSeat = (game: TurnState, isAlive: (playerId: Id<"players">) => boolean) => {
+  const count = game.playerOrder.length;
+  for (let i = 1; i <= count; i++) {
+    const index = (game.activePlayerIndex + i) % count;
+    if (isAlive(game.playerOrder[index])) {
+      return { index, newRound: index <= game.activePlayerIndex };
+    }
+  }
+  throw new Error("No alive players remaining");
+};
+
 export const getTileIndex = (game: Doc<"games">, x: number, y: number) => {
   const safeX = wrapX(x, game.width);
   const safeY = clampY(y, game.height);
@@ -42,3 +78,24 @@ export const withUpdatedMap = (
   return nextMap;
 };
 
+
+export const getUnitAt = (ctx: Ctx, gameId: Id<"games">, x: number, y: number) =>
+  ctx.db
+    .query("units")
+    .withIndex("by_position", (q) => q.eq("gameId", gameId).eq("x", x).eq("y", y))
+    .first();
+
+export const getBuildingAt = (ctx: Ctx, gameId: Id<"games">, x: number, y: number) =>
+  ctx.db
+    .query("buildings")
+    .withIndex("by_position", (q) => q.eq("gameId", gameId).eq("x", x).eq("y", y))
+    .first();
+
+/** Index positioned documents (units, buildings) by map tile. */
+export const indexByTile = <T extends { x: number; y: number }>(game: Doc<"games">, docs: T[]) => {
+  const byTile = new Map<number, T>();
+  for (const doc of docs) {
+    byTile.set(coordToIndex(game.width, doc.x, doc.y), doc);
+  }
+  return byTile;
+};
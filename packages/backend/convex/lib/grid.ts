@@ -1,3 +1,5 @@
+import type { Direction } from "./constants";
+
 export const wrapX = (x: number, width: number) => {
   if (width <= 0) {
     return 0;
@@ -33,6 +35,36 @@ export const manhattanDistance = (width: number, x1: number, y1: number, x2: num
   return dx + dy;
 };
 
+export const directionToDelta = (direction: Direction) => {
+  switch (direction) {
+    case "L":
+      return { dx: -1, dy: 0 };
+    case "R":
+      return { dx: 1, dy: 0 };
+    case "U":
+      return { dx: 0, dy: -1 };
+    case "D":
+      return { dx: 0, dy: 1 };
+    default:
+      return { dx: 0, dy: 0 };
+  }
+};
+
 export const isAdjacent = (width: number, x1: number, y1: number, x2: number, y2: number) =>
   manhattanDistance(width, x1, y1, x2, y2) === 1;
 
+
+/** Whether any of the four tiles around (x, y) is of the given terrain type. */
+export const bordersTerrain = (
+  game: { width: number; height: number; map: { type: string }[] },
+  x: number,
+  y: number,
+  terrain: string
+) =>
+  [[-1, 0], [1, 0], [0, -1], [0, 1]].some(([dx, dy]) => {
+    const ny = y + dy;
+    if (ny < 0 || ny >= game.height) {
+      return false;
+    }
+    return game.map[coordToIndex(game.width, wrapX(x + dx, game.width), ny)]?.type === terrain;
+  });
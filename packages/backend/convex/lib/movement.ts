@@ -0,0 +1,164 @@
+import type { Doc } from "../_generated/dataModel";
+import { TERRAIN_DEFS, UNIT_DEFS } from "./constants";
+import type { Direction } from "./constants";
+import { clampY, coordToIndex, directionToDelta, wrapX } from "./grid";
+import type { PathOptions } from "./pathfinding";
+import type { RuinOutcome } from "./ruins";
+import { hasTile } from "./vision";
+import type { Vision } from "./vision";
+
+type Point = { x: number; y: number };
+type Target = Point & { idx: number };
+
+/**
+ * Movement rules, shared by the move mutations in units.ts and the headless
+ * simulator: where a step leads, whether the unit may take it and what it
+ * costs, and how routes are planned.
+ */
+
+/** The tile a step leads to: wrapping round the map, stopping at its top and bottom. */
+export const getStepTarget = (game: Doc<"games">, unit: Point, direction: Direction): Target => {
+  const { dx, dy } = directionToDelta(direction);
+  const x = wrapX(unit.x + dx, game.width);
+  const y = clampY(unit.y + dy, game.height);
+  return { x, y, idx: coordToIndex(game.width, x, y) };
+};
+
+/**
+ * Check a step onto `target` against the terrain, the weather and the unit
+ * on that tile (`occupant`), and return what it costs in moves.
+ */
+export const checkStep = (
+  game: Doc<"games">,
+  unit: Doc<"units">,
+  player: Pick<Doc<"players">, "techUnlocked">,
+  target: Target,
+  occupant: Pick<Doc<"units">, "_id"> | null,
+) => {
+  const unitDef = UNIT_DEFS[unit.type];
+  if (!unitDef) {
+    throw new Error("Unknown unit type");
+  }
+
+  if (unit.movesLeft <= 0) {
+    throw new Error("Unit has no moves left");
+  }
+
+  // Solar Flare grounds air units
+  if (game.activeWeather?.type === "solar_flare" && unitDef.canFly) {
+    throw new Error("Air units are grounded during a Solar Flare!");
+  }
+
+  if (coordToIndex(game.width, unit.x, unit.y) === target.idx) {
+    throw new Error("Cannot move out of bounds");
+  }
+
+  const targetTile = game.map[target.idx];
+  const terrainDef = TERRAIN_DEFS[targetTile.type] ?? TERRAIN_DEFS.surface;
+
+  if (!terrainDef.passable) {
+    throw new Error(`Cannot enter ${targetTile.type}`);
+  }
+
+  // Air-only tiles (sky, cloud)
+  if (terrainDef.airOnly && !unitDef.canFly) {
+    throw new Error("Only air units can enter sky tiles");
+  }
+
+  if (occupant && occupant._id !== unit._id) {
+    throw new Error("Tile is occupied");
+  }
+
+  // Flying units ignore terrain cost
+  const moveCost = unitDef.canFly ? 1 : terrainDef.moveCost;
+  if (unit.movesLeft < moveCost) {
+    throw new Error(`Not enough moves (need ${moveCost}, have ${unit.movesLeft})`);
+  }
+
+  // Hazards (magma)
+  if (terrainDef.hazard && !player.techUnlocked.includes("heat_shield")) {
+    throw new Error("Hazardous terrain! Research Heat Shield technology to cross Magma.");
+  }
+
+  return moveCost;
+};
+
+/**
+ * Why checkStep turns a step down, or undefined if the unit may take it; for
+ * standing orders, which stop at a blocked step rather than fail.
+ */
+export const getStepBlocker = (...args: Parameters<typeof checkStep>) => {
+  try {
+    checkStep(...args);
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+/** Tank Crush: whether the unit flattens enemy buildings by moving onto them. */
+export const canCrush = (unit: Pick<Doc<"units">, "type">) =>
+  UNIT_DEFS[unit.type]?.abilities?.includes("crush") ?? false;
+
+/**
+ * Where a unit stands after a step, wounded or stopped by any ruin it
+ * explored there. Moving gives up entrenchment.
+ */
+export const getSteppedUnit = (
+  unit: Doc<"units">,
+  target: Point,
+  moveCost: number,
+  ruin?: Pick<RuinOutcome, "damage" | "exhausted">,
+) => ({
+  x: target.x,
+  y: target.y,
+  hp: unit.hp - (ruin?.damage ?? 0),
+  movesLeft: ruin?.exhausted ? 0 : unit.movesLeft - moveCost,
+  entrenched: undefined,
+});
+
+/** Check a standing order's destination and return it with x wrapped round the map. */
+export const checkDestination = (game: Doc<"games">, unit: Point, x: number, y: number) => {
+  if (y < 0 || y >= game.height) {
+    throw new Error("Destination is off the map");
+  }
+  const targetX = wrapX(x, game.width);
+  if (targetX === unit.x && y === unit.y) {
+    throw new Error("Unit is already there");
+  }
+  return { x: targetX, y };
+};
+
+/**
+ * Route planning for a unit: over the tiles its owner has explored, around
+ * their own units and the others they can see. Units the player can't see
+ * are not avoided: they are only found by bumping into them.
+ */
+export const getPathOptions = (
+  game: Doc<"games">,
+  unit: Doc<"units">,
+  player: Pick<Doc<"players">, "techUnlocked">,
+  vision: Vision,
+  units: Doc<"units">[],
+): PathOptions => {
+  const unitDef = UNIT_DEFS[unit.type];
+  if (!unitDef) {
+    throw new Error("Unknown unit type");
+  }
+
+  const blocked = new Set<number>();
+  for (const other of units) {
+    const idx = coordToIndex(game.width, other.x, other.y);
+    if (other._id !== unit._id && (other.playerId === unit.playerId || hasTile(vision.visible, idx))) {
+      blocked.add(idx);
+    }
+  }
+
+  return {
+    canFly: unitDef.canFly ?? false,
+    canCrossHazards: player.techUnlocked.includes("heat_shield"),
+    blocked,
+    known: vision.explored,
+    maxStepCost: unit.maxMoves, // A step must fit in one turn's moves
+  };
+};
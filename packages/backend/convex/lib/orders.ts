@@ -0,0 +1,64 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { assertPlayerTurn, getGameOrThrow, getPlayerOrThrow } from "./gameHelpers";
+
+export type OrderKind = Doc<"orders">["kind"];
+
+/** What a command returns in simultaneous mode: it will run at resolution. */
+export type QueuedOrder = { queued: true; orderId: Id<"orders"> };
+
+type Command<Args extends { playerId: Id<"players"> }, Result> = (
+  ctx: MutationCtx,
+  args: Args,
+) => Promise<Result>;
+
+/**
+ * Wrap a command so simultaneous games queue it as an order instead of
+ * applying it. Resolution later replays the order through the same handler,
+ * so validation happens against the board as it stands at that point.
+ */
+export const queueInSimultaneousMode =
+  <Args extends { playerId: Id<"players"> }, Result>(kind: OrderKind, handler: Command<Args, Result>) =>
+  async (ctx: MutationCtx, args: Args): Promise<Result | QueuedOrder> => {
+    const player = await getPlayerOrThrow(ctx, args.playerId);
+    const game = await getGameOrThrow(ctx, player.gameId);
+    if (game.turnMode !== "simultaneous") {
+      return handler(ctx, args);
+    }
+
+    assertPlayerTurn(game, player._id);
+    const orderId = await ctx.db.insert("orders", {
+      gameId: game._id,
+      turn: game.turn,
+      playerId: player._id,
+      kind,
+      args,
+    });
+    return { queued: true, orderId };
+  };
+
+/**
+ * A player's place in this turn's resolution order. Players take turns
+ * going first (rotating with the turn number) so no seat always wins ties.
+ */
+export const getSeatPriority = (game: Doc<"games">, playerId: Id<"players">) => {
+  const seatCount = Math.max(game.playerOrder.length, 1);
+  return (((game.playerOrder.indexOf(playerId) - game.turn) % seatCount) + seatCount) % seatCount;
+};
+
+/**
+ * Orders for a turn in resolution order: by seat priority, then each
+ * player's orders in the order they were given.
+ */
+export const getOrdersForResolution = async (ctx: MutationCtx, game: Doc<"games">) => {
+  const orders = await ctx.db
+    .query("orders")
+    .withIndex("by_game_turn", (q) => q.eq("gameId", game._id).eq("turn", game.turn))
+    .collect();
+
+  return orders.sort(
+    (a, b) =>
+      getSeatPriority(game, a.playerId) - getSeatPriority(game, b.playerId) ||
+      a._creationTime - b._creationTime,
+  );
+};
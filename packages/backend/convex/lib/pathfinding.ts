@@ -1,6 +1,8 @@
-import { Doc, Id } from "../_generated/dataModel";
-import { Direction } from "./constants";
+import type { Doc } from "../_generated/dataModel";
+import type { Direction } from "./constants";
 import { TERRAIN_DEFS } from "./constants";
+import { hasTile } from "./vision";
+import type { TileSet } from "./vision";
 
 interface Point {
   x: number;
@@ -66,7 +68,7 @@ export const findNearestFog = (
   map: Doc<"games">["map"],
   width: number,
   height: number,
-  playerId: Id<"players">,
+  explored: TileSet,
   canFly: boolean = false
 ): Direction | null => {
   // Queue: [x, y]
@@ -88,12 +90,11 @@ export const findNearestFog = (
     steps++;
 
     const idx = coordToIndex(width, current.x, current.y);
-    const tile = map[idx];
 
     // Check if this tile is fog (target found!)
     // Note: We check target logic HERE. 
     // Is it fog? (not visible to player)
-    const isVisible = tile.visibility.includes(playerId);
+    const isVisible = hasTile(explored, idx);
     
     // However, if we are at start, we obviously are visible.
     // Also, usually we want to move TO a tile that reveals fog. 
@@ -151,3 +152,215 @@ export const findNearestFog = (
 
   return null;
 };
+
+export interface PathOptions {
+  canFly: boolean;
+  canCrossHazards: boolean; // Heat Shield researched
+  blocked: Set<number>; // Tile indexes the mover cannot enter (e.g. occupied)
+  known?: TileSet; // Plan only over these tiles, e.g. the mover's explored map
+  maxStepCost?: number; // Dearer tiles can never be entered (a unit's full moves)
+}
+
+export interface PathStep extends Point {
+  cost: number; // Moves spent entering this tile
+}
+
+/** Moves a unit spends entering a tile; flying units ignore terrain. */
+export const getStepCost = (tileType: string, canFly: boolean) =>
+  canFly ? 1 : (TERRAIN_DEFS[tileType] ?? TERRAIN_DEFS.surface).moveCost;
+
+/** The command that takes a unit from one tile to a neighbouring one. */
+export const stepDirection = (from: Point, to: Point): Direction => {
+  if (to.y < from.y) return "U";
+  if (to.y > from.y) return "D";
+  const diffX = to.x - from.x;
+  return diffX === 1 || diffX < -1 ? "R" : "L"; // Right, or wrapped round the edge
+};
+
+// Only terrain matters to planning, so board views (e.g. the AI's) work too
+type TerrainMap = { type: string }[];
+
+// The rules units.move enforces for entering a tile, plus the planner's own limits
+const makeCanEnter = (map: TerrainMap, options: PathOptions) => (idx: number) => {
+  const tile = map[idx];
+  if (!tile || options.blocked.has(idx)) return false;
+  if (options.known && !hasTile(options.known, idx)) return false;
+  const terrain = TERRAIN_DEFS[tile.type] ?? TERRAIN_DEFS.surface;
+  if (!terrain.passable) return false;
+  if (terrain.airOnly && !options.canFly) return false;
+  if (terrain.hazard && !options.canCrossHazards) return false;
+  if (options.maxStepCost !== undefined && getStepCost(tile.type, options.canFly) > options.maxStepCost) return false;
+  return true;
+};
+
+// Binary min-heap of tile indexes by priority
+const createQueue = () => {
+  const heap: [number, number][] = [];
+
+  const push = (priority: number, idx: number) => {
+    heap.push([priority, idx]);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top[1];
+  };
+
+  return { push, pop, size: () => heap.length };
+};
+
+// Shortest way round the cylinder plus the vertical distance
+const distance = (width: number, a: Point, b: Point) => {
+  const dx = Math.abs(a.x - b.x);
+  return Math.min(dx, width - dx) + Math.abs(a.y - b.y);
+};
+
+/**
+ * A* over terrain move costs, wrapping around the world horizontally.
+ * Returns the steps from `from` (exclusive) to `to` (inclusive), or null if
+ * there is no route. Every step costs at least one move, so the wrapped
+ * Manhattan distance never overestimates.
+ */
+export const findPath = (
+  map: TerrainMap,
+  width: number,
+  height: number,
+  from: Point,
+  to: Point,
+  options: PathOptions
+): PathStep[] | null => {
+  const start = coordToIndex(width, from.x, from.y);
+  const goal = coordToIndex(width, to.x, to.y);
+
+  const canEnter = makeCanEnter(map, options);
+
+  if (start === goal || !canEnter(goal)) {
+    return null;
+  }
+
+  const costSoFar = new Map<number, number>([[start, 0]]);
+  const cameFrom = new Map<number, number>();
+  const open = createQueue();
+  open.push(distance(width, from, to), start);
+
+  while (open.size() > 0) {
+    const current = open.pop();
+    if (current === goal) break;
+
+    const x = current % width;
+    const y = Math.floor(current / width);
+    for (const [dx, dy] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      const nx = (x + dx + width) % width;
+      const next = coordToIndex(width, nx, ny);
+      if (!canEnter(next)) continue;
+
+      const cost = costSoFar.get(current)! + getStepCost(map[next].type, options.canFly);
+      if (cost < (costSoFar.get(next) ?? Infinity)) {
+        costSoFar.set(next, cost);
+        cameFrom.set(next, current);
+        open.push(cost + distance(width, { x: nx, y: ny }, to), next);
+      }
+    }
+  }
+
+  if (!cameFrom.has(goal)) {
+    return null;
+  }
+
+  const path: PathStep[] = [];
+  for (let idx = goal; idx !== start; idx = cameFrom.get(idx)!) {
+    path.push({
+      x: idx % width,
+      y: Math.floor(idx / width),
+      cost: getStepCost(map[idx].type, options.canFly),
+    });
+  }
+  return path.reverse();
+};
+
+/**
+ * Every tile reachable from `from` for at most `budget` moves, with the
+ * cheapest cost to get there (Dijkstra over the same rules as findPath).
+ * The starting tile is not included.
+ */
+export const findReachable = (
+  map: TerrainMap,
+  width: number,
+  height: number,
+  from: Point,
+  budget: number,
+  options: PathOptions
+): Map<number, number> => {
+  const canEnter = makeCanEnter(map, options);
+  const start = coordToIndex(width, from.x, from.y);
+  const costs = new Map<number, number>([[start, 0]]);
+  const done = new Set<number>();
+  const frontier = createQueue();
+  frontier.push(0, start);
+
+  while (frontier.size() > 0) {
+    const current = frontier.pop();
+    if (done.has(current)) continue; // Stale entry, already settled cheaper
+    done.add(current);
+
+    const x = current % width;
+    const y = Math.floor(current / width);
+    for (const [dx, dy] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      const next = coordToIndex(width, (x + dx + width) % width, ny);
+      if (!canEnter(next)) continue;
+
+      const cost = costs.get(current)! + getStepCost(map[next].type, options.canFly);
+      if (cost <= budget && cost < (costs.get(next) ?? Infinity)) {
+        costs.set(next, cost);
+        frontier.push(cost, next);
+      }
+    }
+  }
+
+  costs.delete(start);
+  return costs;
+};
+
+/**
+ * Which turn each step of a path is taken on: turn 1 spends the moves the
+ * unit has left, later turns its full moves. A step is never split across
+ * turns; the unit waits until it can afford it.
+ */
+export const scheduleSteps = (path: PathStep[], movesLeft: number, maxMoves: number) => {
+  let turn = 1;
+  let moves = movesLeft;
+  return path.map((step) => {
+    if (moves < step.cost) {
+      turn++;
+      moves = maxMoves;
+    }
+    moves -= step.cost;
+    return { ...step, turn };
+  });
+};
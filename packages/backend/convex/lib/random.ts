@@ -0,0 +1,47 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Seeded PRNG (mulberry32). The whole generator state is one 32-bit number,
+ * which lets a game keep its RNG on the games row and replay every roll
+ * from the world seed plus the order of commands.
+ */
+export const createRng = (state: number) => {
+  let t = state | 0;
+
+  const next = () => {
+    t = (t + 0x6d2b79f5) | 0;
+    let m = Math.imul(t ^ (t >>> 15), t | 1);
+    m ^= m + Math.imul(m ^ (m >>> 7), m | 61);
+    return ((m ^ (m >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    /** Float in [0, 1), drop-in for Math.random() */
+    next,
+    /** Integer in [0, max) */
+    int: (max: number) => Math.floor(next() * max),
+    /** Random element, undefined for an empty list */
+    pick: <T>(items: readonly T[]): T | undefined => items[Math.floor(next() * items.length)],
+    /** In-place Fisher-Yates shuffle */
+    shuffle: <T>(items: T[]) => {
+      for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(next() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+      }
+      return items;
+    },
+    get state() {
+      return t;
+    },
+  };
+};
+
+export type Rng = ReturnType<typeof createRng>;
+
+/** Resume the game's RNG from its stored state (games from before it was stored start from their seed). */
+export const getGameRng = (game: Doc<"games">) => createRng(game.rngState ?? game.seed);
+
+/** Persist the RNG state after rolling, so the next roll continues the sequence. */
+export const saveGameRng = (ctx: MutationCtx, gameId: Id<"games">, rng: Rng) =>
+  ctx.db.patch(gameId, { rngState: rng.state });
@@ -0,0 +1,126 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { getResources } from "./resources";
+import type { Vision } from "./vision";
+
+type SnapshotDoc = Doc<"turnSnapshots">;
+
+/**
+ * Copy the whole board into a turnSnapshots row: terrain, weather, every
+ * player's economy, units, buildings and vision. Taken when a turn starts
+ * and once more when the game ends.
+ */
+export const recordTurnSnapshot = async (
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  options: { isFinal?: boolean } = {},
+) => {
+  const game = await ctx.db.get(gameId);
+  if (!game) return;
+
+  const [players, units, buildings, visions] = await Promise.all([
+    ctx.db
+      .query("players")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+    ctx.db
+      .query("units")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+    ctx.db
+      .query("buildings")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+    ctx.db
+      .query("vision")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+  ]);
+
+  await ctx.db.insert("turnSnapshots", {
+    gameId,
+    turn: game.turn,
+    isFinal: options.isFinal,
+    map: game.map,
+    activeWeather: game.activeWeather,
+    players: players.map((player) => ({
+      playerId: player._id,
+      resources: getResources(player.resources),
+      techUnlocked: player.techUnlocked,
+      isAlive: player.isAlive,
+    })),
+    units: units.map(({ _id, _creationTime, ...unit }) => ({ unitId: _id, ...unit })),
+    buildings: buildings.map(({ _id, _creationTime, ...building }) => ({
+      buildingId: _id,
+      ...building,
+    })),
+    vision: visions.map((vision) => ({
+      playerId: vision.playerId,
+      explored: vision.explored,
+      visible: vision.visible,
+    })),
+  });
+};
+
+/**
+ * Rebuild the documents a snapshot was taken from, so replays can go through
+ * the same board and fog helpers as live games. Players are only who sat in
+ * each seat plus what the snapshot kept of them: anything else on the live
+ * docs (research queue, AI plans, autopilot) is from the present and would
+ * leak into the delayed spectator view. Remembered enemy buildings are not
+ * kept either, so a fogged view of a snapshot only shows buildings in sight.
+ */
+export const restoreSnapshot = (
+  game: Doc<"games">,
+  players: Doc<"players">[],
+  snapshot: SnapshotDoc,
+) => {
+  const playerState = new Map(
+    snapshot.players.map(({ playerId, ...state }) => [playerId, state]),
+  );
+
+  const units: Doc<"units">[] = snapshot.units.map(({ unitId, ...unit }) => ({
+    _id: unitId,
+    _creationTime: snapshot._creationTime,
+    ...unit,
+  }));
+  const buildings: Doc<"buildings">[] = snapshot.buildings.map(({ buildingId, ...building }) => ({
+    _id: buildingId,
+    _creationTime: snapshot._creationTime,
+    ...building,
+  }));
+
+  const visionByPlayer = new Map<Id<"players">, Vision>();
+  for (const vision of snapshot.vision) {
+    visionByPlayer.set(vision.playerId, {
+      explored: new Uint8Array(vision.explored),
+      visible: new Uint8Array(vision.visible),
+    });
+  }
+
+  return {
+    game: {
+      ...game,
+      turn: snapshot.turn,
+      map: snapshot.map,
+      activeWeather: snapshot.activeWeather,
+    },
+    players: players.flatMap((player): Doc<"players">[] => {
+      const state = playerState.get(player._id);
+      if (!state) return [];
+      return [{
+        _id: player._id,
+        _creationTime: player._creationTime,
+        gameId: player.gameId,
+        userId: player.userId,
+        faction: player.faction,
+        order: player.order,
+        aiName: player.aiName,
+        ...state,
+      }];
+    }),
+    units,
+    buildings,
+    visionByPlayer,
+  };
+};
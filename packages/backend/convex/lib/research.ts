@@ -0,0 +1,148 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { BUILDING_DEFS, FACTION_DEFS, RESEARCH_FLUX_PER_TURN, TECH_DEFS } from "./constants";
+import type { FactionId } from "./constants";
+import { logEvent } from "./events";
+import { getPlayerOrThrow } from "./gameHelpers";
+import { subtractCost } from "./resources";
+
+/**
+ * Research. Each player works through a queue of techs, head first:
+ * - Points come from buildings every turn, from Flux drawn out of the
+ *   stockpile (up to RESEARCH_FLUX_PER_TURN, and only what the queue still
+ *   needs), and from one-off grants such as ruins
+ * - Progress is kept per tech, so reordering the queue loses nothing
+ * - A finished tech unlocks at once and the overflow carries on to the next;
+ *   points earned with nothing left to research wait in the bank
+ */
+
+/** Research points a tech needs; Cyber Synapse research is 10% cheaper. */
+export const getTechCost = (techId: string, faction: string) => {
+  const cost = TECH_DEFS[techId]?.cost ?? 0;
+  return FACTION_DEFS[faction as FactionId]?.trait === "networked" ? Math.floor(cost * 0.9) : cost;
+};
+
+/** A tech's prerequisites must be researched already or queued ahead of it. */
+export const assertCanQueueTech = (player: Doc<"players">, techId: string, ahead: string[]) => {
+  const techDef = TECH_DEFS[techId];
+  if (!techDef) {
+    throw new Error("Unknown technology");
+  }
+  if (player.techUnlocked.includes(techId)) {
+    throw new Error("Technology already researched");
+  }
+  for (const prereq of techDef.prerequisites) {
+    if (!player.techUnlocked.includes(prereq) && !ahead.includes(prereq)) {
+      throw new Error(`Requires ${TECH_DEFS[prereq]?.name ?? prereq} first`);
+    }
+  }
+};
+
+/** The player's queue with a tech added to the end. */
+export const appendToResearchQueue = (player: Doc<"players">, techId: string) => {
+  const queue = player.researchQueue ?? [];
+  if (queue.includes(techId)) {
+    throw new Error("Technology is already queued");
+  }
+  assertCanQueueTech(player, techId, queue);
+  return [...queue, techId];
+};
+
+/** Points still needed to finish everything in the player's queue. */
+const getQueueRemaining = (player: Doc<"players">) =>
+  (player.researchQueue ?? [])
+    .filter((techId) => !player.techUnlocked.includes(techId))
+    .reduce((sum, techId) => sum + getTechCost(techId, player.faction) - (player.researchProgress?.[techId] ?? 0), 0);
+
+/**
+ * Spend research points (plus anything banked) on the player's queue, head
+ * first. Returns the player's new research fields and the techs completed.
+ */
+export const spendResearchPoints = (player: Doc<"players">, points: number) => {
+  const techUnlocked = [...player.techUnlocked];
+  const queue = (player.researchQueue ?? []).filter((techId) => !techUnlocked.includes(techId));
+  const progress = { ...player.researchProgress };
+  const completed: string[] = [];
+  let available = points + (player.researchBank ?? 0);
+
+  while (queue.length > 0) {
+    const techId = queue[0];
+    const needed = getTechCost(techId, player.faction) - (progress[techId] ?? 0);
+    if (available < needed) {
+      progress[techId] = (progress[techId] ?? 0) + available;
+      available = 0;
+      break;
+    }
+    available -= needed;
+    queue.shift();
+    delete progress[techId];
+    techUnlocked.push(techId);
+    completed.push(techId);
+  }
+
+  return {
+    fields: { techUnlocked, researchQueue: queue, researchProgress: progress, researchBank: available },
+    completed,
+  };
+};
+
+/**
+ * Put research points (plus anything banked) into the player's queue,
+ * unlocking each tech they complete. Returns the techs completed.
+ */
+export const addResearchPoints = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  player: Doc<"players">,
+  points: number,
+) => {
+  const { fields, completed } = spendResearchPoints(player, points);
+  await ctx.db.patch(player._id, fields);
+
+  for (const techId of completed) {
+    await logEvent(ctx, game, {
+      type: "research_complete",
+      actorId: player._id,
+      outcome: { techId, unlocks: TECH_DEFS[techId].unlocks },
+      message: `${TECH_DEFS[techId].name} research complete`,
+      visibleTo: [player._id],
+    });
+  }
+
+  return completed;
+};
+
+/**
+ * This turn's research: points from completed buildings, and the Flux to
+ * draw from the stockpile for whatever the queue still needs.
+ */
+export const getResearchIncome = (player: Doc<"players">, buildings: Doc<"buildings">[]) => {
+  const buildingPoints = buildings.reduce(
+    (sum, building) => sum + (building.isConstructing ? 0 : BUILDING_DEFS[building.type]?.research ?? 0),
+    0,
+  );
+  const needed = getQueueRemaining(player) - buildingPoints - (player.researchBank ?? 0);
+  const flux = Math.max(0, Math.min(player.resources.flux, RESEARCH_FLUX_PER_TURN, needed));
+  return { buildingPoints, flux };
+};
+
+/**
+ * Turn-start research: completed buildings contribute their points, and
+ * Flux is drawn from the stockpile for whatever the queue still needs.
+ */
+export const advanceResearch = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"players">) => {
+  const player = await getPlayerOrThrow(ctx, playerId);
+  const buildings = await ctx.db
+    .query("buildings")
+    .withIndex("by_player", (q) => q.eq("playerId", playerId))
+    .collect();
+
+  const { buildingPoints, flux } = getResearchIncome(player, buildings);
+
+  if (flux > 0) {
+    await ctx.db.patch(playerId, { resources: subtractCost(player.resources, { flux }) });
+  }
+  if (buildingPoints + flux > 0) {
+    await addResearchPoints(ctx, game, player, buildingPoints + flux);
+  }
+};
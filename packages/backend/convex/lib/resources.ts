@@ -1,19 +1,50 @@
+import { v } from "convex/values";
 import { RESOURCE_KEYS } from "./constants";
 import type { ResourceKey } from "./constants";
 
 export type ResourcePool = Record<ResourceKey, number>;
 
-export const cloneResources = (resources: ResourcePool): ResourcePool => {
+export const resourcesValidator = v.object({
+  biomass: v.number(),
+  ore: v.number(),
+  flux: v.number(),
+  rare_earths: v.number(),
+});
+
+/**
+ * A player's stockpile as stored. Rare Earths came later, so players from
+ * older games may have none recorded; the helpers below (and getResources)
+ * count a missing resource as 0.
+ */
+export const storedResourcesValidator = v.object({
+  biomass: v.number(),
+  ore: v.number(),
+  flux: v.number(),
+  rare_earths: v.optional(v.number()),
+});
+
+export type StoredResources = Partial<ResourcePool>;
+
+/** A partial amount of resources, e.g. one side of a trade. */
+export const costValidator = v.object({
+  biomass: v.optional(v.number()),
+  ore: v.optional(v.number()),
+  flux: v.optional(v.number()),
+  rare_earths: v.optional(v.number()),
+});
+
+export const getResources = (resources: StoredResources): ResourcePool => {
   const next: ResourcePool = {
-    biomass: resources.biomass,
-    ore: resources.ore,
-    flux: resources.flux,
+    biomass: resources.biomass ?? 0,
+    ore: resources.ore ?? 0,
+    flux: resources.flux ?? 0,
+    rare_earths: resources.rare_earths ?? 0,
   };
   return next;
 };
 
-export const addResources = (base: ResourcePool, delta: Partial<ResourcePool>) => {
-  const next = cloneResources(base);
+export const addResources = (base: StoredResources, delta: Partial<ResourcePool>) => {
+  const next = getResources(base);
   for (const key of RESOURCE_KEYS) {
     if (delta[key] !== undefined) {
       next[key] += delta[key]!;
@@ -22,21 +53,21 @@ export const addResources = (base: ResourcePool, delta: Partial<ResourcePool>) =
   return next;
 };
 
-export const canAfford = (resources: ResourcePool, cost: Partial<ResourcePool>) => {
+export const canAfford = (resources: StoredResources, cost: Partial<ResourcePool>) => {
   for (const key of RESOURCE_KEYS) {
     const value = cost[key] ?? 0;
-    if (resources[key] < value) {
+    if ((resources[key] ?? 0) < value) {
       return false;
     }
   }
   return true;
 };
 
-export const subtractCost = (resources: ResourcePool, cost: Partial<ResourcePool>) => {
+export const subtractCost = (resources: StoredResources, cost: Partial<ResourcePool>) => {
   if (!canAfford(resources, cost)) {
     throw new Error("Insufficient resources");
   }
-  const next = cloneResources(resources);
+  const next = getResources(resources);
   for (const key of RESOURCE_KEYS) {
     const value = cost[key] ?? 0;
     next[key] -= value;
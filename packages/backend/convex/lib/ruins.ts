@@ -0,0 +1,165 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { RUIN_REWARD_TABLES, TECH_DEFS, TERRAIN_DEFS, UNIT_DEFS } from "./constants";
+import type { ResourceKey, RuinRewardDef, RuinRewardType } from "./constants";
+import { findSpawnTile } from "./construction";
+import { coordToIndex } from "./grid";
+import { addResearchPoints } from "./research";
+import { addResources } from "./resources";
+import { describeCost } from "./trade";
+import { getGameSettings } from "./settings";
+import type { Rng } from "./random";
+
+/**
+ * Ancient ruins. Entering a ruin rolls once on the game's reward table and
+ * clears the ruin whatever the outcome:
+ * - resource: added to the explorer's stockpile
+ * - unit: a free unit with no moves until next turn, placed once movement
+ *   has settled (see findRuinUnitTile); its cost is salvaged instead if
+ *   there is no room for it
+ * - tech: research points toward the player's queue, banked if nothing is
+ *   queued
+ * - map: terrain revealed around the ruin (applied by the caller, which
+ *   owns the vision being updated)
+ * - trap: the explorer is wounded
+ * - guardian: the explorer is wounded and stops for the turn, but keeps
+ *   the hoard it fought for
+ * Traps and guardians never destroy a unit; they leave it on 1 HP at worst.
+ */
+
+export type RuinOutcome = {
+  type: RuinRewardType;
+  message: string;
+  resources?: Partial<Record<ResourceKey, number>>;
+  unitType?: string;
+  techPoints?: number;
+  techIds?: string[]; // Research the points completed
+  visionRadius?: number;
+  damage?: number; // HP the explorer loses
+  exhausted?: boolean; // The explorer has no moves left afterwards
+};
+
+/** A reward unit waiting for its ruin's movement to settle, beside the tile the explorer left. */
+export type RuinUnit = { playerId: Id<"players">; unitType: string; x: number; y: number };
+
+/** The reward table a game rolls on, from its lobby settings. */
+export const getRuinRewardTable = (game: Doc<"games">) =>
+  RUIN_REWARD_TABLES[getGameSettings(game).ruinRewards ?? "standard"];
+
+/** Weighted pick; weights are relative, so tables need not sum to 100. */
+export const rollRuinReward = (rng: Rng, table: readonly RuinRewardDef[]) => {
+  let roll = rng.next() * table.reduce((sum, reward) => sum + reward.weight, 0);
+  for (const reward of table) {
+    roll -= reward.weight;
+    if (roll < 0) {
+      return reward;
+    }
+  }
+  return table[table.length - 1];
+};
+
+/**
+ * What a reward gives the owner of `explorer`, which is about to leave its
+ * tile for the ruin. The outcome lists the resources to grant, the unit to
+ * place beside the explorer's tile (unitType), the research points to add and
+ * the wounds, exhaustion and map reveal for the move to apply; a tech
+ * reward's message is finished once the points are spent.
+ */
+export const resolveRuinReward = (game: Doc<"games">, reward: RuinRewardDef, explorer: Doc<"units">) => {
+  const outcome: RuinOutcome = { type: reward.type, message: reward.message };
+
+  switch (reward.type) {
+    case "resource":
+      outcome.resources = reward.resource ?? {};
+      break;
+
+    case "unit": {
+      const unitDef = reward.unitType ? UNIT_DEFS[reward.unitType] : undefined;
+      if (!reward.unitType || !unitDef) break;
+
+      // The explorer's old tile is free once it moves on, unless it flew in
+      const fromTile = game.map[coordToIndex(game.width, explorer.x, explorer.y)];
+      const terrainDef = TERRAIN_DEFS[fromTile?.type ?? "surface"] ?? TERRAIN_DEFS.surface;
+      if (terrainDef.airOnly && !unitDef.canFly) {
+        outcome.resources = unitDef.cost;
+        outcome.message += ` (${unitDef.name} salvaged for parts)`;
+        break;
+      }
+
+      outcome.unitType = reward.unitType;
+      outcome.message += ` (+1 ${unitDef.name})`;
+      break;
+    }
+
+    case "tech":
+      outcome.techPoints = reward.techPoints ?? 0;
+      break;
+
+    case "map":
+      outcome.visionRadius = reward.visionRadius;
+      break;
+
+    case "guardian":
+    case "trap": {
+      // A unit already on 1 HP takes nothing, and its message says so
+      const damage = Math.max(0, Math.min(reward.damage ?? 0, explorer.hp - 1));
+      if (damage > 0) {
+        outcome.damage = damage;
+        outcome.message += ` (-${damage} HP)`;
+      } else {
+        outcome.message += reward.type === "trap" ? " (Avoided the trap)" : " (Came through unharmed)";
+      }
+      if (reward.type === "guardian") {
+        outcome.exhausted = true;
+        outcome.resources = reward.resource ?? {};
+        outcome.message += ` (Recovered ${describeCost(reward.resource ?? {})})`;
+      }
+      break;
+    }
+  }
+
+  return outcome;
+};
+
+/**
+ * Where a reward unit stands once movement has settled: the tile the
+ * explorer left if nobody has moved in since, else the first free tile
+ * beside it (as trained units are placed), else nowhere and its cost is
+ * salvaged. `occupied` tells whether a unit stands on a tile (by index).
+ */
+export const findRuinUnitTile = (game: Doc<"games">, reward: RuinUnit, occupied: (idx: number) => boolean) => {
+  if (!occupied(coordToIndex(game.width, reward.x, reward.y))) {
+    return { x: reward.x, y: reward.y };
+  }
+  return findSpawnTile(game, reward, UNIT_DEFS[reward.unitType].canFly, occupied);
+};
+
+/**
+ * Roll and grant a ruin reward to the owner of `explorer`, which is about to
+ * leave its tile for the ruin. Wounds and exhaustion are returned for the
+ * caller to apply along with the move itself, and a reward unit (unitType)
+ * for it to place once movement has settled.
+ */
+export const claimRuin = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  rng: Rng,
+  player: Doc<"players">,
+  explorer: Doc<"units">,
+): Promise<RuinOutcome> => {
+  const outcome = resolveRuinReward(game, rollRuinReward(rng, getRuinRewardTable(game)), explorer);
+
+  if (outcome.resources) {
+    await ctx.db.patch(player._id, { resources: addResources(player.resources, outcome.resources) });
+  }
+
+  if (outcome.techPoints !== undefined) {
+    const completed = await addResearchPoints(ctx, game, player, outcome.techPoints);
+    outcome.techIds = completed;
+    outcome.message += completed.length > 0
+      ? ` (Completed ${completed.map((techId) => TECH_DEFS[techId].name).join(", ")})`
+      : ` (+${outcome.techPoints} research)`;
+  }
+
+  return outcome;
+};
@@ -0,0 +1,76 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { RESOURCE_KEYS, SCORE, TECH_DEFS } from "./constants";
+import { countTiles, getVision } from "./vision";
+
+type Ctx = QueryCtx | MutationCtx;
+
+export type ScoreBreakdown = {
+  cities: number;
+  buildings: number;
+  units: number;
+  tech: number;
+  exploration: number;
+  resources: number;
+  total: number;
+};
+
+export type PlayerScore = { playerId: Id<"players"> } & ScoreBreakdown;
+
+/**
+ * One player's score, given every unit and building in the game and how
+ * many tiles the player has explored:
+ * - cities, completed buildings and units on the board
+ * - researched tech, weighted by tier
+ * - tiles explored and resources banked
+ */
+export const scorePlayer = (
+  player: Doc<"players">,
+  units: Doc<"units">[],
+  buildings: Doc<"buildings">[],
+  exploredTiles: number,
+): PlayerScore => {
+  const owned = buildings.filter((b) => b.playerId === player._id && !b.isConstructing);
+  const cityCount = owned.filter((b) => b.type === "city").length;
+  const unitCount = units.filter((u) => u.playerId === player._id).length;
+  const techTiers = player.techUnlocked.reduce(
+    (sum, techId) => sum + (TECH_DEFS[techId]?.tier ?? 0) + 1,
+    0,
+  );
+  const banked = RESOURCE_KEYS.reduce((sum, key) => sum + (player.resources[key] ?? 0), 0);
+
+  const breakdown = {
+    cities: cityCount * SCORE.PER_CITY,
+    buildings: (owned.length - cityCount) * SCORE.PER_BUILDING,
+    units: unitCount * SCORE.PER_UNIT,
+    tech: techTiers * SCORE.PER_TECH_TIER,
+    exploration: Math.floor(exploredTiles / SCORE.EXPLORED_TILES_PER_POINT),
+    resources: Math.floor(banked / SCORE.BANKED_RESOURCES_PER_POINT),
+  };
+  const total = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+
+  return { playerId: player._id, ...breakdown, total };
+};
+
+/** Score every player in the game, highest total first. */
+export const computeScores = async (ctx: Ctx, game: Doc<"games">, players: Doc<"players">[]) => {
+  const [units, buildings] = await Promise.all([
+    ctx.db
+      .query("units")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect(),
+    ctx.db
+      .query("buildings")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect(),
+  ]);
+
+  const scores = await Promise.all(
+    players.map(async (player) => {
+      const { explored } = await getVision(ctx, game, player._id);
+      return scorePlayer(player, units, buildings, countTiles(explored));
+    }),
+  );
+
+  return scores.sort((a, b) => b.total - a.total);
+};
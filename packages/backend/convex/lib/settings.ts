@@ -0,0 +1,122 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import type { Doc } from "../_generated/dataModel";
+import {
+  DEFAULT_SPECTATOR_DELAY,
+  MAX_PLAYERS,
+  MAX_SPECTATOR_DELAY,
+  MAX_STARTING_RESOURCE,
+  MAX_TURN_LIMIT,
+  MIN_PLAYERS,
+  MIN_TURN_LIMIT,
+  RESOURCE_KEYS,
+  STARTING_RESOURCES,
+} from "./constants";
+import { resourcesValidator } from "./resources";
+
+/**
+ * Per-game rules, chosen by the host in the lobby:
+ * - maxPlayers: seats available (humans and AI)
+ * - victories: which win conditions can end the game; score victory is
+ *   decided when the turn limit is reached, alliance victory when every
+ *   surviving player is allied with every other
+ * - weather: whether weather events roll at all
+ * - ruinsDensity: how often ruins appear when the map is generated
+ * - ruinRewards: which table exploring a ruin rolls on (unset = standard)
+ * - startingResources: each player's stockpile before faction bonuses
+ * - turnLimit: last turn played; unset = no limit
+ * - allowSpectators: whether non-players may watch once the game starts
+ *   (unset = allowed)
+ * - spectatorDelay: turns the omniscient spectator view lags behind the
+ *   live game, so watchers can't feed players hidden information
+ */
+export const gameSettingsValidator = v.object({
+  maxPlayers: v.number(),
+  victories: v.object({
+    domination: v.boolean(),
+    alliance: v.optional(v.boolean()), // Unset = as domination, which used to cover it
+    ascension: v.boolean(),
+    score: v.boolean(),
+  }),
+  weather: v.boolean(),
+  ruinsDensity: v.union(
+    v.literal("none"),
+    v.literal("sparse"),
+    v.literal("normal"),
+    v.literal("abundant"),
+  ),
+  ruinRewards: v.optional(v.union(
+    v.literal("standard"),
+    v.literal("bountiful"),
+    v.literal("perilous"),
+  )),
+  startingResources: resourcesValidator,
+  turnLimit: v.optional(v.number()),
+  allowSpectators: v.optional(v.boolean()),
+  spectatorDelay: v.optional(v.number()),
+});
+
+export type GameSettings = Infer<typeof gameSettingsValidator>;
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  maxPlayers: MAX_PLAYERS,
+  victories: { domination: true, alliance: true, ascension: true, score: false },
+  weather: true,
+  ruinsDensity: "normal",
+  ruinRewards: "standard",
+  startingResources: { ...STARTING_RESOURCES },
+  allowSpectators: true,
+  spectatorDelay: DEFAULT_SPECTATOR_DELAY,
+};
+
+/** Games created before lobby settings existed play by the defaults. */
+export const getGameSettings = (game: Pick<Doc<"games">, "settings">) =>
+  game.settings ?? DEFAULT_GAME_SETTINGS;
+
+/** Whether allies standing together can win; games set up before it had its own toggle tie it to domination. */
+export const isAllianceVictoryOn = (settings: GameSettings) =>
+  settings.victories.alliance ?? settings.victories.domination;
+
+export const assertValidGameSettings = (settings: GameSettings, playerCount: number) => {
+  if (!Number.isInteger(settings.maxPlayers) || settings.maxPlayers < MIN_PLAYERS || settings.maxPlayers > MAX_PLAYERS) {
+    throw new Error(`Player cap must be between ${MIN_PLAYERS} and ${MAX_PLAYERS}`);
+  }
+  if (settings.maxPlayers < playerCount) {
+    throw new Error(`${playerCount} players have already joined`);
+  }
+
+  if (settings.turnLimit !== undefined) {
+    if (!Number.isInteger(settings.turnLimit) || settings.turnLimit < MIN_TURN_LIMIT || settings.turnLimit > MAX_TURN_LIMIT) {
+      throw new Error(`Turn limit must be between ${MIN_TURN_LIMIT} and ${MAX_TURN_LIMIT}`);
+    }
+  } else if (settings.victories.score) {
+    throw new Error("Score victory needs a turn limit");
+  }
+
+  const { domination, ascension, score } = settings.victories;
+  if (!domination && !isAllianceVictoryOn(settings) && !ascension && !score && settings.turnLimit === undefined) {
+    throw new Error("Enable at least one victory condition or a turn limit");
+  }
+
+  if (settings.spectatorDelay !== undefined) {
+    if (!Number.isInteger(settings.spectatorDelay) || settings.spectatorDelay < 0 || settings.spectatorDelay > MAX_SPECTATOR_DELAY) {
+      throw new Error(`Spectator delay must be between 0 and ${MAX_SPECTATOR_DELAY} turns`);
+    }
+  }
+
+  for (const key of RESOURCE_KEYS) {
+    const amount = settings.startingResources[key];
+    if (!Number.isInteger(amount) || amount < 0 || amount > MAX_STARTING_RESOURCE) {
+      throw new Error(`Starting ${key} must be between 0 and ${MAX_STARTING_RESOURCE}`);
+    }
+  }
+};
+
+/** Spectator rules, filling in the defaults for games that predate them. */
+export const getSpectatorRules = (game: Pick<Doc<"games">, "settings">) => {
+  const settings = getGameSettings(game);
+  return {
+    allowed: settings.allowSpectators ?? true,
+    delay: settings.spectatorDelay ?? DEFAULT_SPECTATOR_DELAY,
+  };
+};
@@ -0,0 +1,86 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { RESOURCE_KEYS } from "./constants";
+import type { Cost } from "./constants";
+import { logEvent } from "./events";
+import { getPlayerOrThrow } from "./gameHelpers";
+import { addResources, canAfford, subtractCost } from "./resources";
+
+/** "5 ore, 10 flux, 2 rare earths" for event messages. */
+export const describeCost = (cost: Cost) =>
+  RESOURCE_KEYS.filter((key) => (cost[key] ?? 0) > 0)
+    .map((key) => `${cost[key]} ${key.replace("_", " ")}`)
+    .join(", ") || "nothing";
+
+export const isEmptyCost = (cost: Cost) => RESOURCE_KEYS.every((key) => (cost[key] ?? 0) === 0);
+
+/** Amounts must be whole and non-negative. */
+export const assertValidCost = (cost: Cost) => {
+  for (const key of RESOURCE_KEYS) {
+    const amount = cost[key] ?? 0;
+    if (!Number.isInteger(amount) || amount < 0) {
+      throw new Error(`Invalid ${key} amount`);
+    }
+  }
+};
+
+/** Move resources from one player's pool to another's; throws if the payer is short. */
+export const transferResources = async (
+  ctx: MutationCtx,
+  fromId: Id<"players">,
+  toId: Id<"players">,
+  amount: Cost,
+) => {
+  const from = await getPlayerOrThrow(ctx, fromId);
+  const to = await getPlayerOrThrow(ctx, toId);
+  await ctx.db.patch(from._id, { resources: subtractCost(from.resources, amount) });
+  await ctx.db.patch(to._id, { resources: addResources(to.resources, amount) });
+};
+
+/**
+ * Turn-start tribute for a player: pay one installment of every tribute they
+ * owe. A payer who cannot afford an installment defaults and the deal ends.
+ */
+export const payTribute = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"players">) => {
+  const owed = await ctx.db
+    .query("trades")
+    .withIndex("by_to", (q) => q.eq("toPlayerId", playerId))
+    .filter((q) => q.eq(q.field("status"), "tribute"))
+    .collect();
+
+  for (const trade of owed) {
+    const payer = await getPlayerOrThrow(ctx, playerId);
+    const recipient = await getPlayerOrThrow(ctx, trade.fromPlayerId);
+    const parties = [payer._id, recipient._id];
+
+    if (!recipient.isAlive || !canAfford(payer.resources, trade.receive)) {
+      await ctx.db.delete(trade._id);
+      if (recipient.isAlive) {
+        await logEvent(ctx, game, {
+          type: "tribute_defaulted",
+          actorId: payer._id,
+          outcome: { tradeId: trade._id, turnsRemaining: trade.turnsRemaining },
+          message: `${payer.faction} could not pay tribute to ${recipient.faction}; the deal is off`,
+          visibleTo: parties,
+        });
+      }
+      continue;
+    }
+
+    await transferResources(ctx, payer._id, recipient._id, trade.receive);
+    const turnsRemaining = (trade.turnsRemaining ?? 1) - 1;
+    if (turnsRemaining > 0) {
+      await ctx.db.patch(trade._id, { turnsRemaining });
+    } else {
+      await ctx.db.delete(trade._id);
+    }
+
+    await logEvent(ctx, game, {
+      type: "tribute_paid",
+      actorId: payer._id,
+      outcome: { tradeId: trade._id, paid: trade.receive, turnsRemaining },
+      message: `${payer.faction} paid ${describeCost(trade.receive)} in tribute to ${recipient.faction}`,
+      visibleTo: parties,
+    });
+  }
+};
@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import type { Infer } from "convex/values";
+import type { MutationCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+
+export const MIN_TURN_SECONDS = 15;
+export const MAX_TURN_SECONDS = 24 * 60 * 60;
+
+/**
+ * Per-game turn clock, chosen in the lobby:
+ * - seconds: time a human player gets for each turn
+ * - onTimeout: "skip" ends the turn, "ai" hands the seat to the AI until
+ *   the player takes it back
+ */
+export const turnTimerValidator = v.object({
+  seconds: v.number(),
+  onTimeout: v.union(v.literal("skip"), v.literal("ai")),
+  aiDifficulty: v.optional(v.union(
+    v.literal("easy"),
+    v.literal("medium"),
+    v.literal("hard")
+  )),
+});
+
+export type TurnTimer = Infer<typeof turnTimerValidator>;
+
+export const assertValidTurnTimer = (timer: TurnTimer) => {
+  if (timer.seconds < MIN_TURN_SECONDS || timer.seconds > MAX_TURN_SECONDS) {
+    throw new Error(`Turn time limit must be between ${MIN_TURN_SECONDS} and ${MAX_TURN_SECONDS} seconds`);
+  }
+};
+
+/**
+ * Start the clock for whoever is now the active player. Human seats get a
+ * deadline and a scheduled expireTurn; AI seats end their own turns, so any
+ * previous deadline is cleared. Simultaneous games run one clock per round,
+ * started while any living human is still planning.
+ */
+export const startTurnClock = async (ctx: MutationCtx, gameId: Id<"games">) => {
+  const game = await ctx.db.get(gameId);
+  if (!game || game.status !== "active") return;
+
+  const waitingOn = game.turnMode === "simultaneous"
+    ? game.playerOrder.filter((playerId) => !game.readyPlayerIds?.includes(playerId))
+    : game.playerOrder.slice(game.activePlayerIndex, game.activePlayerIndex + 1);
+  const players = await Promise.all(waitingOn.map((playerId) => ctx.db.get(playerId)));
+  const hasHuman = players.some((player) => player && player.isAlive && !player.isAI);
+
+  if (!game.turnTimer || !hasHuman) {
+    if (game.turnDeadline !== undefined) {
+      await ctx.db.patch(gameId, { turnDeadline: undefined });
+    }
+    return;
+  }
+
+  // The deadline doubles as the timer's token: a stale timer finds a different
+  // deadline on the game and does nothing
+  const delayMs = game.turnTimer.seconds * 1000;
+  const deadline = Date.now() + delayMs;
+  await ctx.db.patch(gameId, { turnDeadline: deadline });
+  await ctx.scheduler.runAfter(delayMs, internal.economy.expireTurn, { gameId, deadline });
+};
@@ -0,0 +1,165 @@
+import type { MutationCtx } from "../_generated/server";
+import type { Doc, Id } from "../_generated/dataModel";
+import { logEvent } from "./events";
+import { recordTurnSnapshot } from "./replay";
+import { getGameSettings, isAllianceVictoryOn } from "./settings";
+import type { GameSettings } from "./settings";
+import { computeScores } from "./score";
+import type { PlayerScore } from "./score";
+import { areAllAllied, getRelationsForGame } from "./diplomacy";
+
+export type VictoryResult = {
+  winner: Id<"players"> | null;
+  winners?: Id<"players">[]; // Alliance victory: every surviving ally
+  reason: string;
+  message: string;
+};
+
+/**
+ * What the win conditions depend on besides the players still alive, so the
+ * decision can be made over any game state (e.g. the headless simulator's).
+ */
+export type VictoryFacts = {
+  allAllied: boolean; // Every surviving player is allied with every other
+  launched: Id<"players">[]; // Players whose Ark has launched
+  scores: PlayerScore[]; // Highest first; only read once the turn limit has passed
+};
+
+/** Whether the last turn of a limited game has been played. */
+export const isPastTurnLimit = (settings: GameSettings, turn: number) =>
+  settings.turnLimit !== undefined && turn > settings.turnLimit;
+
+/**
+ * Which of the enabled win conditions is met, if any, checked in order:
+ * everyone eliminated (draw), domination, alliance, ascension, and the
+ * turn limit (score victory, or a draw).
+ */
+export const decideVictory = (
+  settings: GameSettings,
+  turn: number,
+  alivePlayers: Doc<"players">[],
+  facts: VictoryFacts,
+): VictoryResult | null => {
+  // All players eliminated (draw)
+  if (alivePlayers.length === 0) {
+    return { winner: null, reason: "draw", message: "All factions were eliminated. Draw!" };
+  }
+
+  // Domination: last player standing
+  if (settings.victories.domination && alivePlayers.length === 1) {
+    const winner = alivePlayers[0];
+    return {
+      winner: winner._id,
+      reason: "domination",
+      message: `${winner.faction} achieved Domination Victory!`,
+    };
+  }
+
+  // Alliance: everyone still standing is allied with everyone else
+  if (isAllianceVictoryOn(settings) && alivePlayers.length > 1 && facts.allAllied) {
+    return {
+      winner: null,
+      winners: alivePlayers.map((p) => p._id),
+      reason: "alliance",
+      message: `${alivePlayers.map((p) => p.faction).join(", ")} achieved an Alliance Victory!`,
+    };
+  }
+
+  // Ascension: an Ark survived its launch countdown
+  const ascended = alivePlayers.find((p) => facts.launched.includes(p._id));
+  if (settings.victories.ascension && ascended) {
+    return {
+      winner: ascended._id,
+      reason: "ascension",
+      message: `${ascended.faction} launched The Ark! Ascension Victory!`,
+    };
+  }
+
+  // Turn limit: the last turn has been played
+  if (isPastTurnLimit(settings, turn)) {
+    if (settings.victories.score) {
+      const [leader, runnerUp] = facts.scores;
+      if (leader && leader.total !== runnerUp?.total) {
+        const winner = alivePlayers.find((p) => p._id === leader.playerId)!;
+        return {
+          winner: winner._id,
+          reason: "score",
+          message: `${winner.faction} led with ${leader.total} points! Score Victory!`,
+        };
+      }
+      return {
+        winner: null,
+        reason: "turn_limit",
+        message: `The turn limit was reached with the top score tied at ${leader?.total ?? 0}. Draw!`,
+      };
+    }
+    return {
+      winner: null,
+      reason: "turn_limit",
+      message: `The turn limit of ${settings.turnLimit} was reached. Draw!`,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Check the game's enabled win conditions and end the game if one is met.
+ * Called at turn boundaries and whenever a player is eliminated.
+ */
+export const evaluateVictory = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+): Promise<VictoryResult | { winner: null; reason: null }> => {
+  if (game.status !== "active") {
+    return { winner: null, reason: null };
+  }
+
+  const settings = getGameSettings(game);
+  const players = await ctx.db
+    .query("players")
+    .withIndex("by_game", (q) => q.eq("gameId", game._id))
+    .collect();
+
+  const alivePlayers = players.filter((p) => p.isAlive);
+  const facts: VictoryFacts = { allAllied: false, launched: [], scores: [] };
+
+  if (isAllianceVictoryOn(settings) && alivePlayers.length > 1) {
+    const relations = await getRelationsForGame(ctx, game._id);
+    facts.allAllied = areAllAllied(relations, alivePlayers.map((p) => p._id));
+  }
+
+  if (settings.victories.ascension) {
+    for (const player of alivePlayers) {
+      const silos = await ctx.db
+        .query("buildings")
+        .withIndex("by_player", (q) => q.eq("playerId", player._id))
+        .filter((q) => q.eq(q.field("type"), "silo"))
+        .collect();
+
+      if (silos.some((silo) => silo.ark?.launchIn !== undefined && silo.ark.launchIn <= 0)) {
+        facts.launched.push(player._id);
+      }
+    }
+  }
+
+  if (settings.victories.score && isPastTurnLimit(settings, game.turn)) {
+    facts.scores = await computeScores(ctx, game, alivePlayers);
+  }
+
+  const result = decideVictory(settings, game.turn, alivePlayers, facts);
+  return result ? endGame(ctx, game, result) : { winner: null, reason: null };
+};
+
+/** Mark the game ended, record how (event and final board) and hand the result back. */
+const endGame = async <T extends VictoryResult>(ctx: MutationCtx, game: Doc<"games">, result: T) => {
+  await ctx.db.patch(game._id, { status: "ended", turnDeadline: undefined });
+  await logEvent(ctx, game, {
+    type: "game_ended",
+    actorId: result.winner ?? undefined,
+    outcome: { winner: result.winner, winners: result.winners, reason: result.reason },
+    message: result.message,
+  });
+  await recordTurnSnapshot(ctx, game._id, { isFinal: true });
+  return result;
+};
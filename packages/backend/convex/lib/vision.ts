@@ -1,42 +1,341 @@
+import type { MutationCtx, QueryCtx } from "../_generated/server";
 import type { Doc, Id } from "../_generated/dataModel";
-import { DEFAULT_VISION_RADIUS, WEATHER_DEFS, WeatherType } from "./constants";
+import { BUILDING_BASE_VISION, BUILDING_DEFS, DEFAULT_VISION_RADIUS, RADAR, TERRAIN_DEFS, UNIT_DEFS } from "./constants";
 import { clampY, coordToIndex, wrapX } from "./grid";
+import { getRelationsForGame, getVisionPartners } from "./diplomacy";
 
 type GameDoc = Doc<"games">;
-type TileDoc = GameDoc["map"][number];
+type Ctx = QueryCtx | MutationCtx;
+type Weather = { type: string; turnsRemaining: number };
 
-export const revealAround = (
+/**
+ * A set of map tiles stored as a bitset (one bit per tile), so vision can live
+ * in a small per-player row instead of the shared games document.
+ */
+export type TileSet = Uint8Array;
+
+/**
+ * Two-state vision per player:
+ * - explored: terrain the player has ever seen (never shrinks)
+ * - visible: tiles currently in sight of their units and buildings
+ */
+export type Vision = {
+  explored: TileSet;
+  visible: TileSet;
+};
+
+export const createTileSet = (game: GameDoc): TileSet =>
+  new Uint8Array(Math.ceil((game.width * game.height) / 8));
+
+export const hasTile = (tiles: TileSet, index: number) =>
+  (tiles[index >> 3] & (1 << (index & 7))) !== 0;
+
+export const countTiles = (tiles: TileSet) => {
+  let count = 0;
+  for (const byte of tiles) {
+    for (let bits = byte; bits !== 0; bits &= bits - 1) {
+      count += 1;
+    }
+  }
+  return count;
+};
+
+export const addTile = (tiles: TileSet, index: number) => {
+  if (hasTile(tiles, index)) {
+    return false;
+  }
+  tiles[index >> 3] |= 1 << (index & 7);
+  return true;
+};
+
+const toTileSet = (bytes: ArrayBuffer) => new Uint8Array(bytes.slice(0));
+
+export const getVision = async (ctx: Ctx, game: GameDoc, playerId: Id<"players">): Promise<Vision> => {
+  const vision = await ctx.db
+    .query("vision")
+    .withIndex("by_player", (q) => q.eq("playerId", playerId))
+    .unique();
+  if (!vision) {
+    return { explored: createTileSet(game), visible: createTileSet(game) };
+  }
+  return { explored: toTileSet(vision.explored), visible: toTileSet(vision.visible) };
+};
+
+export const saveVision = async (
+  ctx: MutationCtx,
   game: GameDoc,
-  map: TileDoc[],
   playerId: Id<"players">,
+  vision: Vision,
+) => {
+  const existing = await ctx.db
+    .query("vision")
+    .withIndex("by_player", (q) => q.eq("playerId", playerId))
+    .unique();
+  const fields = {
+    explored: vision.explored.slice().buffer,
+    visible: vision.visible.slice().buffer,
+  };
+  if (existing) {
+    await ctx.db.patch(existing._id, fields);
+  } else {
+    await ctx.db.insert("vision", { gameId: game._id, playerId, ...fields });
+  }
+};
+
+/** Dust storms shorten sight (minimum 1), clear skies extend it. */
+export const applyWeatherToVision = (radius: number, activeWeather?: Weather) => {
+  if (activeWeather?.type === "dust_storm") {
+    return Math.max(1, radius - 1);
+  }
+  if (activeWeather?.type === "clear_skies") {
+    return radius + 1;
+  }
+  return radius;
+};
+
+/**
+ * Walk the straight line from a viewer to an offset and report whether solid
+ * rock sits between them. The target tile itself never blocks, so the face of
+ * a rock wall is always seen.
+ */
+const isSightBlocked = (game: GameDoc, x: number, y: number, dx: number, dy: number) => {
+  const steps = Math.max(Math.abs(dx), Math.abs(dy));
+  for (let step = 1; step < steps; step += 1) {
+    const sx = wrapX(x + Math.round((dx * step) / steps), game.width);
+    const sy = y + Math.round((dy * step) / steps);
+    const tile = game.map[coordToIndex(game.width, sx, sy)];
+    if (tile && TERRAIN_DEFS[tile.type]?.blocksSight) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/** Whether the straight line between two tiles is clear of solid rock. */
+export const hasLineOfSight = (game: GameDoc, fromX: number, fromY: number, toX: number, toY: number) => {
+  // Take the short way around the cylinder
+  let dx = wrapX(toX - fromX, game.width);
+  if (dx > game.width / 2) {
+    dx -= game.width;
+  }
+  return !isSightBlocked(game, fromX, fromY, dx, toY - fromY);
+};
+
+/** Every tile in a square radius of a point, whatever lies in between. */
+const getTilesInRadius = (game: GameDoc, x: number, y: number, radius: number) => {
+  const tiles: number[] = [];
+  for (let dy = -radius; dy <= radius; dy += 1) {
+    const ny = y + dy;
+    if (ny < 0 || ny >= game.height) continue;
+    for (let dx = -radius; dx <= radius; dx += 1) {
+      tiles.push(coordToIndex(game.width, wrapX(x + dx, game.width), ny));
+    }
+  }
+  return tiles;
+};
+
+/** Tiles within a radius of a point that are not hidden behind solid rock. */
+export const getTilesInSight = (
+  game: GameDoc,
   x: number,
   y: number,
-  radius = DEFAULT_VISION_RADIUS,
-  activeWeather?: { type: string; turnsRemaining: number },
+  radius: number,
+  activeWeather?: Weather,
 ) => {
-  // Apply weather modifiers to radius
-  let modifiedRadius = radius;
-  if (activeWeather) {
-    if (activeWeather.type === "dust_storm") {
-      modifiedRadius = Math.max(1, radius - 1); // Minimum 1
-    } else if (activeWeather.type === "clear_skies") {
-        modifiedRadius = radius + 1;
+  const modifiedRadius = applyWeatherToVision(radius, activeWeather);
+  const tiles: number[] = [];
+
+  for (let dy = -modifiedRadius; dy <= modifiedRadius; dy += 1) {
+    const ny = y + dy;
+    if (ny < 0 || ny >= game.height) continue;
+    for (let dx = -modifiedRadius; dx <= modifiedRadius; dx += 1) {
+      if (isSightBlocked(game, x, y, dx, dy)) continue;
+      tiles.push(coordToIndex(game.width, wrapX(x + dx, game.width), ny));
     }
   }
 
+  return tiles;
+};
+
+/**
+ * Mark every tile in a square radius as explored, ignoring line of sight.
+ * Used for map data (e.g. satellite uplinks), not for what units see.
+ * Returns true if anything new was revealed.
+ */
+export const revealAround = (
+  game: GameDoc,
+  explored: TileSet,
+  x: number,
+  y: number,
+  radius = DEFAULT_VISION_RADIUS,
+  activeWeather?: Weather,
+) => {
+  const modifiedRadius = applyWeatherToVision(radius, activeWeather);
+  let revealed = false;
+
   for (let dy = -modifiedRadius; dy <= modifiedRadius; dy += 1) {
     for (let dx = -modifiedRadius; dx <= modifiedRadius; dx += 1) {
       const ny = clampY(y + dy, game.height);
       const nx = wrapX(x + dx, game.width);
-      const idx = coordToIndex(game.width, nx, ny);
-      const tile = map[idx];
-      if (!tile.visibility.some((id) => id === playerId)) {
-        map[idx] = {
-          ...tile,
-          visibility: [...tile.visibility, playerId],
-        };
+      if (addTile(explored, coordToIndex(game.width, nx, ny))) {
+        revealed = true;
       }
     }
   }
+
+  return revealed;
 };
 
+/**
+ * Add what a viewer at (x, y) can see to a player's vision: those tiles become
+ * visible for the rest of the turn and explored for good.
+ * Returns true if the vision changed.
+ */
+export const seeAround = (
+  game: GameDoc,
+  vision: Vision,
+  x: number,
+  y: number,
+  radius = DEFAULT_VISION_RADIUS,
+) => {
+  let changed = false;
+  for (const idx of getTilesInSight(game, x, y, radius, game.activeWeather)) {
+    const newlyVisible = addTile(vision.visible, idx);
+    const newlyExplored = addTile(vision.explored, idx);
+    changed = changed || newlyVisible || newlyExplored;
+  }
+  return changed;
+};
+
+/**
+ * Add a radar sweep centred on (x, y) to a player's vision. Radar sees through
+ * rock and ignores weather. Returns true if the vision changed.
+ */
+export const sweepAround = (game: GameDoc, vision: Vision, x: number, y: number) => {
+  let changed = false;
+  for (const idx of getTilesInRadius(game, x, y, RADAR.RADIUS)) {
+    const newlyVisible = addTile(vision.visible, idx);
+    const newlyExplored = addTile(vision.explored, idx);
+    changed = changed || newlyVisible || newlyExplored;
+  }
+  return changed;
+};
+
+/**
+ * Look from a point for one player, writing their vision row only if it
+ * changed. Returns whether it did.
+ */
+export const seeAroundForPlayer = async (
+  ctx: MutationCtx,
+  game: GameDoc,
+  playerId: Id<"players">,
+  x: number,
+  y: number,
+  radius = DEFAULT_VISION_RADIUS,
+) => {
+  const vision = await getVision(ctx, game, playerId);
+  const changed = seeAround(game, vision, x, y, radius);
+  if (changed) {
+    await saveVision(ctx, game, playerId, vision);
+  }
+  return changed;
+};
+
+/** Tiles currently in sight of a player's units and buildings. */
+export const computeVisibleTiles = (
+  game: GameDoc,
+  playerId: Id<"players">,
+  units: Doc<"units">[],
+  buildings: Doc<"buildings">[],
+) => {
+  const visible = createTileSet(game);
+
+  const look = (x: number, y: number, radius: number) => {
+    for (const idx of getTilesInSight(game, x, y, radius, game.activeWeather)) {
+      addTile(visible, idx);
+    }
+  };
+
+  for (const unit of units) {
+    if (unit.playerId !== playerId) continue;
+    look(unit.x, unit.y, UNIT_DEFS[unit.type]?.vision ?? 1);
+    if (unit.radarSweep) {
+      for (const idx of getTilesInRadius(game, unit.radarSweep.x, unit.radarSweep.y, RADAR.RADIUS)) {
+        addTile(visible, idx);
+      }
+    }
+  }
+  for (const building of buildings) {
+    if (building.playerId !== playerId) continue;
+    look(building.x, building.y, BUILDING_DEFS[building.type]?.providesVision ?? BUILDING_BASE_VISION);
+  }
+
+  return visible;
+};
+
+/**
+ * Recompute every player's visible tiles from scratch. Run at turn boundaries
+ * so units that moved away or died stop providing sight, and whenever shared
+ * vision between allies starts or ends.
+ */
+export const refreshVision = async (ctx: MutationCtx, gameId: Id<"games">) => {
+  const game = await ctx.db.get(gameId);
+  if (!game) return;
+
+  const [units, buildings] = await Promise.all([
+    ctx.db
+      .query("units")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+    ctx.db
+      .query("buildings")
+      .withIndex("by_game", (q) => q.eq("gameId", gameId))
+      .collect(),
+  ]);
+
+  const ownSight = new Map(
+    game.playerOrder.map((playerId) => [playerId, computeVisibleTiles(game, playerId, units, buildings)]),
+  );
+  const relations = await getRelationsForGame(ctx, gameId);
+
+  for (const playerId of game.playerOrder) {
+    const { explored } = await getVision(ctx, game, playerId);
+    const visible = ownSight.get(playerId)!.slice();
+    // Allies with shared vision see everything the other sees
+    for (const allyId of getVisionPartners(relations, playerId)) {
+      const allySight = ownSight.get(allyId);
+      if (!allySight) continue;
+      for (let i = 0; i < visible.length; i += 1) {
+        visible[i] |= allySight[i];
+      }
+    }
+    for (let i = 0; i < explored.length; i += 1) {
+      explored[i] |= visible[i];
+    }
+    await saveVision(ctx, game, playerId, { explored, visible });
+  }
+};
+
+/**
+ * Apply a sighting to every ally sharing vision with a player, so what one
+ * side scouts mid-turn shows up for the other straight away. The callback
+ * updates the ally's vision and returns true if anything changed; the
+ * allies whose vision changed are returned.
+ */
+export const shareSight = async (
+  ctx: MutationCtx,
+  game: GameDoc,
+  playerId: Id<"players">,
+  look: (vision: Vision) => boolean,
+) => {
+  const relations = await getRelationsForGame(ctx, game._id);
+  const changed: Id<"players">[] = [];
+  for (const allyId of getVisionPartners(relations, playerId)) {
+    const vision = await getVision(ctx, game, allyId);
+    if (look(vision)) {
+      await saveVision(ctx, game, allyId, vision);
+      changed.push(allyId);
+    }
+  }
+  return changed;
+};
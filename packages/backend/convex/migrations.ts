@@ -0,0 +1,80 @@
+import { internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { getResources } from "./lib/resources";
+import { addTile, createTileSet, getVision, refreshVision, saveVision } from "./lib/vision";
+
+/**
+ * Backfill for games and players written before the current schema:
+ * - games.rngState: the RNG starts from the seed
+ * - players.resources.rare_earths: none banked yet
+ * - map tiles lose visibility, unitId and buildingId; who had seen each
+ *   tile becomes their explored tiles in the vision table
+ * The schema still accepts the old shapes, and the code reads them with
+ * those defaults, so old games play on before this has run. Run it once
+ * after deploying (`npx convex run migrations:migrateGames`); it works
+ * through the games a page at a time. Once it is done the legacy tile
+ * fields can come out of the schema.
+ */
+
+const GAMES_PER_PAGE = 20;
+
+const migrateGame = async (ctx: MutationCtx, game: Doc<"games">) => {
+  const players = await ctx.db
+    .query("players")
+    .withIndex("by_game", (q) => q.eq("gameId", game._id))
+    .collect();
+  for (const player of players) {
+    if (player.resources.rare_earths === undefined) {
+      await ctx.db.patch(player._id, { resources: getResources(player.resources) });
+    }
+  }
+
+  if (game.rngState === undefined) {
+    await ctx.db.patch(game._id, { rngState: game.seed });
+  }
+
+  const isLegacy = game.map.some(
+    (tile) => tile.visibility !== undefined || tile.unitId !== undefined || tile.buildingId !== undefined,
+  );
+  if (!isLegacy) return;
+
+  const seenBy = new Map(players.map((player) => [player._id, createTileSet(game)]));
+  game.map.forEach((tile, idx) => {
+    for (const playerId of tile.visibility ?? []) {
+      const explored = seenBy.get(playerId);
+      if (explored) addTile(explored, idx);
+    }
+  });
+  for (const [playerId, legacyExplored] of seenBy) {
+    const vision = await getVision(ctx, game, playerId);
+    for (let i = 0; i < legacyExplored.length; i += 1) {
+      vision.explored[i] |= legacyExplored[i];
+    }
+    await saveVision(ctx, game, playerId, vision);
+  }
+
+  await ctx.db.patch(game._id, {
+    map: game.map.map(({ type, resource }) => ({ type, resource })),
+  });
+  // What is in sight now, from where the units and buildings stand
+  await refreshVision(ctx, game._id);
+};
+
+export const migrateGames = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query("games").paginate({ cursor: args.cursor ?? null, numItems: GAMES_PER_PAGE });
+    for (const game of page.page) {
+      await migrateGame(ctx, game);
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.migrateGames, { cursor: page.continueCursor });
+    }
+    return { migrated: page.page.length, isDone: page.isDone };
+  },
+});
@@ -2,19 +2,25 @@ import { mutation, query } from "./_generated/server";
 import type { MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
-import { STARTING_RESOURCES, UNIT_DEFS, SKY_ROWS, FACTIONS } from "./lib/constants";
+import { UNIT_DEFS, SKY_ROWS, FACTIONS } from "./lib/constants";
 import { coordToIndex } from "./lib/grid";
-import { getGameOrThrow } from "./lib/gameHelpers";
-import { revealAround } from "./lib/vision";
+import { getGameOrThrow, indexByTile, isPlayersTurn } from "./lib/gameHelpers";
+import { getUserIdOrThrow, getViewerPlayer, getViewerPlayerOrThrow } from "./lib/auth";
+import { redactPlayersFor } from "./lib/fog";
+import { startTurnClock } from "./lib/turnTimer";
+import { getGameSettings } from "./lib/settings";
+import { seeAroundForPlayer } from "./lib/vision";
+import { getGameRng } from "./lib/random";
+import type { Rng } from "./lib/random";
 import { AI_NAMES } from "./ai/constants";
 
 export const joinGame = mutation({
   args: {
     gameId: v.id("games"),
     faction: v.string(),
-    userId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserIdOrThrow(ctx);
     const game = await getGameOrThrow(ctx, args.gameId);
     if (game.status !== "lobby") {
       throw new Error("Game is no longer accepting players");
@@ -25,30 +31,33 @@ export const joinGame = mutation({
       .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
       .collect();
 
-    if (
-      args.userId &&
-      existingPlayers.some((player) => player.userId && player.userId === args.userId)
-    ) {
+    if (existingPlayers.some((player) => player.userId === userId)) {
       throw new Error("User already joined this game");
     }
 
+    const settings = getGameSettings(game);
+    if (existingPlayers.length >= settings.maxPlayers) {
+      throw new Error("Maximum players reached");
+    }
+
     const playerOrder = existingPlayers.length;
 
     const playerId = await ctx.db.insert("players", {
       gameId: args.gameId,
-      userId: args.userId,
+      userId,
       faction: args.faction,
-      resources: { ...STARTING_RESOURCES },
+      resources: { ...settings.startingResources },
       techUnlocked: [],
       isAlive: true,
       order: playerOrder,
     });
 
-    const nextMap = await spawnSettler(ctx, game, playerId);
+    const rng = getGameRng(game);
+    await spawnSettler(ctx, game, playerId, rng);
 
     await ctx.db.patch(game._id, {
-      map: nextMap,
       playerOrder: [...game.playerOrder, playerId],
+      rngState: rng.state,
     });
 
     return playerId;
@@ -60,23 +69,32 @@ export const listPlayers = query({
     gameId: v.id("games"),
   },
   handler: async (ctx, args) => {
-    return ctx.db
-      .query("players")
-      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
-      .collect();
+    const [players, viewer] = await Promise.all([
+      ctx.db
+        .query("players")
+        .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+        .collect(),
+      getViewerPlayer(ctx, args.gameId),
+    ]);
+    return redactPlayersFor(players, viewer?._id ?? null);
   },
 });
 
-const spawnSettler = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"players">) => {
+/** Land a player's Lander on a free surface tile and look around from it. */
+export const spawnSettler = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  playerId: Id<"players">,
+  rng: Rng,
+) => {
   const { hp, maxMoves, vision } = UNIT_DEFS.settler;
-  const mapCopy = [...game.map];
 
-  const spawn = findSpawnTile(game, mapCopy);
+  const spawn = await findSpawnTile(ctx, game, rng);
   if (!spawn) {
     throw new Error("No available spawn tiles");
   }
 
-  const unitId = await ctx.db.insert("units", {
+  await ctx.db.insert("units", {
     gameId: game._id,
     playerId,
     type: "settler",
@@ -87,46 +105,46 @@ const spawnSettler = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"
     maxMoves,
   });
 
-  const spawnIndex = coordToIndex(game.width, spawn.x, spawn.y);
-  const currentVisibility = mapCopy[spawnIndex].visibility;
-  const alreadyVisible = currentVisibility.some((id) => id === playerId);
-  mapCopy[spawnIndex] = {
-    ...mapCopy[spawnIndex],
-    unitId,
-    visibility: alreadyVisible ? currentVisibility : [...currentVisibility, playerId],
-  };
-
-  revealAround(game, mapCopy, playerId, spawn.x, spawn.y, vision);
-
-  return mapCopy;
+  await seeAroundForPlayer(ctx, game, playerId, spawn.x, spawn.y, vision);
 };
 
-const findSpawnTile = (game: Doc<"games">, map: Doc<"games">["map"]) => {
+const findSpawnTile = async (ctx: MutationCtx, game: Doc<"games">, rng: Rng) => {
   const preferredY = SKY_ROWS;
+
+  const [units, buildings] = await Promise.all([
+    ctx.db
+      .query("units")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect(),
+    ctx.db
+      .query("buildings")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect(),
+  ]);
+  const unitsByTile = indexByTile(game, units);
+  const buildingsByTile = indexByTile(game, buildings);
   
   // Collect all valid spawn tiles first
   const validSpawns: { x: number; y: number }[] = [];
   
   for (let x = 0; x < game.width; x++) {
     const idx = coordToIndex(game.width, x, preferredY);
-    const tile = map[idx];
+    const tile = game.map[idx];
     if (
       (tile.type === "surface" || tile.type === "dirt") &&
-      tile.unitId === undefined &&
-      tile.buildingId === undefined
+      !unitsByTile.has(idx) &&
+      !buildingsByTile.has(idx)
     ) {
       validSpawns.push({ x, y: preferredY });
     }
   }
   
   // Return a random valid spawn tile
-  if (validSpawns.length === 0) return undefined;
-  const randomIndex = Math.floor(Math.random() * validSpawns.length);
-  return validSpawns[randomIndex];
+  return rng.pick(validSpawns);
 };
 
 /**
- * Add an AI player to a game lobby
+ * Add an AI player to a game lobby (host only)
  */
 export const addAIPlayer = mutation({
   args: {
@@ -135,6 +153,10 @@ export const addAIPlayer = mutation({
   },
   handler: async (ctx, args) => {
     const game = await getGameOrThrow(ctx, args.gameId);
+    const viewer = await getViewerPlayerOrThrow(ctx, args.gameId);
+    if (game.playerOrder[0] !== viewer._id) {
+      throw new Error("Only the host can add AI players");
+    }
     if (game.status !== "lobby") {
       throw new Error("Game is no longer accepting players");
     }
@@ -145,19 +167,22 @@ export const addAIPlayer = mutation({
       .collect();
 
     // Limit max players
-    if (existingPlayers.length >= 4) {
+    const settings = getGameSettings(game);
+    if (existingPlayers.length >= settings.maxPlayers) {
       throw new Error("Maximum players reached");
     }
 
+    const rng = getGameRng(game);
+
     // Pick a random faction that's not already taken
     const takenFactions = new Set(existingPlayers.map((p) => p.faction));
     const availableFactions = FACTIONS.filter((f) => !takenFactions.has(f));
-    const faction = availableFactions[Math.floor(Math.random() * availableFactions.length)] || "terran_corp";
+    const faction = rng.pick(availableFactions) || "terran_corp";
 
     // Pick a random AI name that's not already used
     const takenNames = new Set(existingPlayers.filter((p) => p.aiName).map((p) => p.aiName));
     const availableNames = AI_NAMES.filter((n) => !takenNames.has(n));
-    const aiName = availableNames[Math.floor(Math.random() * availableNames.length)] || `AI-${existingPlayers.length}`;
+    const aiName = rng.pick(availableNames) || `AI-${existingPlayers.length}`;
 
     const playerOrder = existingPlayers.length;
 
@@ -165,7 +190,7 @@ export const addAIPlayer = mutation({
       gameId: args.gameId,
       userId: undefined, // AI players don't have user IDs
       faction,
-      resources: { ...STARTING_RESOURCES },
+      resources: { ...settings.startingResources },
       techUnlocked: [],
       isAlive: true,
       order: playerOrder,
@@ -174,11 +199,11 @@ export const addAIPlayer = mutation({
       aiName,
     });
 
-    const nextMap = await spawnSettler(ctx, game, playerId);
+    await spawnSettler(ctx, game, playerId, rng);
 
     await ctx.db.patch(game._id, {
-      map: nextMap,
       playerOrder: [...game.playerOrder, playerId],
+      rngState: rng.state,
     });
 
     return playerId;
@@ -186,7 +211,7 @@ export const addAIPlayer = mutation({
 });
 
 /**
- * Remove an AI player from a game lobby
+ * Remove an AI player from a game lobby (host only)
  */
 export const removeAIPlayer = mutation({
   args: {
@@ -195,6 +220,10 @@ export const removeAIPlayer = mutation({
   },
   handler: async (ctx, args) => {
     const game = await getGameOrThrow(ctx, args.gameId);
+    const viewer = await getViewerPlayerOrThrow(ctx, args.gameId);
+    if (game.playerOrder[0] !== viewer._id) {
+      throw new Error("Only the host can remove AI players");
+    }
     if (game.status !== "lobby") {
       throw new Error("Can only remove AI players from lobby");
     }
@@ -212,19 +241,24 @@ export const removeAIPlayer = mutation({
       .query("units")
       .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
       .collect();
-    
-    const mapCopy = [...game.map];
+
     for (const unit of units) {
-      const idx = coordToIndex(game.width, unit.x, unit.y);
-      mapCopy[idx] = { ...mapCopy[idx], unitId: undefined };
       await ctx.db.delete(unit._id);
     }
 
+    // Remove player's vision
+    const vision = await ctx.db
+      .query("vision")
+      .withIndex("by_player", (q) => q.eq("playerId", args.playerId))
+      .unique();
+    if (vision) {
+      await ctx.db.delete(vision._id);
+    }
+
     // Remove from player order
     const newPlayerOrder = game.playerOrder.filter((id) => id !== args.playerId);
 
     await ctx.db.patch(game._id, {
-      map: mapCopy,
       playerOrder: newPlayerOrder,
     });
 
@@ -233,3 +267,36 @@ export const removeAIPlayer = mutation({
   },
 });
 
+/**
+ * Take a seat back from the AI after a turn timeout put it on autopilot.
+ * If it is the player's turn, their clock starts again.
+ */
+export const resumeControl = mutation({
+  args: {
+    playerId: v.id("players"),
+  },
+  handler: async (ctx, args) => {
+    const player = await ctx.db.get(args.playerId);
+    if (!player) {
+      throw new Error("Player not found");
+    }
+    const viewer = await getViewerPlayerOrThrow(ctx, player.gameId);
+    if (viewer._id !== player._id) {
+      throw new Error("You do not control this player");
+    }
+    if (!player.autopilot) {
+      throw new Error("This seat is not on autopilot");
+    }
+
+    await ctx.db.patch(player._id, {
+      isAI: undefined,
+      aiDifficulty: undefined,
+      autopilot: undefined,
+    });
+
+    const game = await getGameOrThrow(ctx, player.gameId);
+    if (isPlayersTurn(game, player._id)) {
+      await startTurnClock(ctx, game._id);
+    }
+  },
+});
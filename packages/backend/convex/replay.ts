@@ -0,0 +1,98 @@
+import { query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { getGameOrThrow } from "./lib/gameHelpers";
+import { buildBoardView, filterStateForPlayer, toPublicGame } from "./lib/fog";
+import { restoreSnapshot } from "./lib/replay";
+import type { TileSet } from "./lib/vision";
+
+/**
+ * Replays of finished games, rebuilt from the turn snapshots taken while the
+ * game was played. Live games stay hidden so replays can't be used to scout.
+ */
+
+const getEndedGameOrThrow = async (ctx: QueryCtx, gameId: Id<"games">) => {
+  const game = await getGameOrThrow(ctx, gameId);
+  if (game.status !== "ended") {
+    throw new Error("Replays are available once the game has ended");
+  }
+  return game;
+};
+
+export const listReplayTurns = query({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    await getEndedGameOrThrow(ctx, args.gameId);
+
+    const snapshots = await ctx.db
+      .query("turnSnapshots")
+      .withIndex("by_game_turn", (q) => q.eq("gameId", args.gameId))
+      .collect();
+
+    return snapshots.map((snapshot) => ({
+      snapshotId: snapshot._id,
+      turn: snapshot.turn,
+      isFinal: snapshot.isFinal ?? false,
+    }));
+  },
+});
+
+/**
+ * One frame of a replay, shaped like getGameState. With a perspective the
+ * board is fogged to what that player could see at the time; without one
+ * the whole board is shown.
+ */
+export const getReplayFrame = query({
+  args: {
+    snapshotId: v.id("turnSnapshots"),
+    perspective: v.optional(v.id("players")),
+  },
+  handler: async (ctx, args) => {
+    const snapshot = await ctx.db.get(args.snapshotId);
+    if (!snapshot) {
+      throw new Error("Replay turn not found");
+    }
+
+    const liveGame = await getEndedGameOrThrow(ctx, snapshot.gameId);
+    const livePlayers = await ctx.db
+      .query("players")
+      .withIndex("by_game", (q) => q.eq("gameId", snapshot.gameId))
+      .collect();
+
+    const { game, players, units, buildings, visionByPlayer } = restoreSnapshot(
+      liveGame,
+      livePlayers,
+      snapshot,
+    );
+
+    if (args.perspective) {
+      if (!game.playerOrder.includes(args.perspective)) {
+        throw new Error("Player is not in this game");
+      }
+      return filterStateForPlayer(
+        game,
+        args.perspective,
+        players,
+        units,
+        buildings,
+        [],
+        visionByPlayer.get(args.perspective) ?? null,
+      );
+    }
+
+    const exploredBy = new Map<Id<"players">, TileSet>();
+    for (const [playerId, vision] of visionByPlayer) {
+      exploredBy.set(playerId, vision.explored);
+    }
+
+    return {
+      game: { ...toPublicGame(game), map: buildBoardView(game, units, buildings, exploredBy) },
+      players,
+      units,
+      buildings,
+    };
+  },
+});
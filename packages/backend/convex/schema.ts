@@ -1,5 +1,69 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { turnTimerValidator } from "./lib/turnTimer";
+import { costValidator, resourcesValidator, storedResourcesValidator } from "./lib/resources";
+import { gameSettingsValidator } from "./lib/settings";
+import { stanceValidator, treatyValidator } from "./lib/diplomacy";
+import { aiEconomyValidator, aiGoalValidator } from "./ai/strategy";
+
+const mapValidator = v.array(
+  v.object({
+    type: v.string(), // dirt, stone, bedrock, sky, water, city, etc.
+    resource: v.optional(v.string()),
+    // Legacy, from before occupancy and vision moved out of the map: only on
+    // games migrations.migrateGames has not reached yet, which drops them
+    buildingId: v.optional(v.id("buildings")),
+    unitId: v.optional(v.id("units")),
+    visibility: v.optional(v.array(v.id("players"))),
+  }),
+);
+
+const weatherValidator = v.object({
+  type: v.string(), // "dust_storm" | "solar_flare" | "acid_rain" | "clear_skies"
+  turnsRemaining: v.number(),
+});
+
+// stage indexes ARK_STAGES; launchIn is set once every stage is complete
+const arkValidator = v.object({
+  stage: v.number(),
+  progress: v.number(), // Turns of work done on the current stage
+  launchIn: v.optional(v.number()),
+});
+
+const unitFields = {
+  gameId: v.id("games"),
+  playerId: v.id("players"),
+  type: v.string(), // scout, miner, tank, etc.
+  x: v.number(),
+  y: v.number(),
+  hp: v.number(),
+  movesLeft: v.number(),
+  maxMoves: v.number(),
+  entrenched: v.optional(v.boolean()), // Marine entrench ability
+  buildsLeft: v.optional(v.number()), // Worker building uses remaining (starts at 3)
+  autoExplore: v.optional(v.boolean()), // Rover auto-explore mode
+  radarSweep: v.optional(v.object({ x: v.number(), y: v.number() })), // Rover radar: active until the owner's next turn
+  radarCooldown: v.optional(v.number()), // Rover radar: turns until it can sweep again
+  moveOrder: v.optional(v.object({
+    x: v.number(),
+    y: v.number(),
+    path: v.array(v.object({ x: v.number(), y: v.number() })), // Planned steps still to take
+  })), // Standing move order, followed at the end of each of the owner's turns
+};
+
+const buildingFields = {
+  gameId: v.id("games"),
+  playerId: v.id("players"),
+  type: v.string(), // city, farm, barracks, etc.
+  x: v.number(),
+  y: v.number(),
+  hp: v.number(),
+  buildProgress: v.optional(v.number()), // Current build progress (0 to turnsToComplete)
+  turnsToComplete: v.optional(v.number()), // Total turns needed to build
+  workerId: v.optional(v.id("units")), // Worker currently building this
+  isConstructing: v.optional(v.boolean()), // True if building is under construction
+  ark: v.optional(arkValidator), // Silo only: The Ark project under way here
+};
 
 export default defineSchema({
   games: defineTable({
@@ -9,33 +73,29 @@ export default defineSchema({
     width: v.number(),
     height: v.number(),
     seed: v.number(),
-    map: v.array(
-      v.object({
-        type: v.string(), // dirt, stone, bedrock, sky, water, city, etc.
-        resource: v.optional(v.string()),
-        buildingId: v.optional(v.id("buildings")),
-        unitId: v.optional(v.id("units")),
-        visibility: v.array(v.id("players")),
-      }),
-    ),
+    rngState: v.optional(v.number()), // Gameplay RNG, advanced by every random event; unset = starts from seed
+    // Terrain only: occupancy lives on units/buildings (by_position) and
+    // exploration in the per-player vision table
+    map: mapValidator,
     playerOrder: v.array(v.id("players")),
     createdAt: v.number(),
-    activeWeather: v.optional(v.object({
-      type: v.string(), // "dust_storm" | "solar_flare" | "acid_rain" | "clear_skies"
-      turnsRemaining: v.number(),
-    })),
+    activeWeather: v.optional(weatherValidator),
+    turnTimer: v.optional(turnTimerValidator), // Unset = untimed turns
+    turnDeadline: v.optional(v.number()), // When the active human's turn expires (ms)
+    turnMode: v.optional(v.union(v.literal("sequential"), v.literal("simultaneous"))), // Unset = sequential
+    readyPlayerIds: v.optional(v.array(v.id("players"))), // Simultaneous: players done planning this turn
+    settings: v.optional(gameSettingsValidator), // Lobby rules; unset = DEFAULT_GAME_SETTINGS
   }).index("by_status", ["status"]),
 
   players: defineTable({
     gameId: v.id("games"),
     userId: v.optional(v.string()), // Clerk ID, optional for bots
     faction: v.string(),
-    resources: v.object({
-      biomass: v.number(),
-      ore: v.number(),
-      flux: v.number(),
-    }),
+    resources: storedResourcesValidator,
     techUnlocked: v.array(v.string()),
+    researchQueue: v.optional(v.array(v.string())), // Head is being researched now
+    researchProgress: v.optional(v.record(v.string(), v.number())), // Points put into unfinished techs
+    researchBank: v.optional(v.number()), // Points earned with nothing queued, spent on the next tech
     isAlive: v.boolean(),
     order: v.number(),
     // AI player fields
@@ -46,38 +106,161 @@ export default defineSchema({
       v.literal("hard")
     )),
     aiName: v.optional(v.string()), // Display name for AI player
+    aiGoal: v.optional(aiGoalValidator), // Long-term goal, re-evaluated every AI turn
+    aiEconomy: v.optional(aiEconomyValidator), // Income growth, for when to stop pursuing economy goals
+    autopilot: v.optional(v.boolean()), // Human seat handed to the AI after a turn timeout
   })
     .index("by_game", ["gameId"])
     .index("by_user_game", ["userId", "gameId"]),
 
-  units: defineTable({
+  units: defineTable(unitFields)
+    .index("by_game", ["gameId"])
+    .index("by_player", ["playerId"])
+    .index("by_position", ["gameId", "x", "y"]),
+
+  buildings: defineTable(buildingFields)
+    .index("by_game", ["gameId"])
+    .index("by_player", ["playerId"])
+    .index("by_position", ["gameId", "x", "y"]),
+
+  // Per-player vision, one bit per map tile
+  vision: defineTable({
     gameId: v.id("games"),
     playerId: v.id("players"),
-    type: v.string(), // scout, miner, tank, etc.
-    x: v.number(),
-    y: v.number(),
-    hp: v.number(),
-    movesLeft: v.number(),
-    maxMoves: v.number(),
-    entrenched: v.optional(v.boolean()), // Marine entrench ability
-    buildsLeft: v.optional(v.number()), // Worker building uses remaining (starts at 3)
-    autoExplore: v.optional(v.boolean()), // Rover auto-explore mode
+    explored: v.bytes(), // Ever seen
+    visible: v.bytes(), // In sight this turn, recomputed at turn boundaries
   })
     .index("by_game", ["gameId"])
     .index("by_player", ["playerId"]),
 
-  buildings: defineTable({
+  // Last-seen snapshots of enemy buildings, per viewing player
+  buildingMemory: defineTable({
     gameId: v.id("games"),
-    playerId: v.id("players"),
-    type: v.string(), // city, farm, barracks, etc.
+    playerId: v.id("players"), // Viewer who remembers the building
+    buildingId: v.id("buildings"),
+    ownerId: v.id("players"),
+    type: v.string(),
     x: v.number(),
     y: v.number(),
     hp: v.number(),
-    buildProgress: v.optional(v.number()), // Current build progress (0 to turnsToComplete)
-    turnsToComplete: v.optional(v.number()), // Total turns needed to build
-    workerId: v.optional(v.id("units")), // Worker currently building this
-    isConstructing: v.optional(v.boolean()), // True if building is under construction
+    isConstructing: v.optional(v.boolean()),
+    seenOnTurn: v.number(),
   })
     .index("by_game", ["gameId"])
     .index("by_player", ["playerId"]),
+
+  // Append-only log of accepted commands and world events
+  gameEvents: defineTable({
+    gameId: v.id("games"),
+    turn: v.number(),
+    type: v.string(), // move | attack | end_turn | weather_started | elimination | ...
+    actorId: v.optional(v.id("players")), // Unset for world events
+    args: v.optional(v.any()), // Command arguments as accepted
+    outcome: v.optional(v.any()), // What the command did
+    message: v.optional(v.string()), // Human-readable summary
+    visibleTo: v.optional(v.array(v.id("players"))), // Unset = visible to everyone
+  }).index("by_game", ["gameId"]),
+
+  // Board state at the start of every turn (plus one when the game ends),
+  // kept so finished games can be replayed from any player's perspective
+  turnSnapshots: defineTable({
+    gameId: v.id("games"),
+    turn: v.number(),
+    isFinal: v.optional(v.boolean()), // Taken when the game ended
+    map: mapValidator,
+    activeWeather: v.optional(weatherValidator),
+    players: v.array(
+      v.object({
+        playerId: v.id("players"),
+        resources: resourcesValidator,
+        techUnlocked: v.array(v.string()),
+        isAlive: v.boolean(),
+      }),
+    ),
+    units: v.array(v.object({ unitId: v.id("units"), ...unitFields })),
+    buildings: v.array(v.object({ buildingId: v.id("buildings"), ...buildingFields })),
+    vision: v.array(
+      v.object({
+        playerId: v.id("players"),
+        explored: v.bytes(),
+        visible: v.bytes(),
+      }),
+    ),
+  }).index("by_game_turn", ["gameId", "turn"]),
+
+  // Simultaneous mode: commands queued while planning, resolved together
+  // once every player is ready
+  orders: defineTable({
+    gameId: v.id("games"),
+    turn: v.number(),
+    playerId: v.id("players"),
+    kind: v.union(
+      v.literal("move"),
+      v.literal("attack"),
+      v.literal("place_building"),
+      v.literal("continue_building"),
+    ),
+    args: v.any(), // Command arguments, replayed through the command's handler
+  }).index("by_game_turn", ["gameId", "turn"]),
+
+  // Diplomatic stance per pair of players (playerA < playerB); no row = war
+  diplomacy: defineTable({
+    gameId: v.id("games"),
+    playerA: v.id("players"),
+    playerB: v.id("players"),
+    status: stanceValidator,
+    sharedVision: v.boolean(), // Alliances only: both sides see what the other sees
+    since: v.number(), // Turn the current stance began
+  })
+    .index("by_game", ["gameId"])
+    .index("by_pair", ["playerA", "playerB"]),
+
+  // Treaty offers awaiting an answer; removed once accepted, rejected or withdrawn
+  diplomacyProposals: defineTable({
+    gameId: v.id("games"),
+    fromPlayerId: v.id("players"),
+    toPlayerId: v.id("players"),
+    treaty: treatyValidator,
+    sharedVision: v.boolean(),
+    turn: v.number(),
+  })
+    .index("by_game", ["gameId"])
+    .index("by_to", ["toPlayerId"]),
+
+  // Resource trades between players: pending offers, then (for tribute deals)
+  // the installments still owed; removed once settled, refused or broken
+  trades: defineTable({
+    gameId: v.id("games"),
+    fromPlayerId: v.id("players"), // Proposer, pays `give` on acceptance
+    toPlayerId: v.id("players"), // Pays `receive`, per turn if tributeTurns is set
+    give: costValidator,
+    receive: costValidator,
+    tributeTurns: v.optional(v.number()), // Unset = one-off exchange
+    status: v.union(v.literal("pending"), v.literal("tribute")),
+    turnsRemaining: v.optional(v.number()), // Tribute installments still owed
+    turn: v.number(), // Turn the offer was made
+  })
+    .index("by_game", ["gameId"])
+    .index("by_to", ["toPlayerId"]),
+
+  // In-game chat. Team and direct messages keep their audience as it was
+  // when sent, so later treaty changes don't reveal or hide old messages
+  messages: defineTable({
+    gameId: v.id("games"),
+    senderId: v.id("players"),
+    scope: v.union(v.literal("global"), v.literal("team"), v.literal("direct")),
+    recipientIds: v.optional(v.array(v.id("players"))), // Unset for global messages
+    body: v.string(),
+    turn: v.number(),
+  }).index("by_game", ["gameId"]),
+
+  // Non-players watching a game. Spectators have no seat, so every
+  // gameplay mutation rejects them
+  spectators: defineTable({
+    gameId: v.id("games"),
+    userId: v.string(), // Clerk ID
+    followPlayerId: v.optional(v.id("players")), // Unset = omniscient (delayed) view
+  })
+    .index("by_game", ["gameId"])
+    .index("by_user_game", ["userId", "gameId"]),
 });
@@ -0,0 +1,230 @@
+import { mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { getSpectator, getUserIdOrThrow, getViewerPlayer } from "./lib/auth";
+import { getGameOrThrow } from "./lib/gameHelpers";
+import { buildBoardView, filterStateForPlayer, toPublicGame } from "./lib/fog";
+import { restoreSnapshot } from "./lib/replay";
+import { getSpectatorRules } from "./lib/settings";
+import { getVision } from "./lib/vision";
+import type { TileSet } from "./lib/vision";
+
+/**
+ * Spectators watch games they are not playing in:
+ * 1. joinAsSpectator - Start watching an active game that allows it
+ * 2. followPlayer - Watch through one player's fog of war, or (no player)
+ *    the whole board; either way as it stood spectatorDelay turns ago
+ * 3. leaveSpectating - Stop watching
+ * Spectators never get a seat, so gameplay mutations reject them.
+ */
+
+export const joinAsSpectator = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserIdOrThrow(ctx);
+    const game = await getGameOrThrow(ctx, args.gameId);
+
+    if (game.status !== "active") {
+      throw new Error("Only games in progress can be watched");
+    }
+    if (!getSpectatorRules(game).allowed) {
+      throw new Error("This game does not allow spectators");
+    }
+    if (await getViewerPlayer(ctx, game._id)) {
+      throw new Error("You are playing in this game");
+    }
+
+    const existing = await getSpectator(ctx, game._id, userId);
+    if (existing) {
+      return existing._id;
+    }
+    return ctx.db.insert("spectators", { gameId: game._id, userId });
+  },
+});
+
+export const followPlayer = mutation({
+  args: {
+    gameId: v.id("games"),
+    playerId: v.optional(v.id("players")), // Omit for the omniscient view
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserIdOrThrow(ctx);
+    const spectator = await getSpectator(ctx, args.gameId, userId);
+    if (!spectator) {
+      throw new Error("You are not watching this game");
+    }
+
+    if (args.playerId) {
+      const game = await getGameOrThrow(ctx, args.gameId);
+      if (!game.playerOrder.includes(args.playerId)) {
+        throw new Error("Player is not in this game");
+      }
+    }
+
+    await ctx.db.patch(spectator._id, { followPlayerId: args.playerId });
+  },
+});
+
+export const leaveSpectating = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserIdOrThrow(ctx);
+    const spectator = await getSpectator(ctx, args.gameId, userId);
+    if (spectator) {
+      await ctx.db.delete(spectator._id);
+    }
+  },
+});
+
+/** Games in progress that can be watched, with how many are watching. */
+export const listWatchableGames = query({
+  args: {},
+  handler: async (ctx) => {
+    const games = await ctx.db
+      .query("games")
+      .withIndex("by_status", (q) => q.eq("status", "active"))
+      .collect();
+
+    const watchable = games.filter((game) => getSpectatorRules(game).allowed);
+    return Promise.all(
+      watchable.map(async (game) => {
+        const spectators = await ctx.db
+          .query("spectators")
+          .withIndex("by_game", (q) => q.eq("gameId", game._id))
+          .collect();
+        return {
+          gameId: game._id,
+          turn: game.turn,
+          playerCount: game.playerOrder.length,
+          spectatorCount: spectators.length,
+          width: game.width,
+          height: game.height,
+          delay: getSpectatorRules(game).delay,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * What a spectator sees, shaped like getGameState: one player's fogged view
+ * when following them, otherwise the full board. Both are shown as of the
+ * latest turn snapshot at least spectatorDelay turns old, so nothing a
+ * spectator sees can be relayed to a player still in the game. Once the
+ * game has ended (or with no delay) everything is live.
+ */
+export const getSpectatorView = query({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserIdOrThrow(ctx);
+    const spectator = await getSpectator(ctx, args.gameId, userId);
+    if (!spectator) {
+      throw new Error("You are not watching this game");
+    }
+    const game = await getGameOrThrow(ctx, args.gameId);
+    const { delay } = getSpectatorRules(game);
+
+    const players = await ctx.db
+      .query("players")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect();
+
+    const live = game.status === "ended" || delay === 0;
+    const followPlayerId = game.status === "ended" ? undefined : spectator.followPlayerId;
+
+    if (live) {
+      const [units, buildings] = await Promise.all([
+        ctx.db
+          .query("units")
+          .withIndex("by_game", (q) => q.eq("gameId", game._id))
+          .collect(),
+        ctx.db
+          .query("buildings")
+          .withIndex("by_game", (q) => q.eq("gameId", game._id))
+          .collect(),
+      ]);
+
+      if (followPlayerId) {
+        const [memories, vision] = await Promise.all([
+          ctx.db
+            .query("buildingMemory")
+            .withIndex("by_player", (q) => q.eq("playerId", followPlayerId))
+            .collect(),
+          getVision(ctx, game, followPlayerId),
+        ]);
+        return {
+          ...filterStateForPlayer(game, followPlayerId, players, units, buildings, memories, vision),
+          followPlayerId,
+          shownTurn: game.turn,
+          delay,
+        };
+      }
+
+      const visions = await ctx.db
+        .query("vision")
+        .withIndex("by_game", (q) => q.eq("gameId", game._id))
+        .collect();
+      const exploredBy = new Map(
+        visions.map((vision) => [vision.playerId, new Uint8Array(vision.explored)] as const),
+      );
+      return {
+        game: { ...toPublicGame(game), map: buildBoardView(game, units, buildings, exploredBy) },
+        players,
+        units,
+        buildings,
+        followPlayerId,
+        shownTurn: game.turn,
+        delay,
+      };
+    }
+
+    // Delayed view: the newest snapshot that is old enough
+    const snapshot = await ctx.db
+      .query("turnSnapshots")
+      .withIndex("by_game_turn", (q) => q.eq("gameId", game._id).lte("turn", game.turn - delay))
+      .order("desc")
+      .first();
+    if (!snapshot) {
+      // Too early in the game for a delayed view
+      return null;
+    }
+
+    const restored = restoreSnapshot(game, players, snapshot);
+    if (followPlayerId) {
+      return {
+        ...filterStateForPlayer(
+          restored.game,
+          followPlayerId,
+          restored.players,
+          restored.units,
+          restored.buildings,
+          [],
+          restored.visionByPlayer.get(followPlayerId) ?? null,
+        ),
+        followPlayerId,
+        shownTurn: snapshot.turn,
+        delay,
+      };
+    }
+
+    const exploredBy = new Map<Id<"players">, TileSet>();
+    for (const [playerId, vision] of restored.visionByPlayer) {
+      exploredBy.set(playerId, vision.explored);
+    }
+    return {
+      game: { ...toPublicGame(restored.game), map: buildBoardView(restored.game, restored.units, restored.buildings, exploredBy) },
+      players: restored.players,
+      units: restored.units,
+      buildings: restored.buildings,
+      followPlayerId,
+      shownTurn: snapshot.turn,
+      delay,
+    };
+  },
+});
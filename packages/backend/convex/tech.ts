@@ -1,83 +1,114 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { TECH_DEFS, FACTION_DEFS } from "./lib/constants";
-import type { FactionId } from "./lib/constants";
+import type { ObjectType } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { TECH_DEFS } from "./lib/constants";
 import { assertPlayerTurn, getGameOrThrow, getPlayerOrThrow } from "./lib/gameHelpers";
-import { subtractCost } from "./lib/resources";
+import { asAI, asPlayer, getViewerPlayer, getViewerPlayerOrThrow } from "./lib/auth";
+import { logEvent } from "./lib/events";
+import { appendToResearchQueue, assertCanQueueTech, getTechCost } from "./lib/research";
 
 /**
- * Tech Tree System per Phase 5 of plan:
+ * Tech Tree System per Phase 5 of plan, costs in research points:
  * - Tier 0 (Start): Planetary Survival (free)
- * - Tier 1 (25 Flux): Logistics, Militarization
- * - Tier 2 (50 Flux): Deep Core, Ballistics
- * - Tier 3 (100 Flux): Flight, Orbital Mechanics
- * - Tier 4 (200 Flux): The Ark Project (Victory)
+ * - Tier 1 (25): Logistics, Militarization
+ * - Tier 2 (50): Deep Core, Ballistics
+ * - Tier 3 (100): Heat Shield, Flight, Orbital Mechanics
+ * - Tier 4 (200): The Ark Project (Victory)
+ *
+ * Nothing is paid up front: each turn the tech at the head of a player's
+ * queue gets their research points (from buildings, plus up to
+ * RESEARCH_FLUX_PER_TURN Flux from the stockpile), progress is kept per
+ * tech, and overflow carries on to the next (see lib/research):
+ * 1. researchTech - Research a tech next, moving it to the head of the queue
+ * 2. queueTech - Add a tech to the end of the queue
+ * 3. dequeueTech - Drop a tech, and anything queued that depends on it
  */
 
-export const researchTech = mutation({
-  args: {
-    playerId: v.id("players"),
-    techId: v.string(),
-  },
-  handler: async (ctx, args) => {
-    const player = await getPlayerOrThrow(ctx, args.playerId);
-    const game = await getGameOrThrow(ctx, player.gameId);
-    assertPlayerTurn(game, player._id);
-
-    const techDef = TECH_DEFS[args.techId];
-    if (!techDef) {
-      throw new Error("Unknown technology");
-    }
-
-    // Check if already researched
-    if (player.techUnlocked.includes(args.techId)) {
-      throw new Error("Technology already researched");
-    }
-
-    // Check prerequisites
-    for (const prereq of techDef.prerequisites) {
-      if (!player.techUnlocked.includes(prereq)) {
-        const prereqDef = TECH_DEFS[prereq];
-        throw new Error(`Requires ${prereqDef?.name ?? prereq} first`);
-      }
+const saveResearchQueue = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  player: Doc<"players">,
+  queue: string[],
+  techId: string,
+) => {
+  await ctx.db.patch(player._id, { researchQueue: queue });
+  await logEvent(ctx, game, {
+    type: "research",
+    actorId: player._id,
+    args: { techId },
+    outcome: { queue },
+    visibleTo: [player._id],
+  });
+  return { queue };
+};
+
+const researchArgs = {
+  playerId: v.id("players"),
+  techId: v.string(),
+};
+
+const researchTechHandler = async (ctx: MutationCtx, args: ObjectType<typeof researchArgs>) => {
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+  assertPlayerTurn(game, player._id);
+
+  // At the head of the queue nothing can be researched ahead of it
+  assertCanQueueTech(player, args.techId, []);
+  const rest = (player.researchQueue ?? []).filter((techId) => techId !== args.techId);
+  return saveResearchQueue(ctx, game, player, [args.techId, ...rest], args.techId);
+};
+
+export const researchTech = mutation({ args: researchArgs, handler: asPlayer(researchTechHandler) });
+export const researchTechAsAI = internalMutation({ args: researchArgs, handler: asAI(researchTechHandler) });
+
+const queueTechHandler = async (ctx: MutationCtx, args: ObjectType<typeof researchArgs>) => {
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+  assertPlayerTurn(game, player._id);
+
+  return saveResearchQueue(ctx, game, player, appendToResearchQueue(player, args.techId), args.techId);
+};
+
+export const queueTech = mutation({ args: researchArgs, handler: asPlayer(queueTechHandler) });
+export const queueTechAsAI = internalMutation({ args: researchArgs, handler: asAI(queueTechHandler) });
+
+const dequeueTechHandler = async (ctx: MutationCtx, args: ObjectType<typeof researchArgs>) => {
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+  assertPlayerTurn(game, player._id);
+
+  const queue = player.researchQueue ?? [];
+  if (!queue.includes(args.techId)) {
+    throw new Error("Technology is not queued");
+  }
+
+  // Keep only techs whose prerequisites are still known or queued ahead
+  const kept: string[] = [];
+  for (const techId of queue) {
+    if (techId === args.techId) continue;
+    const prereqsMet = (TECH_DEFS[techId]?.prerequisites ?? []).every(
+      (prereq) => player.techUnlocked.includes(prereq) || kept.includes(prereq),
+    );
+    if (prereqsMet) {
+      kept.push(techId);
     }
+  }
+  return saveResearchQueue(ctx, game, player, kept, args.techId);
+};
 
-    // Calculate cost (Cyber Synapse gets 10% discount)
-    let fluxCost = techDef.cost;
-    const faction = player.faction as FactionId;
-    if (FACTION_DEFS[faction]?.trait === "networked") {
-      fluxCost = Math.floor(fluxCost * 0.9);
-    }
-
-    // Check affordability
-    const updatedResources = subtractCost(player.resources, { flux: fluxCost });
-
-    // Apply research
-    await ctx.db.patch(player._id, {
-      resources: updatedResources,
-      techUnlocked: [...player.techUnlocked, args.techId],
-    });
-
-    return {
-      techId: args.techId,
-      fluxSpent: fluxCost,
-      unlocks: techDef.unlocks,
-    };
-  },
-});
+export const dequeueTech = mutation({ args: researchArgs, handler: asPlayer(dequeueTechHandler) });
 
+/** The caller's tech tree: what they know, can research or queue, and their progress. */
 export const getAvailableTech = query({
   args: {
-    playerId: v.id("players"),
+    gameId: v.id("games"),
   },
   handler: async (ctx, args) => {
-    const player = await ctx.db.get(args.playerId);
-    if (!player) {
-      throw new Error("Player not found");
-    }
+    const player = await getViewerPlayerOrThrow(ctx, args.gameId);
 
-    const faction = player.faction as FactionId;
-    const hasDiscount = FACTION_DEFS[faction]?.trait === "networked";
+    const queue = player.researchQueue ?? [];
 
     const available: Array<{
       techId: string;
@@ -87,28 +118,32 @@ export const getAvailableTech = query({
       prerequisites: string[];
       unlocks: string[];
       description: string;
-      canResearch: boolean;
+      canResearch: boolean; // Prerequisites researched, so it can be worked on now
+      canQueue: boolean; // Prerequisites researched or queued
       alreadyResearched: boolean;
+      progress: number; // Points put in so far
+      queuePosition?: number; // 0 = being researched
     }> = [];
 
     for (const [techId, techDef] of Object.entries(TECH_DEFS)) {
       const alreadyResearched = player.techUnlocked.includes(techId);
       const prereqsMet = techDef.prerequisites.every((p) => player.techUnlocked.includes(p));
-      let cost = techDef.cost;
-      if (hasDiscount) {
-        cost = Math.floor(cost * 0.9);
-      }
+      const prereqsPlanned = techDef.prerequisites.every((p) => player.techUnlocked.includes(p) || queue.includes(p));
+      const position = queue.indexOf(techId);
 
       available.push({
         techId,
         name: techDef.name,
         tier: techDef.tier,
-        cost,
+        cost: getTechCost(techId, player.faction),
         prerequisites: techDef.prerequisites,
         unlocks: techDef.unlocks,
         description: techDef.description,
-        canResearch: !alreadyResearched && prereqsMet && player.resources.flux >= cost,
+        canResearch: !alreadyResearched && prereqsMet,
+        canQueue: !alreadyResearched && prereqsPlanned,
         alreadyResearched,
+        progress: player.researchProgress?.[techId] ?? 0,
+        queuePosition: position === -1 ? undefined : position,
       });
     }
 
@@ -118,11 +153,11 @@ export const getAvailableTech = query({
 
 export const canUnlock = query({
   args: {
-    playerId: v.id("players"),
+    gameId: v.id("games"),
     itemId: v.string(), // Unit or building type
   },
   handler: async (ctx, args) => {
-    const player = await ctx.db.get(args.playerId);
+    const player = await getViewerPlayer(ctx, args.gameId);
     if (!player) {
       return false;
     }
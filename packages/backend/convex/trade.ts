@@ -0,0 +1,223 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
+import { MAX_TRIBUTE_TURNS } from "./lib/constants";
+import { getGameOrThrow, getPlayerOrThrow } from "./lib/gameHelpers";
+import { asAI, asPlayer, getViewerPlayerOrThrow } from "./lib/auth";
+import { canAfford, costValidator } from "./lib/resources";
+import { assertValidCost, describeCost, isEmptyCost, transferResources } from "./lib/trade";
+import { logEvent } from "./lib/events";
+
+/**
+ * Resource trading between players:
+ * 1. proposeTrade - Offer `give` in exchange for `receive`. With tributeTurns
+ *    set, `receive` is owed every turn for that many turns instead of once
+ * 2. respondToTrade - The other side accepts (both sides pay at once; tribute
+ *    installments then follow at the start of each of the payer's turns) or
+ *    rejects
+ * 3. cancelTrade - The proposer withdraws an offer that is still pending
+ */
+
+const proposeTradeArgs = {
+  playerId: v.id("players"),
+  targetPlayerId: v.id("players"),
+  give: costValidator,
+  receive: costValidator,
+  tributeTurns: v.optional(v.number()),
+};
+
+const proposeTradeHandler = async (ctx: MutationCtx, args: ObjectType<typeof proposeTradeArgs>) => {
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const target = await getPlayerOrThrow(ctx, args.targetPlayerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+
+  if (game.status !== "active") {
+    throw new Error("Game is not active");
+  }
+  if (player._id === target._id) {
+    throw new Error("You cannot trade with yourself");
+  }
+  if (target.gameId !== game._id) {
+    throw new Error("That player is not in this game");
+  }
+  if (!player.isAlive || !target.isAlive) {
+    throw new Error("Eliminated players cannot trade");
+  }
+
+  assertValidCost(args.give);
+  assertValidCost(args.receive);
+  if (isEmptyCost(args.give) && isEmptyCost(args.receive)) {
+    throw new Error("A trade must exchange something");
+  }
+  if (args.tributeTurns !== undefined) {
+    if (!Number.isInteger(args.tributeTurns) || args.tributeTurns < 2 || args.tributeTurns > MAX_TRIBUTE_TURNS) {
+      throw new Error(`Tribute must last between 2 and ${MAX_TRIBUTE_TURNS} turns`);
+    }
+    if (isEmptyCost(args.receive)) {
+      throw new Error("A tribute must ask for something each turn");
+    }
+  }
+  if (!canAfford(player.resources, args.give)) {
+    throw new Error("Insufficient resources");
+  }
+
+  const existing = await ctx.db
+    .query("trades")
+    .withIndex("by_to", (q) => q.eq("toPlayerId", target._id))
+    .filter((q) => q.and(q.eq(q.field("fromPlayerId"), player._id), q.eq(q.field("status"), "pending")))
+    .first();
+  if (existing) {
+    throw new Error("You already have an offer pending with this player");
+  }
+
+  const tradeId = await ctx.db.insert("trades", {
+    gameId: game._id,
+    fromPlayerId: player._id,
+    toPlayerId: target._id,
+    give: args.give,
+    receive: args.receive,
+    tributeTurns: args.tributeTurns,
+    status: "pending",
+    turn: game.turn,
+  });
+
+  const asking = args.tributeTurns
+    ? `${describeCost(args.receive)} per turn for ${args.tributeTurns} turns`
+    : describeCost(args.receive);
+  await logEvent(ctx, game, {
+    type: "trade_proposed",
+    actorId: player._id,
+    args: { targetPlayerId: target._id, give: args.give, receive: args.receive, tributeTurns: args.tributeTurns },
+    outcome: { tradeId },
+    message: `${player.faction} offered ${describeCost(args.give)} for ${asking}`,
+    visibleTo: [player._id, target._id],
+  });
+
+  return { tradeId };
+};
+
+export const proposeTrade = mutation({ args: proposeTradeArgs, handler: asPlayer(proposeTradeHandler) });
+export const proposeTradeAsAI = internalMutation({ args: proposeTradeArgs, handler: asAI(proposeTradeHandler) });
+
+const respondToTradeArgs = {
+  playerId: v.id("players"),
+  tradeId: v.id("trades"),
+  accept: v.boolean(),
+};
+
+const respondToTradeHandler = async (ctx: MutationCtx, args: ObjectType<typeof respondToTradeArgs>) => {
+  const trade = await ctx.db.get(args.tradeId);
+  if (!trade || trade.status !== "pending") {
+    throw new Error("Trade offer not found");
+  }
+  if (trade.toPlayerId !== args.playerId) {
+    throw new Error("This offer was not made to you");
+  }
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const proposer = await getPlayerOrThrow(ctx, trade.fromPlayerId);
+  const game = await getGameOrThrow(ctx, player.gameId);
+  if (game.status !== "active") {
+    throw new Error("Game is not active");
+  }
+  const parties = [proposer._id, player._id];
+
+  if (!args.accept) {
+    await ctx.db.delete(trade._id);
+    await logEvent(ctx, game, {
+      type: "trade_rejected",
+      actorId: player._id,
+      args: { tradeId: trade._id },
+      message: `${player.faction} rejected the trade offer`,
+      visibleTo: parties,
+    });
+    return { accepted: false };
+  }
+
+  if (!proposer.isAlive) {
+    throw new Error("That player has been eliminated");
+  }
+  if (!canAfford(proposer.resources, trade.give)) {
+    throw new Error("They can no longer afford this trade");
+  }
+  if (!canAfford(player.resources, trade.receive)) {
+    throw new Error("Insufficient resources");
+  }
+
+  // Both sides pay at once; for a tribute this is the first installment
+  await transferResources(ctx, proposer._id, player._id, trade.give);
+  await transferResources(ctx, player._id, proposer._id, trade.receive);
+
+  if (trade.tributeTurns) {
+    await ctx.db.patch(trade._id, { status: "tribute", turnsRemaining: trade.tributeTurns - 1 });
+  } else {
+    await ctx.db.delete(trade._id);
+  }
+
+  await logEvent(ctx, game, {
+    type: "trade_accepted",
+    actorId: player._id,
+    args: { tradeId: trade._id },
+    outcome: { give: trade.give, receive: trade.receive, tributeTurns: trade.tributeTurns },
+    message: `${player.faction} accepted ${proposer.faction}'s trade`,
+    visibleTo: parties,
+  });
+
+  return { accepted: true, tributeTurns: trade.tributeTurns };
+};
+
+export const respondToTrade = mutation({ args: respondToTradeArgs, handler: asPlayer(respondToTradeHandler) });
+export const respondToTradeAsAI = internalMutation({ args: respondToTradeArgs, handler: asAI(respondToTradeHandler) });
+
+const cancelTradeArgs = {
+  playerId: v.id("players"),
+  tradeId: v.id("trades"),
+};
+
+const cancelTradeHandler = async (ctx: MutationCtx, args: ObjectType<typeof cancelTradeArgs>) => {
+  const trade = await ctx.db.get(args.tradeId);
+  if (!trade || trade.status !== "pending") {
+    throw new Error("Trade offer not found");
+  }
+  if (trade.fromPlayerId !== args.playerId) {
+    throw new Error("You did not make this offer");
+  }
+  const game = await getGameOrThrow(ctx, trade.gameId);
+
+  await ctx.db.delete(trade._id);
+  await logEvent(ctx, game, {
+    type: "trade_cancelled",
+    actorId: args.playerId,
+    args: { tradeId: trade._id },
+    message: "A trade offer was withdrawn",
+    visibleTo: [trade.fromPlayerId, trade.toPlayerId],
+  });
+
+  return { cancelled: true };
+};
+
+export const cancelTrade = mutation({ args: cancelTradeArgs, handler: asPlayer(cancelTradeHandler) });
+
+/**
+ * The caller's trades: offers they made or received, and tribute deals
+ * still running in either direction.
+ */
+export const listTrades = query({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const viewer = await getViewerPlayerOrThrow(ctx, args.gameId);
+    const trades = await ctx.db
+      .query("trades")
+      .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+      .collect();
+
+    const mine = trades.filter((trade) => trade.fromPlayerId === viewer._id || trade.toPlayerId === viewer._id);
+    return {
+      incoming: mine.filter((trade) => trade.status === "pending" && trade.toPlayerId === viewer._id),
+      outgoing: mine.filter((trade) => trade.status === "pending" && trade.fromPlayerId === viewer._id),
+      tributes: mine.filter((trade) => trade.status === "tribute"),
+    };
+  },
+});
@@ -1,15 +1,39 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
 import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
-import { BUILDING_DEFS, UNIT_DEFS, TERRAIN_DEFS, TECH_DEFS, RUIN_REWARDS } from "./lib/constants";
-import { clampY, coordToIndex, wrapX } from "./lib/grid";
-import { getGameOrThrow, getPlayerOrThrow, assertPlayerTurn } from "./lib/gameHelpers";
-import { revealAround } from "./lib/vision";
-import { subtractCost, addResources } from "./lib/resources";
+import type { ObjectType } from "convex/values";
+import { BUILDING_DEFS, RADAR, UNIT_DEFS } from "./lib/constants";
+import { coordToIndex, indexToCoord, wrapX } from "./lib/grid";
+import {
+  getGameOrThrow,
+  getPlayerOrThrow,
+  assertPlayerTurn,
+  getBuildingAt,
+  getUnitAt,
+  indexByTile,
+  withUpdatedMap,
+} from "./lib/gameHelpers";
+import { refreshBuildingMemory } from "./lib/fog";
+import { asAI, asPlayer, getViewerPlayer } from "./lib/auth";
+import { getVision, hasLineOfSight, hasTile, revealAround, saveVision, seeAround, seeAroundForPlayer, shareSight, sweepAround } from "./lib/vision";
+import type { Vision } from "./lib/vision";
+import { findPath, findReachable, scheduleSteps, stepDirection } from "./lib/pathfinding";
+import { canCrush, checkDestination, checkStep, getPathOptions, getStepBlocker, getStepTarget, getSteppedUnit } from "./lib/movement";
+import { checkFoundCity, checkSpawnUnit, findSpawnTile, getNewUnit } from "./lib/construction";
+import { addResources, subtractCost } from "./lib/resources";
+import { getGameRng } from "./lib/random";
+import type { Rng } from "./lib/random";
+import { logEvent } from "./lib/events";
+import { queueInSimultaneousMode } from "./lib/orders";
+import { getPeacefulPlayerIds, getRelationsForGame, getStance } from "./lib/diplomacy";
+import { destroyBuilding } from "./lib/ark";
+import { claimRuin, findRuinUnitTile } from "./lib/ruins";
+import type { RuinOutcome, RuinUnit } from "./lib/ruins";
 import type { ResourceKey } from "./lib/constants";
 
 const DIRECTIONS = ["L", "R", "U", "D"] as const;
-type Direction = (typeof DIRECTIONS)[number];
+export type Direction = (typeof DIRECTIONS)[number];
 
 /**
  * Movement with terrain costs per Phase 5:
@@ -19,476 +43,781 @@ type Direction = (typeof DIRECTIONS)[number];
  * - Bedrock: Impassable
  * - Water: Cost 2
  */
-export const move = mutation({
-  args: {
-    unitId: v.id("units"),
-    playerId: v.id("players"),
-    direction: v.union(
-      v.literal("L"),
-      v.literal("R"),
-      v.literal("U"),
-      v.literal("D"),
-    ),
-  },
-  handler: async (ctx, args) => {
-    const unit = await ctx.db.get(args.unitId);
-    if (!unit) {
-      throw new Error("Unit not found");
-    }
+const moveArgs = {
+  unitId: v.id("units"),
+  playerId: v.id("players"),
+  direction: v.union(
+    v.literal("L"),
+    v.literal("R"),
+    v.literal("U"),
+    v.literal("D"),
+  ),
+};
 
-    if (unit.playerId !== args.playerId) {
-      throw new Error("You do not control this unit");
-    }
+type Sighting = { x: number; y: number; reveal?: number; sight?: number };
 
-    const game = await getGameOrThrow(ctx, unit.gameId);
-    assertPlayerTurn(game, args.playerId);
+/**
+ * A run of movement steps (one move, a player's standing orders, or a
+ * simultaneous round) whose bookkeeping is done once by finishWalk: terrain
+ * cleared by ruins and crushing, units found in ruins, each mover's owner's
+ * vision (and what their allies sharing vision get to see) and the building
+ * memories that depend on them.
+ */
+export type Walk = {
+  game: Doc<"games">; // Map kept current as steps change terrain
+  rng: Rng;
+  mapChanged: boolean;
+  sight: Map<Id<"players">, { vision: Vision; changed: boolean; sightings: Sighting[] }>;
+  crushed: { x: number; y: number }[];
+  ruinUnits: RuinUnit[]; // Placed once every step has been taken
+};
 
-    const unitDef = UNIT_DEFS[unit.type];
-    if (!unitDef) {
-      throw new Error("Unknown unit type");
-    }
+export const beginWalk = (game: Doc<"games">): Walk => ({
+  game,
+  rng: getGameRng(game),
+  mapChanged: false,
+  sight: new Map(),
+  crushed: [],
+  ruinUnits: [],
+});
 
-    if (unit.movesLeft <= 0) {
-      throw new Error("Unit has no moves left");
-    }
+const getWalkSight = async (ctx: MutationCtx, walk: Walk, playerId: Id<"players">) => {
+  let sight = walk.sight.get(playerId);
+  if (!sight) {
+    sight = { vision: await getVision(ctx, walk.game, playerId), changed: false, sightings: [] };
+    walk.sight.set(playerId, sight);
+  }
+  return sight;
+};
 
-    // Solar Flare grounds air units
-    if (game.activeWeather?.type === "solar_flare" && unitDef.canFly) {
-       throw new Error("Air units are grounded during a Solar Flare!");
+const clearTile = (walk: Walk, idx: number) => {
+  walk.game = {
+    ...walk.game,
+    map: withUpdatedMap(walk.game, (map) => {
+      map[idx] = { ...map[idx], type: "surface" };
+    }),
+  };
+  walk.mapChanged = true;
+};
+
+/**
+ * Move a unit one tile under the movement rules, exploring a ruin or
+ * crushing an enemy building on the tile it enters. Who controls the unit
+ * and whose turn it is are the caller's to check; terrain and sight changes
+ * wait in the walk for finishWalk.
+ */
+export const takeStep = async (ctx: MutationCtx, walk: Walk, unit: Doc<"units">, direction: Direction) => {
+  const { game } = walk;
+  const target = getStepTarget(game, unit, direction);
+  const [player, occupant] = await Promise.all([
+    getPlayerOrThrow(ctx, unit.playerId),
+    getUnitAt(ctx, game._id, target.x, target.y),
+  ]);
+  const moveCost = checkStep(game, unit, player, target, occupant);
+  const { x: targetX, y: targetY, idx: toIdx } = target;
+  const unitDef = UNIT_DEFS[unit.type];
+
+  const sight = await getWalkSight(ctx, walk, unit.playerId);
+  const sighting: Sighting = { x: targetX, y: targetY, sight: unitDef.vision };
+
+  let ruin: RuinOutcome | undefined;
+
+  // Exploring ruins claims whatever they hold and clears the tile
+  if (game.map[toIdx].type === "ruins") {
+    ruin = await claimRuin(ctx, game, walk.rng, player, unit);
+    if (ruin.unitType) {
+      walk.ruinUnits.push({ playerId: unit.playerId, unitType: ruin.unitType, x: unit.x, y: unit.y });
+    }
+    if (ruin.visionRadius !== undefined) {
+      sighting.reveal = ruin.visionRadius; // Map reward
+      sight.changed = revealAround(game, sight.vision.explored, targetX, targetY, ruin.visionRadius) || sight.changed;
+    }
+    clearTile(walk, toIdx);
+  }
+
+  // Tank Crush ability: destroy enemy buildings on move
+  let crushedBuilding = false;
+  if (canCrush(unit)) {
+    const building = await getBuildingAt(ctx, game._id, targetX, targetY);
+    if (building && (await getStance(ctx, unit.playerId, building.playerId)) === "war") {
+      // Destroy enemy building, reverting the tile to base terrain
+      await destroyBuilding(ctx, game, building, unit.playerId);
+      clearTile(walk, toIdx);
+      walk.crushed.push({ x: targetX, y: targetY });
+      crushedBuilding = true;
     }
+  }
 
-    const { dx, dy } = directionToDelta(args.direction);
-    const targetX = wrapX(unit.x + dx, game.width);
-    const targetY = clampY(unit.y + dy, game.height);
+  if (unitDef.vision !== undefined) {
+    // Sight is traced over the updated terrain (e.g. a cleared ruin)
+    sight.changed = seeAround(walk.game, sight.vision, targetX, targetY, unitDef.vision) || sight.changed;
+  }
+  sight.sightings.push(sighting);
 
-    const fromIdx = coordToIndex(game.width, unit.x, unit.y);
-    const toIdx = coordToIndex(game.width, targetX, targetY);
+  await ctx.db.patch(unit._id, getSteppedUnit(unit, target, moveCost, ruin));
 
-    if (fromIdx === toIdx) {
-      throw new Error("Cannot move out of bounds");
-    }
+  if (ruin) {
+    await logEvent(ctx, game, {
+      type: "ruin_explored",
+      actorId: unit.playerId,
+      outcome: { ...ruin, x: targetX, y: targetY },
+      message: ruin.message,
+      visibleTo: [unit.playerId],
+    });
+  }
 
-    const targetTile = game.map[toIdx];
-    const terrainDef = TERRAIN_DEFS[targetTile.type] ?? TERRAIN_DEFS.surface;
+  return { x: targetX, y: targetY, moveCost, crushedBuilding, ruin };
+};
 
-    // Check passability
-    if (!terrainDef.passable) {
-      throw new Error(`Cannot enter ${targetTile.type}`);
-    }
+/**
+ * Put the units found in ruins on the board now that nobody is moving, so
+ * no mover ever runs into one mid-walk (see findRuinUnitTile).
+ */
+const placeRuinUnits = async (ctx: MutationCtx, walk: Walk) => {
+  const { game } = walk;
+  const units = await ctx.db
+    .query("units")
+    .withIndex("by_game", (q) => q.eq("gameId", game._id))
+    .collect();
+  const occupied = new Set(units.map((unit) => coordToIndex(game.width, unit.x, unit.y)));
+
+  for (const reward of walk.ruinUnits) {
+    const tile = findRuinUnitTile(game, reward, (idx) => occupied.has(idx));
+    if (tile) {
+      await ctx.db.insert("units", {
+        gameId: game._id,
+        playerId: reward.playerId,
+        ...getNewUnit(reward.unitType, tile),
+        movesLeft: 0,
+      });
+      occupied.add(coordToIndex(game.width, tile.x, tile.y));
+      continue;
+    }
+
+    const unitDef = UNIT_DEFS[reward.unitType];
+    const player = await getPlayerOrThrow(ctx, reward.playerId);
+    await ctx.db.patch(player._id, { resources: addResources(player.resources, unitDef.cost) });
+    await logEvent(ctx, game, {
+      type: "ruin_explored",
+      actorId: player._id,
+      outcome: { resources: unitDef.cost, x: reward.x, y: reward.y },
+      message: `No room for the ${unitDef.name} from the ruins: salvaged for parts`,
+      visibleTo: [player._id],
+    });
+  }
+};
 
-    // Check air-only tiles (sky, cloud)
-    if (terrainDef.airOnly && !unitDef.canFly) {
-      throw new Error("Only air units can enter sky tiles");
-    }
+/**
+ * Save what a walk changed: the terrain, the units found in ruins, everyone's
+ * vision and building memory.
+ */
+export const finishWalk = async (ctx: MutationCtx, walk: Walk) => {
+  const { game } = walk;
 
-    // Check tile occupation
-    if (targetTile.unitId && targetTile.unitId !== unit._id) {
-      throw new Error("Tile is occupied");
-    }
+  // Only terrain changes touch the games document
+  if (walk.mapChanged) {
+    await ctx.db.patch(game._id, { map: game.map, rngState: walk.rng.state });
+  }
+  if (walk.ruinUnits.length > 0) {
+    await placeRuinUnits(ctx, walk);
+  }
 
-    // Calculate movement cost (flying units ignore terrain cost)
-    const moveCost = unitDef.canFly ? 1 : terrainDef.moveCost;
-    if (unit.movesLeft < moveCost) {
-      throw new Error(`Not enough moves (need ${moveCost}, have ${unit.movesLeft})`);
+  const viewers: Id<"players">[] = [];
+  for (const [playerId, { vision, changed }] of walk.sight) {
+    if (changed) {
+      await saveVision(ctx, game, playerId, vision);
+      viewers.push(playerId);
     }
+  }
 
-    // Check hazards (magma)
-    if (terrainDef.hazard) {
-      const player = await getPlayerOrThrow(ctx, args.playerId);
-      if (!player.techUnlocked.includes("heat_shield")) {
-        throw new Error("Hazardous terrain! Research Heat Shield technology to cross Magma.");
+  // Allies sharing vision see the same sights and map reveals
+  for (const [playerId, { sightings }] of walk.sight) {
+    viewers.push(...await shareSight(ctx, game, playerId, (allyVision) => {
+      let changed = false;
+      for (const { x, y, reveal, sight } of sightings) {
+        if (reveal !== undefined) {
+          changed = revealAround(game, allyVision.explored, x, y, reveal) || changed;
+        }
+        if (sight !== undefined) {
+          changed = seeAround(game, allyVision, x, y, sight) || changed;
+        }
       }
-    }
+      return changed;
+    }));
+  }
 
-    const updatedMap = [...game.map];
-    updatedMap[fromIdx] = {
-      ...updatedMap[fromIdx],
-      unitId: undefined,
-    };
+  await refreshBuildingMemory(ctx, game._id, { viewers: [...new Set(viewers)], tiles: walk.crushed });
+};
 
-    let rewardMessage: string | undefined;
+export const moveHandler = async (ctx: MutationCtx, args: ObjectType<typeof moveArgs>) => {
+  const unit = await ctx.db.get(args.unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
 
-    // Check for Ruins
-    if (targetTile.type === "ruins") {
-      // Logic to claim ruin reward
-      const roll = Math.random() * 100; // 0-100
-      let cumulativeWeight = 0;
-      let selectedReward = RUIN_REWARDS[0]; // Default fallback
+  if (unit.playerId !== args.playerId) {
+    throw new Error("You do not control this unit");
+  }
 
-      for (const reward of RUIN_REWARDS) {
-        cumulativeWeight += reward.weight;
-        if (roll < cumulativeWeight) {
-          selectedReward = reward;
-          break;
-        }
-      }
+  const game = await getGameOrThrow(ctx, unit.gameId);
+  assertPlayerTurn(game, args.playerId);
 
-      rewardMessage = selectedReward.message;
-      const player = await getPlayerOrThrow(ctx, args.playerId);
-
-      // Apply Reward
-      if (selectedReward.type === "resource" && selectedReward.resource) {
-        const newResources = addResources(player.resources, selectedReward.resource);
-        await ctx.db.patch(player._id, { resources: newResources });
-      } else if (selectedReward.type === "unit" && selectedReward.unitType) {
-        // Spawn free unit at target tile
-        // Since unit is moving there, spawn it at OLD tile (fromIdx) if empty?
-        // Or adjacent?
-        // Let's spawn it at the RUIN location (targetTile) if we can stack? No, no stacking.
-        // Spawn at the OLD location (fromIdx) since the moving unit vacates it!
-        // Wait, fromIdx is vacated. Perfect.
-        
-        const spawnUnitDef = UNIT_DEFS[selectedReward.unitType];
-        if (spawnUnitDef) {
-           await ctx.db.insert("units", {
-            gameId: game._id,
-            playerId: player._id,
-            type: selectedReward.unitType,
-            x: unit.x, // Spawn at start location
-            y: unit.y,
-            hp: spawnUnitDef.hp,
-            movesLeft: 0, // Freshly spawned units have no moves? Or full? Let's say 0 to prevent chain moves.
-            maxMoves: spawnUnitDef.maxMoves,
-            buildsLeft: spawnUnitDef.buildsLeft,
-          });
-          
-          updatedMap[fromIdx] = {
-             ...updatedMap[fromIdx],
-             // We need to fetch the ID of the new unit? But insert returns ID.
-             // We can't update map here because we don't have the ID yet in this flow easily?
-             // Ah, `ctx.db.insert` returns ID.
-             // But map update for `fromIdx` is already set to `unitId: undefined` above.
-             // We need to re-set it.
-          };
-          // ... actually let's correct this.
-          // Better logic: Spawn it at `fromIdx`.
-          // We need the ID.
-        }
-      } else if (selectedReward.type === "map" && selectedReward.visionRadius) {
-         revealAround(game, updatedMap, args.playerId, targetX, targetY, selectedReward.visionRadius);
-      } else if (selectedReward.type === "tech" && selectedReward.techPoints) {
-          // Grant flux equivalent to tech points?
-          // For now, simplify: just give Flux resource for "tech" reward in this implementation,
-          // or unlock a random cheap tech?
-          // Let's just give Flux.
-          const newResources = addResources(player.resources, { flux: 30 }); // 30 Flux flat
-          await ctx.db.patch(player._id, { resources: newResources });
-          rewardMessage += " (+30 Flux)";
-      }
+  const walk = beginWalk(game);
+  const outcome = await takeStep(ctx, walk, unit, args.direction);
+  if (unit.moveOrder) {
+    await ctx.db.patch(unit._id, { moveOrder: undefined }); // Moving by hand cancels a standing order
+  }
+  await finishWalk(ctx, walk);
 
-      // If unit reward, we need to handle the spawn properly.
-      if (selectedReward.type === "unit" && selectedReward.unitType) {
-         const spawnUnitDef = UNIT_DEFS[selectedReward.unitType];
-         if (spawnUnitDef) {
-             const newUnitId = await ctx.db.insert("units", {
-              gameId: game._id,
-              playerId: player._id,
-              type: selectedReward.unitType,
-              x: unit.x,
-              y: unit.y,
-              hp: spawnUnitDef.hp,
-              movesLeft: 0,
-              maxMoves: spawnUnitDef.maxMoves,
-              buildsLeft: spawnUnitDef.buildsLeft,
-            });
-            // Update fromIdx tile to show new unit
-            updatedMap[fromIdx] = {
-              ...updatedMap[fromIdx],
-              unitId: newUnitId,
-            };
-         }
-      }
+  await logEvent(ctx, game, {
+    type: "move",
+    actorId: args.playerId,
+    args: { unitId: unit._id, direction: args.direction },
+    outcome,
+    visibleTo: [args.playerId],
+  });
 
-      // Convert Ruin to Surface or Rubble
-      updatedMap[toIdx] = {
-        ...updatedMap[toIdx],
-        type: "surface", // Ruin cleared
-      };
-    }
+  return outcome;
+};
 
-    // Tank Crush ability: destroy enemy buildings on move
-    let crushedBuilding = false;
-    if (unitDef.abilities?.includes("crush") && targetTile.buildingId) {
-      const building = await ctx.db.get(targetTile.buildingId);
-      if (building && building.playerId !== args.playerId) {
-        // Destroy enemy building
-        await ctx.db.delete(targetTile.buildingId);
-        updatedMap[toIdx] = {
-          ...updatedMap[toIdx],
-          buildingId: undefined,
-          type: "surface", // Revert to base terrain
-          unitId: unit._id,
-        };
-        crushedBuilding = true;
-      }
-    }
+export const move = mutation({ args: moveArgs, handler: asPlayer(queueInSimultaneousMode("move", moveHandler)) });
+export const moveAsAI = internalMutation({ args: moveArgs, handler: asAI(queueInSimultaneousMode("move", moveHandler)) });
 
-    if (!crushedBuilding) {
-      updatedMap[toIdx] = {
-        ...updatedMap[toIdx],
-        unitId: unit._id,
-      };
-    }
+/**
+ * Standing move orders: plan the cheapest route to a destination over the
+ * tiles the player has explored (see findPath) and walk it as far as moves
+ * allow. The rest is kept on the unit and followed with whatever moves are
+ * left at the end of each of the owner's turns, re-planning around anything
+ * that has got in the way. Moving the unit by hand cancels the order.
+ * In simultaneous games orders are walked a step at a time alongside the
+ * queued moves when the round resolves.
+ */
+const moveToArgs = {
+  unitId: v.id("units"),
+  playerId: v.id("players"),
+  x: v.number(),
+  y: v.number(),
+};
 
-    if (unitDef.vision !== undefined) {
-      revealAround(game, updatedMap, args.playerId, targetX, targetY, unitDef.vision);
-    }
+/** What planning a unit's routes goes on (see getPathOptions). */
+const getRouteOptions = async (ctx: QueryCtx | MutationCtx, game: Doc<"games">, unit: Doc<"units">) => {
+  const [player, vision, units] = await Promise.all([
+    getPlayerOrThrow(ctx, unit.playerId),
+    getVision(ctx, game, unit.playerId),
+    ctx.db
+      .query("units")
+      .withIndex("by_game", (q) => q.eq("gameId", game._id))
+      .collect(),
+  ]);
+  return { options: getPathOptions(game, unit, player, vision, units), vision, units };
+};
+
+const planRoute = async (ctx: QueryCtx | MutationCtx, game: Doc<"games">, unit: Doc<"units">, x: number, y: number) => {
+  const { options } = await getRouteOptions(ctx, game, unit);
+  return findPath(game.map, game.width, game.height, unit, { x, y }, options);
+};
+
+/**
+ * Re-plan a unit's standing order from where it stands, dropping the order
+ * once there is no route to its destination.
+ */
+export const planMoveOrder = async (ctx: MutationCtx, game: Doc<"games">, unit: Doc<"units">) => {
+  const order = unit.moveOrder;
+  if (!order) {
+    return null;
+  }
 
-    await ctx.db.patch(game._id, { map: updatedMap });
-    await ctx.db.patch(unit._id, {
-      x: targetX,
-      y: targetY,
-      movesLeft: unit.movesLeft - moveCost,
-      entrenched: undefined, // Clear entrenched status when moving
+  const path = await planRoute(ctx, game, unit, order.x, order.y);
+  if (!path) {
+    await ctx.db.patch(unit._id, { moveOrder: undefined });
+    await logEvent(ctx, game, {
+      type: "move_order",
+      actorId: unit.playerId,
+      args: { unitId: unit._id, x: order.x, y: order.y },
+      outcome: { cancelled: true },
+      message: "Move order cancelled: no route to the destination",
+      visibleTo: [unit.playerId],
     });
+  }
+  return path;
+};
 
-    return { x: targetX, y: targetY, moveCost, crushedBuilding, rewardMessage };
-  },
-});
+/**
+ * Keep what is left of a standing order once a unit has walked part of it,
+ * logging the walk as a single move.
+ */
+export const settleMoveOrder = async (
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  unit: Doc<"units">,
+  order: { x: number; y: number },
+  steps: number,
+  remaining: { x: number; y: number }[],
+) => {
+  const arrived = remaining.length === 0;
+  await ctx.db.patch(unit._id, { moveOrder: arrived ? undefined : { x: order.x, y: order.y, path: remaining } });
+  if (steps > 0) {
+    await logEvent(ctx, game, {
+      type: "move",
+      actorId: unit.playerId,
+      args: { unitId: unit._id, x: order.x, y: order.y },
+      outcome: { x: unit.x, y: unit.y, steps, arrived },
+      visibleTo: [unit.playerId],
+    });
+  }
+  return { x: unit.x, y: unit.y, steps, arrived, cancelled: false, path: remaining };
+};
 
-export const foundCity = mutation({
-  args: {
-    unitId: v.id("units"),
-    playerId: v.id("players"),
-  },
-  handler: async (ctx, args) => {
-    const unit = await ctx.db.get(args.unitId);
-    if (!unit) {
-      throw new Error("Unit not found");
-    }
-    if (unit.playerId !== args.playerId) {
-      throw new Error("You do not control this unit");
-    }
-    if (unit.type !== "settler") {
-      throw new Error("Only settlers can found cities");
-    }
+/**
+ * Walk a unit's standing order as far as its moves allow. Stops early, and
+ * logs why, if the movement rules turn a step down (e.g. a hidden unit is in
+ * the way); the order is kept and tried again next time.
+ */
+const walkMoveOrder = async (ctx: MutationCtx, walk: Walk, unit: Doc<"units">) => {
+  const order = unit.moveOrder;
+  if (!order) {
+    return null;
+  }
 
-    const game = await getGameOrThrow(ctx, unit.gameId);
-    assertPlayerTurn(game, args.playerId);
-    const player = await getPlayerOrThrow(ctx, args.playerId);
+  const path = await planMoveOrder(ctx, walk.game, unit);
+  if (!path) {
+    return { x: unit.x, y: unit.y, steps: 0, arrived: false, cancelled: true, path: [] };
+  }
 
-    const buildDef = BUILDING_DEFS.city;
-    if (!buildDef) {
-      throw new Error("City definition missing");
-    }
+  let steps = 0;
+  for (const step of path) {
+    if (unit.movesLeft < step.cost) break;
+    const direction = stepDirection(unit, step);
+    const target = getStepTarget(walk.game, unit, direction);
+    const [player, occupant] = await Promise.all([
+      getPlayerOrThrow(ctx, unit.playerId),
+      getUnitAt(ctx, walk.game._id, target.x, target.y),
+    ]);
+    const blocker = getStepBlocker(walk.game, unit, player, target, occupant);
+    if (blocker) {
+      await logEvent(ctx, walk.game, {
+        type: "move_order",
+        actorId: unit.playerId,
+        args: { unitId: unit._id, x: order.x, y: order.y },
+        outcome: { x: unit.x, y: unit.y, blocked: true },
+        message: `Move order held up: ${blocker}`,
+        visibleTo: [unit.playerId],
+      });
+      break;
+    }
+    await takeStep(ctx, walk, unit, direction);
+    const moved: Doc<"units"> | null = await ctx.db.get(unit._id);
+    if (!moved) {
+      return null;
+    }
+    unit = moved;
+    steps++;
+  }
 
-    const tileIndex = coordToIndex(game.width, unit.x, unit.y);
-    const tile = game.map[tileIndex];
-    if (tile.type === "water" || tile.type === "bedrock") {
-      throw new Error("Cannot found a city here");
-    }
-    if (tile.buildingId) {
-      throw new Error("Tile already has a building");
-    }
+  const remaining = path.slice(steps).map(({ x, y }) => ({ x, y }));
+  return settleMoveOrder(ctx, walk.game, unit, order, steps, remaining);
+};
 
-    const updatedResources = subtractCost(player.resources, buildDef.cost);
+export const followMoveOrder = async (ctx: MutationCtx, unitId: Id<"units">) => {
+  const unit = await ctx.db.get(unitId);
+  if (!unit?.moveOrder) {
+    return null;
+  }
 
-    const buildingId = await ctx.db.insert("buildings", {
-      gameId: game._id,
-      playerId: player._id,
-      type: "city",
-      x: unit.x,
-      y: unit.y,
-      hp: buildDef.hp,
-    });
+  const walk = beginWalk(await getGameOrThrow(ctx, unit.gameId));
+  const result = await walkMoveOrder(ctx, walk, unit);
+  await finishWalk(ctx, walk);
+  return result;
+};
 
-    const mapCopy = [...game.map];
-    mapCopy[tileIndex] = {
-      ...mapCopy[tileIndex],
-      type: "city",
-      buildingId,
-      unitId: undefined,
-      resource: undefined,
-    };
-    if (buildDef.providesVision) {
-      revealAround(game, mapCopy, player._id, unit.x, unit.y, buildDef.providesVision);
+/** End of turn: every unit with a standing order and moves left walks on. */
+export const followMoveOrders = async (ctx: MutationCtx, game: Doc<"games">, playerId: Id<"players">) => {
+  const units = await ctx.db
+    .query("units")
+    .withIndex("by_player", (q) => q.eq("playerId", playerId))
+    .collect();
+
+  const walk = beginWalk(game);
+  for (const unit of units) {
+    if (unit.gameId === game._id && unit.moveOrder && unit.movesLeft > 0) {
+      const current = await ctx.db.get(unit._id); // Earlier walkers may have changed it
+      if (current) {
+        await walkMoveOrder(ctx, walk, current);
+      }
     }
+  }
+  await finishWalk(ctx, walk);
+};
 
-    await Promise.all([
-      ctx.db.patch(game._id, { map: mapCopy }),
-      ctx.db.patch(player._id, { resources: updatedResources }),
-      ctx.db.delete(unit._id),
-    ]);
-  },
-});
+const moveToHandler = async (ctx: MutationCtx, args: ObjectType<typeof moveToArgs>) => {
+  const unit = await ctx.db.get(args.unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
+  if (unit.playerId !== args.playerId) {
+    throw new Error("You do not control this unit");
+  }
 
-export const spawnUnit = mutation({
-  args: {
-    playerId: v.id("players"),
-    buildingId: v.id("buildings"),
-    unitType: v.string(),
-  },
-  handler: async (ctx, args) => {
-    const unitDef = UNIT_DEFS[args.unitType];
-    if (!unitDef) {
-      throw new Error("Unknown unit type");
-    }
+  const game = await getGameOrThrow(ctx, unit.gameId);
+  assertPlayerTurn(game, args.playerId);
 
-    const building = await ctx.db.get(args.buildingId);
-    if (!building) {
-      throw new Error("Building not found");
-    }
-    if (building.playerId !== args.playerId) {
-      throw new Error("Cannot spawn from another player's building");
-    }
+  const { x: targetX } = checkDestination(game, unit, args.x, args.y);
 
-    const buildingDef = BUILDING_DEFS[building.type];
-    if (!buildingDef) {
-      throw new Error("Unknown building type");
-    }
+  const path = await planRoute(ctx, game, unit, targetX, args.y);
+  if (!path) {
+    throw new Error("No known route to that tile");
+  }
 
-    // Check if building can spawn units
-    if (!buildingDef.canSpawnUnits) {
-      throw new Error("This building cannot spawn units");
-    }
+  const moveOrder = { x: targetX, y: args.y, path: path.map(({ x, y }) => ({ x, y })) };
+  await ctx.db.patch(unit._id, { moveOrder, autoExplore: undefined });
+  await logEvent(ctx, game, {
+    type: "move_order",
+    actorId: args.playerId,
+    args: { unitId: unit._id, x: targetX, y: args.y },
+    outcome: { steps: path.length, moveCost: path.reduce((sum, step) => sum + step.cost, 0) },
+    visibleTo: [args.playerId],
+  });
+
+  if (game.turnMode === "simultaneous") {
+    return { x: unit.x, y: unit.y, steps: 0, arrived: false, cancelled: false, path: moveOrder.path };
+  }
+  return followMoveOrder(ctx, unit._id);
+};
 
-    // Check if building can spawn this specific unit type
-    if (buildingDef.spawnableUnits && !buildingDef.spawnableUnits.includes(args.unitType)) {
-      throw new Error(`${buildingDef.name} cannot spawn ${unitDef.name}`);
-    }
+export const moveTo = mutation({ args: moveToArgs, handler: asPlayer(moveToHandler) });
+export const moveToAsAI = internalMutation({ args: moveToArgs, handler: asAI(moveToHandler) });
 
-    const game = await getGameOrThrow(ctx, building.gameId);
-    assertPlayerTurn(game, args.playerId);
-    const player = await getPlayerOrThrow(ctx, args.playerId);
+const cancelMoveOrderArgs = {
+  unitId: v.id("units"),
+  playerId: v.id("players"),
+};
 
-    // Check tech requirements
-    if (unitDef.requiredTech && !player.techUnlocked.includes(unitDef.requiredTech)) {
-      const techDef = TECH_DEFS[unitDef.requiredTech];
-      throw new Error(`Requires ${techDef?.name ?? unitDef.requiredTech} technology`);
-    }
+const cancelMoveOrderHandler = async (ctx: MutationCtx, args: ObjectType<typeof cancelMoveOrderArgs>) => {
+  const unit = await ctx.db.get(args.unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
+  if (unit.playerId !== args.playerId) {
+    throw new Error("You do not control this unit");
+  }
+  await ctx.db.patch(unit._id, { moveOrder: undefined });
+};
 
-    const updatedResources = subtractCost(player.resources, unitDef.cost);
+export const cancelMoveOrder = mutation({ args: cancelMoveOrderArgs, handler: asPlayer(cancelMoveOrderHandler) });
 
-    const spawnLocation = findSpawnTile(game, building, game.map, unitDef.canFly);
-    if (!spawnLocation) {
-      throw new Error("No adjacent tile available for spawning");
-    }
+const foundCityArgs = {
+  unitId: v.id("units"),
+  playerId: v.id("players"),
+};
 
-    const unitId = await ctx.db.insert("units", {
-      gameId: game._id,
-      playerId: player._id,
-      type: args.unitType,
-      x: spawnLocation.x,
-      y: spawnLocation.y,
-      hp: unitDef.hp,
-      movesLeft: unitDef.maxMoves,
-      maxMoves: unitDef.maxMoves,
-      buildsLeft: unitDef.buildsLeft,
-    });
+const foundCityHandler = async (ctx: MutationCtx, args: ObjectType<typeof foundCityArgs>) => {
+  const unit = await ctx.db.get(args.unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
+  if (unit.playerId !== args.playerId) {
+    throw new Error("You do not control this unit");
+  }
 
-    const mapCopy = [...game.map];
-    const spawnIdx = coordToIndex(game.width, spawnLocation.x, spawnLocation.y);
-    mapCopy[spawnIdx] = {
-      ...mapCopy[spawnIdx],
-      unitId,
-    };
-    if (unitDef.vision) {
-      revealAround(game, mapCopy, player._id, spawnLocation.x, spawnLocation.y, unitDef.vision);
-    }
+  const game = await getGameOrThrow(ctx, unit.gameId);
+  assertPlayerTurn(game, args.playerId);
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+
+  const tileIndex = checkFoundCity(game, unit, await getBuildingAt(ctx, game._id, unit.x, unit.y));
+  const buildDef = BUILDING_DEFS.city;
+  const updatedResources = subtractCost(player.resources, buildDef.cost);
+
+  await ctx.db.insert("buildings", {
+    gameId: game._id,
+    playerId: player._id,
+    type: "city",
+    x: unit.x,
+    y: unit.y,
+    hp: buildDef.hp,
+  });
+
+  const mapCopy = [...game.map];
+  mapCopy[tileIndex] = {
+    ...mapCopy[tileIndex],
+    type: "city",
+    resource: undefined,
+  };
+  const sightGrew = buildDef.providesVision
+    ? await seeAroundForPlayer(ctx, game, player._id, unit.x, unit.y, buildDef.providesVision)
+    : false;
+
+  await Promise.all([
+    ctx.db.patch(game._id, { map: mapCopy }),
+    ctx.db.patch(player._id, { resources: updatedResources }),
+    ctx.db.delete(unit._id),
+  ]);
+  await refreshBuildingMemory(ctx, game._id, {
+    viewers: sightGrew ? [player._id] : [],
+    tiles: [{ x: unit.x, y: unit.y }],
+  });
+
+  await logEvent(ctx, game, {
+    type: "found_city",
+    actorId: player._id,
+    args: { unitId: unit._id },
+    outcome: { x: unit.x, y: unit.y },
+    visibleTo: [player._id],
+  });
+};
 
-    await Promise.all([
-      ctx.db.patch(player._id, { resources: updatedResources }),
-      ctx.db.patch(game._id, { map: mapCopy }),
-    ]);
+export const foundCity = mutation({ args: foundCityArgs, handler: asPlayer(foundCityHandler) });
+export const foundCityAsAI = internalMutation({ args: foundCityArgs, handler: asAI(foundCityHandler) });
 
-    return unitId;
-  },
-});
+const spawnUnitArgs = {
+  playerId: v.id("players"),
+  buildingId: v.id("buildings"),
+  unitType: v.string(),
+};
 
-export const toggleEntrench = mutation({
-  args: {
-    unitId: v.id("units"),
-    playerId: v.id("players"),
-    entrench: v.boolean(),
-  },
-  handler: async (ctx, args) => {
-    const unit = await ctx.db.get(args.unitId);
-    if (!unit) {
-      throw new Error("Unit not found");
-    }
+const spawnUnitHandler = async (ctx: MutationCtx, args: ObjectType<typeof spawnUnitArgs>) => {
+  const building = await ctx.db.get(args.buildingId);
+  if (!building) {
+    throw new Error("Building not found");
+  }
 
-    if (unit.playerId !== args.playerId) {
-      throw new Error("You do not control this unit");
-    }
+  const game = await getGameOrThrow(ctx, building.gameId);
+  assertPlayerTurn(game, args.playerId);
+  const player = await getPlayerOrThrow(ctx, args.playerId);
+  const unitDef = checkSpawnUnit(player, building, args.unitType);
+
+  const updatedResources = subtractCost(player.resources, unitDef.cost);
+
+  const units = await ctx.db
+    .query("units")
+    .withIndex("by_game", (q) => q.eq("gameId", game._id))
+    .collect();
+  const unitsByTile = indexByTile(game, units);
+  const spawnLocation = findSpawnTile(game, building, unitDef.canFly, (idx) => unitsByTile.has(idx));
+  if (!spawnLocation) {
+    throw new Error("No adjacent tile available for spawning");
+  }
 
-    const game = await getGameOrThrow(ctx, unit.gameId);
-    assertPlayerTurn(game, args.playerId);
+  const unitId = await ctx.db.insert("units", {
+    gameId: game._id,
+    playerId: player._id,
+    ...getNewUnit(args.unitType, spawnLocation),
+  });
 
-    if (unit.type !== "marine") {
-      throw new Error("Only Marines can entrench");
-    }
+  const sightGrew = unitDef.vision
+    ? await seeAroundForPlayer(ctx, game, player._id, spawnLocation.x, spawnLocation.y, unitDef.vision)
+    : false;
 
-    if (args.entrench && unit.movesLeft > 0) {
-      throw new Error("Must use all movement points to entrench (move until 0 moves left)");
-    }
+  await ctx.db.patch(player._id, { resources: updatedResources });
+  await refreshBuildingMemory(ctx, game._id, { viewers: sightGrew ? [player._id] : [] });
 
-    await ctx.db.patch(unit._id, {
-      entrenched: args.entrench,
-    });
+  await logEvent(ctx, game, {
+    type: "spawn_unit",
+    actorId: player._id,
+    args: { buildingId: building._id, unitType: args.unitType },
+    outcome: { unitId, x: spawnLocation.x, y: spawnLocation.y },
+    visibleTo: [player._id],
+  });
 
-    return { entrenched: args.entrench };
-  },
-});
+  return unitId;
+};
 
-export const toggleAutoExplore = mutation({
-  args: {
-    unitId: v.id("units"),
-    playerId: v.id("players"),
-    enable: v.boolean(),
-  },
-  handler: async (ctx, args) => {
-    const unit = await ctx.db.get(args.unitId);
-    if (!unit) {
-      throw new Error("Unit not found");
-    }
+export const spawnUnit = mutation({ args: spawnUnitArgs, handler: asPlayer(spawnUnitHandler) });
+export const spawnUnitAsAI = internalMutation({ args: spawnUnitArgs, handler: asAI(spawnUnitHandler) });
 
-    if (unit.playerId !== args.playerId) {
-      throw new Error("You do not control this unit");
-    }
+const toggleEntrenchArgs = {
+  unitId: v.id("units"),
+  playerId: v.id("players"),
+  entrench: v.boolean(),
+};
 
-    if (unit.type !== "rover") {
-      throw new Error("Only Rovers can auto-explore");
-    }
+const toggleEntrenchHandler = async (ctx: MutationCtx, args: ObjectType<typeof toggleEntrenchArgs>) => {
+  const unit = await ctx.db.get(args.unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
 
-    await ctx.db.patch(unit._id, {
-      autoExplore: args.enable,
-    });
+  if (unit.playerId !== args.playerId) {
+    throw new Error("You do not control this unit");
+  }
 
-    return { autoExplore: args.enable };
-  },
-});
+  const game = await getGameOrThrow(ctx, unit.gameId);
+  assertPlayerTurn(game, args.playerId);
+
+  if (unit.type !== "marine") {
+    throw new Error("Only Marines can entrench");
+  }
+
+  if (args.entrench && unit.movesLeft > 0) {
+    throw new Error("Must use all movement points to entrench (move until 0 moves left)");
+  }
+
+  await ctx.db.patch(unit._id, {
+    entrenched: args.entrench,
+  });
+
+  await logEvent(ctx, game, {
+    type: "entrench",
+    actorId: args.playerId,
+    args: { unitId: unit._id, entrench: args.entrench },
+    visibleTo: [args.playerId],
+  });
+
+  return { entrenched: args.entrench };
+};
+
+export const toggleEntrench = mutation({ args: toggleEntrenchArgs, handler: asPlayer(toggleEntrenchHandler) });
+
+const toggleAutoExploreArgs = {
+  unitId: v.id("units"),
+  playerId: v.id("players"),
+  enable: v.boolean(),
+};
+
+const toggleAutoExploreHandler = async (ctx: MutationCtx, args: ObjectType<typeof toggleAutoExploreArgs>) => {
+  const unit = await ctx.db.get(args.unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
+
+  if (unit.playerId !== args.playerId) {
+    throw new Error("You do not control this unit");
+  }
+
+  if (unit.type !== "rover") {
+    throw new Error("Only Rovers can auto-explore");
+  }
+
+  const game = await getGameOrThrow(ctx, unit.gameId);
+
+  await ctx.db.patch(unit._id, {
+    autoExplore: args.enable,
+    moveOrder: args.enable ? undefined : unit.moveOrder, // Exploring replaces any standing order
+  });
 
+  await logEvent(ctx, game, {
+    type: "auto_explore",
+    actorId: args.playerId,
+    args: { unitId: unit._id, enable: args.enable },
+    visibleTo: [args.playerId],
+  });
+
+  return { autoExplore: args.enable };
+};
+
+export const toggleAutoExplore = mutation({ args: toggleAutoExploreArgs, handler: asPlayer(toggleAutoExploreHandler) });
+
+/**
+ * Rover radar: see everything around the rover, through rock, until the
+ * start of the owner's next turn (see RADAR). Costs no moves.
+ */
+const radarSweepArgs = {
+  unitId: v.id("units"),
+  playerId: v.id("players"),
+};
+
+const radarSweepHandler = async (ctx: MutationCtx, args: ObjectType<typeof radarSweepArgs>) => {
+  const unit = await ctx.db.get(args.unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
+
+  if (unit.playerId !== args.playerId) {
+    throw new Error("You do not control this unit");
+  }
+
+  const game = await getGameOrThrow(ctx, unit.gameId);
+  assertPlayerTurn(game, args.playerId);
+
+  if (!UNIT_DEFS[unit.type]?.abilities?.includes("radar")) {
+    throw new Error("This unit has no radar");
+  }
+  if (unit.radarCooldown) {
+    throw new Error(`Radar is recharging (${unit.radarCooldown} more turn${unit.radarCooldown === 1 ? "" : "s"})`);
+  }
+
+  await ctx.db.patch(unit._id, {
+    radarSweep: { x: unit.x, y: unit.y },
+    radarCooldown: RADAR.COOLDOWN,
+  });
+
+  const vision = await getVision(ctx, game, args.playerId);
+  const swept = sweepAround(game, vision, unit.x, unit.y);
+  if (swept) {
+    await saveVision(ctx, game, args.playerId, vision);
+  }
+  const alliesWhoSaw = await shareSight(ctx, game, args.playerId, (allyVision) => sweepAround(game, allyVision, unit.x, unit.y));
+  await refreshBuildingMemory(ctx, game._id, { viewers: swept ? [args.playerId, ...alliesWhoSaw] : alliesWhoSaw });
+
+  // Other players' units caught in the sweep
+  const units = await ctx.db
+    .query("units")
+    .withIndex("by_game", (q) => q.eq("gameId", game._id))
+    .collect();
+  const contacts = units.filter(
+    (other) =>
+      other.playerId !== args.playerId &&
+      Math.abs(other.y - unit.y) <= RADAR.RADIUS &&
+      Math.min(Math.abs(other.x - unit.x), game.width - Math.abs(other.x - unit.x)) <= RADAR.RADIUS,
+  ).length;
+
+  const outcome = { x: unit.x, y: unit.y, radius: RADAR.RADIUS, contacts };
+  await logEvent(ctx, game, {
+    type: "radar_sweep",
+    actorId: args.playerId,
+    args: { unitId: unit._id },
+    outcome,
+    visibleTo: [args.playerId],
+  });
+
+  return outcome;
+};
+
+export const radarSweep = mutation({ args: radarSweepArgs, handler: asPlayer(radarSweepHandler) });
+export const radarSweepAsAI = internalMutation({ args: radarSweepArgs, handler: asAI(radarSweepHandler) });
+
+/**
+ * What the caller can do with one of their units, and its live state. Other
+ * players' units get null: their moves and radar are not the caller's to see.
+ */
 export const getUnitActions = query({
   args: {
     unitId: v.id("units"),
-    playerId: v.id("players"),
   },
   handler: async (ctx, args) => {
     const unit = await ctx.db.get(args.unitId);
     if (!unit) {
       throw new Error("Unit not found");
     }
+    const viewer = await getViewerPlayer(ctx, unit.gameId);
+    if (!viewer || viewer._id !== unit.playerId) {
+      return null;
+    }
 
     const unitDef = UNIT_DEFS[unit.type];
     if (!unitDef) {
-      return { canMove: false, canAttack: false, canFoundCity: false, abilities: [] };
+      return { canMove: false, canAttack: false, canFoundCity: false, abilities: [] as string[] };
     }
 
-    const isOwner = unit.playerId === args.playerId;
     const game = await ctx.db.get(unit.gameId);
-    const isMyTurn = game?.playerOrder[game.activePlayerIndex] === args.playerId;
+    const isMyTurn = game?.playerOrder[game.activePlayerIndex] === viewer._id;
 
-    const canEntrench = isOwner && isMyTurn && unit.type === "marine" && unit.movesLeft === 0;
+    const canEntrench = isMyTurn && unit.type === "marine" && unit.movesLeft === 0;
+    const abilities = unitDef.abilities ?? [];
 
     return {
-      canMove: isOwner && isMyTurn && unit.movesLeft > 0,
-      canAttack: isOwner && isMyTurn && unit.movesLeft > 0 && unitDef.atk > 0,
-      canFoundCity: isOwner && isMyTurn && unit.type === "settler",
+      canMove: isMyTurn && unit.movesLeft > 0,
+      canAttack: isMyTurn && unit.movesLeft > 0 && unitDef.atk > 0,
+      canFoundCity: isMyTurn && unit.type === "settler",
       canEntrench: unit.type === "marine",
       isEntrenched: unit.entrenched ?? false,
       canAutoExplore: unit.type === "rover",
       isAutoExploring: unit.autoExplore ?? false,
-      abilities: unitDef.abilities ?? [],
+      canRadarSweep: isMyTurn && abilities.includes("radar") && !unit.radarCooldown,
+      isRadarActive: unit.radarSweep !== undefined,
+      radarCooldown: unit.radarCooldown ?? 0,
+      // Arc fire reaches spotted targets without a clear line of fire
+      canArcFire: isMyTurn && unit.movesLeft > 0 && abilities.includes("arc_fire"),
+      abilities,
       stats: {
         hp: unit.hp,
         maxHp: unitDef.hp,
@@ -503,57 +832,108 @@ export const getUnitActions = query({
   },
 });
 
-export const directionToDelta = (direction: Direction) => {
-  switch (direction) {
-    case "L":
-      return { dx: -1, dy: 0 };
-    case "R":
-      return { dx: 1, dy: 0 };
-    case "U":
-      return { dx: 0, dy: -1 };
-    case "D":
-      return { dx: 0, dy: 1 };
-    default:
-      return { dx: 0, dy: 0 };
-  }
-};
-
-const findSpawnTile = (
-  game: Doc<"games">,
-  building: Doc<"buildings">,
-  map: Doc<"games">["map"],
-  canFly?: boolean,
-) => {
-  const candidates = [
-    { x: building.x + 1, y: building.y },
-    { x: building.x - 1, y: building.y },
-    { x: building.x, y: building.y + 1 },
-    { x: building.x, y: building.y - 1 },
-  ];
-
-  // For air units, also check sky tiles above
-  if (canFly) {
-    candidates.unshift({ x: building.x, y: building.y - 1 }); // Prefer sky
-  }
+/**
+ * Where the viewer's unit can go this turn and what it can hit, by the rules
+ * move and attack enforce: every reachable tile with its move cost, and
+ * every spotted enemy in range with a clear line of fire (or arc fire).
+ */
+export const getMovementRange = query({
+  args: {
+    unitId: v.id("units"),
+  },
+  handler: async (ctx, args) => {
+    const unit = await ctx.db.get(args.unitId);
+    if (!unit) {
+      return null;
+    }
+    const viewer = await getViewerPlayer(ctx, unit.gameId);
+    const unitDef = UNIT_DEFS[unit.type];
+    if (!viewer || viewer._id !== unit.playerId || !unitDef) {
+      return null;
+    }
 
-  for (const candidate of candidates) {
-    const wrappedX = wrapX(candidate.x, game.width);
-    const clampedY = clampY(candidate.y, game.height);
-    const idx = coordToIndex(game.width, wrappedX, clampedY);
-    const tile = map[idx];
-    const terrainDef = TERRAIN_DEFS[tile.type] ?? TERRAIN_DEFS.surface;
+    const game = await getGameOrThrow(ctx, unit.gameId);
+    const { options, vision, units } = await getRouteOptions(ctx, game, unit);
 
-    // Skip occupied tiles
-    if (tile.unitId !== undefined) continue;
+    // Solar Flare grounds air units
+    const grounded = game.activeWeather?.type === "solar_flare" && unitDef.canFly;
+    const reachable = grounded
+      ? []
+      : [...findReachable(game.map, game.width, game.height, unit, unit.movesLeft, options)].map(
+          ([idx, cost]) => ({ ...indexToCoord(game.width, idx), cost }),
+        );
+
+    const attackable: { x: number; y: number; targetType: "unit" | "building"; arcFire: boolean }[] = [];
+    if (unit.movesLeft > 0 && unitDef.atk > 0) {
+      const [buildings, relations] = await Promise.all([
+        ctx.db
+          .query("buildings")
+          .withIndex("by_game", (q) => q.eq("gameId", game._id))
+          .collect(),
+        getRelationsForGame(ctx, game._id),
+      ]);
+      const peaceful = getPeacefulPlayerIds(relations, unit.playerId);
+      const unitsByTile = indexByTile(game, units);
+      const buildingsByTile = indexByTile(game, buildings);
+      const arcFire = unitDef.abilities?.includes("arc_fire") ?? false;
+
+      for (let dy = -unitDef.range; dy <= unitDef.range; dy++) {
+        const y = unit.y + dy;
+        if (y < 0 || y >= game.height) continue;
+        const span = unitDef.range - Math.abs(dy);
+        for (let dx = -span; dx <= span; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const x = wrapX(unit.x + dx, game.width);
+          const idx = coordToIndex(game.width, x, y);
+          // A unit on the tile is the target even if a building shares it
+          const target = unitsByTile.get(idx) ?? buildingsByTile.get(idx);
+          if (!target || peaceful.has(target.playerId) || !hasTile(vision.visible, idx)) continue;
+
+          const clear = hasLineOfSight(game, unit.x, unit.y, x, y);
+          if (!clear && !arcFire) continue;
+          attackable.push({ x, y, targetType: unitsByTile.has(idx) ? "unit" : "building", arcFire: !clear });
+        }
+      }
+    }
 
-    // Skip impassable terrain
-    if (!terrainDef.passable) continue;
+    return { reachable, attackable };
+  },
+});
 
-    // Ground units can't spawn in sky
-    if (terrainDef.airOnly && !canFly) continue;
+/**
+ * The route a move order to (x, y) would take, with the turn each step
+ * falls on; null when there is no known route.
+ */
+export const previewPath = query({
+  args: {
+    unitId: v.id("units"),
+    x: v.number(),
+    y: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const unit = await ctx.db.get(args.unitId);
+    if (!unit) {
+      return null;
+    }
+    const viewer = await getViewerPlayer(ctx, unit.gameId);
+    if (!viewer || viewer._id !== unit.playerId) {
+      return null;
+    }
 
-    return { x: wrappedX, y: clampedY };
-  }
-  return undefined;
-};
+    const game = await getGameOrThrow(ctx, unit.gameId);
+    if (args.y < 0 || args.y >= game.height) {
+      return null;
+    }
+    const path = await planRoute(ctx, game, unit, wrapX(args.x, game.width), args.y);
+    if (!path) {
+      return null;
+    }
 
+    const steps = scheduleSteps(path, unit.movesLeft, unit.maxMoves);
+    return {
+      steps,
+      moveCost: steps.reduce((sum, step) => sum + step.cost, 0),
+      turns: steps[steps.length - 1].turn,
+    };
+  },
+});
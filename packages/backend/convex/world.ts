@@ -1,7 +1,15 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import type { Doc, Id } from "./_generated/dataModel";
-import { BEDROCK_ROWS, MIN_HEIGHT, MIN_WIDTH, SKY_ROWS, SURFACE_ROWS } from "./lib/constants";
+import { getViewerPlayer } from "./lib/auth";
+import { BEDROCK_ROWS, MIN_HEIGHT, MIN_WIDTH, RUINS_DENSITY, SKY_ROWS, SURFACE_ROWS } from "./lib/constants";
+import type { RuinsDensity } from "./lib/constants";
+import { buildBoardView, filterStateForPlayer, toPublicGame } from "./lib/fog";
+import { isGameOver } from "./lib/gameHelpers";
+import { createRng } from "./lib/random";
+import { getVision } from "./lib/vision";
+import { assertValidTurnTimer, turnTimerValidator } from "./lib/turnTimer";
+import { DEFAULT_GAME_SETTINGS, assertValidGameSettings, gameSettingsValidator } from "./lib/settings";
 
 type GameDoc = Doc<"games">;
 type TileDoc = GameDoc["map"][number];
@@ -11,6 +19,9 @@ export const generateWorld = mutation({
     width: v.number(),
     height: v.number(),
     seed: v.optional(v.number()),
+    turnTimer: v.optional(turnTimerValidator),
+    turnMode: v.optional(v.union(v.literal("sequential"), v.literal("simultaneous"))),
+    settings: v.optional(gameSettingsValidator),
   },
   handler: async (ctx, args) => {
     if (args.width < MIN_WIDTH) {
@@ -19,10 +30,15 @@ export const generateWorld = mutation({
     if (args.height < MIN_HEIGHT) {
       throw new Error(`World height must be >= ${MIN_HEIGHT} tiles`);
     }
+    if (args.turnTimer) {
+      assertValidTurnTimer(args.turnTimer);
+    }
+    const settings = args.settings ?? DEFAULT_GAME_SETTINGS;
+    assertValidGameSettings(settings, 0);
 
     const seed = args.seed ?? Date.now();
-    const rng = mulberry32(seed);
-    const map = buildMap(args.width, args.height, rng);
+    const rng = createRng(seed);
+    const map = buildMap(args.width, args.height, rng.next, settings.ruinsDensity);
 
     const gameId = await ctx.db.insert("games", {
       status: "lobby",
@@ -31,9 +47,14 @@ export const generateWorld = mutation({
       width: args.width,
       height: args.height,
       seed,
+      // Gameplay rolls continue the world generation sequence
+      rngState: rng.state,
       map,
       playerOrder: [],
       createdAt: Date.now(),
+      turnTimer: args.turnTimer,
+      turnMode: args.turnMode,
+      settings,
     });
 
     return gameId;
@@ -66,24 +87,47 @@ export const getGameState = query({
         .collect(),
     ]);
 
-    const filteredMap =
-      args.playerId !== undefined
-        ? filterMapForPlayer(game.map, args.playerId)
-        : game.map;
+    if (args.playerId !== undefined) {
+      const viewer = await getViewerPlayer(ctx, args.gameId);
+      if (!viewer || viewer._id !== args.playerId) {
+        throw new Error("You can only view the game as your own player");
+      }
+      const [memories, vision] = await Promise.all([
+        ctx.db
+          .query("buildingMemory")
+          .withIndex("by_player", (q) => q.eq("playerId", viewer._id))
+          .collect(),
+        getVision(ctx, game, viewer._id),
+      ]);
+      return filterStateForPlayer(game, viewer._id, players, units, buildings, memories, vision);
+    }
+
+    if (isGameOver(game)) {
+      const visions = await ctx.db
+        .query("vision")
+        .withIndex("by_game", (q) => q.eq("gameId", args.gameId))
+        .collect();
+      const exploredBy = new Map(
+        visions.map((vision) => [vision.playerId, new Uint8Array(vision.explored)] as const),
+      );
+      return {
+        game: { ...toPublicGame(game), map: buildBoardView(game, units, buildings, exploredBy) },
+        players,
+        units,
+        buildings,
+      };
+    }
 
-    return {
-      game: {
-        ...game,
-        map: filteredMap,
-      },
-      players,
-      units,
-      buildings,
-    };
+    return filterStateForPlayer(game, null, players, units, buildings, [], null);
   },
 });
 
-const buildMap = (width: number, height: number, rng: () => number) => {
+/**
+ * Generate terrain from the seed's RNG. The ruins roll draws the same numbers
+ * whatever the density, so a lobby can change density and rebuild the map
+ * from the seed without disturbing the rest of the terrain.
+ */
+export const buildMap = (width: number, height: number, rng: () => number, ruinsDensity: RuinsDensity) => {
   const map: TileDoc[] = [];
 
   for (let y = 0; y < height; y += 1) {
@@ -92,7 +136,6 @@ const buildMap = (width: number, height: number, rng: () => number) => {
       const resource = determineResource(type, rng);
       const tile: TileDoc = {
         type,
-        visibility: [],
       };
       if (resource) {
         tile.resource = resource;
@@ -108,7 +151,7 @@ const buildMap = (width: number, height: number, rng: () => number) => {
         tile.resource = undefined;
       }
       // Add ruins - rare, surface/underground only
-      if ((type === "surface" || type === "grass" || type === "sand" || type === "dirt" || type === "cavern") && tile.type !== "water" && rng() < 0.015) {
+      if ((type === "surface" || type === "grass" || type === "sand" || type === "dirt" || type === "cavern") && tile.type !== "water" && rng() < RUINS_DENSITY[ruinsDensity]) {
         tile.type = "ruins";
         // Ruins might override resource, or exist alongside?
         // Let's say ruins override natural resources for simplicity
@@ -255,27 +298,3 @@ const determineResource = (type: string, rng: () => number) => {
   
   return undefined;
 };
-
-const filterMapForPlayer = (map: TileDoc[], playerId: Id<"players">) =>
-  map.map((tile) => {
-    // If the current player has revealed this tile, show it as-is
-    if (tile.visibility.some((id) => id === playerId)) {
-      return tile;
-    }
-    // Otherwise, return fog (don't leak info about other players' visibility)
-    return {
-      type: "fog" as const,
-      visibility: [] as Id<"players">[],
-    };
-  });
-
-const mulberry32 = (seed: number) => {
-  let t = seed;
-  return () => {
-    t += 0x6d2b79f5;
-    let m = Math.imul(t ^ (t >>> 15), t | 1);
-    m ^= m + Math.imul(m ^ (m >>> 7), m | 61);
-    return ((m ^ (m >>> 14)) >>> 0) / 4294967296;
-  };
-};
-
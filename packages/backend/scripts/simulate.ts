@@ -0,0 +1,121 @@
+/**
+ * Headless AI-vs-AI balance runs.
+ *
+ *   bun run simulate --games 50 --players 3 --size Medium --difficulty hard
+ *
+ * Plays N seeded games (seeds seed, seed+1, ...) with the factions rotated
+ * round the seats, then reports win rates per faction, average game length
+ * and how the games were won. AI games rarely end outright, so games still
+ * going after --turns rounds are decided on score, as with a lobby turn
+ * limit. The same seed always plays the same game, so a change to
+ * FACTION_DEFS, UNIT_DEFS or BUILDING_DEFS can be compared against a run
+ * from before it.
+ *
+ * Options:
+ *   --games N         games to play (default 20)
+ *   --seed N          first seed (default 1)
+ *   --size NAME       Small, Medium or Large (default Small)
+ *   --players N       players per game (default 2)
+ *   --factions A,B    factions to rotate through (default all)
+ *   --difficulty D    easy, medium or hard (default medium)
+ *   --turns N         rounds before a game is decided on score (default 200)
+ *   --unscored        leave games still going at --turns unfinished instead
+ */
+
+import { parseArgs } from "node:util";
+import { FACTION_DEFS, FACTIONS, MAP_SIZE_PRESETS } from "../convex/lib/constants";
+import type { FactionId } from "../convex/lib/constants";
+import { DEFAULT_GAME_SETTINGS } from "../convex/lib/settings";
+import { simulateGame, summarize } from "../sim/runner";
+import type { SimGameResult } from "../sim/runner";
+import type { AIDifficulty } from "../sim/state";
+
+const DIFFICULTIES: AIDifficulty[] = ["easy", "medium", "hard"];
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const toInt = (name: string, value: string, min: number) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    fail(`--${name} must be a whole number of at least ${min}`);
+  }
+  return n;
+};
+
+const { values } = parseArgs({
+  options: {
+    games: { type: "string", default: "20" },
+    seed: { type: "string", default: "1" },
+    size: { type: "string", default: "Small" },
+    players: { type: "string", default: "2" },
+    factions: { type: "string", default: FACTIONS.join(",") },
+    difficulty: { type: "string", default: "medium" },
+    turns: { type: "string", default: "200" },
+    unscored: { type: "boolean", default: false },
+  },
+});
+
+const games = toInt("games", values.games, 1);
+const firstSeed = toInt("seed", values.seed, 0);
+const players = toInt("players", values.players, 1);
+const maxTurns = toInt("turns", values.turns, 1);
+
+const size = MAP_SIZE_PRESETS.find((p) => p.name.toLowerCase() === values.size.toLowerCase()) ??
+  fail(`--size must be one of ${MAP_SIZE_PRESETS.map((p) => p.name).join(", ")}`);
+
+const difficulty = DIFFICULTIES.find((d) => d === values.difficulty) ??
+  fail(`--difficulty must be one of ${DIFFICULTIES.join(", ")}`);
+
+const factions = values.factions.split(",").map((f) => f.trim()) as FactionId[];
+for (const faction of factions) {
+  if (!FACTIONS.includes(faction)) {
+    fail(`Unknown faction "${faction}"; expected ${FACTIONS.join(", ")}`);
+  }
+}
+
+const settings = values.unscored
+  ? DEFAULT_GAME_SETTINGS
+  : { ...DEFAULT_GAME_SETTINGS, turnLimit: maxTurns, victories: { ...DEFAULT_GAME_SETTINGS.victories, score: true } };
+
+const factionName = (faction: FactionId | null) => faction ? FACTION_DEFS[faction].name : "-";
+const percent = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+console.log(
+  `Simulating ${games} game(s): ${players} ${difficulty} AI on ${size.name} (${size.width}x${size.height}), ` +
+  `seeds ${firstSeed}-${firstSeed + games - 1}, up to ${maxTurns} turns${values.unscored ? "" : " then scored"}`
+);
+
+const results: SimGameResult[] = [];
+for (let g = 0; g < games; g++) {
+  const seed = firstSeed + g;
+  const seats = Array.from({ length: players }, (_, i) => ({
+    faction: factions[(g + i) % factions.length],
+    difficulty,
+  }));
+
+  const result = simulateGame({ seed, width: size.width, height: size.height, players: seats, settings }, maxTurns);
+  results.push(result);
+  console.log(
+    `  seed ${seed}: ${result.factions.map(factionName).join(" vs ")} -> ` +
+    `${factionName(result.winner)} (${result.reason}, turn ${result.turns})`
+  );
+}
+
+const summary = summarize(results);
+
+console.log("\nWin rate by faction");
+for (const faction of FACTIONS) {
+  const entry = summary.factions[faction];
+  if (!entry) continue;
+  console.log(`  ${factionName(faction).padEnd(16)} ${percent(entry.winRate).padStart(6)}  (${entry.wins}/${entry.played})`);
+}
+
+console.log(`\nAverage game length: ${summary.averageTurns.toFixed(1)} turns`);
+
+console.log("\nVictory types");
+for (const [reason, count] of Object.entries(summary.reasons).sort((a, b) => b[1] - a[1])) {
+  console.log(`  ${reason.padEnd(16)} ${String(count).padStart(4)}  (${percent(count / summary.games)})`);
+}
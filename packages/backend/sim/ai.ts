@@ -0,0 +1,247 @@
+/**
+ * Simulated AI Turns
+ *
+ * One AI turn in a simulated game: the decisions of ai/actions.runAITurn,
+ * made by the same helpers (analysis, strategy, movement planner) and
+ * carried out through ./rules instead of mutations. Diplomacy, trade and
+ * chat are left out. Like the real AI, decisions are made from snapshots
+ * taken as the turn goes, while the rules act on the live state.
+ */
+
+import type { Doc, Id } from "../convex/_generated/dataModel";
+import { AI_WEIGHTS } from "../convex/ai/constants";
+import {
+  analyzeGameState,
+  chooseBuildingToBuild,
+  chooseBuildStep,
+  chooseUnitToSpawn,
+  findEnemiesInRange,
+  getBuildSites,
+  suitsBuilding,
+} from "../convex/ai/helpers";
+import { createRoutePlanner, needsEscort, planMilitaryMoves } from "../convex/ai/planner";
+import { chooseGoal, getSavingsTarget, planResearch, trackEconomy } from "../convex/ai/strategy";
+import { BUILDING_DEFS, RESOURCE_KEYS, UNIT_DEFS } from "../convex/lib/constants";
+import type { Cost } from "../convex/lib/constants";
+import { getPeacefulPlayerIds } from "../convex/lib/diplomacy";
+import { buildBoardView } from "../convex/lib/fog";
+import type { GameView } from "../convex/lib/fog";
+import { manhattanDistance } from "../convex/lib/grid";
+import { createRng } from "../convex/lib/random";
+import { canAfford } from "../convex/lib/resources";
+import {
+  attack,
+  continueBuilding,
+  endTurn,
+  foundCity,
+  moveUnit,
+  moveUnitTo,
+  placeBuilding,
+  queueTech,
+  spawnUnit,
+  startArk,
+} from "./rules";
+import { getPlayer } from "./state";
+import type { SimState } from "./state";
+
+// Copies of the live documents, as the real AI gets back from its queries
+const snapshotPlayer = (state: SimState, playerId: Id<"players">) => ({ ...getPlayer(state, playerId) });
+const snapshotUnits = (state: SimState) => state.units.map((u) => ({ ...u }));
+const snapshotBuildings = (state: SimState) => state.buildings.map((b) => ({ ...b }));
+
+// Swallow a rejected action, as the real AI does with failed mutations
+const attempt = (action: () => void) => {
+  try {
+    action();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The board as ai/queries.getGameForAI shows it: occupancy plus this player's explored tiles. */
+const getGameForAI = (state: SimState, playerId: Id<"players">): GameView => ({
+  ...state.game,
+  map: buildBoardView(state.game, state.units, state.buildings, new Map([[playerId, state.vision.get(playerId)!.explored]])),
+});
+
+/** Play the active AI player's turn, then end it. */
+export const playAITurn = (state: SimState, playerId: Id<"players">) => {
+  const game = getGameForAI(state, playerId);
+  const player = snapshotPlayer(state, playerId);
+  const weights = AI_WEIGHTS[player.aiDifficulty ?? "medium"];
+
+  // All decisions this turn come from a seed drawn from the game RNG
+  const rng = createRng(state.rng.int(4294967296));
+
+  const allUnits = snapshotUnits(state);
+  const allBuildings = snapshotBuildings(state);
+  const myUnits = allUnits.filter((u) => u.playerId === playerId);
+  const myBuildings = allBuildings.filter((b) => b.playerId === playerId);
+
+  const analysis = analyzeGameState(
+    game, player, myUnits, myBuildings, allUnits, allBuildings, getPeacefulPlayerIds([], playerId)
+  );
+
+  const economy = trackEconomy(player, analysis);
+  const goal = chooseGoal(analysis, player, weights, rng, economy);
+  Object.assign(getPlayer(state, playerId), { aiGoal: goal, aiEconomy: economy });
+
+  const savingFor = getSavingsTarget(goal, player, analysis, weights);
+  const reserve: Cost = savingFor ? BUILDING_DEFS[savingFor].cost : {};
+  const planner = createRoutePlanner(game, player);
+
+  // Priority 1: Found cities with settlers
+  for (const settler of analysis.settlers) {
+    if (settler.movesLeft <= 0) continue;
+
+    const shouldFound = analysis.cityCount === 0 ||
+      (analysis.expansionOpportunities.some(
+        (e) => Math.abs(e.x - settler.x) + Math.abs(e.y - settler.y) <= 2
+      ) && rng.next() > weights.randomness);
+    if (shouldFound && attempt(() => foundCity(state, settler._id))) continue;
+
+    if (needsEscort(game, settler, analysis)) continue;
+
+    const site = planner.nearest(settler, analysis.expansionOpportunities);
+    if (site) {
+      attempt(() => moveUnitTo(state, settler._id, site.x, site.y));
+    }
+  }
+
+  // Priority 2: Attack enemies in range
+  for (const unit of analysis.combatUnits) {
+    if (unit.movesLeft <= 0) continue;
+
+    const targets = findEnemiesInRange(unit, game, analysis.visibleEnemyUnits, analysis.visibleEnemyBuildings);
+    if (targets.length > 0) {
+      attempt(() => attack(state, unit._id, targets[0].target.x, targets[0].target.y));
+    }
+  }
+
+  // Priority 3: Move combat units: retreat, escort, assault in groups, explore
+  const plans = planMilitaryMoves(
+    game,
+    planner,
+    analysis,
+    snapshotUnits(state).filter((u) => u.playerId === playerId),
+    myBuildings,
+    weights,
+    rng,
+    goal === "turtle" || goal === "ascend"
+  );
+  for (const plan of plans) {
+    attempt(() => moveUnitTo(state, plan.unitId, plan.x, plan.y));
+  }
+
+  // Priority 4: Build structures using Workers (only if affordable)
+  const updatedPlayer = snapshotPlayer(state, playerId);
+  const hasCity = myBuildings.some((b) => b.type === "city");
+  const withinBudget = (cost: Cost) => RESOURCE_KEYS.every(
+    (key) => (updatedPlayer.resources[key] ?? 0) - (reserve[key] ?? 0) >= (cost[key] ?? 0)
+  );
+  const affordableBuildings = !hasCity ? [] : Object.entries(BUILDING_DEFS)
+    .filter(([type, def]) =>
+      type !== "city" &&
+      canAfford(updatedPlayer.resources, def.cost) &&
+      (!def.requiredTech || updatedPlayer.techUnlocked.includes(def.requiredTech)) &&
+      (type === savingFor || withinBudget(def.cost))
+    )
+    .map(([type]) => type);
+
+  for (const worker of myUnits.filter((u) => u.type === "worker")) {
+    const workerTile = game.map[worker.y * game.width + worker.x];
+    if (workerTile.buildingId && attempt(() => continueBuilding(state, worker._id))) continue;
+
+    // A worker that has used up its builds can still finish its last site
+    if (!worker.buildsLeft || worker.buildsLeft <= 0) continue;
+
+    if (affordableBuildings.length === 0 || rng.next() <= weights.randomness * 0.7) continue;
+    const toBuild = chooseBuildingToBuild(analysis, updatedPlayer, affordableBuildings, goal);
+    const buildingDef = toBuild ? BUILDING_DEFS[toBuild] : undefined;
+    if (!toBuild || !buildingDef) continue;
+
+    // Extractors and Mines are tied to sites: head for the nearest unless
+    // one is a step away
+    const sites = getBuildSites(analysis, buildingDef);
+    if (sites && !sites.some((s) => manhattanDistance(game.width, worker.x, worker.y, s.x, s.y) <= 1)) {
+      const site = planner.nearest(worker, sites);
+      if (site) {
+        attempt(() => moveUnitTo(state, worker._id, site.x, site.y));
+      }
+      continue;
+    }
+
+    // Build here if the tile suits; if it doesn't, or the site is rejected,
+    // step somewhere else rather than retry it next turn
+    if (workerTile.unitId === worker._id && suitsBuilding(game, worker.x, worker.y, buildingDef) &&
+        attempt(() => placeBuilding(state, worker._id, toBuild))) {
+      continue;
+    }
+
+    const direction = chooseBuildStep(game, worker, buildingDef);
+    if (direction) {
+      attempt(() => moveUnit(state, worker._id, direction));
+    }
+  }
+
+  // Priority 5: Spawn units (only if affordable and tech unlocked)
+  const latestPlayer = snapshotPlayer(state, playerId);
+  const productionBuildings = myBuildings.filter(
+    (b) => b.type === "city" || b.type === "barracks" || b.type === "factory"
+  );
+  for (const building of productionBuildings) {
+    // What buildings.getSpawnableUnits offers: nothing while under construction
+    const live = getPlayer(state, playerId);
+    const current = state.buildings.find((b) => b._id === building._id);
+    const buildingDef = BUILDING_DEFS[building.type];
+    const allowedUnits = !current || current.isConstructing || !buildingDef?.canSpawnUnits
+      ? []
+      : buildingDef.spawnableUnits ?? Object.keys(UNIT_DEFS);
+    const affordableUnits = allowedUnits
+      .filter((type) => {
+        const unitDef = UNIT_DEFS[type];
+        return unitDef && canAfford(live.resources, unitDef.cost) &&
+          (!unitDef.requiredTech || live.techUnlocked.includes(unitDef.requiredTech));
+      });
+
+    if (affordableUnits.length > 0 && rng.next() > weights.randomness * 0.5) {
+      const toSpawn = chooseUnitToSpawn(
+        analysis,
+        latestPlayer,
+        affordableUnits.map((type) => ({
+          unitType: type,
+          cost: {
+            biomass: UNIT_DEFS[type].cost.biomass ?? 0,
+            ore: UNIT_DEFS[type].cost.ore ?? 0,
+            flux: UNIT_DEFS[type].cost.flux ?? 0,
+            rare_earths: UNIT_DEFS[type].cost.rare_earths ?? 0,
+          },
+        })),
+        goal,
+        reserve
+      );
+      if (toSpawn) {
+        attempt(() => spawnUnit(state, playerId, building._id, toSpawn));
+      }
+    }
+  }
+
+  // Priority 6: Queue research toward the goal
+  const finalPlayer = snapshotPlayer(state, playerId);
+  for (const techId of planResearch(finalPlayer, goal, weights)) {
+    if (!attempt(() => queueTech(state, playerId, techId))) break;
+  }
+
+  // Priority 7: Begin The Ark at a completed Silo
+  if (finalPlayer.techUnlocked.includes("the_ark_project") && !myBuildings.some((b) => b.ark)) {
+    const silo = myBuildings.find((b: Doc<"buildings">) => b.type === "silo" && !b.isConstructing && !b.ark);
+    if (silo) {
+      attempt(() => startArk(state, playerId, silo._id));
+    }
+  }
+
+  if (state.game.status === "active") {
+    endTurn(state);
+  }
+};
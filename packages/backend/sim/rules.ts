@@ -0,0 +1,546 @@
+/**
+ * Simulation Rules
+ *
+ * What players can do in a simulated game, as plain functions over a
+ * SimState. Each is the mutation of the same name (units.move,
+ * combat.attack, economy.endTurn, ...) with the database swapped for the
+ * state: the checks, errors and outcomes are the shared rules in
+ * convex/lib/ (movement, combat, construction, research, ark, ...), and
+ * only applying them is done here, minus what only matters to people
+ * watching (event logs, replays, building memory). There is no diplomacy
+ * or trade: every player is at war with every other.
+ */
+
+import type { Doc, Id } from "../convex/_generated/dataModel";
+import type { Direction } from "../convex/lib/constants";
+import { ARC_FIRE, BUILDING_DEFS, UNIT_DEFS } from "../convex/lib/constants";
+import {
+  aimAttack,
+  assertSpotted,
+  chooseTarget,
+  getBuildingDamage,
+  getSplashTiles,
+  resolveUnitAttack,
+} from "../convex/lib/combat";
+import {
+  advanceConstruction,
+  checkContinueBuilding,
+  checkFoundCity,
+  checkPlaceBuilding,
+  checkSpawnUnit,
+  findSpawnTile,
+  getConstructionSite,
+} from "../convex/lib/construction";
+import { getAcidRainHp, getIncome, getNextWeather, getRegeneratedHp, getUnitReset } from "../convex/lib/economy";
+import { assertPlayerTurn as assertGameTurn, getNextSeat } from "../convex/lib/gameHelpers";
+import { coordToIndex } from "../convex/lib/grid";
+import { canCrush, checkDestination, checkStep, getPathOptions, getStepBlocker, getStepTarget, getSteppedUnit } from "../convex/lib/movement";
+import { findPath, stepDirection } from "../convex/lib/pathfinding";
+import { appendToResearchQueue, getResearchIncome, spendResearchPoints } from "../convex/lib/research";
+import { addResources, subtractCost } from "../convex/lib/resources";
+import { findRuinUnitTile, getRuinRewardTable, resolveRuinReward, rollRuinReward } from "../convex/lib/ruins";
+import type { RuinUnit } from "../convex/lib/ruins";
+import { scorePlayer } from "../convex/lib/score";
+import { getGameSettings } from "../convex/lib/settings";
+import { decideVictory, isPastTurnLimit } from "../convex/lib/victory";
+import { checkStartArk, stepArk } from "../convex/lib/ark";
+import { computeVisibleTiles, countTiles, revealAround, seeAround } from "../convex/lib/vision";
+import {
+  addUnit,
+  getActivePlayerId,
+  getBuildingAt,
+  getPlayer,
+  getUnit,
+  getUnitAt,
+  newId,
+} from "./state";
+import type { SimState } from "./state";
+
+type Unit = Doc<"units">;
+
+// Nothing is played once the game is over
+const assertPlayerTurn = (state: SimState, playerId: Id<"players">) => {
+  if (state.game.status !== "active") {
+    throw new Error("It is not your turn");
+  }
+  assertGameTurn(state.game, playerId);
+};
+
+const setTile = (state: SimState, idx: number, changes: Partial<Doc<"games">["map"][number]>) => {
+  state.game.map[idx] = { ...state.game.map[idx], ...changes };
+};
+
+const removeUnit = (state: SimState, unitId: Id<"units">) => {
+  state.units = state.units.filter((u) => u._id !== unitId);
+};
+
+const removeBuilding = (state: SimState, buildingId: Id<"buildings">) => {
+  state.buildings = state.buildings.filter((b) => b._id !== buildingId);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Movement
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Roll and grant a ruin reward to the explorer's owner (lib/ruins.claimRuin). */
+const exploreRuin = (state: SimState, player: Doc<"players">, explorer: Unit) => {
+  const outcome = resolveRuinReward(state.game, rollRuinReward(state.rng, getRuinRewardTable(state.game)), explorer);
+
+  if (outcome.resources) {
+    player.resources = addResources(player.resources, outcome.resources);
+  }
+  if (outcome.techPoints !== undefined) {
+    Object.assign(player, spendResearchPoints(player, outcome.techPoints).fields);
+  }
+  return outcome;
+};
+
+/**
+ * Put the units found in ruins on the board once nobody is moving
+ * (units.placeRuinUnits).
+ */
+const placeRuinUnits = (state: SimState, ruinUnits: RuinUnit[]) => {
+  for (const reward of ruinUnits) {
+    const tile = findRuinUnitTile(state.game, reward, (idx) =>
+      state.units.some((u) => coordToIndex(state.game.width, u.x, u.y) === idx),
+    );
+    if (tile) {
+      addUnit(state, reward.playerId, reward.unitType, tile.x, tile.y, { movesLeft: 0 });
+    } else {
+      const player = getPlayer(state, reward.playerId);
+      player.resources = addResources(player.resources, UNIT_DEFS[reward.unitType].cost);
+    }
+  }
+};
+
+/** Move a unit one tile (units.takeStep); units found in ruins wait in `ruinUnits`. */
+const takeStep = (state: SimState, unit: Unit, direction: Direction, ruinUnits: RuinUnit[]) => {
+  const { game } = state;
+  const player = getPlayer(state, unit.playerId);
+
+  const target = getStepTarget(game, unit, direction);
+  const moveCost = checkStep(game, unit, player, target, getUnitAt(state, target.x, target.y));
+  const unitDef = UNIT_DEFS[unit.type];
+  const vision = state.vision.get(player._id)!;
+
+  let ruin: ReturnType<typeof exploreRuin> | undefined;
+  if (game.map[target.idx].type === "ruins") {
+    ruin = exploreRuin(state, player, unit);
+    if (ruin.unitType) {
+      ruinUnits.push({ playerId: player._id, unitType: ruin.unitType, x: unit.x, y: unit.y });
+    }
+    if (ruin.visionRadius !== undefined) {
+      revealAround(game, vision.explored, target.x, target.y, ruin.visionRadius);
+    }
+    setTile(state, target.idx, { type: "surface" });
+  }
+
+  if (canCrush(unit)) {
+    const building = getBuildingAt(state, target.x, target.y);
+    if (building && building.playerId !== player._id) {
+      removeBuilding(state, building._id);
+      setTile(state, target.idx, { type: "surface" });
+    }
+  }
+
+  if (unitDef.vision !== undefined) {
+    seeAround(game, vision, target.x, target.y, unitDef.vision);
+  }
+
+  Object.assign(unit, getSteppedUnit(unit, target, moveCost, ruin));
+};
+
+/** Move a unit one tile (units.move). */
+export const moveUnit = (state: SimState, unitId: Id<"units">, direction: Direction) => {
+  const unit = getUnit(state, unitId);
+  assertPlayerTurn(state, unit.playerId);
+
+  const ruinUnits: RuinUnit[] = [];
+  takeStep(state, unit, direction, ruinUnits);
+  unit.moveOrder = undefined; // Moving by hand cancels a standing order
+  placeRuinUnits(state, ruinUnits);
+};
+
+// Route planning as units.moveTo does it
+const planRoute = (state: SimState, unit: Unit, x: number, y: number) => {
+  const { game } = state;
+  const player = getPlayer(state, unit.playerId);
+  const options = getPathOptions(game, unit, player, state.vision.get(unit.playerId)!, state.units);
+  return findPath(game.map, game.width, game.height, unit, { x, y }, options);
+};
+
+/** Walk a unit's standing order as far as its moves allow (units.followMoveOrder). */
+const followMoveOrder = (state: SimState, unitId: Id<"units">, ruinUnits: RuinUnit[]) => {
+  let unit = state.units.find((u) => u._id === unitId);
+  const order = unit?.moveOrder;
+  if (!unit || !order) return;
+
+  const path = planRoute(state, unit, order.x, order.y);
+  if (!path) {
+    unit.moveOrder = undefined;
+    return;
+  }
+
+  let steps = 0;
+  for (const step of path) {
+    if (unit.movesLeft < step.cost) break;
+    const direction = stepDirection(unit, step);
+    const target = getStepTarget(state.game, unit, direction);
+    const player = getPlayer(state, unit.playerId);
+    if (getStepBlocker(state.game, unit, player, target, getUnitAt(state, target.x, target.y))) break;
+    takeStep(state, unit, direction, ruinUnits);
+    unit = state.units.find((u) => u._id === unitId);
+    if (!unit) return;
+    steps++;
+  }
+
+  const remaining = path.slice(steps).map(({ x, y }) => ({ x, y }));
+  unit.moveOrder = remaining.length === 0 ? undefined : { x: order.x, y: order.y, path: remaining };
+};
+
+/** Give a unit a standing order to a tile and start walking (units.moveTo). */
+export const moveUnitTo = (state: SimState, unitId: Id<"units">, x: number, y: number) => {
+  const unit = getUnit(state, unitId);
+  assertPlayerTurn(state, unit.playerId);
+
+  const { x: targetX } = checkDestination(state.game, unit, x, y);
+  const path = planRoute(state, unit, targetX, y);
+  if (!path) {
+    throw new Error("No known route to that tile");
+  }
+
+  unit.moveOrder = { x: targetX, y, path: path.map((step) => ({ x: step.x, y: step.y })) };
+  unit.autoExplore = undefined;
+  const ruinUnits: RuinUnit[] = [];
+  followMoveOrder(state, unit._id, ruinUnits);
+  placeRuinUnits(state, ruinUnits);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Combat
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Players with no units and no buildings left are out; the game may be over. */
+const checkEliminations = (state: SimState) => {
+  let eliminated = false;
+  for (const player of state.players) {
+    if (!player.isAlive) continue;
+    const hasUnits = state.units.some((u) => u.playerId === player._id);
+    const hasBuildings = state.buildings.some((b) => b.playerId === player._id);
+    if (!hasUnits && !hasBuildings) {
+      player.isAlive = false;
+      eliminated = true;
+    }
+  }
+  if (eliminated) {
+    checkVictory(state);
+  }
+};
+
+/** Attack the unit or building on a tile (combat.attack). */
+export const attack = (state: SimState, attackerUnitId: Id<"units">, x: number, y: number) => {
+  const { game } = state;
+  const attacker = getUnit(state, attackerUnitId);
+  assertPlayerTurn(state, attacker.playerId);
+
+  const aim = aimAttack(game, attacker, x, y);
+  if (aim.needsSpotting) {
+    assertSpotted(state.vision.get(attacker.playerId)!.visible, aim.idx);
+  }
+
+  const buildingOnTile = getBuildingAt(state, aim.x, aim.y);
+  const { defenderUnit, defenderBuilding } = chooseTarget(
+    attacker.playerId,
+    getUnitAt(state, aim.x, aim.y),
+    buildingOnTile,
+  );
+
+  if (defenderUnit) {
+    const friendlyUnits = state.units.filter((u) => u.playerId === attacker.playerId);
+    const { defenderHp, attackerHp } = resolveUnitAttack(
+      game, attacker, defenderUnit, friendlyUnits, { buildingType: buildingOnTile?.type, distance: aim.distance }
+    );
+
+    defenderUnit.hp = defenderHp;
+    if (defenderHp <= 0) {
+      removeUnit(state, defenderUnit._id); // A kill leaves the attacker its moves
+    } else {
+      attacker.movesLeft = 0;
+      attacker.hp = attackerHp;
+      if (attackerHp <= 0) {
+        removeUnit(state, attacker._id);
+      }
+    }
+  } else if (defenderBuilding) {
+    defenderBuilding.hp -= getBuildingDamage(attacker.type);
+    attacker.movesLeft = 0;
+    if (defenderBuilding.hp <= 0) {
+      removeBuilding(state, defenderBuilding._id);
+      setTile(state, aim.idx, { type: "surface" });
+    }
+  }
+
+  // Arc fire splashes every enemy unit next to the target
+  if (aim.arcFire) {
+    for (const tile of getSplashTiles(game, aim.x, aim.y)) {
+      const unit = getUnitAt(state, tile.x, tile.y);
+      if (!unit || unit.playerId === attacker.playerId) continue;
+      unit.hp -= ARC_FIRE.SPLASH_DAMAGE;
+      if (unit.hp <= 0) {
+        removeUnit(state, unit._id);
+      }
+    }
+  }
+
+  checkEliminations(state);
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cities, units and buildings
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Turn a Lander into a City where it stands (units.foundCity). */
+export const foundCity = (state: SimState, unitId: Id<"units">) => {
+  const { game } = state;
+  const unit = getUnit(state, unitId);
+  assertPlayerTurn(state, unit.playerId);
+  const player = getPlayer(state, unit.playerId);
+
+  const tileIndex = checkFoundCity(game, unit, getBuildingAt(state, unit.x, unit.y));
+  const buildDef = BUILDING_DEFS.city;
+  player.resources = subtractCost(player.resources, buildDef.cost);
+  state.buildings.push({
+    _id: newId(state, "buildings"),
+    _creationTime: state.nextId,
+    gameId: game._id,
+    playerId: player._id,
+    type: "city",
+    x: unit.x,
+    y: unit.y,
+    hp: buildDef.hp,
+  });
+  setTile(state, tileIndex, { type: "city", resource: undefined });
+  if (buildDef.providesVision) {
+    seeAround(game, state.vision.get(player._id)!, unit.x, unit.y, buildDef.providesVision);
+  }
+  removeUnit(state, unit._id);
+};
+
+/** Train a unit at a City, Barracks or Factory (units.spawnUnit). */
+export const spawnUnit = (state: SimState, playerId: Id<"players">, buildingId: Id<"buildings">, unitType: string) => {
+  const { game } = state;
+  const building = state.buildings.find((b) => b._id === buildingId);
+  if (!building) {
+    throw new Error("Building not found");
+  }
+  assertPlayerTurn(state, playerId);
+  const player = getPlayer(state, playerId);
+  const unitDef = checkSpawnUnit(player, building, unitType);
+
+  const resources = subtractCost(player.resources, unitDef.cost);
+
+  const occupied = new Set(state.units.map((u) => coordToIndex(game.width, u.x, u.y)));
+  const spawn = findSpawnTile(game, building, unitDef.canFly, (idx) => occupied.has(idx));
+  if (!spawn) {
+    throw new Error("No adjacent tile available for spawning");
+  }
+
+  player.resources = resources;
+  return addUnit(state, playerId, unitType, spawn.x, spawn.y);
+};
+
+/** Start construction where a Worker stands (buildings.placeBuilding). */
+export const placeBuilding = (state: SimState, workerId: Id<"units">, buildingType: string) => {
+  const { game } = state;
+  const worker = getUnit(state, workerId);
+  assertPlayerTurn(state, worker.playerId);
+  const player = getPlayer(state, worker.playerId);
+
+  const buildingDef = checkPlaceBuilding(game, worker, player, buildingType, getBuildingAt(state, worker.x, worker.y));
+
+  player.resources = subtractCost(player.resources, buildingDef.cost);
+  state.buildings.push({
+    _id: newId(state, "buildings"),
+    _creationTime: state.nextId,
+    gameId: game._id,
+    playerId: player._id,
+    ...getConstructionSite(worker, buildingType),
+  });
+  setTile(state, coordToIndex(game.width, worker.x, worker.y), { type: "construction" });
+  worker.movesLeft = 0;
+  worker.buildsLeft = (worker.buildsLeft ?? 0) - 1;
+};
+
+/** Put another turn of work into the Worker's construction site (buildings.continueBuilding). */
+export const continueBuilding = (state: SimState, workerId: Id<"units">) => {
+  const { game } = state;
+  const worker = getUnit(state, workerId);
+  assertPlayerTurn(state, worker.playerId);
+
+  const { building, buildingDef } = checkContinueBuilding(worker, getBuildingAt(state, worker.x, worker.y));
+
+  worker.movesLeft = 0;
+  const { progress, complete } = advanceConstruction(building);
+  if (!complete) {
+    building.buildProgress = progress;
+    return;
+  }
+
+  // Complete: the site is replaced by the finished building
+  removeBuilding(state, building._id);
+  state.buildings.push({
+    _id: newId(state, "buildings"),
+    _creationTime: state.nextId,
+    gameId: game._id,
+    playerId: building.playerId,
+    type: building.type,
+    x: building.x,
+    y: building.y,
+    hp: buildingDef.hp,
+  });
+  setTile(state, coordToIndex(game.width, building.x, building.y), { type: building.type });
+  if (buildingDef.providesVision) {
+    seeAround(game, state.vision.get(building.playerId)!, building.x, building.y, buildingDef.providesVision);
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Research and The Ark
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Add a tech to the end of the research queue (tech.queueTech). */
+export const queueTech = (state: SimState, playerId: Id<"players">, techId: string) => {
+  const player = getPlayer(state, playerId);
+  assertPlayerTurn(state, playerId);
+  player.researchQueue = appendToResearchQueue(player, techId);
+};
+
+/** Begin The Ark at a completed Silo (ark.startArk). */
+export const startArk = (state: SimState, playerId: Id<"players">, siloId: Id<"buildings">) => {
+  const player = getPlayer(state, playerId);
+  assertPlayerTurn(state, playerId);
+
+  const silo = checkStartArk(
+    state.game,
+    player,
+    state.buildings.find((b) => b._id === siloId) ?? null,
+    state.buildings.find((b) => b.playerId === player._id && b.ark) ?? null,
+  );
+  silo.ark = { stage: 0, progress: 0 };
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Turns
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** End the game if one of its win conditions is met (lib/victory). */
+const checkVictory = (state: SimState) => {
+  if (state.game.status !== "active") return;
+
+  const settings = getGameSettings(state.game);
+  const alivePlayers = state.players.filter((p) => p.isAlive);
+  const launched = state.buildings
+    .filter((b) => b.ark?.launchIn !== undefined && b.ark.launchIn <= 0)
+    .map((b) => b.playerId);
+  const scores = isPastTurnLimit(settings, state.game.turn)
+    ? alivePlayers
+        .map((p) => scorePlayer(p, state.units, state.buildings, countTiles(state.vision.get(p._id)!.explored)))
+        .sort((a, b) => b.total - a.total)
+    : [];
+
+  const result = decideVictory(settings, state.game.turn, alivePlayers, { allAllied: false, launched, scores });
+  if (result) {
+    state.game.status = "ended";
+    state.result = result;
+  }
+};
+
+// Turn boundary: sight is recomputed from where everything now stands
+const refreshVision = (state: SimState) => {
+  for (const playerId of state.game.playerOrder) {
+    const vision = state.vision.get(playerId)!;
+    vision.visible = computeVisibleTiles(state.game, playerId, state.units, state.buildings);
+    for (let i = 0; i < vision.explored.length; i += 1) {
+      vision.explored[i] |= vision.visible[i];
+    }
+  }
+};
+
+/** Turn-start upkeep for the player about to move (see economy.endTurn). */
+const startPlayerTurn = (state: SimState, player: Doc<"players">) => {
+  const { game } = state;
+  const buildings = state.buildings.filter((b) => b.playerId === player._id);
+  const income = getIncome(player, buildings, game.activeWeather);
+
+  for (const unit of state.units) {
+    if (unit.playerId !== player._id) continue;
+    unit.hp = getRegeneratedHp(player, unit, game.map[coordToIndex(game.width, unit.x, unit.y)]);
+    Object.assign(unit, getUnitReset(unit));
+  }
+  player.resources = addResources(player.resources, income);
+
+  const { buildingPoints, flux } = getResearchIncome(player, buildings);
+  if (flux > 0) {
+    player.resources = subtractCost(player.resources, { flux });
+  }
+  if (buildingPoints + flux > 0) {
+    Object.assign(player, spendResearchPoints(player, buildingPoints + flux).fields);
+  }
+
+  const silo = buildings.find((b) => b.ark);
+  if (silo?.ark) {
+    const step = stepArk(silo.ark, player.resources);
+    if (step.kind === "countdown") {
+      silo.ark = step.ark;
+      if (step.launched) {
+        checkVictory(state);
+      }
+    } else if (step.kind !== "stalled") {
+      player.resources = subtractCost(player.resources, step.cost);
+      silo.ark = step.ark;
+    }
+  }
+};
+
+/**
+ * End the active player's turn (economy.endTurn): their standing orders
+ * walk on, the next living player's turn starts, and when play comes back
+ * round the turn counter advances, the weather changes and the win
+ * conditions are checked.
+ */
+export const endTurn = (state: SimState) => {
+  const { game } = state;
+  const playerId = getActivePlayerId(state);
+  assertPlayerTurn(state, playerId);
+
+  const ruinUnits: RuinUnit[] = [];
+  for (const unit of state.units.filter((u) => u.playerId === playerId)) {
+    if (unit.moveOrder && unit.movesLeft > 0) {
+      followMoveOrder(state, unit._id, ruinUnits);
+    }
+  }
+  placeRuinUnits(state, ruinUnits);
+
+  const { index: nextIndex, newRound } = getNextSeat(game, (id) => getPlayer(state, id).isAlive);
+  const previousTurn = game.turn;
+  const previousWeather = game.activeWeather;
+  game.activePlayerIndex = nextIndex;
+  if (newRound) {
+    game.turn += 1;
+  }
+  startPlayerTurn(state, getPlayer(state, game.playerOrder[nextIndex]));
+
+  if (newRound) {
+    game.activeWeather = getNextWeather(previousWeather, previousTurn, getGameSettings(game).weather, state.rng);
+    if (previousWeather?.type === "acid_rain") {
+      for (const unit of state.units) {
+        unit.hp = getAcidRainHp(unit, getBuildingAt(state, unit.x, unit.y));
+      }
+    }
+  }
+
+  refreshVision(state);
+  if (newRound) {
+    checkVictory(state);
+  }
+};
@@ -0,0 +1,79 @@
+/**
+ * Simulation Runner
+ *
+ * Plays seeded AI-vs-AI games to the end and sums up who won, how and how
+ * quickly, for balancing FACTION_DEFS, UNIT_DEFS and BUILDING_DEFS
+ * (see scripts/simulate.ts).
+ */
+
+import type { FactionId } from "../convex/lib/constants";
+import { playAITurn } from "./ai";
+import { createSimGame, getActivePlayerId, getPlayer } from "./state";
+import type { SimConfig } from "./state";
+
+export interface SimGameResult {
+  seed: number;
+  factions: FactionId[];
+  winner: FactionId | null; // null = draw or unfinished
+  reason: string; // Victory type, or "unfinished" if the turn cap was hit
+  turns: number; // Last turn played
+}
+
+export interface SimSummary {
+  games: number;
+  averageTurns: number;
+  reasons: Record<string, number>;
+  factions: Partial<Record<FactionId, { played: number; wins: number; winRate: number }>>;
+}
+
+/**
+ * Play one game until a win condition ends it, or stop it as unfinished
+ * once maxTurns rounds have been played.
+ */
+export const simulateGame = (config: SimConfig, maxTurns: number): SimGameResult => {
+  const state = createSimGame(config);
+
+  let turns = 0;
+  while (state.game.status === "active" && state.game.turn <= maxTurns) {
+    turns = state.game.turn;
+    playAITurn(state, getActivePlayerId(state));
+  }
+
+  const winner = state.result?.winner ? getPlayer(state, state.result.winner).faction as FactionId : null;
+  return {
+    seed: config.seed,
+    factions: config.players.map((p) => p.faction),
+    winner,
+    reason: state.result?.reason ?? "unfinished",
+    turns,
+  };
+};
+
+/** Win rate per faction (over the games it played), average length and victory types. */
+export const summarize = (results: SimGameResult[]): SimSummary => {
+  const reasons: Record<string, number> = {};
+  const factions: SimSummary["factions"] = {};
+
+  for (const result of results) {
+    reasons[result.reason] = (reasons[result.reason] ?? 0) + 1;
+    for (const faction of new Set(result.factions)) {
+      const entry = factions[faction] ?? { played: 0, wins: 0, winRate: 0 };
+      entry.played += 1;
+      if (result.winner === faction) {
+        entry.wins += 1;
+      }
+      factions[faction] = entry;
+    }
+  }
+
+  for (const entry of Object.values(factions)) {
+    entry.winRate = entry.wins / entry.played;
+  }
+
+  return {
+    games: results.length,
+    averageTurns: results.length > 0 ? results.reduce((sum, r) => sum + r.turns, 0) / results.length : 0,
+    reasons,
+    factions,
+  };
+};
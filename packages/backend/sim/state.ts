@@ -0,0 +1,180 @@
+/**
+ * Simulation State
+ *
+ * A whole game held in memory for the headless simulator: the same
+ * document shapes as the database (so the AI and the shared rules in
+ * convex/lib/ work on them unchanged), with made-up ids and one RNG for
+ * every roll. Nothing here is deployed or needs a deployment; see ./rules
+ * for what players can do and ./runner for playing games out.
+ */
+
+import type { Doc, Id, TableNames } from "../convex/_generated/dataModel";
+import { FACTION_DEFS, SKY_ROWS, UNIT_DEFS } from "../convex/lib/constants";
+import type { FactionId } from "../convex/lib/constants";
+import { getNewUnit } from "../convex/lib/construction";
+import { coordToIndex } from "../convex/lib/grid";
+import { createRng } from "../convex/lib/random";
+import type { Rng } from "../convex/lib/random";
+import { addResources } from "../convex/lib/resources";
+import { DEFAULT_GAME_SETTINGS } from "../convex/lib/settings";
+import type { GameSettings } from "../convex/lib/settings";
+import type { VictoryResult } from "../convex/lib/victory";
+import { createTileSet, seeAround } from "../convex/lib/vision";
+import type { Vision } from "../convex/lib/vision";
+import { buildMap } from "../convex/world";
+
+export type AIDifficulty = NonNullable<Doc<"players">["aiDifficulty"]>;
+
+export interface SimPlayerConfig {
+  faction: FactionId;
+  difficulty: AIDifficulty;
+}
+
+export interface SimConfig {
+  seed: number;
+  width: number;
+  height: number;
+  players: SimPlayerConfig[];
+  settings?: GameSettings; // Unset = DEFAULT_GAME_SETTINGS
+}
+
+export interface SimState {
+  game: Doc<"games">;
+  players: Doc<"players">[];
+  units: Doc<"units">[];
+  buildings: Doc<"buildings">[];
+  vision: Map<Id<"players">, Vision>;
+  rng: Rng; // Stands in for the game's stored RNG state
+  nextId: number;
+  result: VictoryResult | null; // Set once the game has ended
+}
+
+/** A fresh id for a simulated document; ids only need to be unique within a game. */
+export const newId = <T extends TableNames>(state: SimState, table: T) => `${table}:${state.nextId++}` as Id<T>;
+
+export const getPlayer = (state: SimState, playerId: Id<"players">) => {
+  const player = state.players.find((p) => p._id === playerId);
+  if (!player) {
+    throw new Error("Player not found");
+  }
+  return player;
+};
+
+export const getUnit = (state: SimState, unitId: Id<"units">) => {
+  const unit = state.units.find((u) => u._id === unitId);
+  if (!unit) {
+    throw new Error("Unit not found");
+  }
+  return unit;
+};
+
+export const getUnitAt = (state: SimState, x: number, y: number) =>
+  state.units.find((u) => u.x === x && u.y === y) ?? null;
+
+export const getBuildingAt = (state: SimState, x: number, y: number) =>
+  state.buildings.find((b) => b.x === x && b.y === y) ?? null;
+
+export const getActivePlayerId = (state: SimState) => state.game.playerOrder[state.game.activePlayerIndex];
+
+/** Add a unit to the board, as it looks the moment it is created, and look around from it. */
+export const addUnit = (
+  state: SimState,
+  playerId: Id<"players">,
+  type: string,
+  x: number,
+  y: number,
+  fields: Partial<Doc<"units">> = {},
+) => {
+  const unitDef = UNIT_DEFS[type];
+  const unit: Doc<"units"> = {
+    _id: newId(state, "units"),
+    _creationTime: state.nextId,
+    gameId: state.game._id,
+    playerId,
+    ...getNewUnit(type, { x, y }),
+    ...fields,
+  };
+  state.units.push(unit);
+  if (unitDef.vision) {
+    seeAround(state.game, state.vision.get(playerId)!, x, y, unitDef.vision);
+  }
+  return unit;
+};
+
+/**
+ * Set up a game the way the lobby does: generate the map, seat each player
+ * with a Lander on a free surface tile, then start it with faction bonuses,
+ * the starting tech and a shuffled turn order.
+ */
+export const createSimGame = (config: SimConfig): SimState => {
+  const settings = config.settings ?? DEFAULT_GAME_SETTINGS;
+  const rng = createRng(config.seed);
+  const map = buildMap(config.width, config.height, rng.next, settings.ruinsDensity);
+
+  const state: SimState = {
+    game: {
+      _id: "games:0" as Id<"games">,
+      _creationTime: 0,
+      status: "lobby",
+      turn: 0,
+      activePlayerIndex: 0,
+      width: config.width,
+      height: config.height,
+      seed: config.seed,
+      rngState: rng.state,
+      map,
+      playerOrder: [],
+      createdAt: 0,
+      settings,
+    },
+    players: [],
+    units: [],
+    buildings: [],
+    vision: new Map(),
+    rng,
+    nextId: 1,
+    result: null,
+  };
+
+  config.players.forEach(({ faction, difficulty }, order) => {
+    const player: Doc<"players"> = {
+      _id: newId(state, "players"),
+      _creationTime: state.nextId,
+      gameId: state.game._id,
+      faction,
+      resources: { ...settings.startingResources },
+      techUnlocked: [],
+      isAlive: true,
+      order,
+      isAI: true,
+      aiDifficulty: difficulty,
+      aiName: `${FACTION_DEFS[faction].name} ${order + 1}`,
+    };
+    state.players.push(player);
+    state.game.playerOrder.push(player._id);
+    state.vision.set(player._id, { explored: createTileSet(state.game), visible: createTileSet(state.game) });
+
+    const spawns: { x: number; y: number }[] = [];
+    for (let x = 0; x < config.width; x++) {
+      const tile = map[coordToIndex(config.width, x, SKY_ROWS)];
+      if ((tile.type === "surface" || tile.type === "dirt") && !getUnitAt(state, x, SKY_ROWS)) {
+        spawns.push({ x, y: SKY_ROWS });
+      }
+    }
+    const spawn = rng.pick(spawns);
+    if (!spawn) {
+      throw new Error("No available spawn tiles");
+    }
+    addUnit(state, player._id, "settler", spawn.x, spawn.y);
+  });
+
+  for (const player of state.players) {
+    player.resources = addResources(player.resources, FACTION_DEFS[player.faction as FactionId].startingBonus);
+    player.techUnlocked = ["planetary_survival"];
+  }
+  state.game.playerOrder = rng.shuffle([...state.game.playerOrder]);
+  state.game.status = "active";
+  state.game.turn = 1;
+
+  return state;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { areAllAllied, getPeacefulPlayerIds, getVisionPartners, isUpgrade, sortPair } from "../convex/lib/diplomacy";
+import { makeRelation, playerId } from "./fixtures";
+
+const [a, b, c] = [playerId(1), playerId(2), playerId(3)];
+
+describe("sortPair", () => {
+  test("stores a pair the same way round whoever asks", () => {
+    expect(sortPair(b, a)).toEqual([a, b]);
+    expect(sortPair(a, b)).toEqual([a, b]);
+  });
+});
+
+describe("isUpgrade", () => {
+  test("only offers treaties that improve on the current stance", () => {
+    expect(isUpgrade("war", "peace")).toBe(true);
+    expect(isUpgrade("peace", "alliance")).toBe(true);
+    expect(isUpgrade("peace", "peace")).toBe(false);
+    expect(isUpgrade("alliance", "peace")).toBe(false);
+  });
+});
+
+describe("getPeacefulPlayerIds", () => {
+  test("includes the player and everyone not at war with them", () => {
+    const relations = [makeRelation(a, b, "peace"), makeRelation(a, c, "war"), makeRelation(b, c, "alliance")];
+    expect([...getPeacefulPlayerIds(relations, a)]).toEqual([a, b]);
+    expect([...getPeacefulPlayerIds(relations, c)]).toEqual([c, b]);
+  });
+});
+
+describe("getVisionPartners", () => {
+  test("lists only allies sharing their sight", () => {
+    const relations = [
+      makeRelation(a, b, "alliance", { sharedVision: true }),
+      makeRelation(a, c, "alliance"),
+      makeRelation(b, c, "peace", { sharedVision: true }),
+    ];
+    expect(getVisionPartners(relations, a)).toEqual([b]);
+    expect(getVisionPartners(relations, c)).toEqual([]);
+  });
+});
+
+describe("areAllAllied", () => {
+  test("needs an alliance between every pair", () => {
+    const relations = [makeRelation(a, b, "alliance"), makeRelation(b, c, "alliance")];
+    expect(areAllAllied(relations, [a, b])).toBe(true);
+    expect(areAllAllied(relations, [a, b, c])).toBe(false);
+    expect(areAllAllied([...relations, makeRelation(c, a, "alliance")], [c, b, a])).toBe(true);
+    expect(areAllAllied([makeRelation(a, b, "peace")], [a, b])).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Documents for the tests to build on, in the shapes the database stores.
+ * Only the fields a test cares about need passing; ids are made up.
+ */
+
+import type { Doc, Id } from "../convex/_generated/dataModel";
+import { BUILDING_DEFS } from "../convex/lib/constants";
+import { getNewUnit } from "../convex/lib/construction";
+
+export const GAME_ID = "games:0" as Id<"games">;
+
+export const playerId = (n: number) => `players:${n}` as Id<"players">;
+
+export const makePlayer = (n: number, fields: Partial<Doc<"players">> = {}): Doc<"players"> => ({
+  _id: playerId(n),
+  _creationTime: 0,
+  gameId: GAME_ID,
+  faction: "united_terran",
+  resources: { biomass: 0, ore: 0, flux: 0, rare_earths: 0 },
+  techUnlocked: [],
+  isAlive: true,
+  order: n,
+  ...fields,
+});
+
+export const makeUnit = (owner: Id<"players">, type: string, x = 0, y = 0): Doc<"units"> => ({
+  _id: `units:${owner}:${type}:${x}:${y}` as Id<"units">,
+  _creationTime: 0,
+  gameId: GAME_ID,
+  playerId: owner,
+  ...getNewUnit(type, { x, y }),
+});
+
+export const makeBuilding = (
+  owner: Id<"players">,
+  type: string,
+  fields: Partial<Doc<"buildings">> = {},
+): Doc<"buildings"> => ({
+  _id: `buildings:${owner}:${type}` as Id<"buildings">,
+  _creationTime: 0,
+  gameId: GAME_ID,
+  playerId: owner,
+  type,
+  x: 0,
+  y: 0,
+  hp: BUILDING_DEFS[type].hp,
+  ...fields,
+});
+
+export const makeRelation = (
+  a: Id<"players">,
+  b: Id<"players">,
+  status: Doc<"diplomacy">["status"],
+  fields: Partial<Doc<"diplomacy">> = {},
+): Doc<"diplomacy"> => ({
+  _id: `diplomacy:${a}:${b}` as Id<"diplomacy">,
+  _creationTime: 0,
+  gameId: GAME_ID,
+  playerA: a < b ? a : b,
+  playerB: a < b ? b : a,
+  status,
+  sharedVision: false,
+  since: 1,
+  ...fields,
+});
+
+/** A terrain map from rows of tile types, top row first. */
+export const makeMap = (rows: string[][]) => rows.flat().map((type) => ({ type }));
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { findPath, findReachable, scheduleSteps, stepDirection } from "../convex/lib/pathfinding";
+import type { PathOptions } from "../convex/lib/pathfinding";
+import { makeMap } from "./fixtures";
+
+const walker = (fields: Partial<PathOptions> = {}): PathOptions => ({
+  canFly: false,
+  canCrossHazards: false,
+  blocked: new Set(),
+  ...fields,
+});
+
+describe("findPath", () => {
+  test("goes round the world's edge when that is shorter", () => {
+    const map = makeMap([["dirt", "dirt", "dirt", "dirt", "dirt", "dirt"]]);
+    const path = findPath(map, 6, 1, { x: 0, y: 0 }, { x: 4, y: 0 }, walker());
+
+    expect(path).toEqual([
+      { x: 5, y: 0, cost: 1 },
+      { x: 4, y: 0, cost: 1 },
+    ]);
+    expect(stepDirection({ x: 0, y: 0 }, path![0])).toBe("L");
+    expect(stepDirection({ x: 5, y: 0 }, { x: 0, y: 0 })).toBe("R");
+  });
+
+  test("takes the cheaper route over the shorter one", () => {
+    const map = makeMap([
+      ["dirt", "stone", "stone", "stone", "dirt", "bedrock", "bedrock"],
+      ["dirt", "dirt", "dirt", "dirt", "dirt", "bedrock", "bedrock"],
+    ]);
+    const path = findPath(map, 7, 2, { x: 0, y: 0 }, { x: 4, y: 0 }, walker());
+
+    expect(path?.map(({ x, y }) => [x, y])).toEqual([[0, 1], [1, 1], [2, 1], [3, 1], [4, 1], [4, 0]]);
+  });
+
+  test("keeps out of magma until Heat Shield is researched", () => {
+    const map = makeMap([
+      ["dirt", "magma", "dirt", "bedrock"],
+      ["bedrock", "bedrock", "bedrock", "bedrock"],
+    ]);
+
+    expect(findPath(map, 4, 2, { x: 0, y: 0 }, { x: 2, y: 0 }, walker())).toBeNull();
+    expect(findPath(map, 4, 2, { x: 0, y: 0 }, { x: 2, y: 0 }, walker({ canCrossHazards: true }))).toEqual([
+      { x: 1, y: 0, cost: 1 },
+      { x: 2, y: 0, cost: 1 },
+    ]);
+  });
+
+  test("lets only flyers through the sky, at one move a tile", () => {
+    const map = makeMap([
+      ["sky", "sky", "sky", "sky", "sky"],
+      ["dirt", "bedrock", "stone", "bedrock", "bedrock"],
+    ]);
+
+    expect(findPath(map, 5, 2, { x: 0, y: 1 }, { x: 2, y: 1 }, walker())).toBeNull();
+    const path = findPath(map, 5, 2, { x: 0, y: 1 }, { x: 2, y: 1 }, walker({ canFly: true }));
+    expect(path?.map(({ x, y, cost }) => [x, y, cost])).toEqual([[0, 0, 1], [1, 0, 1], [2, 0, 1], [2, 1, 1]]);
+  });
+
+  test("plans round blocked tiles and only over known ones", () => {
+    const map = makeMap([
+      ["dirt", "dirt", "dirt"],
+      ["dirt", "dirt", "dirt"],
+    ]);
+    const blocked = walker({ blocked: new Set([1]) });
+    expect(findPath(map, 3, 2, { x: 0, y: 0 }, { x: 2, y: 0 }, blocked)?.map(({ x, y }) => [x, y])).toEqual([
+      [2, 0],
+    ]);
+
+    // Only the top row explored, bar the tile in the way
+    const map4 = makeMap([
+      ["dirt", "dirt", "dirt", "dirt"],
+      ["dirt", "dirt", "dirt", "dirt"],
+    ]);
+    const known = new Uint8Array([0b1101]);
+    expect(findPath(map4, 4, 2, { x: 0, y: 0 }, { x: 2, y: 0 }, walker({ known }))?.map(({ x, y }) => [x, y])).toEqual([
+      [3, 0],
+      [2, 0],
+    ]);
+    expect(findPath(map4, 4, 2, { x: 0, y: 0 }, { x: 2, y: 1 }, walker({ known }))).toBeNull();
+  });
+
+  test("refuses steps dearer than the unit's full moves", () => {
+    const map = makeMap([["dirt", "stone", "dirt"]]);
+    expect(findPath(map, 3, 1, { x: 0, y: 0 }, { x: 1, y: 0 }, walker({ maxStepCost: 1 }))).toBeNull();
+  });
+});
+
+describe("findReachable", () => {
+  test("counts the cheapest cost to each tile within the budget", () => {
+    const map = makeMap([["dirt", "stone", "dirt", "dirt", "dirt"]]);
+    const reachable = findReachable(map, 5, 1, { x: 0, y: 0 }, 2, walker());
+
+    expect(Object.fromEntries(reachable)).toEqual({ 1: 2, 4: 1, 3: 2 });
+  });
+});
+
+describe("scheduleSteps", () => {
+  test("waits a turn rather than split a step", () => {
+    const steps = scheduleSteps(
+      [
+        { x: 1, y: 0, cost: 1 },
+        { x: 2, y: 0, cost: 2 },
+        { x: 3, y: 0, cost: 1 },
+      ],
+      2,
+      2,
+    );
+    expect(steps.map((step) => step.turn)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { RESEARCH_FLUX_PER_TURN } from "../convex/lib/constants";
+import { appendToResearchQueue, getResearchIncome, getTechCost, spendResearchPoints } from "../convex/lib/research";
+import { makePlayer } from "./fixtures";
+
+const researcher = (fields: Parameters<typeof makePlayer>[1] = {}) =>
+  makePlayer(1, { techUnlocked: ["planetary_survival"], ...fields });
+
+describe("spendResearchPoints", () => {
+  test("carries the overflow from a finished tech on to the next", () => {
+    const player = researcher({ researchQueue: ["logistics", "deep_core"] });
+    const { fields, completed } = spendResearchPoints(player, 40);
+
+    expect(completed).toEqual(["logistics"]);
+    expect(fields).toEqual({
+      techUnlocked: ["planetary_survival", "logistics"],
+      researchQueue: ["deep_core"],
+      researchProgress: { deep_core: 15 },
+      researchBank: 0,
+    });
+  });
+
+  test("finishes several techs in one go and builds on earlier progress", () => {
+    const player = researcher({
+      researchQueue: ["logistics", "deep_core"],
+      researchProgress: { deep_core: 30 },
+    });
+    const { fields, completed } = spendResearchPoints(player, 45);
+
+    expect(completed).toEqual(["logistics", "deep_core"]);
+    expect(fields.researchQueue).toEqual([]);
+    expect(fields.researchProgress).toEqual({});
+    expect(fields.researchBank).toBe(0);
+  });
+
+  test("banks what the queue can't use, and spends the bank later", () => {
+    const banked = spendResearchPoints(researcher({ researchQueue: ["logistics"] }), 30).fields;
+    expect(banked.researchBank).toBe(5);
+
+    const player = researcher({ ...banked, researchQueue: ["deep_core"] });
+    const { fields } = spendResearchPoints(player, 10);
+    expect(fields.researchProgress).toEqual({ deep_core: 15 });
+    expect(fields.researchBank).toBe(0);
+  });
+
+  test("charges Cyber Synapse 10% less", () => {
+    expect(getTechCost("logistics", "cyber_synapse")).toBe(22);
+    const player = researcher({ faction: "cyber_synapse", researchQueue: ["logistics"] });
+    expect(spendResearchPoints(player, 22).completed).toEqual(["logistics"]);
+  });
+});
+
+describe("appendToResearchQueue", () => {
+  test("accepts a tech whose prerequisites are queued ahead of it", () => {
+    const player = researcher({ researchQueue: ["logistics"] });
+    expect(appendToResearchQueue(player, "deep_core")).toEqual(["logistics", "deep_core"]);
+  });
+
+  test("refuses a tech whose prerequisites are missing", () => {
+    expect(() => appendToResearchQueue(researcher(), "deep_core")).toThrow("Requires Logistics first");
+  });
+});
+
+describe("getResearchIncome", () => {
+  test("draws only the Flux the queue still needs", () => {
+    const player = researcher({
+      resources: { biomass: 0, ore: 0, flux: 100, rare_earths: 0 },
+      researchQueue: ["logistics"],
+      researchProgress: { logistics: 20 },
+    });
+    expect(getResearchIncome(player, [])).toEqual({ buildingPoints: 0, flux: 5 });
+
+    const idle = researcher({ resources: { biomass: 0, ore: 0, flux: 100, rare_earths: 0 } });
+    expect(getResearchIncome(idle, [])).toEqual({ buildingPoints: 0, flux: 0 });
+
+    const eager = researcher({
+      resources: { biomass: 0, ore: 0, flux: 100, rare_earths: 0 },
+      researchQueue: ["logistics", "deep_core"],
+    });
+    expect(getResearchIncome(eager, []).flux).toBe(RESEARCH_FLUX_PER_TURN);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { SKY_ROWS } from "../convex/lib/constants";
+import { coordToIndex } from "../convex/lib/grid";
+import { DEFAULT_GAME_SETTINGS } from "../convex/lib/settings";
+import { endTurn, moveUnit, moveUnitTo } from "../sim/rules";
+import { simulateGame } from "../sim/runner";
+import { addUnit, createSimGame, getActivePlayerId, getPlayer } from "../sim/state";
+import type { SimConfig } from "../sim/state";
+import { makeBuilding } from "./fixtures";
+
+const WIDTH = 32;
+const ROW = SKY_ROWS; // The surface
+
+const config: SimConfig = {
+  seed: 7,
+  width: WIDTH,
+  height: 16,
+  players: [
+    { faction: "united_terran", difficulty: "medium" },
+    { faction: "xeno_hive", difficulty: "medium" },
+  ],
+};
+
+// An empty board with the surface row all dirt, the active player first
+const setUp = () => {
+  const state = createSimGame(config);
+  state.units = [];
+  state.buildings = [];
+  for (let x = 0; x < WIDTH; x++) {
+    state.game.map[coordToIndex(WIDTH, x, ROW)] = { type: "dirt" };
+  }
+  const me = getActivePlayerId(state);
+  const them = state.game.playerOrder.find((id) => id !== me)!;
+  return { state, me, them };
+};
+
+describe("sim rules", () => {
+  test("units walk off one edge of the world and in at the other", () => {
+    const { state, me } = setUp();
+    const marine = addUnit(state, me, "marine", 0, ROW);
+
+    moveUnit(state, marine._id, "L");
+    expect(marine).toMatchObject({ x: WIDTH - 1, y: ROW, movesLeft: 1 });
+  });
+
+  test("magma is closed until Heat Shield is researched", () => {
+    const { state, me } = setUp();
+    state.game.map[coordToIndex(WIDTH, 1, ROW)] = { type: "magma" };
+    const marine = addUnit(state, me, "marine", 0, ROW);
+
+    expect(() => moveUnit(state, marine._id, "R")).toThrow("Hazardous terrain!");
+    getPlayer(state, me).techUnlocked.push("heat_shield");
+    moveUnit(state, marine._id, "R");
+    expect(marine.x).toBe(1);
+  });
+
+  test("tanks crush the enemy buildings they drive onto", () => {
+    const { state, me, them } = setUp();
+    const tank = addUnit(state, me, "tank", 0, ROW);
+    state.buildings.push(makeBuilding(them, "farm", { x: 1, y: ROW }));
+    state.game.map[coordToIndex(WIDTH, 1, ROW)] = { type: "farm" };
+
+    moveUnit(state, tank._id, "R");
+    expect(state.buildings).toEqual([]);
+    expect(state.game.map[coordToIndex(WIDTH, 1, ROW)].type).toBe("surface");
+  });
+
+  test("standing orders stop at a unit they couldn't see, and keep the rest of the route", () => {
+    const { state, me, them } = setUp();
+    const rover = addUnit(state, me, "rover", 0, ROW);
+    addUnit(state, them, "marine", 3, ROW);
+    state.vision.get(me)!.visible.fill(0); // The marine is out of sight
+
+    moveUnitTo(state, rover._id, 5, ROW);
+    expect(rover).toMatchObject({ x: 2, movesLeft: 2 });
+    expect(rover.moveOrder).toEqual({ x: 5, y: ROW, path: [3, 4, 5].map((x) => ({ x, y: ROW })) });
+  });
+
+  test("play passes round the table and the turn moves on with each round", () => {
+    const { state, me, them } = setUp();
+    addUnit(state, me, "marine", 0, ROW);
+    addUnit(state, them, "marine", 10, ROW);
+
+    endTurn(state);
+    expect(getActivePlayerId(state)).toBe(them);
+    expect(state.game.turn).toBe(1);
+    endTurn(state);
+    expect(getActivePlayerId(state)).toBe(me);
+    expect(state.game.turn).toBe(2);
+  });
+});
+
+describe("simulateGame", () => {
+  test("plays the same seed to the same result", () => {
+    const settings = {
+      ...DEFAULT_GAME_SETTINGS,
+      turnLimit: 40,
+      victories: { ...DEFAULT_GAME_SETTINGS.victories, score: true },
+    };
+    const result = simulateGame({ ...config, settings }, 40);
+
+    expect(result).toEqual({
+      seed: 7,
+      factions: ["united_terran", "xeno_hive"],
+      winner: "united_terran",
+      reason: "score",
+      turns: 40,
+    });
+    expect(simulateGame({ ...config, settings }, 40)).toEqual(result);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { SCORE } from "../convex/lib/constants";
+import { scorePlayer } from "../convex/lib/score";
+import { DEFAULT_GAME_SETTINGS } from "../convex/lib/settings";
+import type { GameSettings } from "../convex/lib/settings";
+import { decideVictory } from "../convex/lib/victory";
+import type { VictoryFacts } from "../convex/lib/victory";
+import { makeBuilding, makePlayer, makeUnit, playerId } from "./fixtures";
+
+const settings = (victories: Partial<GameSettings["victories"]> = {}, turnLimit?: number): GameSettings => ({
+  ...DEFAULT_GAME_SETTINGS,
+  victories: { ...DEFAULT_GAME_SETTINGS.victories, ...victories },
+  turnLimit,
+});
+
+const noFacts: VictoryFacts = { allAllied: false, launched: [], scores: [] };
+
+const terran = makePlayer(1, { faction: "united_terran" });
+const hive = makePlayer(2, { faction: "xeno_hive" });
+
+const score = (n: number, total: number) => ({
+  playerId: playerId(n),
+  cities: 0,
+  buildings: 0,
+  units: 0,
+  tech: 0,
+  exploration: 0,
+  resources: 0,
+  total,
+});
+
+describe("decideVictory", () => {
+  test("calls a draw when nobody is left", () => {
+    expect(decideVictory(settings(), 5, [], noFacts)?.reason).toBe("draw");
+  });
+
+  test("gives the last player standing a Domination victory, if it is on", () => {
+    expect(decideVictory(settings(), 5, [terran], noFacts)).toMatchObject({
+      winner: terran._id,
+      reason: "domination",
+    });
+    expect(decideVictory(settings({ domination: false }), 5, [terran], noFacts)).toBeNull();
+  });
+
+  test("lets allies win together under their own toggle", () => {
+    const allied = { ...noFacts, allAllied: true };
+    expect(decideVictory(settings(), 5, [terran, hive], allied)).toMatchObject({
+      winner: null,
+      winners: [terran._id, hive._id],
+      reason: "alliance",
+    });
+    expect(decideVictory(settings({ alliance: false }), 5, [terran, hive], allied)).toBeNull();
+    expect(decideVictory(settings({ domination: false, alliance: true }), 5, [terran, hive], allied)?.reason).toBe(
+      "alliance",
+    );
+  });
+
+  test("ties alliance victory to domination for games set up before it had a toggle", () => {
+    const allied = { ...noFacts, allAllied: true };
+    const legacy = (domination: boolean) => settings({ domination, alliance: undefined });
+    expect(decideVictory(legacy(true), 5, [terran, hive], allied)?.reason).toBe("alliance");
+    expect(decideVictory(legacy(false), 5, [terran, hive], allied)).toBeNull();
+  });
+
+  test("crowns a player whose Ark has launched", () => {
+    const facts = { ...noFacts, launched: [hive._id] };
+    expect(decideVictory(settings(), 5, [terran, hive], facts)).toMatchObject({
+      winner: hive._id,
+      reason: "ascension",
+    });
+    expect(decideVictory(settings({ ascension: false }), 5, [terran, hive], facts)).toBeNull();
+  });
+
+  test("decides on score once the turn limit has passed", () => {
+    const scored = settings({ score: true }, 30);
+    const facts = { ...noFacts, scores: [score(2, 120), score(1, 90)] };
+
+    expect(decideVictory(scored, 30, [terran, hive], facts)).toBeNull();
+    expect(decideVictory(scored, 31, [terran, hive], facts)).toMatchObject({
+      winner: hive._id,
+      reason: "score",
+      message: "xeno_hive led with 120 points! Score Victory!",
+    });
+  });
+
+  test("calls a draw at the turn limit on a tied score or with score victory off", () => {
+    const tied = { ...noFacts, scores: [score(1, 100), score(2, 100)] };
+    expect(decideVictory(settings({ score: true }, 30), 31, [terran, hive], tied)).toMatchObject({
+      winner: null,
+      reason: "turn_limit",
+    });
+    expect(decideVictory(settings({}, 30), 31, [terran, hive], noFacts)).toMatchObject({
+      winner: null,
+      reason: "turn_limit",
+      message: "The turn limit of 30 was reached. Draw!",
+    });
+  });
+});
+
+describe("scorePlayer", () => {
+  test("scores the player's own board, tech, map and stockpile", () => {
+    const player = makePlayer(1, {
+      techUnlocked: ["planetary_survival", "logistics"],
+      resources: { biomass: 25, ore: 10, flux: 0 }, // Saved before Rare Earths existed
+    });
+    const other = playerId(2);
+    const units = [makeUnit(player._id, "marine"), makeUnit(player._id, "worker", 1), makeUnit(other, "marine")];
+    const buildings = [
+      makeBuilding(player._id, "city"),
+      makeBuilding(player._id, "farm"),
+      makeBuilding(player._id, "barracks", { isConstructing: true }),
+      makeBuilding(other, "city"),
+    ];
+
+    expect(scorePlayer(player, units, buildings, 45)).toEqual({
+      playerId: player._id,
+      cities: SCORE.PER_CITY,
+      buildings: SCORE.PER_BUILDING,
+      units: 2 * SCORE.PER_UNIT,
+      tech: 3 * SCORE.PER_TECH_TIER, // Tiers 0 and 1, plus one each
+      exploration: 4,
+      resources: 3,
+      total: SCORE.PER_CITY + SCORE.PER_BUILDING + 2 * SCORE.PER_UNIT + 3 * SCORE.PER_TECH_TIER + 4 + 3,
+    });
+  });
+});